@@ -19,10 +19,24 @@ export default defineConfig({
       use: { ...devices['Desktop Chrome'] },
     },
   ],
-  webServer: {
-    command: 'npm start',
-    url: 'http://localhost:8081',
-    reuseExistingServer: true,
-    timeout: 30000,
-  },
+  // Runs fully offline: the bridge dials the mock Chatter BBS instead of chatter.pw.
+  webServer: [
+    {
+      command: 'npm run mock-bbs',
+      port: 2323,
+      reuseExistingServer: true,
+      timeout: 120000,
+    },
+    {
+      command: 'npm start',
+      url: 'http://localhost:8081',
+      reuseExistingServer: true,
+      timeout: 30000,
+      env: {
+        CHATTER_BBS_HOST: '127.0.0.1',
+        CHATTER_BBS_PORT: '2323',
+        CHATTER_BBS_PROTOCOL: 'telnet',
+      },
+    },
+  ],
 });
@@ -1,4 +1,6 @@
 import { ChatStore } from './state/chatStore.js';
+import { createChatStatePersistence, createDefaultStorageAdapter } from './state/persistence.js';
+import { seedState } from './state/seed.js';
 import { renderCheatSheet } from './ui/cheatsheet.js';
 import { renderSession } from './ui/sessionCard.js';
 import { renderTerminal } from './ui/terminal.js';
@@ -133,7 +135,21 @@ const setupViewSwitcher = (root: HTMLElement, options?: { enableTouchGestures?:
 
 
 export const mountChatter = (root: HTMLElement) => {
-  const store = new ChatStore();
+  const persistence = createChatStatePersistence({
+    adapter: createDefaultStorageAdapter(),
+    defaults: seedState
+  });
+  const store = new ChatStore(seedState, persistence);
+  let disposed = false;
+  void persistence.load().then((saved) => {
+    if (saved && !disposed) {
+      store.hydrate(saved);
+    }
+  });
+  const handlePageHide = () => {
+    void persistence.flush();
+  };
+  window.addEventListener('pagehide', handlePageHide);
   const loginGate = setupLoginGate(root, store);
 
   const mobilePlatform = detectMobilePlatform();
@@ -176,7 +192,6 @@ export const mountChatter = (root: HTMLElement) => {
   const themeToggle = setupThemeToggle(root);
 
   let runtime: ReturnType<typeof renderTerminal> | null = null;
-  let disposed = false;
 
   const render = () => {
     runtime = renderTerminal(store, terminalElement, {
@@ -202,5 +217,7 @@ export const mountChatter = (root: HTMLElement) => {
     themeToggle.dispose();
     unsubscribe();
     loginGate.dispose();
+    window.removeEventListener('pagehide', handlePageHide);
+    persistence.dispose();
   };
 };
@@ -0,0 +1,637 @@
+import {
+  choice,
+  custom,
+  defineCommand,
+  idRange,
+  integer,
+  isoDate,
+  optional,
+  pollOptions,
+  suggest,
+  text,
+  url,
+  word
+} from '../state/commandGrammar.js';
+import type { ArgumentSpec, CommandDefinition, CommandSpec, ParseOutcome } from '../state/commandGrammar.js';
+import type { AttachmentKind, ReactionType, SystemPalette, TranslationSettings } from '../state/types.js';
+
+// Every slash command Chatter understands, described once. The parser, the cheat sheet
+// (commandCatalog.ts) and the command reference in the utility panel are all generated from this list.
+
+export type CommandAction =
+  | { type: 'help' }
+  | { type: 'motd' }
+  | { type: 'exit' }
+  | { type: 'users' }
+  | { type: 'connected' }
+  | { type: 'search'; query: string }
+  | { type: 'nick'; name: string }
+  | { type: 'status'; status: string | null }
+  | { type: 'show-status'; username: string }
+  | { type: 'set-os'; os: string }
+  | { type: 'get-os'; username: string }
+  | { type: 'birthday'; date: string }
+  | { type: 'soulmate' }
+  | { type: 'pair' }
+  | { type: 'reply'; messageId: string; body: string }
+  | { type: 'view-message'; messageId: string }
+  | { type: 'pm'; username: string; body: string }
+  | { type: 'react'; reaction: ReactionType; messageId: string }
+  | { type: 'delete-messages'; ids: string[] }
+  | { type: 'attach'; kind: AttachmentKind; url: string; caption?: string }
+  | { type: 'ascii-art' }
+  | { type: 'handle-color'; color: string }
+  | { type: 'system-color'; palette: Partial<SystemPalette> | 'reset' }
+  | { type: 'palette'; name: string }
+  | { type: 'translation'; settings: Partial<TranslationSettings> }
+  | { type: 'game'; game: 'tetris' | 'liargame' | 'alpha' }
+  | { type: 'suspend-game' }
+  | { type: 'gemini'; enabled: boolean }
+  | { type: 'gemini-unfreeze' }
+  | { type: 'eliza'; enabled: boolean }
+  | { type: 'eliza-chat'; message: string }
+  | { type: 'today' }
+  | { type: 'date'; zone: string }
+  | { type: 'weather'; region: string; city: string }
+  | { type: 'grant'; ip: string }
+  | { type: 'revoke'; ip: string }
+  | { type: 'ban'; target: string }
+  | { type: 'pardon'; target: string }
+  | { type: 'block'; target: string }
+  | { type: 'unblock'; target: string }
+  | { type: 'poke'; username: string }
+  | { type: 'kick'; username: string }
+  | { type: 'create-poll'; label: string; question: string; options: string[]; multiple: boolean }
+  | { type: 'show-poll'; label: string }
+  | { type: 'elect'; label: string; choice: string }
+  | { type: 'quick-vote'; index: number }
+  | { type: 'bbs-list' }
+  | { type: 'bbs-comment'; threadId: string; body: string }
+  | { type: 'bbs-regen' }
+  | { type: 'bbs-delete'; threadId: string }
+  | { type: 'rss-list' }
+  | { type: 'rss-read'; tag: string }
+  | { type: 'rss-add'; url: string; tag: string }
+  // Commands that only change server-side state the web client does not mirror.
+  | { type: 'remote'; command: string };
+
+const command = <const A extends readonly ArgumentSpec<unknown>[]>(spec: CommandSpec<CommandAction, A>) =>
+  defineCommand<CommandAction, A>(spec);
+
+const remote = (name: string) => ({ type: 'remote', command: name }) as const;
+
+export const REACTION_COMMANDS: readonly ReactionType[] = ['good', 'sad', 'cool', 'angry', 'checked', 'love', 'wtf'];
+
+const onOff = (name: string) => choice(name, ['on', 'off'] as const);
+
+const language = (name: string) => word(name, '<language|off>');
+
+const splitColours = (raw: string, usage: string, min: number, max: number): ParseOutcome<string[]> => {
+  const parts = raw.replace(/^\(|\)$/gu, '').split(';').map((part) => part.trim());
+  return parts.length >= min && parts.length <= max && parts.every(Boolean)
+    ? { ok: true, value: parts }
+    : { ok: false, error: `Write ${usage} with ${min} to ${max} values separated by ;.` };
+};
+
+const attachment = (kind: AttachmentKind, name: string, help: string, description: string, ui: string) =>
+  command({
+    name,
+    args: [url('url'), optional(text('caption'))],
+    help,
+    catalog: { description, ui },
+    build: ([link, caption]) => ({ type: 'attach', kind, url: link, caption })
+  });
+
+export const commandDefinitions: readonly CommandDefinition<CommandAction>[] = [
+  command({
+    name: 'help',
+    args: [],
+    help: 'show this message',
+    catalog: { description: 'Show the CLI help output.', ui: 'Session card → “Help overview” link.' },
+    build: () => ({ type: 'help' })
+  }),
+  command({
+    name: 'exit',
+    args: [],
+    help: 'leave the chat',
+    catalog: { description: 'Leave the SSH session.', ui: 'Session card → Log out button.' },
+    build: () => ({ type: 'exit' })
+  }),
+  command({
+    name: 'nick',
+    args: [word('name')],
+    help: 'change your display name',
+    catalog: { description: 'Change your display name.', ui: 'Identity → Profile → Nickname form.' },
+    build: ([name]) => ({ type: 'nick', name })
+  }),
+  command({
+    name: 'pm',
+    args: [suggest(word('username'), 'users'), text('message')],
+    help: 'send a private message',
+    catalog: {
+      description: 'Send a private message to a user.',
+      ui: 'Messaging → Private messages → Compose form.'
+    },
+    build: ([username, body]) => ({ type: 'pm', username, body })
+  }),
+  command({
+    name: 'motd',
+    args: [],
+    help: 'view the message of the day',
+    catalog: {
+      description: 'Show the server message of the day.',
+      ui: 'Session card → “Message of the day” banner.'
+    },
+    build: () => ({ type: 'motd' })
+  }),
+  command({
+    name: 'status',
+    args: [text('status', '<message|clear>')],
+    help: 'set your profile status',
+    catalog: { description: 'Set or clear a status message.', ui: 'Identity → Profile → Status editor.' },
+    build: ([status]) => ({ type: 'status', status: status.toLowerCase() === 'clear' ? null : status })
+  }),
+  command({
+    name: 'showstatus',
+    args: [suggest(word('username'), 'users')],
+    help: "view someone else's status",
+    catalog: {
+      description: "View someone else's status.",
+      ui: 'Identity → Directory tools → Status lookup.'
+    },
+    build: ([username]) => ({ type: 'show-status', username })
+  }),
+  command({
+    name: 'users',
+    args: [],
+    help: 'announce the number of connected users',
+    catalog: {
+      description: 'Announce the number of connected users.',
+      ui: 'Identity → Directory tools → “Connected now” counter.'
+    },
+    build: () => ({ type: 'users' })
+  }),
+  command({
+    name: 'search',
+    args: [text('text')],
+    help: 'search for users whose name matches text',
+    catalog: {
+      description: 'Search for users whose name matches the text.',
+      ui: 'Identity → Directory tools → User search field.'
+    },
+    build: ([query]) => ({ type: 'search', query })
+  }),
+  command({
+    name: 'chat',
+    args: [suggest(word('message-id'), 'messages')],
+    help: 'show a past message by its identifier',
+    catalog: { description: 'View a past message by id.', ui: 'Messaging → History tools → Message lookup.' },
+    build: ([messageId]) => ({ type: 'view-message', messageId })
+  }),
+  command({
+    name: 'reply',
+    args: [suggest(word('message-id', '<message-id|r<reply-id>>'), 'messages'), text('text')],
+    help: 'reply to a message or reply',
+    catalog: {
+      description: 'Reply to a specific message or reply.',
+      ui: 'Chat feed → Reply dropdown in the composer.'
+    },
+    build: ([messageId, body]) => ({ type: 'reply', messageId, body })
+  }),
+  attachment('image', 'image', 'share an image link', 'Share an image link.', 'Media → Add attachment (image tab).'),
+  attachment('video', 'video', 'share a video link', 'Share a video clip.', 'Media → Add attachment (video tab).'),
+  attachment('audio', 'audio', 'share an audio clip', 'Share an audio clip.', 'Media → Add attachment (audio tab).'),
+  attachment(
+    'file',
+    'files',
+    'share a downloadable file',
+    'Share a downloadable file.',
+    'Media → Add attachment (files tab).'
+  ),
+  command({
+    name: 'mail',
+    args: [optional(text('action'), '[inbox|send <user> <message>|clear]')],
+    help: 'manage your mailbox',
+    build: () => remote('mail')
+  }),
+  command({
+    name: 'profilepic',
+    args: [],
+    help: 'open the ASCII art profile picture composer',
+    build: () => remote('profilepic')
+  }),
+  command({
+    name: 'asciiart',
+    args: [],
+    help: 'open the ASCII art composer (max 128 lines, 1/10 min per IP)',
+    catalog: { description: 'Open the ASCII art composer.', ui: 'Media → ASCII art studio.' },
+    build: () => ({ type: 'ascii-art' })
+  }),
+  command({
+    name: 'game',
+    args: [choice('game', ['tetris', 'liargame', 'alpha'] as const)],
+    help: 'start a minigame in the chat (use /suspend! or Ctrl+Z to exit)',
+    catalog: { description: 'Start a terminal minigame.', ui: 'Assistants → Games launcher.' },
+    build: ([game]) => ({ type: 'game', game })
+  }),
+  command({
+    name: 'color',
+    args: [
+      custom('colours', {
+        usage: '(text;highlight[;bold])',
+        rest: true,
+        parse: (raw) => splitColours(raw, '(text;highlight[;bold])', 2, 3)
+      })
+    ],
+    help: 'style your handle',
+    catalog: { description: 'Style your handle colours.', ui: 'Appearance → Handle colour controls.' },
+    build: ([colours]) => ({ type: 'handle-color', color: colours.join(';') })
+  }),
+  command({
+    name: 'systemcolor',
+    args: [
+      custom<string[] | 'reset'>('colours', {
+        usage: '(fg;background[;highlight][;bold])',
+        rest: true,
+        parse: (raw) =>
+          raw.toLowerCase() === 'reset'
+            ? { ok: true, value: 'reset' }
+            : splitColours(raw, '(fg;background[;highlight][;bold])', 2, 4)
+      })
+    ],
+    help: 'style the interface (use /systemcolor reset to restore defaults)',
+    catalog: { description: 'Style the interface theme.', ui: 'Appearance → System palette picker.' },
+    build: ([colours]) => {
+      if (colours === 'reset') {
+        return { type: 'system-color', palette: 'reset' };
+      }
+      const [foreground, background, third, fourth] = colours;
+      const boldFlag = (value: string | undefined) => value?.toLowerCase() === 'bold';
+      const palette: Partial<SystemPalette> = { foreground, background };
+      if (third && !boldFlag(third)) {
+        palette.highlight = third;
+      }
+      palette.bold = boldFlag(third) || boldFlag(fourth);
+      return { type: 'system-color', palette };
+    }
+  }),
+  command({
+    name: 'set-trans-lang',
+    args: [language('language')],
+    help: 'translate terminal output to a target language',
+    catalog: {
+      description: 'Choose translation language for incoming chat.',
+      ui: 'Appearance → Translation settings.'
+    },
+    build: ([sourceLang]) => ({ type: 'translation', settings: { sourceLang } })
+  }),
+  command({
+    name: 'set-target-lang',
+    args: [language('language')],
+    help: 'translate your outgoing messages',
+    catalog: {
+      description: 'Choose the language for outgoing messages.',
+      ui: 'Appearance → Translation settings.'
+    },
+    build: ([targetLang]) => ({ type: 'translation', settings: { targetLang } })
+  }),
+  command({
+    name: 'weather',
+    args: [word('region'), text('city')],
+    help: 'show the weather for a region and city',
+    catalog: { description: 'Show the weather for a location.', ui: 'Assistants → Weather lookup.' },
+    build: ([region, city]) => ({ type: 'weather', region, city })
+  }),
+  command({
+    name: 'translate',
+    args: [onOff('translate')],
+    help: 'enable or disable translation after configuring languages',
+    catalog: { description: 'Toggle automatic translation.', ui: 'Appearance → Translation toggle.' },
+    build: ([state]) => ({ type: 'translation', settings: { enabled: state === 'on' } })
+  }),
+  command({
+    name: 'translate-scope',
+    args: [choice('scope', ['chat', 'chat-nohistory', 'all'] as const)],
+    help: 'limit translation to chat/BBS, optionally skipping scrollback (operator only)',
+    catalog: {
+      description: 'Limit how translation is applied.',
+      ui: 'Appearance → Translation scope selector.'
+    },
+    build: ([scope]) => ({ type: 'translation', settings: { scope } })
+  }),
+  command({
+    name: 'gemini',
+    args: [onOff('gemini')],
+    help: 'toggle Gemini provider (operator only)',
+    build: ([state]) => ({ type: 'gemini', enabled: state === 'on' })
+  }),
+  command({
+    name: 'gemini-unfreeze',
+    args: [],
+    help: 'clear automatic Gemini cooldown (operator only)',
+    catalog: { description: 'Clear the Gemini cooldown.', ui: 'Assistants → Gemini cooldown reset.' },
+    build: () => ({ type: 'gemini-unfreeze' })
+  }),
+  command({
+    name: 'captcha',
+    args: [onOff('captcha')],
+    help: 'toggle captcha requirement (operator only)',
+    build: () => remote('captcha')
+  }),
+  command({
+    name: 'eliza',
+    args: [onOff('eliza')],
+    help: 'toggle the Eliza moderator persona (operator only)',
+    catalog: { description: 'Toggle the Eliza moderator persona.', ui: 'Assistants → Eliza toggle.' },
+    build: ([state]) => ({ type: 'eliza', enabled: state === 'on' })
+  }),
+  command({
+    name: 'eliza-chat',
+    args: [text('message')],
+    help: 'chat with Eliza using shared memories',
+    catalog: { description: 'Chat with Eliza using shared memories.', ui: 'Assistants → Eliza chat console.' },
+    build: ([message]) => ({ type: 'eliza-chat', message })
+  }),
+  command({
+    name: 'chat-spacing',
+    args: [integer('spacing', 0, 5)],
+    help: 'reserve blank lines before translated captions in chat',
+    catalog: {
+      description: 'Reserve blank lines before translated captions.',
+      ui: 'Appearance → Caption spacing slider.'
+    },
+    build: ([spacing]) => ({ type: 'translation', settings: { spacing } })
+  }),
+  command({
+    name: 'mode',
+    args: [choice('mode', ['chat', 'command', 'toggle'] as const)],
+    help: "switch between chat mode and command mode (no '/' needed in command mode)",
+    build: () => remote('mode')
+  }),
+  command({
+    name: 'palette',
+    args: [suggest(word('name'), 'palettes')],
+    help: 'apply a predefined interface palette (use “palette list” to explore)',
+    catalog: { description: 'Apply a predefined palette.', ui: 'Appearance → Palette presets.' },
+    build: ([name]) => (name.toLowerCase() === 'list' ? remote('palette') : { type: 'palette', name })
+  }),
+  command({
+    name: 'today',
+    args: [],
+    help: "discover today's function (once per day)",
+    catalog: { description: "Discover today's function.", ui: 'Assistants → Daily curiosities.' },
+    build: () => ({ type: 'today' })
+  }),
+  command({
+    name: 'date',
+    args: [word('timezone')],
+    help: 'view the server time in another timezone',
+    catalog: { description: 'View the server time in another timezone.', ui: 'Assistants → Timezone clock.' },
+    build: ([zone]) => ({ type: 'date', zone })
+  }),
+  command({
+    name: 'os',
+    args: [text('name')],
+    help: 'record the operating system you use',
+    catalog: { description: 'Record your operating system.', ui: 'Identity → Profile → Operating system selector.' },
+    build: ([os]) => ({ type: 'set-os', os })
+  }),
+  command({
+    name: 'getos',
+    args: [suggest(word('username'), 'users')],
+    help: "look up someone else's recorded operating system",
+    catalog: { description: "Look up a user's operating system.", ui: 'Identity → Directory tools → OS lookup.' },
+    build: ([username]) => ({ type: 'get-os', username })
+  }),
+  command({
+    name: 'birthday',
+    args: [isoDate('birthday')],
+    help: 'register your birthday',
+    catalog: { description: 'Register your birthday.', ui: 'Identity → Profile → Birthday form.' },
+    build: ([date]) => ({ type: 'birthday', date })
+  }),
+  command({
+    name: 'soulmate',
+    args: [],
+    help: 'list users sharing your birthday',
+    catalog: {
+      description: 'List users sharing your birthday.',
+      ui: 'Identity → Directory tools → Birthday matches.'
+    },
+    build: () => ({ type: 'soulmate' })
+  }),
+  command({
+    name: 'pair',
+    args: [],
+    help: 'list users sharing your recorded OS',
+    catalog: { description: 'List users sharing your recorded OS.', ui: 'Identity → Directory tools → OS matches.' },
+    build: () => ({ type: 'pair' })
+  }),
+  command({
+    name: 'connected',
+    args: [],
+    help: 'privately list everyone connected',
+    catalog: {
+      description: 'Privately list everyone connected.',
+      ui: 'Identity → Directory tools → “Connected roster” list.'
+    },
+    build: () => ({ type: 'connected' })
+  }),
+  command({
+    name: 'alpha-centauri-landers',
+    args: [],
+    help: 'view the Immigrants’ Flag hall of fame',
+    build: () => remote('alpha-centauri-landers')
+  }),
+  command({
+    name: 'grant',
+    args: [word('ip')],
+    help: 'grant operator access to an IP (LAN only)',
+    build: ([ip]) => ({ type: 'grant', ip })
+  }),
+  command({
+    name: 'revoke',
+    args: [word('ip')],
+    help: "revoke an IP's operator access (LAN top admin)",
+    build: ([ip]) => ({ type: 'revoke', ip })
+  }),
+  command({
+    name: 'poll',
+    args: [optional(pollOptions('poll'), '<question>|<option...>')],
+    help: 'start or view a poll',
+    catalog: { description: 'Start or inspect a poll.', ui: 'Moderation → Poll builder.' },
+    build: ([poll]) =>
+      poll
+        ? { type: 'create-poll', label: 'poll', question: poll.question, options: poll.options, multiple: false }
+        : { type: 'show-poll', label: 'poll' }
+  }),
+  command({
+    name: 'vote',
+    args: [suggest(word('label'), 'polls'), optional(pollOptions('poll'), '<question>|<option...>')],
+    help: 'start or inspect a multiple-choice named poll (use /vote @close <label> to end it)',
+    catalog: {
+      description: 'Create or update a multiple-choice poll.',
+      ui: 'Moderation → Poll builder (multiple choice).'
+    },
+    build: ([label, poll]) =>
+      poll
+        ? { type: 'create-poll', label, question: poll.question, options: poll.options, multiple: true }
+        : { type: 'show-poll', label }
+  }),
+  command({
+    name: 'vote @close',
+    args: [word('label')],
+    build: () => remote('vote @close')
+  }),
+  command({
+    name: 'vote-single',
+    args: [suggest(word('label'), 'polls'), optional(pollOptions('poll'), '<question>|<option...>')],
+    help: 'start or inspect a single-choice named poll',
+    catalog: {
+      description: 'Create or update a single-choice poll.',
+      ui: 'Moderation → Poll builder (single choice).'
+    },
+    build: ([label, poll]) =>
+      poll
+        ? { type: 'create-poll', label, question: poll.question, options: poll.options, multiple: false }
+        : { type: 'show-poll', label }
+  }),
+  command({
+    name: 'elect',
+    args: [suggest(word('label'), 'polls'), text('choice')],
+    help: 'vote in a named poll by label',
+    catalog: { description: 'Vote in a named poll.', ui: 'Moderation → Vote controls.' },
+    build: ([label, choiceValue]) => ({ type: 'elect', label, choice: choiceValue })
+  }),
+  command({
+    name: 'poke',
+    args: [suggest(word('username'), 'users')],
+    help: 'send a bell to call a user',
+    catalog: { description: 'Send a bell to call a user.', ui: 'Moderation → Attention tools.' },
+    build: ([username]) => ({ type: 'poke', username })
+  }),
+  command({
+    name: 'kick',
+    args: [suggest(word('username'), 'users')],
+    help: 'disconnect a user (operator only)',
+    build: ([username]) => ({ type: 'kick', username })
+  }),
+  command({
+    name: 'ban',
+    args: [suggest(word('username'), 'users')],
+    help: 'ban a user (operator only)',
+    build: ([target]) => ({ type: 'ban', target })
+  }),
+  command({
+    name: 'banname',
+    args: [word('nickname')],
+    help: 'block a nickname (operator only)',
+    build: () => remote('banname')
+  }),
+  command({
+    name: 'banlist',
+    args: [],
+    help: 'list active bans (operator only)',
+    build: () => remote('banlist')
+  }),
+  command({
+    name: 'delete-msg',
+    args: [suggest(idRange('id'), 'messages')],
+    help: 'remove chat history messages (operator only)',
+    catalog: {
+      description: 'Remove chat history messages.',
+      ui: 'Messaging → History tools → Delete messages.'
+    },
+    build: ([ids]) => ({ type: 'delete-messages', ids })
+  }),
+  command({
+    name: 'block',
+    args: [word('target', '<user|ip>')],
+    help: 'hide messages from a user or IP locally (use “block list” to review)',
+    catalog: { description: 'Hide messages from a user or IP locally.', ui: 'Moderation → Block list.' },
+    build: ([target]) => (target.toLowerCase() === 'list' ? remote('block list') : { type: 'block', target })
+  }),
+  command({
+    name: 'unblock',
+    args: [word('target', '<target|all>')],
+    help: 'remove a local block entry',
+    catalog: { description: 'Clear a block entry.', ui: 'Moderation → Block list.' },
+    build: ([target]) => ({ type: 'unblock', target })
+  }),
+  command({
+    name: 'pardon',
+    args: [word('target', '<user|ip>')],
+    help: 'remove a ban (operator only)',
+    build: ([target]) => ({ type: 'pardon', target })
+  }),
+  command({
+    name: REACTION_COMMANDS[0],
+    aliases: REACTION_COMMANDS.slice(1),
+    args: [suggest(word('id'), 'messages')],
+    help: 'react to a message by number',
+    catalog: { description: 'React to a message.', ui: 'Messaging → Reactions → Reaction picker.' },
+    build: ([messageId], invokedAs) => ({ type: 'react', reaction: invokedAs as ReactionType, messageId })
+  }),
+  command({
+    name: '1',
+    aliases: ['2', '3', '4', '5'],
+    head: '/1 .. /5',
+    args: [],
+    help: 'vote for an option in the active poll',
+    catalog: { description: 'Vote for numeric poll options.', ui: 'Moderation → Quick vote buttons.' },
+    build: (_values, invokedAs) => ({ type: 'quick-vote', index: Number(invokedAs) - 1 })
+  }),
+  command({
+    name: 'bbs',
+    head: '/bbs [list|read|post|comment|regen|delete]',
+    args: [],
+    help: 'open the bulletin board system (finish >/__BBS_END> to post)',
+    catalog: { description: 'Interact with the bulletin board.', ui: 'BBS & Feeds → Bulletin board cards.' },
+    build: () => ({ type: 'bbs-list' })
+  }),
+  command({ name: 'bbs list', args: [], build: () => ({ type: 'bbs-list' }) }),
+  command({ name: 'bbs read', args: [word('id')], build: () => remote('bbs read') }),
+  // The body follows on later lines and ends with >/__BBS_END>, so only the server sees the full post.
+  command({ name: 'bbs post', args: [text('title')], build: () => remote('bbs post') }),
+  command({
+    name: 'bbs comment',
+    args: [word('id'), text('text')],
+    build: ([threadId, body]) => ({ type: 'bbs-comment', threadId, body })
+  }),
+  command({ name: 'bbs regen', args: [], build: () => ({ type: 'bbs-regen' }) }),
+  command({ name: 'bbs delete', args: [word('id')], build: ([threadId]) => ({ type: 'bbs-delete', threadId }) }),
+  command({
+    name: 'rss list',
+    args: [],
+    help: 'list saved RSS feeds',
+    catalog: { description: 'List saved RSS feeds.', ui: 'BBS & Feeds → Saved feeds table.' },
+    build: () => ({ type: 'rss-list' })
+  }),
+  command({
+    name: 'rss read',
+    args: [word('tag')],
+    help: 'open a saved feed in the inline reader',
+    catalog: { description: 'Open a saved feed.', ui: 'BBS & Feeds → Feed reader.' },
+    build: ([tag]) => ({ type: 'rss-read', tag })
+  }),
+  command({
+    name: 'rss add',
+    args: [url('url'), word('tag')],
+    help: 'register a feed (operator only)',
+    catalog: { description: 'Register a new feed.', ui: 'BBS & Feeds → Feed registration form.' },
+    build: ([link, tag]) => ({ type: 'rss-add', url: link, tag })
+  }),
+  command({
+    name: 'rss del',
+    args: [word('tag')],
+    help: 'delete a feed (operator only)',
+    build: () => remote('rss del')
+  }),
+  command({
+    name: 'suspend!',
+    args: [],
+    help: 'suspend the active game (Ctrl+Z while playing)',
+    catalog: { description: 'Suspend the active game.', ui: 'Assistants → Games launcher → Suspend control.' },
+    build: () => ({ type: 'suspend-game' })
+  })
+];
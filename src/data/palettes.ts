@@ -0,0 +1,4 @@
+// Palettes the Chatter BBS accepts for /palette.
+export const PALETTE_NAMES = ['default', 'adwaita', 'moe', 'neon-genesis-evangelion'] as const;
+
+export type PaletteName = (typeof PALETTE_NAMES)[number];
@@ -0,0 +1,486 @@
+// src/dev/mockBbs.ts
+
+import { createServer } from 'node:net';
+import type { Server, Socket } from 'node:net';
+import { commandGroups } from '../data/commandCatalog.js';
+
+// A scriptable stand-in for the Chatter BBS TELNET service. It walks through the same login prompts the
+// terminal automation reacts to, echoes typed characters like the real server, and answers a handful of
+// slash commands so the bridge can be exercised without reaching chatter.pw.
+
+const IAC = 255;
+const DONT = 254;
+const DO = 253;
+const WONT = 252;
+const WILL = 251;
+const SB = 250;
+const SE = 240;
+const OPTION_ECHO = 1;
+const OPTION_SGA = 3;
+const OPTION_TTYPE = 24;
+const OPTION_NAWS = 31;
+
+export const MOCK_BBS_PROMPTS = {
+  introMarker: 'Connection established.',
+  typeN: 'Type N to skip the tutorial, or Y to sign in: ',
+  nickname: 'Enter ID (nickname required): ',
+  confirm: (nickname: string) => `Are you sure with a name ${nickname}? (y/n): `,
+  inUse: (nickname: string) => `Nickname ${nickname} is already in use. Try another one.`,
+  joined: (nickname: string) => `${nickname} has joined the chat`,
+  left: (nickname: string) => `${nickname} has left the chat`
+};
+
+export type MockBbsStage = 'type-n' | 'nickname' | 'confirm' | 'chat' | 'closed';
+
+export type MockBbsSession = {
+  readonly id: number;
+  nickname: string | null;
+  status: string | null;
+  stage: MockBbsStage;
+  retro: boolean;
+  windowSize: { cols: number; rows: number } | null;
+  terminalType: string | null;
+  send: (text: string) => void;
+  close: () => void;
+};
+
+export type MockBbsLine = {
+  session: number;
+  nickname: string | null;
+  stage: MockBbsStage;
+  text: string;
+};
+
+// Rules run before the built-in handling of chat lines and commands; returning a string replies to the
+// sender, returning true swallows the line silently, anything else falls through.
+export type MockBbsRule = {
+  match: string | RegExp;
+  reply: string | ((line: string, session: MockBbsSession, bbs: MockBbs) => string | boolean | void);
+};
+
+export type MockBbsOptions = {
+  motd?: string;
+  reservedNicknames?: string[];
+  rules?: MockBbsRule[];
+  now?: () => Date;
+};
+
+export type MockBbs = {
+  readonly sessions: readonly MockBbsSession[];
+  readonly received: readonly MockBbsLine[];
+  listen: (port?: number, host?: string) => Promise<number>;
+  close: () => Promise<void>;
+  // Sends a line to every session that has joined the chat.
+  broadcast: (text: string) => void;
+  // Posts a chat message as if another user had typed it.
+  say: (nickname: string, message: string, replyTo?: number) => void;
+};
+
+const DEFAULT_MOTD = 'Welcome to the mock Chatter BBS. Nothing you type here leaves this machine.';
+
+const formatClock = (date: Date) =>
+  [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+
+const listCatalogCommands = () =>
+  commandGroups.flatMap((group) =>
+    group.commands.filter((entry) => entry.command.startsWith('/')).map((entry) => entry.command)
+  );
+
+export const createMockBbs = (options: MockBbsOptions = {}): MockBbs => {
+  const now = options.now ?? (() => new Date());
+  const motd = options.motd ?? DEFAULT_MOTD;
+  const reserved = new Set((options.reservedNicknames ?? []).map((name) => name.toLowerCase()));
+  const rules = options.rules ?? [];
+  const sessions: MockBbsSession[] = [];
+  const received: MockBbsLine[] = [];
+  const sockets = new Set<Socket>();
+  let server: Server | null = null;
+  let nextSessionId = 1;
+  let nextMessageId = 1;
+
+  const joinedSessions = () => sessions.filter((session) => session.stage === 'chat');
+
+  const findByNickname = (nickname: string) =>
+    joinedSessions().find((session) => session.nickname?.toLowerCase() === nickname.toLowerCase());
+
+  const broadcast = (text: string) => {
+    for (const session of joinedSessions()) {
+      session.send(`${text}\r\n`);
+    }
+  };
+
+  const say = (nickname: string, message: string, replyTo?: number) => {
+    const author = replyTo === undefined ? nickname : `${nickname} ↳ #${replyTo}`;
+    broadcast(`#${nextMessageId++}] [${formatClock(now())}] ${author}: ${message}`);
+  };
+
+  const isKnownMessage = (value: string) => /^\d+$/u.test(value) && Number(value) < nextMessageId;
+
+  const runCommand = (session: MockBbsSession, line: string) => {
+    const [rawName, ...rest] = line.slice(1).split(/\s+/u);
+    const name = rawName.toLowerCase();
+    const argument = rest.join(' ').trim();
+    const reply = (text: string) => session.send(`${text}\r\n`);
+
+    switch (name) {
+      case 'help':
+        reply('Available commands:');
+        for (const command of listCatalogCommands()) {
+          reply(`  ${command}`);
+        }
+        return;
+      case 'motd':
+        reply(motd);
+        return;
+      case 'users': {
+        const count = joinedSessions().length;
+        broadcast(`* ${count} user${count === 1 ? '' : 's'} connected.`);
+        return;
+      }
+      case 'connected':
+        reply(`Connected: ${joinedSessions().map((entry) => entry.nickname).join(', ')}`);
+        return;
+      case 'search': {
+        const needle = argument.toLowerCase();
+        const matches = joinedSessions()
+          .map((entry) => entry.nickname ?? '')
+          .filter((nickname) => needle && nickname.toLowerCase().includes(needle));
+        reply(matches.length > 0 ? `Matches: ${matches.join(', ')}` : `No users match "${argument}".`);
+        return;
+      }
+      case 'nick': {
+        if (!argument || /\s/u.test(argument)) {
+          reply('Usage: /nick <name>');
+          return;
+        }
+        if (reserved.has(argument.toLowerCase()) || findByNickname(argument)) {
+          reply(MOCK_BBS_PROMPTS.inUse(argument));
+          return;
+        }
+        const previous = session.nickname;
+        session.nickname = argument;
+        broadcast(`* ${previous} is now known as ${argument}`);
+        return;
+      }
+      case 'status':
+        session.status = argument && argument.toLowerCase() !== 'clear' ? argument : null;
+        reply(session.status ? `Status set to: ${session.status}` : 'Status cleared.');
+        return;
+      case 'showstatus': {
+        const target = findByNickname(argument);
+        reply(
+          target
+            ? `${target.nickname}: ${target.status ?? '(no status)'}`
+            : `User ${argument || '(none)'} is not connected.`
+        );
+        return;
+      }
+      case 'pm': {
+        const [targetName, ...words] = rest;
+        const target = targetName ? findByNickname(targetName) : undefined;
+        if (!target || words.length === 0) {
+          reply('Usage: /pm <username> <message>');
+          return;
+        }
+        target.send(`[PM from ${session.nickname}] ${words.join(' ')}\r\n`);
+        reply(`[PM to ${target.nickname}] ${words.join(' ')}`);
+        return;
+      }
+      case 'reply': {
+        const [messageId, ...words] = rest;
+        if (!messageId || !isKnownMessage(messageId) || words.length === 0) {
+          reply('Usage: /reply <message-id> <text>');
+          return;
+        }
+        say(session.nickname ?? 'guest', words.join(' '), Number(messageId));
+        return;
+      }
+      case 'good':
+      case 'sad':
+      case 'cool':
+      case 'angry':
+      case 'checked':
+      case 'love':
+      case 'wtf':
+        if (!isKnownMessage(argument)) {
+          reply(`Usage: /${name} <id>`);
+          return;
+        }
+        broadcast(`* ${session.nickname} reacted ${name} to #${argument}`);
+        return;
+      case 'retro':
+        session.retro = argument.toLowerCase() !== 'off';
+        reply(`Retro mode ${session.retro ? 'enabled' : 'disabled'}.`);
+        return;
+      case 'palette':
+        reply(argument ? `Palette set to ${argument}.` : 'Usage: /palette <name>');
+        return;
+      case 'today':
+      case 'date':
+        reply(now().toISOString());
+        return;
+      case 'exit':
+        reply('Goodbye!');
+        session.close();
+        return;
+      default:
+        reply(`Unknown command: /${rawName}. Type /help for the list.`);
+    }
+  };
+
+  const handleLine = (session: MockBbsSession, line: string) => {
+    received.push({ session: session.id, nickname: session.nickname, stage: session.stage, text: line });
+
+    for (const rule of rules) {
+      const matched = typeof rule.match === 'string' ? line === rule.match : rule.match.test(line);
+      if (!matched) {
+        continue;
+      }
+      const result = typeof rule.reply === 'string' ? rule.reply : rule.reply(line, session, bbs);
+      if (typeof result === 'string') {
+        session.send(`${result}\r\n`);
+        return;
+      }
+      if (result === true) {
+        return;
+      }
+    }
+
+    const trimmed = line.trim();
+    switch (session.stage) {
+      case 'type-n':
+        session.stage = 'nickname';
+        session.send(MOCK_BBS_PROMPTS.nickname);
+        return;
+      case 'nickname':
+        if (!trimmed || /\s/u.test(trimmed)) {
+          session.send(MOCK_BBS_PROMPTS.nickname);
+          return;
+        }
+        if (reserved.has(trimmed.toLowerCase()) || findByNickname(trimmed)) {
+          // The real server drops the connection so the client can retry with another name.
+          session.send(`${MOCK_BBS_PROMPTS.inUse(trimmed)}\r\n`);
+          session.close();
+          return;
+        }
+        session.nickname = trimmed;
+        session.stage = 'confirm';
+        session.send(MOCK_BBS_PROMPTS.confirm(trimmed));
+        return;
+      case 'confirm':
+        if (trimmed.toLowerCase().startsWith('y')) {
+          session.stage = 'chat';
+          session.send(`${motd}\r\n`);
+          broadcast(`* ${MOCK_BBS_PROMPTS.joined(session.nickname ?? 'guest')}`);
+        } else {
+          session.nickname = null;
+          session.stage = 'nickname';
+          session.send(MOCK_BBS_PROMPTS.nickname);
+        }
+        return;
+      case 'chat':
+        if (!trimmed) {
+          return;
+        }
+        if (trimmed.startsWith('/')) {
+          runCommand(session, trimmed);
+        } else {
+          say(session.nickname ?? 'guest', trimmed);
+        }
+        return;
+      default:
+        return;
+    }
+  };
+
+  const acceptConnection = (socket: Socket) => {
+    sockets.add(socket);
+    socket.setNoDelay(true);
+
+    const decoder = new TextDecoder();
+    let line = '';
+    let lastWasCarriageReturn = false;
+    // TELNET parser state: 0 data, 1 after IAC, 2 option byte, 3 inside SB, 4 IAC inside SB.
+    let telnetState = 0;
+    let subnegotiation: number[] = [];
+
+    const session: MockBbsSession = {
+      id: nextSessionId++,
+      nickname: null,
+      status: null,
+      stage: 'type-n',
+      retro: true,
+      windowSize: null,
+      terminalType: null,
+      send: (text) => {
+        if (session.stage !== 'closed') {
+          // UTF-8 never produces 0xFF, so outgoing text needs no IAC escaping.
+          socket.write(Buffer.from(text, 'utf8'));
+        }
+      },
+      close: () => {
+        if (session.stage === 'closed') {
+          return;
+        }
+        const wasJoined = session.stage === 'chat';
+        session.stage = 'closed';
+        socket.end();
+        if (wasJoined) {
+          broadcast(`* ${MOCK_BBS_PROMPTS.left(session.nickname ?? 'guest')}`);
+        }
+      }
+    };
+    sessions.push(session);
+
+    const handleSubnegotiation = (bytes: number[]) => {
+      if (bytes[0] === OPTION_NAWS && bytes.length >= 5) {
+        session.windowSize = { cols: (bytes[1] << 8) | bytes[2], rows: (bytes[3] << 8) | bytes[4] };
+      } else if (bytes[0] === OPTION_TTYPE && bytes[1] === 0) {
+        session.terminalType = String.fromCharCode(...bytes.slice(2));
+      }
+    };
+
+    const handleText = (text: string) => {
+      let echo = '';
+      for (const char of text) {
+        if (char === '\r' || char === '\n') {
+          if (char === '\n' && lastWasCarriageReturn) {
+            lastWasCarriageReturn = false;
+            continue;
+          }
+          lastWasCarriageReturn = char === '\r';
+          echo += '\r\n';
+          session.send(echo);
+          echo = '';
+          const completed = line;
+          line = '';
+          handleLine(session, completed);
+          continue;
+        }
+        lastWasCarriageReturn = false;
+        if (char === '\u0000') {
+          continue;
+        }
+        if (char === '\u007f' || char === '\b') {
+          if (line) {
+            line = Array.from(line).slice(0, -1).join('');
+            echo += '\b \b';
+          }
+          continue;
+        }
+        if (char < ' ') {
+          continue;
+        }
+        line += char;
+        echo += char;
+      }
+      session.send(echo);
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+      const data: number[] = [];
+      for (let index = 0; index < chunk.length; index += 1) {
+        const byte = chunk[index];
+        switch (telnetState) {
+          case 0:
+            if (byte === IAC) {
+              telnetState = 1;
+            } else {
+              data.push(byte);
+            }
+            break;
+          case 1:
+            if (byte === IAC) {
+              data.push(IAC);
+              telnetState = 0;
+            } else if (byte === SB) {
+              subnegotiation = [];
+              telnetState = 3;
+            } else if (byte === WILL || byte === WONT || byte === DO || byte === DONT) {
+              telnetState = 2;
+            } else {
+              telnetState = 0;
+            }
+            break;
+          case 2:
+            telnetState = 0;
+            break;
+          case 3:
+            if (byte === IAC) {
+              telnetState = 4;
+            } else {
+              subnegotiation.push(byte);
+            }
+            break;
+          default:
+            if (byte === SE) {
+              handleSubnegotiation(subnegotiation);
+              telnetState = 0;
+            } else {
+              subnegotiation.push(byte);
+              telnetState = 3;
+            }
+        }
+      }
+      if (data.length > 0) {
+        handleText(decoder.decode(Uint8Array.from(data), { stream: true }));
+      }
+    });
+
+    socket.on('close', () => {
+      sockets.delete(socket);
+      session.close();
+    });
+    socket.on('error', () => {
+      socket.destroy();
+    });
+
+    socket.write(
+      Buffer.from([IAC, WILL, OPTION_ECHO, IAC, WILL, OPTION_SGA, IAC, DO, OPTION_NAWS, IAC, DO, OPTION_TTYPE])
+    );
+    socket.write(Buffer.from([IAC, SB, OPTION_TTYPE, 1, IAC, SE]));
+    session.send(`${MOCK_BBS_PROMPTS.introMarker}\r\n`);
+    session.send(`Chatter BBS (mock) · ${formatClock(now())}\r\n`);
+    session.send(MOCK_BBS_PROMPTS.typeN);
+  };
+
+  const bbs: MockBbs = {
+    get sessions() {
+      return sessions;
+    },
+    get received() {
+      return received;
+    },
+    listen: (port = 0, host = '127.0.0.1') =>
+      new Promise<number>((resolve, reject) => {
+        const instance = createServer(acceptConnection);
+        instance.once('error', reject);
+        instance.listen(port, host, () => {
+          server = instance;
+          const address = instance.address();
+          resolve(typeof address === 'object' && address ? address.port : port);
+        });
+      }),
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const session of sessions) {
+          session.close();
+        }
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        if (!server) {
+          resolve();
+          return;
+        }
+        server.close(() => resolve());
+        server = null;
+      }),
+    broadcast,
+    say
+  };
+
+  return bbs;
+};
@@ -0,0 +1,25 @@
+// src/dev/runMockBbs.ts
+
+import { createMockBbs } from './mockBbs.js';
+
+// Starts the mock BBS for local development and Playwright runs:
+//   npm run mock-bbs
+// then point the bridge at it with CHATTER_BBS_HOST=127.0.0.1 CHATTER_BBS_PORT=2323.
+const port = Number.parseInt(process.env.MOCK_BBS_PORT ?? '2323', 10);
+const host = process.env.MOCK_BBS_HOST ?? '127.0.0.1';
+const reservedNicknames = (process.env.MOCK_BBS_RESERVED_NICKNAMES ?? 'admin')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+const bbs = createMockBbs({ reservedNicknames });
+
+bbs
+  .listen(port, host)
+  .then((boundPort) => {
+    console.log(`Mock Chatter BBS listening on telnet://${host}:${boundPort}`);
+  })
+  .catch((error) => {
+    console.error('Failed to start the mock BBS', error);
+    process.exitCode = 1;
+  });
@@ -1,4 +1,5 @@
 import { pickRandomNickname } from './data/nicknames.js';
+import { encodeControlMessage, parseControlMessage } from './utils/terminalControl.js';
 
 type XtermTerminal = {
   open: (host: HTMLElement) => void;
@@ -10,6 +11,8 @@ type XtermTerminal = {
   onResize: (listener: (size: { cols: number; rows: number }) => void) => { dispose: () => void };
   resize: (cols: number, rows: number) => void;
   dispose: () => void;
+  readonly cols: number;
+  readonly rows: number;
 };
 
 type XtermCtor = new (options?: Record<string, unknown>) => XtermTerminal;
@@ -34,6 +37,7 @@ let terminal: XtermTerminal | null = null;
 let fitAddon: FitAddon | null = null;
 let resizeObserver: ResizeObserver | null = null;
 let socketTextDecoder = new TextDecoder();
+const socketTextEncoder = new TextEncoder();
 let autoInputBuffer = '';
 let typeNConfirmed = false;
 let nicknameSubmitted = false;
@@ -64,11 +68,19 @@ const TARGET_HOST = runtimeConfig.bbsHost ?? runtimeConfig.bbsHostDefault ?? 'ch
 const TARGET_PORT = runtimeConfig.bbsPort ?? runtimeConfig.bbsPortDefault ?? '2323';
 const TARGET_PROTOCOL = 'telnet';
 
+// Keystrokes travel as binary frames; text frames are reserved for JSON control messages.
 const sendToSocket = (payload: string | Uint8Array) => {
   if (!socket || socket.readyState !== WebSocket.OPEN) {
     return;
   }
-  socket.send(payload);
+  socket.send(typeof payload === 'string' ? socketTextEncoder.encode(payload) : payload);
+};
+
+const sendWindowSize = (size: { cols: number; rows: number }) => {
+  if (!socket || socket.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  socket.send(encodeControlMessage({ type: 'resize', cols: size.cols, rows: size.rows }));
 };
 
 const choosePendingNickname = () => {
@@ -178,6 +190,8 @@ const connectTerminal = () => {
   wsUrl.searchParams.set('protocol', TARGET_PROTOCOL);
   wsUrl.searchParams.set('host', TARGET_HOST);
   wsUrl.searchParams.set('port', TARGET_PORT);
+  wsUrl.searchParams.set('cols', String(terminal.cols));
+  wsUrl.searchParams.set('rows', String(terminal.rows));
   socket = new WebSocket(wsUrl);
   socket.binaryType = 'arraybuffer';
 
@@ -185,6 +199,9 @@ const connectTerminal = () => {
     terminal?.writeln('Connected.');
     terminal?.focus();
     fitAddon?.fit();
+    if (terminal) {
+      sendWindowSize(terminal);
+    }
     socketTextDecoder = new TextDecoder();
     autoInputBuffer = '';
     typeNConfirmed = false;
@@ -203,9 +220,10 @@ const connectTerminal = () => {
       return;
     }
 
-    const text = String(event.data);
-    terminal?.writeln(text);
-    maybeSendAutoInputs(text);
+    const message = parseControlMessage(String(event.data));
+    if (message?.type === 'status' || message?.type === 'error') {
+      terminal?.writeln(message.message);
+    }
   });
 
   socket.addEventListener('close', () => {
@@ -229,7 +247,7 @@ const connectTerminal = () => {
   });
 
   terminal.onResize((size) => {
-    sendToSocket(new TextEncoder().encode(`\u001b[8;${size.rows};${size.cols}t`));
+    sendWindowSize(size);
   });
 
   resizeObserver = new ResizeObserver(() => {
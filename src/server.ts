@@ -1,9 +1,11 @@
-import { createReadStream } from 'node:fs';
+import { createReadStream, createWriteStream, mkdirSync, type WriteStream } from 'node:fs';
 import { stat } from 'node:fs/promises';
-import { createHash } from 'node:crypto';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { constants as zlibConstants, deflateRawSync, inflateRawSync } from 'node:zlib';
 import { createServer } from 'node:http';
-import type { IncomingMessage } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
 import { connect, isIP, Socket as NetSocket } from 'node:net';
+import { lookup } from 'node:dns/promises';
 import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
 import { extname, join, resolve as resolvePath } from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -17,6 +19,7 @@ const candidateRoots = [
 ];
 const staticRoots = Array.from(new Set(candidateRoots.map((dir) => resolvePath(dir))));
 const TERMINAL_PATH = '/terminal';
+const TICKET_PATH = '/terminal/ticket';
 const MAX_USERNAME_BYTES = 64;
 const MAX_PASSWORD_BYTES = 256;
 type EnvLookupResult = { value: string | undefined; source: string | undefined };
@@ -35,6 +38,30 @@ const readEnvValue = (...keys: string[]): EnvLookupResult => {
   return { value: undefined, source: undefined };
 };
 
+const readPositiveIntegerEnv = (fallback: number, ...keys: string[]): number => {
+  const { value, source } = readEnvValue(...keys);
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    console.warn(`Ignoring invalid ${source ?? keys[0]} value: ${value}`);
+    return fallback;
+  }
+
+  return parsed;
+};
+
+const readBooleanEnv = (fallback: boolean, ...keys: string[]): boolean => {
+  const { value } = readEnvValue(...keys);
+  if (!value) {
+    return fallback;
+  }
+
+  return !['0', 'false', 'no', 'off'].includes(value.toLowerCase());
+};
+
 type BbsProtocol = 'telnet' | 'ssh';
 
 type BbsSettings = {
@@ -44,24 +71,442 @@ type BbsSettings = {
   sshUser?: string;
   sshPassword?: string;
   sshCommand?: string;
+  // The vetted IP for a browser-supplied host, dialled instead of looking the name up again.
+  address?: string;
+};
+
+type WindowSize = {
+  cols: number;
+  rows: number;
 };
 
 type TerminalBridge = {
   protocol: BbsProtocol;
   write: (data: Buffer) => void;
+  keepAlive?: () => void;
+  resize?: (size: WindowSize) => void;
   dispose: () => void;
 };
 
+// permessage-deflate parameters agreed in the handshake (RFC 7692). Both directions run without context takeover.
+type DeflateSettings = {
+  serverMaxWindowBits: number;
+};
+
+type FragmentedMessage = {
+  opcode: number;
+  compressed: boolean;
+  chunks: Buffer[];
+  size: number;
+};
+
+// Remote output kept for resuming clients. Offsets count every byte the bridge produced since the session started.
+type OutputRing = {
+  chunks: Buffer[];
+  size: number;
+  capacity: number;
+  startOffset: number;
+  endOffset: number;
+};
+
+// Asciicast v2 file a session streams to when CHATTER_RECORDINGS_DIR is set.
+type SessionRecording = {
+  stream: WriteStream;
+  startedAt: number;
+  includeInput: boolean;
+  outputDecoder: TextDecoder;
+  inputDecoder: TextDecoder;
+};
+
+// A bridge outlives individual browser sockets: it is parked for a grace period when its client drops.
+type TerminalSession = {
+  // Handed out by the admin API; unlike the token it grants nothing, and it stays the same across resumes.
+  id: string;
+  token: string;
+  remoteAddress: string;
+  username: string | null;
+  bytesIn: number;
+  bytesOut: number;
+  // Kept with the session rather than the socket so reconnecting does not refill it.
+  inputBucket: TokenBucket;
+  // Admin notices sent while the session was parked, shown once a browser resumes it.
+  pendingNotices: string[];
+  settings: BbsSettings;
+  windowSize: WindowSize;
+  startedAt: string;
+  bridge: TerminalBridge | null;
+  client: TerminalClientContext | null;
+  output: OutputRing;
+  recording: SessionRecording | null;
+  ended: boolean;
+  graceTimer?: NodeJS.Timeout;
+};
+
 type TerminalClientContext = {
+  remoteAddress: string;
+  connectedAt: string;
+  // A binary message waiting for the input allowance; frames behind it stay in `buffer` until it is sent.
+  heldInput?: Buffer;
+  inputPauseTimer?: NodeJS.Timeout;
   socket: NetSocket;
   buffer: Buffer;
+  maxMessageBytes: number;
+  deflate: DeflateSettings | null;
+  fragments: FragmentedMessage | null;
   closed: boolean;
   sentClose: boolean;
-  bridge: TerminalBridge | null;
-  settings: BbsSettings;
+  session: TerminalSession;
   pingTimer?: NodeJS.Timeout;
 };
 
+const DEFAULT_WINDOW_SIZE: WindowSize = { cols: 80, rows: 24 };
+const DEFAULT_MAX_MESSAGE_BYTES = 1_048_576;
+const MAX_CONTROL_FRAME_BYTES = 125;
+// Keystroke echoes are tiny; compressing them costs more than it saves.
+const DEFLATE_MIN_PAYLOAD_BYTES = 64;
+const DEFLATE_TRAILER = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+const DEFAULT_RESUME_GRACE_SECONDS = 60;
+const DEFAULT_RESUME_BUFFER_BYTES = 262_144;
+const REPLAY_CHUNK_BYTES = 65_536;
+const RESUME_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+const terminalSessions = new Map<string, TerminalSession>();
+const MAX_WINDOW_DIMENSION = 1000;
+
+// Counters behind /metrics. Gauges (sockets, bridges) are read from terminalSessions when scraped instead.
+const SESSION_DURATION_BUCKETS = [1, 5, 15, 60, 300, 900, 1800, 3600, 14_400, 86_400];
+const BBS_PROTOCOLS: BbsProtocol[] = ['telnet', 'ssh'];
+
+type DurationHistogram = {
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+const bridgeMetrics = {
+  bytesFromClients: 0,
+  bytesFromBbs: 0,
+  connectFailures: new Map<BbsProtocol, number>(),
+  errors: new Map<string, number>(),
+  upgradeRejections: new Map<UpgradeRejection, number>(),
+  durations: new Map<BbsProtocol, DurationHistogram>()
+};
+
+let serverListening = false;
+
+const incrementMetric = <K>(counters: Map<K, number>, key: K) => {
+  counters.set(key, (counters.get(key) ?? 0) + 1);
+};
+
+// Node socket errors carry a stable code (ECONNREFUSED, ENOTFOUND, …); anything else is counted under the fallback.
+const recordBridgeError = (error: unknown, fallback: string) => {
+  const code = error && typeof error === 'object' && 'code' in error ? (error as { code?: unknown }).code : null;
+  incrementMetric(bridgeMetrics.errors, typeof code === 'string' && /^[A-Z0-9_]{1,32}$/.test(code) ? code : fallback);
+};
+
+const observeSessionDuration = (session: TerminalSession) => {
+  const seconds = Math.max(0, (Date.now() - Date.parse(session.startedAt)) / 1000);
+  let histogram = bridgeMetrics.durations.get(session.settings.protocol);
+  if (!histogram) {
+    histogram = { counts: SESSION_DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    bridgeMetrics.durations.set(session.settings.protocol, histogram);
+  }
+  SESSION_DURATION_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) {
+      histogram.counts[index] += 1;
+    }
+  });
+  histogram.sum += seconds;
+  histogram.count += 1;
+};
+
+// Prometheus text exposition format, version 0.0.4.
+const renderMetrics = (): string => {
+  const lines: string[] = [];
+  const family = (name: string, type: 'counter' | 'gauge' | 'histogram', help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  let clients = 0;
+  let parked = 0;
+  const bridges = new Map<BbsProtocol, number>(BBS_PROTOCOLS.map((protocol) => [protocol, 0]));
+  for (const session of terminalSessions.values()) {
+    if (session.client && !session.client.closed) {
+      clients += 1;
+    } else {
+      parked += 1;
+    }
+    if (session.bridge) {
+      incrementMetric(bridges, session.bridge.protocol);
+    }
+  }
+
+  family('chatter_websocket_sessions', 'gauge', 'Browser WebSocket connections attached to a terminal session.');
+  lines.push(`chatter_websocket_sessions ${clients}`);
+  family('chatter_parked_sessions', 'gauge', 'Terminal sessions waiting for their browser to resume.');
+  lines.push(`chatter_parked_sessions ${parked}`);
+  family('chatter_bridges', 'gauge', 'Open bridges to the BBS by protocol.');
+  for (const [protocol, count] of bridges) {
+    lines.push(`chatter_bridges{protocol="${protocol}"} ${count}`);
+  }
+  family('chatter_bridge_bytes_total', 'counter', 'Bytes relayed by bridges: in from browsers, out from the BBS.');
+  lines.push(`chatter_bridge_bytes_total{direction="in"} ${bridgeMetrics.bytesFromClients}`);
+  lines.push(`chatter_bridge_bytes_total{direction="out"} ${bridgeMetrics.bytesFromBbs}`);
+  family('chatter_bridge_connect_failures_total', 'counter', 'Bridges that could not reach the BBS.');
+  for (const protocol of BBS_PROTOCOLS) {
+    lines.push(
+      `chatter_bridge_connect_failures_total{protocol="${protocol}"} ${bridgeMetrics.connectFailures.get(protocol) ?? 0}`
+    );
+  }
+  family('chatter_bridge_errors_total', 'counter', 'Bridge errors by reason.');
+  for (const [reason, count] of bridgeMetrics.errors) {
+    lines.push(`chatter_bridge_errors_total{reason="${reason}"} ${count}`);
+  }
+  family('chatter_upgrade_rejections_total', 'counter', 'Terminal upgrades refused by a connection limit.');
+  for (const reason of UPGRADE_REJECTIONS) {
+    const count = bridgeMetrics.upgradeRejections.get(reason) ?? 0;
+    lines.push(`chatter_upgrade_rejections_total{reason="${reason}"} ${count}`);
+  }
+  family('chatter_session_duration_seconds', 'histogram', 'How long terminal sessions lasted, parked time included.');
+  for (const [protocol, histogram] of bridgeMetrics.durations) {
+    SESSION_DURATION_BUCKETS.forEach((bound, index) => {
+      lines.push(
+        `chatter_session_duration_seconds_bucket{protocol="${protocol}",le="${bound}"} ${histogram.counts[index]}`
+      );
+    });
+    lines.push(`chatter_session_duration_seconds_bucket{protocol="${protocol}",le="+Inf"} ${histogram.count}`);
+    lines.push(`chatter_session_duration_seconds_sum{protocol="${protocol}"} ${histogram.sum}`);
+    lines.push(`chatter_session_duration_seconds_count{protocol="${protocol}"} ${histogram.count}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+// Connection limits on /terminal, so one address cannot open bridges to the BBS without bound. Every limit is on
+// by default; the environment variables raise or lower them.
+const DEFAULT_MAX_SESSIONS = 200;
+const DEFAULT_MAX_SESSIONS_PER_IP = 5;
+const DEFAULT_UPGRADES_PER_MINUTE = 20;
+const DEFAULT_UPGRADE_BURST = 10;
+const DEFAULT_INPUT_BYTES_PER_SECOND = 65_536;
+const MAX_TRACKED_UPGRADE_BUCKETS = 10_000;
+const UPGRADE_REJECTIONS = ['rate', 'ip-sessions', 'global-sessions'] as const;
+
+type UpgradeRejection = (typeof UPGRADE_REJECTIONS)[number];
+
+type TokenBucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+const upgradeBuckets = new Map<string, TokenBucket>();
+
+const refillBucket = (bucket: TokenBucket, capacity: number, perSecond: number, now: number) => {
+  bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond);
+  bucket.updatedAt = now;
+};
+
+// Seconds until the address may try again, or 0 when this upgrade is allowed.
+const takeUpgradeToken = (address: string): number => {
+  const perMinute = readPositiveIntegerEnv(DEFAULT_UPGRADES_PER_MINUTE, 'CHATTER_UPGRADES_PER_MINUTE');
+  const burst = readPositiveIntegerEnv(DEFAULT_UPGRADE_BURST, 'CHATTER_UPGRADE_BURST');
+  const now = Date.now();
+  const bucket = upgradeBuckets.get(address) ?? { tokens: burst, updatedAt: now };
+  refillBucket(bucket, burst, perMinute / 60, now);
+  upgradeBuckets.set(address, bucket);
+
+  if (upgradeBuckets.size > MAX_TRACKED_UPGRADE_BUCKETS) {
+    // A bucket that has refilled completely holds no state worth keeping.
+    for (const [key, tracked] of upgradeBuckets) {
+      if (tracked.tokens + ((now - tracked.updatedAt) / 60_000) * perMinute >= burst) {
+        upgradeBuckets.delete(key);
+      }
+    }
+  }
+
+  if (bucket.tokens < 1) {
+    return Math.ceil(((1 - bucket.tokens) * 60) / perMinute);
+  }
+  bucket.tokens -= 1;
+  return 0;
+};
+
+// Sessions opened from an address, parked ones included since their bridges are still dialled in.
+const countSessionsFrom = (address: string) => {
+  let count = 0;
+  for (const session of terminalSessions.values()) {
+    if (session.remoteAddress === address) {
+      count += 1;
+    }
+  }
+  return count;
+};
+
+// Milliseconds until `bytes` of input may go to the BBS, or 0 once they have been taken from the allowance.
+// A message larger than the allowance waits for a full bucket rather than forever.
+const takeInputTokens = (session: TerminalSession, bytes: number): number => {
+  const perSecond = readPositiveIntegerEnv(DEFAULT_INPUT_BYTES_PER_SECOND, 'CHATTER_INPUT_BYTES_PER_SECOND');
+  const bucket = session.inputBucket;
+  refillBucket(bucket, perSecond, perSecond, Date.now());
+  const needed = Math.min(bytes, perSecond);
+  if (bucket.tokens < needed) {
+    return Math.ceil(((needed - bucket.tokens) / perSecond) * 1000);
+  }
+  bucket.tokens -= bytes;
+  return 0;
+};
+
+const normaliseAddress = (value: string) =>
+  stripZoneId(stripIpv6Brackets(value.trim()))
+    .replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '')
+    .toLowerCase();
+
+const readTrustedProxies = () => {
+  const { value } = readEnvValue('CHATTER_TRUSTED_PROXIES');
+  return new Set((value ?? '').split(',').map(normaliseAddress).filter(Boolean));
+};
+
+const readHeader = (req: IncomingMessage, name: string) => {
+  const value = req.headers?.[name];
+  return Array.isArray(value) ? value.join(',') : value ?? '';
+};
+
+// X-Forwarded-For is only believed when the peer is one of CHATTER_TRUSTED_PROXIES. Walking back from the
+// nearest hop, the first address that is not a trusted proxy is the client.
+const resolveClientAddress = (req: IncomingMessage, socket: NetSocket): string => {
+  const peer = normaliseAddress(socket.remoteAddress ?? '');
+  const trusted = readTrustedProxies();
+  if (!trusted.has(peer)) {
+    return peer;
+  }
+
+  const hops = readHeader(req, 'x-forwarded-for')
+    .split(',')
+    .map(normaliseAddress)
+    .filter(Boolean);
+  for (let index = hops.length - 1; index >= 0; index -= 1) {
+    if (!trusted.has(hops[index])) {
+      return isIP(hops[index]) ? hops[index] : peer;
+    }
+  }
+  return hops[0] ?? peer;
+};
+
+// Browsers attach Origin to every WebSocket handshake, so checking it stops other sites from opening the bridge
+// with a visitor's network identity. Clients that send no Origin are not browsers and cannot be driven that way.
+const parseOrigin = (value: string): string | null => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+};
+
+// CHATTER_ALLOWED_ORIGINS replaces the defaults: the host the request was sent to (or X-Forwarded-Host from a
+// trusted proxy) and CHATTER_WEB_SERVICE_DOMAIN, each over http or https.
+const readAllowedOrigins = (req: IncomingMessage, socket: NetSocket): Set<string> => {
+  const { value: configured } = readEnvValue('CHATTER_ALLOWED_ORIGINS');
+  if (configured) {
+    return new Set(
+      configured
+        .split(',')
+        .map((origin) => parseOrigin(origin.trim()))
+        .filter((origin): origin is string => origin !== null)
+    );
+  }
+
+  const hosts = [readHeader(req, 'host')];
+  if (readTrustedProxies().has(normaliseAddress(socket.remoteAddress ?? ''))) {
+    hosts.push(...readHeader(req, 'x-forwarded-host').split(','));
+  }
+  const { value: serviceDomain } = readEnvValue('CHATTER_WEB_SERVICE_DOMAIN');
+  if (serviceDomain) {
+    const origin = serviceDomain.includes('://') ? parseOrigin(serviceDomain) : null;
+    hosts.push(origin ? new URL(origin).host : serviceDomain);
+  }
+
+  const origins = new Set<string>();
+  for (const host of hosts.map((value) => value.trim()).filter(Boolean)) {
+    for (const scheme of ['https', 'http']) {
+      const origin = parseOrigin(`${scheme}://${host}`);
+      if (origin) {
+        origins.add(origin);
+      }
+    }
+  }
+  return origins;
+};
+
+const isOriginAllowed = (req: IncomingMessage, socket: NetSocket): boolean => {
+  const origin = readHeader(req, 'origin');
+  if (!origin) {
+    return true;
+  }
+  const parsed = parseOrigin(origin);
+  return parsed !== null && readAllowedOrigins(req, socket).has(parsed);
+};
+
+// Connect tickets, required when CHATTER_CONNECT_TICKETS is on: the page fetches one from /terminal/ticket and
+// passes it on the upgrade. A ticket is an expiry and nonce signed together with the origin and client address
+// it was issued to, and is accepted once. Set CHATTER_TICKET_SECRET when several instances share a hostname.
+const DEFAULT_TICKET_TTL_SECONDS = 30;
+const ticketSecret = readEnvValue('CHATTER_TICKET_SECRET').value ?? randomBytes(32).toString('hex');
+const redeemedTickets = new Map<string, number>();
+
+const signTicket = (payload: string, origin: string, clientAddress: string) =>
+  createHmac('sha256', ticketSecret).update(`${payload}\n${origin}\n${clientAddress}`).digest('base64url');
+
+const issueConnectTicket = (origin: string, clientAddress: string) => {
+  const ttlSeconds = readPositiveIntegerEnv(DEFAULT_TICKET_TTL_SECONDS, 'CHATTER_TICKET_TTL_SECONDS');
+  const expiresAt = Date.now() + ttlSeconds * 1000;
+  const payload = `${expiresAt}.${randomBytes(12).toString('base64url')}`;
+  return { ticket: `${payload}.${signTicket(payload, origin, clientAddress)}`, expiresAt };
+};
+
+const redeemConnectTicket = (ticket: string, origin: string, clientAddress: string): boolean => {
+  const now = Date.now();
+  for (const [nonce, expiresAt] of redeemedTickets) {
+    if (expiresAt <= now) {
+      redeemedTickets.delete(nonce);
+    }
+  }
+
+  const match = /^(\d{1,15})\.([A-Za-z0-9_-]{16})\.([A-Za-z0-9_-]{43})$/.exec(ticket);
+  if (!match) {
+    return false;
+  }
+  const expiresAt = Number(match[1]);
+  const nonce = match[2];
+  if (expiresAt <= now || redeemedTickets.has(nonce)) {
+    return false;
+  }
+  const expected = createHash('sha256').update(signTicket(`${match[1]}.${nonce}`, origin, clientAddress)).digest();
+  if (!timingSafeEqual(expected, createHash('sha256').update(match[3]).digest())) {
+    return false;
+  }
+  redeemedTickets.set(nonce, expiresAt);
+  return true;
+};
+
+// Hashing both sides first keeps the comparison constant-time whatever the token lengths.
+const hasBearerToken = (req: IncomingMessage, token: string): boolean => {
+  const header = req.headers?.authorization;
+  const match = /^Bearer\s+(\S+)$/i.exec((Array.isArray(header) ? header[0] : header) ?? '');
+  if (!match) {
+    return false;
+  }
+  const expected = createHash('sha256').update(token).digest();
+  const presented = createHash('sha256').update(match[1]).digest();
+  return timingSafeEqual(expected, presented);
+};
+
+// CHATTER_METRICS_TOKEN, when set, must arrive as a bearer token.
+const isMetricsRequestAuthorised = (req: IncomingMessage): boolean => {
+  const { value: token } = readEnvValue('CHATTER_METRICS_TOKEN');
+  return !token || hasBearerToken(req, token);
+};
+
 const readBbsSettings = (options: { silent?: boolean } = {}): BbsSettings | null => {
   const { silent = false } = options;
   const { value: host } = readEnvValue('CHATTER_BBS_HOST', 'CHATTER_TERMINAL_HOST');
@@ -191,52 +636,94 @@ const containsPasswordPrompt = (value: string): boolean => {
   return PASSWORD_PROMPT_PATTERN.test(sanitized);
 };
 
-const isPrivateIpv4 = (segments: number[]) => {
-  if (segments.length !== 4 || segments.some((part) => Number.isNaN(part) || part < 0 || part > 255)) {
-    return false;
-  }
-
-  const [a, b] = segments;
+// Ranges a browser-chosen target may not reach, as CIDR prefixes. Addresses are compared as bytes, so "0::1" and
+// "0:0:0:0:0:0:0:1" are caught as readily as "::1".
+const BLOCKED_IPV4_RANGES: ReadonlyArray<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  // Multicast, the reserved 240/4 block and broadcast.
+  ['224.0.0.0', 3]
+];
 
-  if (a === 10 || a === 127 || a === 0) {
-    return true;
-  }
+const BLOCKED_IPV6_RANGES: ReadonlyArray<[string, number]> = [
+  // Unspecified, loopback and the deprecated IPv4-compatible block.
+  ['::', 96],
+  // NAT64 and 6to4 both carry an IPv4 address the bridge would end up reaching.
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8]
+];
 
-  if (a === 192 && b === 168) {
-    return true;
+const parseIpv4Bytes = (value: string): number[] | null => {
+  if (isIP(value) !== 4) {
+    return null;
   }
+  return value.split('.').map((segment) => Number.parseInt(segment, 10));
+};
 
-  if (a === 172 && b >= 16 && b <= 31) {
-    return true;
+const parseIpv6Bytes = (value: string): number[] | null => {
+  if (isIP(value) !== 6) {
+    return null;
   }
-
-  if (a === 169 && b === 254) {
-    return true;
+  // A dotted IPv4 tail ("::ffff:10.0.0.5") stands for the last two groups.
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/u.exec(value);
+  let text = value;
+  if (dotted) {
+    const [a, b, c, d] = parseIpv4Bytes(dotted[1]) ?? [];
+    if (a === undefined) {
+      return null;
+    }
+    text = `${value.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+  if (groups.length !== 8) {
+    return null;
   }
+  return groups.flatMap((group) => {
+    const word = Number.parseInt(group, 16);
+    return [word >> 8, word & 0xff];
+  });
+};
 
-  if (a === 100 && b >= 64 && b <= 127) {
-    return true;
+const inRange = (bytes: number[], [prefix, bits]: [string, number]) => {
+  const base = (bytes.length === 4 ? parseIpv4Bytes(prefix) : parseIpv6Bytes(prefix)) ?? [];
+  for (let bit = 0; bit < bits; bit += 8) {
+    const mask = bits - bit >= 8 ? 0xff : (0xff << (8 - (bits - bit))) & 0xff;
+    if ((bytes[bit / 8] & mask) !== (base[bit / 8] & mask)) {
+      return false;
+    }
   }
-
-  return false;
+  return true;
 };
 
-const isPrivateIpv6 = (value: string) => {
-  const normalised = value.toLowerCase();
-
-  if (normalised === '::1' || normalised === '::') {
-    return true;
+const isBlockedAddress = (value: string): boolean => {
+  const ipv4 = parseIpv4Bytes(value);
+  if (ipv4) {
+    return BLOCKED_IPV4_RANGES.some((range) => inRange(ipv4, range));
   }
-
-  if (normalised.startsWith('fc') || normalised.startsWith('fd')) {
-    return true;
+  const ipv6 = parseIpv6Bytes(value);
+  if (!ipv6) {
+    return false;
   }
-
-  if (normalised.startsWith('fe8') || normalised.startsWith('fe9') || normalised.startsWith('fea') || normalised.startsWith('feb')) {
-    return true;
+  // ::ffff:0:0/96 maps IPv4 addresses, which are judged as IPv4.
+  if (ipv6.slice(0, 10).every((byte) => byte === 0) && ipv6[10] === 0xff && ipv6[11] === 0xff) {
+    return BLOCKED_IPV4_RANGES.some((range) => inRange(ipv6.slice(12), range));
   }
-
-  return false;
+  return BLOCKED_IPV6_RANGES.some((range) => inRange(ipv6, range));
 };
 
 const isBlockedHostOverride = (value: string): boolean => {
@@ -252,17 +739,7 @@ const isBlockedHostOverride = (value: string): boolean => {
     return true;
   }
 
-  const ipVersion = isIP(stripped);
-  if (ipVersion === 4) {
-    const parts = stripped.split('.').map((segment) => Number.parseInt(segment, 10));
-    return isPrivateIpv4(parts);
-  }
-
-  if (ipVersion === 6) {
-    return isPrivateIpv6(stripped);
-  }
-
-  return false;
+  return isBlockedAddress(lower);
 };
 
 const normaliseHostOverride = (
@@ -288,6 +765,93 @@ const normaliseHostOverride = (
   return { present: true, valid: true, host: trimmed };
 };
 
+// Operator lists for browser-chosen targets, as comma-separated `host`, `host:port` or `host:low-high` entries;
+// `*` in a host matches anything ("*.example.com", "203.0.113.*") and IPv6 hosts go in brackets.
+type TargetPattern = { host: RegExp; ports: [number, number] | null };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/gu, '\\$&');
+
+const parseTargetPatterns = (...keys: string[]): TargetPattern[] => {
+  const { value, source } = readEnvValue(...keys);
+  const patterns: TargetPattern[] = [];
+  for (const entry of (value ?? '').split(',').map((item) => item.trim().toLowerCase()).filter(Boolean)) {
+    let hostPart = entry;
+    let portPart: string | null = null;
+    if (entry.startsWith('[')) {
+      const end = entry.indexOf(']');
+      hostPart = entry.slice(1, end === -1 ? undefined : end);
+      portPart = end !== -1 && entry[end + 1] === ':' ? entry.slice(end + 2) : null;
+    } else if (entry.split(':').length === 2) {
+      [hostPart, portPart] = entry.split(':');
+    }
+
+    const portMatch = portPart === null ? null : /^(\d{1,5})(?:-(\d{1,5}))?$/u.exec(portPart);
+    if (!hostPart || (portPart !== null && !portMatch)) {
+      console.warn(`Ignoring invalid ${source} entry: ${entry}`);
+      continue;
+    }
+    const low = portMatch ? Number.parseInt(portMatch[1], 10) : 0;
+    const high = portMatch?.[2] ? Number.parseInt(portMatch[2], 10) : low;
+    const host = new RegExp(`^${hostPart.split('*').map(escapeRegExp).join('.*')}$`, 'u');
+    patterns.push({ host, ports: portMatch ? [low, high] : null });
+  }
+  return patterns;
+};
+
+const matchesTarget = (patterns: TargetPattern[], names: string[], port: number) =>
+  patterns.some(
+    (pattern) =>
+      (!pattern.ports || (port >= pattern.ports[0] && port <= pattern.ports[1])) &&
+      names.some((name) => pattern.host.test(name))
+  );
+
+type TargetVetting = { ok: true; address: string | null } | { ok: false; message: string };
+
+// A name that passes the literal check can still resolve to 10.0.0.5 or ::1, so browser-chosen hosts are looked up
+// here and refused if any address is internal. The bridge then dials the address it vetted rather than the name,
+// which leaves no second lookup for a rebinding DNS server to answer differently.
+const vetBbsTarget = async (host: string, port: number, resolveHost: boolean): Promise<TargetVetting> => {
+  const name = stripZoneId(stripIpv6Brackets(host)).toLowerCase().replace(/\.$/u, '');
+  const denied = parseTargetPatterns('CHATTER_TARGET_DENYLIST');
+  const allowed = parseTargetPatterns('CHATTER_TARGET_ALLOWLIST');
+  const nameAllowed = allowed.length === 0 || matchesTarget(allowed, [name], port);
+  if (matchesTarget(denied, [name], port) || (!nameAllowed && !resolveHost)) {
+    return { ok: false, message: 'Target not permitted' };
+  }
+  if (!resolveHost) {
+    return { ok: true, address: null };
+  }
+
+  // Only the addresses could still admit a name missing from the allow list, so without them it is a refusal.
+  const unresolved = nameAllowed ? 'Host override could not be resolved' : 'Target not permitted';
+  let addresses: string[];
+  if (isIP(name)) {
+    addresses = [name];
+  } else {
+    try {
+      addresses = (await lookup(name, { all: true, verbatim: true })).map((entry) => entry.address);
+    } catch {
+      return { ok: false, message: unresolved };
+    }
+  }
+  if (addresses.length === 0) {
+    return { ok: false, message: unresolved };
+  }
+  if (addresses.some((address) => isBlockedAddress(stripZoneId(address).toLowerCase()))) {
+    return { ok: false, message: 'Host override not permitted' };
+  }
+  // Each address faces the lists as well: a denied one is refused whatever name led to it, and a name missing from
+  // the allow list passes only when every address it resolves to is on it.
+  const resolved = addresses.map((address) => stripZoneId(address).toLowerCase());
+  if (
+    matchesTarget(denied, resolved, port) ||
+    (!nameAllowed && !resolved.every((address) => matchesTarget(allowed, [address], port)))
+  ) {
+    return { ok: false, message: 'Target not permitted' };
+  }
+  return { ok: true, address: addresses[0] };
+};
+
 const normalisePortOverride = (
   value: string | null
 ): { present: boolean; valid: boolean; port: number | null } => {
@@ -308,6 +872,45 @@ const normalisePortOverride = (
   return { present: true, valid: true, port: parsed };
 };
 
+const normaliseWindowDimension = (
+  value: string | number | null | undefined
+): { present: boolean; valid: boolean; value: number | null } => {
+  if (value === null || value === undefined) {
+    return { present: false, valid: true, value: null };
+  }
+
+  const parsed = typeof value === 'number' ? value : Number.parseInt(value.trim(), 10);
+  if (!Number.isInteger(parsed) || parsed <= 0 || parsed > MAX_WINDOW_DIMENSION) {
+    return { present: true, valid: false, value: null };
+  }
+
+  return { present: true, valid: true, value: parsed };
+};
+
+const normaliseResumeParams = (
+  token: string | null,
+  offset: string | null
+): { valid: boolean; token: string | null; offset: number } => {
+  if (token === null) {
+    return { valid: true, token: null, offset: 0 };
+  }
+
+  if (!RESUME_TOKEN_PATTERN.test(token)) {
+    return { valid: false, token: null, offset: 0 };
+  }
+
+  if (offset === null) {
+    return { valid: true, token, offset: 0 };
+  }
+
+  const parsed = Number.parseInt(offset, 10);
+  if (!/^\d+$/.test(offset) || !Number.isSafeInteger(parsed)) {
+    return { valid: false, token: null, offset: 0 };
+  }
+
+  return { valid: true, token, offset: parsed };
+};
+
 const resolveRuntimeConfig = () => {
   const config: Record<string, string> = {};
   const settings = readBbsSettings({ silent: true });
@@ -369,6 +972,10 @@ const resolveRuntimeConfig = () => {
     config.webServiceDomain = serviceDomain;
   }
 
+  if (readBooleanEnv(false, 'CHATTER_CONNECT_TICKETS')) {
+    config.connectTickets = 'required';
+  }
+
   return config;
 };
 
@@ -458,12 +1065,13 @@ async function resolveFile(urlPath: string) {
   return null;
 }
 
-const createFrame = (payload: Buffer, opcode: number) => {
+const createFrame = (payload: Buffer, opcode: number, compressed = false) => {
+  const head = 0x80 | (compressed ? 0x40 : 0) | (opcode & 0x0f);
   const length = payload.length;
 
   if (length < 126) {
     const frame = Buffer.alloc(2 + length);
-    frame[0] = 0x80 | (opcode & 0x0f);
+    frame[0] = head;
     frame[1] = length;
     payload.copy(frame, 2);
     return frame;
@@ -471,7 +1079,7 @@ const createFrame = (payload: Buffer, opcode: number) => {
 
   if (length < 65_536) {
     const frame = Buffer.alloc(4 + length);
-    frame[0] = 0x80 | (opcode & 0x0f);
+    frame[0] = head;
     frame[1] = 126;
     frame.writeUInt16BE(length, 2);
     payload.copy(frame, 4);
@@ -479,7 +1087,7 @@ const createFrame = (payload: Buffer, opcode: number) => {
   }
 
   const frame = Buffer.alloc(10 + length);
-  frame[0] = 0x80 | (opcode & 0x0f);
+  frame[0] = head;
   frame[1] = 127;
   frame.writeUInt32BE(0, 2);
   frame.writeUInt32BE(length, 6);
@@ -487,12 +1095,35 @@ const createFrame = (payload: Buffer, opcode: number) => {
   return frame;
 };
 
+const createDataFrame = (context: TerminalClientContext, payload: Buffer, opcode: number) => {
+  if (!context.deflate || payload.length < DEFLATE_MIN_PAYLOAD_BYTES) {
+    return createFrame(payload, opcode);
+  }
+
+  try {
+    const deflated = deflateRawSync(payload, {
+      finishFlush: zlibConstants.Z_SYNC_FLUSH,
+      windowBits: context.deflate.serverMaxWindowBits
+    });
+    // RFC 7692 7.2.1: drop the empty stored block that the sync flush appends.
+    const trimmed = deflated.subarray(0, deflated.length - DEFLATE_TRAILER.length);
+    if (trimmed.length < payload.length) {
+      return createFrame(trimmed, opcode, true);
+    }
+  } catch (error) {
+    console.warn('Failed to deflate WebSocket payload; sending uncompressed', error);
+  }
+
+  return createFrame(payload, opcode);
+};
+
 const sendBinaryFrame = (context: TerminalClientContext, data: Buffer | ArrayBuffer) => {
   if (context.closed) {
     return;
   }
   const payload = Buffer.isBuffer(data) ? data : Buffer.from(data);
-  context.socket.write(createFrame(payload, 0x2));
+  context.session.bytesOut += payload.length;
+  context.socket.write(createDataFrame(context, payload, 0x2));
 };
 
 const sendTextFrame = (context: TerminalClientContext, message: string) => {
@@ -500,7 +1131,65 @@ const sendTextFrame = (context: TerminalClientContext, message: string) => {
     return;
   }
   const payload = Buffer.from(message, 'utf8');
-  context.socket.write(createFrame(payload, 0x1));
+  context.socket.write(createDataFrame(context, payload, 0x1));
+};
+
+// Mirrors src/utils/terminalControl.ts; text frames carry these envelopes, binary frames stay raw terminal data.
+const CONTROL_PROTOCOL_VERSION = 1;
+
+type ControlMessage =
+  | { type: 'status'; state: 'dialling' | 'connected'; message: string }
+  | { type: 'error'; code: string; message: string }
+  | { type: 'notice'; message: string }
+  | { type: 'resize'; cols: number; rows: number }
+  | { type: 'latency'; id: number; sentAt: number; serverTime?: number }
+  | {
+      type: 'session-info';
+      protocol: BbsProtocol;
+      host: string;
+      port: number;
+      cols: number;
+      rows: number;
+      startedAt: string;
+      resumeToken: string;
+      resumed: boolean;
+      outputOffset: number;
+    };
+
+const sendControlMessage = (context: TerminalClientContext, message: ControlMessage) => {
+  sendTextFrame(context, JSON.stringify({ v: CONTROL_PROTOCOL_VERSION, ...message }));
+};
+
+const sendStatusMessage = (
+  context: TerminalClientContext,
+  state: 'dialling' | 'connected',
+  message: string
+) => {
+  sendControlMessage(context, { type: 'status', state, message });
+};
+
+const sendErrorMessage = (context: TerminalClientContext, code: string, message: string) => {
+  sendControlMessage(context, { type: 'error', code, message });
+};
+
+const sendSessionInfo = (
+  context: TerminalClientContext,
+  options: { resumed: boolean; outputOffset: number }
+) => {
+  const { session } = context;
+  const { protocol, host, port } = session.settings;
+  sendControlMessage(context, {
+    type: 'session-info',
+    protocol,
+    host,
+    port,
+    cols: session.windowSize.cols,
+    rows: session.windowSize.rows,
+    startedAt: session.startedAt,
+    resumeToken: session.token,
+    resumed: options.resumed,
+    outputOffset: options.outputOffset
+  });
 };
 
 const sendPongFrame = (context: TerminalClientContext, payload: Buffer) => {
@@ -525,52 +1214,570 @@ const createCloseFrame = (code: number, reason: string) => {
   return createFrame(payload, 0x08);
 };
 
-const disposeBridge = (context: TerminalClientContext) => {
-  if (context.pingTimer) {
-    clearInterval(context.pingTimer);
-    delete context.pingTimer;
-  }
-  if (context.bridge) {
-    try {
-      context.bridge.dispose();
-    } catch (error) {
-      console.error('Error while disposing terminal bridge', error);
+const createOutputRing = (capacity: number): OutputRing => ({
+  chunks: [],
+  size: 0,
+  capacity,
+  startOffset: 0,
+  endOffset: 0
+});
+
+const appendToOutputRing = (ring: OutputRing, chunk: Buffer) => {
+  ring.chunks.push(chunk);
+  ring.size += chunk.length;
+  ring.endOffset += chunk.length;
+
+  while (ring.size > ring.capacity && ring.chunks.length > 0) {
+    const excess = ring.size - ring.capacity;
+    const head = ring.chunks[0];
+    if (head.length <= excess) {
+      ring.chunks.shift();
+      ring.size -= head.length;
+      ring.startOffset += head.length;
+    } else {
+      ring.chunks[0] = head.subarray(excess);
+      ring.size -= excess;
+      ring.startOffset += excess;
     }
-    context.bridge = null;
   }
 };
 
-const terminate = (context: TerminalClientContext, code: number, reason: string) => {
-  if (!context.sentClose) {
-    context.socket.write(createCloseFrame(code, reason));
-    context.sentClose = true;
+// Returns the buffered output from `offset` onwards, clamped to what the ring still holds.
+const readOutputRing = (ring: OutputRing, offset: number): { offset: number; data: Buffer } => {
+  if (offset >= ring.endOffset) {
+    return { offset: ring.endOffset, data: Buffer.alloc(0) };
   }
-  if (!context.closed) {
-    context.closed = true;
-    disposeBridge(context);
-    context.socket.end();
+
+  const start = Math.max(offset, ring.startOffset);
+  const data = Buffer.concat(ring.chunks).subarray(start - ring.startOffset);
+  return { offset: start, data };
+};
+
+const openSessionRecording = (settings: BbsSettings, windowSize: WindowSize): SessionRecording | null => {
+  const { value: directory } = readEnvValue('CHATTER_RECORDINGS_DIR');
+  if (!directory) {
+    return null;
+  }
+
+  const startedAt = Date.now();
+  const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, '-');
+  const path = join(directory, `${stamp}-${randomBytes(4).toString('hex')}.cast`);
+  let stream: WriteStream;
+  try {
+    mkdirSync(directory, { recursive: true });
+    stream = createWriteStream(path, { flags: 'wx', mode: 0o600 });
+  } catch (error) {
+    console.error(`Unable to open session recording in ${directory}`, error);
+    return null;
   }
+  stream.on('error', (error: unknown) => {
+    console.error(`Session recording ${path} failed`, error);
+  });
+
+  const header = {
+    version: 2,
+    width: windowSize.cols,
+    height: windowSize.rows,
+    timestamp: Math.floor(startedAt / 1000),
+    env: { TERM: 'xterm-256color' },
+    title: `${settings.protocol.toUpperCase()} ${settings.host}:${settings.port}`
+  };
+  stream.write(`${JSON.stringify(header)}\n`);
+
+  return {
+    stream,
+    startedAt,
+    includeInput: readBooleanEnv(false, 'CHATTER_RECORD_INPUT'),
+    outputDecoder: new TextDecoder(),
+    inputDecoder: new TextDecoder()
+  };
 };
 
-const closeSilently = (context: TerminalClientContext) => {
-  if (context.closed) {
+const writeRecordingEvent = (recording: SessionRecording, type: 'o' | 'i' | 'r', data: string) => {
+  if (!data) {
     return;
   }
-  context.closed = true;
-  disposeBridge(context);
+  const elapsed = Math.round(Date.now() - recording.startedAt) / 1000;
+  recording.stream.write(`${JSON.stringify([elapsed, type, data])}\n`);
 };
 
-const attachTelnetBridge = (context: TerminalClientContext) => {
-  const { host, port } = context.settings;
-  sendTextFrame(context, `Dialling TELNET ${host}:${port} …`);
-  const remote = connect({ host, port });
+const closeSessionRecording = (session: TerminalSession) => {
+  const { recording } = session;
+  if (!recording) {
+    return;
+  }
+  session.recording = null;
+  writeRecordingEvent(recording, 'o', recording.outputDecoder.decode());
+  recording.stream.end();
+};
+
+const createTerminalSession = (
+  settings: BbsSettings,
+  windowSize: WindowSize,
+  remoteAddress: string,
+  username: string | null
+): TerminalSession => {
+  const session: TerminalSession = {
+    id: randomBytes(9).toString('base64url'),
+    token: randomBytes(24).toString('base64url'),
+    remoteAddress,
+    username,
+    bytesIn: 0,
+    bytesOut: 0,
+    inputBucket: {
+      tokens: readPositiveIntegerEnv(DEFAULT_INPUT_BYTES_PER_SECOND, 'CHATTER_INPUT_BYTES_PER_SECOND'),
+      updatedAt: Date.now()
+    },
+    pendingNotices: [],
+    settings,
+    windowSize,
+    startedAt: new Date().toISOString(),
+    bridge: null,
+    client: null,
+    output: createOutputRing(
+      readPositiveIntegerEnv(DEFAULT_RESUME_BUFFER_BYTES, 'CHATTER_RESUME_BUFFER_BYTES')
+    ),
+    recording: openSessionRecording(settings, windowSize),
+    ended: false
+  };
+  terminalSessions.set(session.token, session);
+  return session;
+};
+
+const withSessionClient = (session: TerminalSession, send: (context: TerminalClientContext) => void) => {
+  if (session.client && !session.client.closed) {
+    send(session.client);
+  }
+};
+
+const sendSessionOutput = (session: TerminalSession, chunk: Buffer) => {
+  bridgeMetrics.bytesFromBbs += chunk.length;
+  appendToOutputRing(session.output, chunk);
+  if (session.recording) {
+    writeRecordingEvent(
+      session.recording,
+      'o',
+      session.recording.outputDecoder.decode(chunk, { stream: true })
+    );
+  }
+  withSessionClient(session, (context) => {
+    sendBinaryFrame(context, chunk);
+  });
+};
+
+const stopPingTimer = (context: TerminalClientContext) => {
+  if (context.pingTimer) {
+    clearInterval(context.pingTimer);
+    delete context.pingTimer;
+  }
+};
+
+// Closes the client socket without touching the session it was attached to.
+const detachClient = (context: TerminalClientContext, code: number, reason: string) => {
+  if (!context.sentClose) {
+    context.socket.write(createCloseFrame(code, reason));
+    context.sentClose = true;
+  }
+  if (!context.closed) {
+    context.closed = true;
+    stopPingTimer(context);
+    context.socket.end();
+  }
+};
+
+const endSession = (session: TerminalSession, code = 1000, reason = 'Session ended') => {
+  if (session.ended) {
+    return;
+  }
+  session.ended = true;
+  terminalSessions.delete(session.token);
+  observeSessionDuration(session);
+  closeSessionRecording(session);
+  if (session.graceTimer) {
+    clearTimeout(session.graceTimer);
+    delete session.graceTimer;
+  }
+  if (session.bridge) {
+    try {
+      session.bridge.dispose();
+    } catch (error) {
+      console.error('Error while disposing terminal bridge', error);
+    }
+    session.bridge = null;
+  }
+  const client = session.client;
+  session.client = null;
+  if (client) {
+    detachClient(client, code, reason);
+  }
+};
+
+const parkSession = (session: TerminalSession) => {
+  session.client = null;
+  if (session.ended) {
+    return;
+  }
+
+  const graceSeconds = readPositiveIntegerEnv(
+    DEFAULT_RESUME_GRACE_SECONDS,
+    'CHATTER_RESUME_GRACE_SECONDS'
+  );
+  session.graceTimer = setTimeout(() => {
+    delete session.graceTimer;
+    endSession(session, 1001, 'Resume window expired');
+  }, graceSeconds * 1000);
+};
+
+const attachClient = (session: TerminalSession, context: TerminalClientContext) => {
+  if (session.graceTimer) {
+    clearTimeout(session.graceTimer);
+    delete session.graceTimer;
+  }
+  const previous = session.client;
+  session.client = context;
+  if (previous && previous !== context) {
+    detachClient(previous, 4000, 'Session resumed elsewhere');
+  }
+};
+
+const releaseSession = (context: TerminalClientContext, end: boolean) => {
+  stopPingTimer(context);
+  const { session } = context;
+  if (session.client !== context) {
+    return;
+  }
+  if (end) {
+    endSession(session);
+  } else {
+    parkSession(session);
+  }
+};
+
+const terminate = (context: TerminalClientContext, code: number, reason: string) => {
+  if (!context.sentClose) {
+    context.socket.write(createCloseFrame(code, reason));
+    context.sentClose = true;
+  }
+  if (!context.closed) {
+    context.closed = true;
+    releaseSession(context, true);
+    context.socket.end();
+  }
+};
+
+// The socket went away without a normal closure (reload, network blip), so park the session for a resume.
+const closeSilently = (context: TerminalClientContext, end = false) => {
+  if (context.closed) {
+    return;
+  }
+  context.closed = true;
+  releaseSession(context, end);
+};
+
+const TELNET_IAC = 0xff;
+const TELNET_DONT = 0xfe;
+const TELNET_DO = 0xfd;
+const TELNET_WONT = 0xfc;
+const TELNET_WILL = 0xfb;
+const TELNET_SB = 0xfa;
+const TELNET_NOP = 0xf1;
+const TELNET_SE = 0xf0;
+
+const TELNET_OPTION_BINARY = 0;
+const TELNET_OPTION_ECHO = 1;
+const TELNET_OPTION_SGA = 3;
+const TELNET_OPTION_TTYPE = 24;
+const TELNET_OPTION_NAWS = 31;
+const TELNET_OPTION_CHARSET = 42;
+
+const TELNET_TTYPE_IS = 0;
+const TELNET_TTYPE_SEND = 1;
+const TELNET_CHARSET_REQUEST = 1;
+const TELNET_CHARSET_ACCEPTED = 2;
+const TELNET_CHARSET_REJECTED = 3;
+
+const TELNET_TERMINAL_TYPE = 'xterm-256color';
+const TELNET_MAX_SUBNEGOTIATION_BYTES = 1024;
+
+// Options we perform on our side when the BBS asks with DO.
+const TELNET_LOCAL_OPTIONS = new Set([
+  TELNET_OPTION_BINARY,
+  TELNET_OPTION_SGA,
+  TELNET_OPTION_TTYPE,
+  TELNET_OPTION_NAWS,
+  TELNET_OPTION_CHARSET
+]);
+
+// Options we let the BBS perform when it offers them with WILL.
+const TELNET_REMOTE_OPTIONS = new Set([
+  TELNET_OPTION_BINARY,
+  TELNET_OPTION_ECHO,
+  TELNET_OPTION_SGA,
+  TELNET_OPTION_CHARSET
+]);
+
+type TelnetParserState = 'data' | 'iac' | 'negotiate' | 'sb' | 'sb-iac';
+
+type TelnetNegotiator = {
+  receive: (chunk: Buffer) => Buffer;
+  encode: (data: Buffer) => Buffer;
+  resize: (size: WindowSize) => void;
+  nop: () => void;
+};
+
+const escapeTelnetData = (data: Buffer): Buffer => {
+  let count = 0;
+  for (let index = 0; index < data.length; index += 1) {
+    if (data[index] === TELNET_IAC) {
+      count += 1;
+    }
+  }
+
+  if (count === 0) {
+    return data;
+  }
+
+  const escaped = Buffer.alloc(data.length + count);
+  let offset = 0;
+  for (let index = 0; index < data.length; index += 1) {
+    escaped[offset] = data[index];
+    offset += 1;
+    if (data[index] === TELNET_IAC) {
+      escaped[offset] = TELNET_IAC;
+      offset += 1;
+    }
+  }
+  return escaped;
+};
+
+const createTelnetNegotiator = (
+  send: (data: Buffer) => void,
+  initialWindowSize: WindowSize = DEFAULT_WINDOW_SIZE
+): TelnetNegotiator => {
+  const localEnabled = new Set<number>();
+  const remoteEnabled = new Set<number>();
+  let state: TelnetParserState = 'data';
+  let pendingVerb = 0;
+  let subnegotiation: number[] = [];
+  let previousWasCr = false;
+  let windowSize: WindowSize = { ...initialWindowSize };
+
+  const sendCommand = (verb: number, option: number) => {
+    send(Buffer.from([TELNET_IAC, verb, option]));
+  };
+
+  const sendSubnegotiation = (option: number, payload: number[]) => {
+    const body = escapeTelnetData(Buffer.from(payload));
+    const frame = Buffer.alloc(body.length + 5);
+    frame[0] = TELNET_IAC;
+    frame[1] = TELNET_SB;
+    frame[2] = option;
+    body.copy(frame, 3);
+    frame[body.length + 3] = TELNET_IAC;
+    frame[body.length + 4] = TELNET_SE;
+    send(frame);
+  };
+
+  const sendWindowSize = () => {
+    const cols = Math.max(0, Math.min(65_535, Math.floor(windowSize.cols)));
+    const rows = Math.max(0, Math.min(65_535, Math.floor(windowSize.rows)));
+    sendSubnegotiation(TELNET_OPTION_NAWS, [cols >> 8, cols & 0xff, rows >> 8, rows & 0xff]);
+  };
+
+  const handleCharsetRequest = (payload: number[]) => {
+    if (payload.length < 2) {
+      sendSubnegotiation(TELNET_OPTION_CHARSET, [TELNET_CHARSET_REJECTED]);
+      return;
+    }
+
+    let text = Buffer.from(payload).toString('latin1');
+    if (text.startsWith('[TTABLE]')) {
+      text = text.slice('[TTABLE]'.length + 1);
+    }
+    const separator = text[0];
+    const offered = text
+      .slice(1)
+      .split(separator)
+      .map((entry) => entry.trim());
+    const accepted = offered.find((entry) => /^utf-?8$/iu.test(entry));
+
+    if (accepted) {
+      sendSubnegotiation(TELNET_OPTION_CHARSET, [
+        TELNET_CHARSET_ACCEPTED,
+        ...Array.from(Buffer.from(accepted, 'latin1'))
+      ]);
+    } else {
+      sendSubnegotiation(TELNET_OPTION_CHARSET, [TELNET_CHARSET_REJECTED]);
+    }
+  };
+
+  const handleSubnegotiation = (payload: number[]) => {
+    if (payload.length === 0) {
+      return;
+    }
+
+    const [option, ...rest] = payload;
+
+    if (option === TELNET_OPTION_TTYPE && rest[0] === TELNET_TTYPE_SEND) {
+      sendSubnegotiation(TELNET_OPTION_TTYPE, [
+        TELNET_TTYPE_IS,
+        ...Array.from(Buffer.from(TELNET_TERMINAL_TYPE, 'latin1'))
+      ]);
+      return;
+    }
+
+    if (option === TELNET_OPTION_CHARSET && rest[0] === TELNET_CHARSET_REQUEST) {
+      handleCharsetRequest(rest.slice(1));
+    }
+  };
+
+  const handleNegotiation = (verb: number, option: number) => {
+    switch (verb) {
+      case TELNET_WILL:
+        if (remoteEnabled.has(option)) {
+          return;
+        }
+        if (TELNET_REMOTE_OPTIONS.has(option)) {
+          remoteEnabled.add(option);
+          sendCommand(TELNET_DO, option);
+        } else {
+          sendCommand(TELNET_DONT, option);
+        }
+        return;
+      case TELNET_WONT:
+        if (remoteEnabled.delete(option)) {
+          sendCommand(TELNET_DONT, option);
+        }
+        return;
+      case TELNET_DO:
+        if (localEnabled.has(option)) {
+          return;
+        }
+        if (TELNET_LOCAL_OPTIONS.has(option)) {
+          localEnabled.add(option);
+          sendCommand(TELNET_WILL, option);
+          if (option === TELNET_OPTION_NAWS) {
+            sendWindowSize();
+          }
+        } else {
+          sendCommand(TELNET_WONT, option);
+        }
+        return;
+      case TELNET_DONT:
+        if (localEnabled.delete(option)) {
+          sendCommand(TELNET_WONT, option);
+        }
+        return;
+      default:
+        return;
+    }
+  };
+
+  const receive = (chunk: Buffer): Buffer => {
+    const output: number[] = [];
+
+    for (let index = 0; index < chunk.length; index += 1) {
+      const byte = chunk[index];
+
+      switch (state) {
+        case 'data':
+          if (byte === TELNET_IAC) {
+            state = 'iac';
+            break;
+          }
+          // RFC 854: a bare carriage return travels as CR NUL outside binary mode.
+          if (byte === 0 && previousWasCr && !remoteEnabled.has(TELNET_OPTION_BINARY)) {
+            previousWasCr = false;
+            break;
+          }
+          previousWasCr = byte === 0x0d;
+          output.push(byte);
+          break;
+        case 'iac':
+          if (byte === TELNET_IAC) {
+            output.push(TELNET_IAC);
+            previousWasCr = false;
+            state = 'data';
+          } else if (byte === TELNET_WILL || byte === TELNET_WONT || byte === TELNET_DO || byte === TELNET_DONT) {
+            pendingVerb = byte;
+            state = 'negotiate';
+          } else if (byte === TELNET_SB) {
+            subnegotiation = [];
+            state = 'sb';
+          } else {
+            // NOP, GA, AYT and the other single-byte commands carry no data.
+            state = 'data';
+          }
+          break;
+        case 'negotiate':
+          handleNegotiation(pendingVerb, byte);
+          state = 'data';
+          break;
+        case 'sb':
+          if (byte === TELNET_IAC) {
+            state = 'sb-iac';
+          } else if (subnegotiation.length < TELNET_MAX_SUBNEGOTIATION_BYTES) {
+            subnegotiation.push(byte);
+          }
+          break;
+        case 'sb-iac':
+          if (byte === TELNET_SE) {
+            handleSubnegotiation(subnegotiation);
+            subnegotiation = [];
+            state = 'data';
+          } else if (byte === TELNET_IAC) {
+            if (subnegotiation.length < TELNET_MAX_SUBNEGOTIATION_BYTES) {
+              subnegotiation.push(TELNET_IAC);
+            }
+            state = 'sb';
+          } else {
+            // Malformed subnegotiation; drop it and resume on the stray command byte.
+            subnegotiation = [];
+            state = 'iac';
+            index -= 1;
+          }
+          break;
+      }
+    }
+
+    return Buffer.from(output);
+  };
+
+  return {
+    receive,
+    encode: escapeTelnetData,
+    resize: ({ cols, rows }: WindowSize) => {
+      if (windowSize.cols === cols && windowSize.rows === rows) {
+        return;
+      }
+      windowSize = { cols, rows };
+      if (localEnabled.has(TELNET_OPTION_NAWS)) {
+        sendWindowSize();
+      }
+    },
+    nop: () => {
+      send(Buffer.from([TELNET_IAC, TELNET_NOP]));
+    }
+  };
+};
+
+const attachTelnetBridge = (session: TerminalSession) => {
+  const { host, port, address } = session.settings;
+  withSessionClient(session, (context) => {
+    sendStatusMessage(context, 'dialling', `Dialling TELNET ${host}:${port} …`);
+  });
+  const remote = connect({ host: address ?? host, port });
   remote.setKeepAlive(true, 10000);
   remote.setNoDelay(true);
+  const negotiator = createTelnetNegotiator((data) => {
+    remote.write(data);
+  }, session.windowSize);
 
+  let remoteConnected = false;
   let telnetPromptBuffer = '';
   let telnetPasswordPending =
-    typeof context.settings.sshPassword === 'string' && context.settings.sshPassword.length > 0;
-  let telnetPasswordValue = telnetPasswordPending ? context.settings.sshPassword ?? '' : '';
+    typeof session.settings.sshPassword === 'string' && session.settings.sshPassword.length > 0;
+  let telnetPasswordValue = telnetPasswordPending ? session.settings.sshPassword ?? '' : '';
 
   const handleTelnetPasswordPrompt = (chunk: Buffer) => {
     if (!telnetPasswordPending) {
@@ -586,7 +1793,7 @@ const attachTelnetBridge = (context: TerminalClientContext) => {
       telnetPasswordPending = false;
       telnetPromptBuffer = '';
       try {
-        remote.write(`${telnetPasswordValue}\r\n`);
+        remote.write(negotiator.encode(Buffer.from(`${telnetPasswordValue}\r\n`, 'utf8')));
         telnetPasswordValue = '';
       } catch (error) {
         console.error('Failed to send TELNET password', error);
@@ -595,32 +1802,48 @@ const attachTelnetBridge = (context: TerminalClientContext) => {
   };
 
   remote.on('connect', () => {
-    sendTextFrame(context, `Connected to ${host}:${port}.`);
+    remoteConnected = true;
+    withSessionClient(session, (context) => {
+      sendStatusMessage(context, 'connected', `Connected to ${host}:${port}.`);
+      sendSessionInfo(context, { resumed: false, outputOffset: session.output.endOffset });
+    });
   });
 
   remote.on('data', (chunk) => {
-    handleTelnetPasswordPrompt(chunk);
-    sendBinaryFrame(context, chunk);
+    const payload = negotiator.receive(chunk);
+    if (payload.length === 0) {
+      return;
+    }
+    handleTelnetPasswordPrompt(payload);
+    sendSessionOutput(session, payload);
   });
 
   remote.on('close', () => {
-    if (!context.closed) {
-      terminate(context, 1000, 'BBS connection closed');
-    }
+    endSession(session, 1000, 'BBS connection closed');
   });
 
   remote.on('error', (error) => {
     console.error('Telnet bridge error', error);
-    if (!context.closed) {
-      sendTextFrame(context, `Telnet error: ${(error as Error).message}`);
-      terminate(context, 1011, 'Telnet error');
+    recordBridgeError(error, 'telnet-error');
+    if (!remoteConnected) {
+      incrementMetric(bridgeMetrics.connectFailures, 'telnet');
     }
+    withSessionClient(session, (context) => {
+      sendErrorMessage(context, 'telnet-error', `Telnet error: ${(error as Error).message}`);
+    });
+    endSession(session, 1011, 'Telnet error');
   });
 
-  context.bridge = {
+  session.bridge = {
     protocol: 'telnet',
     write: (data: Buffer) => {
-      remote.write(data);
+      remote.write(negotiator.encode(data));
+    },
+    keepAlive: () => {
+      negotiator.nop();
+    },
+    resize: (size: WindowSize) => {
+      negotiator.resize(size);
     },
     dispose: () => {
       remote.destroy();
@@ -628,16 +1851,20 @@ const attachTelnetBridge = (context: TerminalClientContext) => {
   };
 };
 
-const attachSshBridge = (context: TerminalClientContext) => {
-  const { host, port, sshUser, sshPassword, sshCommand } = context.settings;
+const attachSshBridge = (session: TerminalSession) => {
+  const { host, port, sshUser, sshPassword, sshCommand, address } = session.settings;
 
   if (!sshUser) {
-    sendTextFrame(context, 'SSH requires a username. Provide one before connecting.');
-    terminate(context, 1008, 'SSH username missing');
+    recordBridgeError(null, 'ssh-username-missing');
+    incrementMetric(bridgeMetrics.connectFailures, 'ssh');
+    withSessionClient(session, (context) => {
+      sendErrorMessage(context, 'ssh-username-missing', 'SSH requires a username. Provide one before connecting.');
+    });
+    endSession(session, 1008, 'SSH username missing');
     return;
   }
 
-  const target = `${sshUser}@${host}`;
+  const target = `${sshUser}@${address ?? host}`;
   const args = [
     '-tt',
     '-o',
@@ -656,13 +1883,19 @@ const attachSshBridge = (context: TerminalClientContext) => {
     args.push('-p', String(port));
   }
 
+  if (address) {
+    args.push('-o', `HostKeyAlias=${host}`);
+  }
+
   args.push(target);
 
   if (sshCommand) {
     args.push(sshCommand);
   }
 
-  sendTextFrame(context, `Dialling SSH ${target}${port ? `:${port}` : ''} …`);
+  withSessionClient(session, (context) => {
+    sendStatusMessage(context, 'dialling', `Dialling SSH ${target}${port ? `:${port}` : ''} …`);
+  });
 
   let child: ChildProcessWithoutNullStreams;
 
@@ -670,11 +1903,22 @@ const attachSshBridge = (context: TerminalClientContext) => {
     child = spawn('ssh', args, { stdio: ['pipe', 'pipe', 'pipe'] });
   } catch (error) {
     console.error('Failed to spawn ssh', error);
-    sendTextFrame(context, `Failed to launch ssh: ${(error as Error).message}`);
-    terminate(context, 1011, 'SSH launch failed');
+    recordBridgeError(error, 'ssh-launch-failed');
+    incrementMetric(bridgeMetrics.connectFailures, 'ssh');
+    withSessionClient(session, (context) => {
+      sendErrorMessage(context, 'ssh-launch-failed', `Failed to launch ssh: ${(error as Error).message}`);
+    });
+    endSession(session, 1011, 'SSH launch failed');
     return;
   }
 
+  child.on('spawn', () => {
+    withSessionClient(session, (context) => {
+      sendStatusMessage(context, 'connected', `SSH session started for ${target}.`);
+      sendSessionInfo(context, { resumed: false, outputOffset: session.output.endOffset });
+    });
+  });
+
   let promptBuffer = '';
   let passwordPending = typeof sshPassword === 'string' && sshPassword.length > 0;
   let passwordValue = passwordPending ? sshPassword ?? '' : '';
@@ -703,30 +1947,35 @@ const attachSshBridge = (context: TerminalClientContext) => {
 
   child.stdout.on('data', (chunk: Buffer) => {
     handlePotentialPasswordPrompt(chunk);
-    sendBinaryFrame(context, chunk);
+    sendSessionOutput(session, chunk);
   });
 
   child.stderr.on('data', (chunk: Buffer) => {
     handlePotentialPasswordPrompt(chunk);
-    sendBinaryFrame(context, chunk);
+    sendSessionOutput(session, chunk);
   });
 
   child.on('close', (code) => {
-    if (!context.closed) {
-      const reason = typeof code === 'number' ? `SSH exited (${code})` : 'SSH exited';
-      terminate(context, 1000, reason);
+    // ssh exits with 255 when it cannot reach or authenticate to the host.
+    if (code === 255) {
+      recordBridgeError(null, 'ssh-exit-255');
+      incrementMetric(bridgeMetrics.connectFailures, 'ssh');
     }
+    const reason = typeof code === 'number' ? `SSH exited (${code})` : 'SSH exited';
+    endSession(session, 1000, reason);
   });
 
   child.on('error', (error) => {
     console.error('SSH process error', error);
-    if (!context.closed) {
-      sendTextFrame(context, `SSH error: ${(error as Error).message}`);
-      terminate(context, 1011, 'SSH error');
-    }
+    recordBridgeError(error, 'ssh-error');
+    withSessionClient(session, (context) => {
+      sendErrorMessage(context, 'ssh-error', `SSH error: ${(error as Error).message}`);
+    });
+    endSession(session, 1011, 'SSH error');
   });
 
-  context.bridge = {
+  // No resize handler: the ssh client has no local PTY, so it cannot send window-change requests.
+  session.bridge = {
     protocol: 'ssh',
     write: (data: Buffer) => {
       child.stdin.write(data);
@@ -742,26 +1991,206 @@ const attachSshBridge = (context: TerminalClientContext) => {
   };
 };
 
-const attachBridge = (context: TerminalClientContext) => {
-  if (context.settings.protocol === 'ssh') {
-    attachSshBridge(context);
+const attachBridge = (session: TerminalSession) => {
+  if (session.settings.protocol === 'ssh') {
+    attachSshBridge(session);
   } else {
-    attachTelnetBridge(context);
+    attachTelnetBridge(session);
+  }
+};
+
+const applyWindowSize = (session: TerminalSession, size: WindowSize) => {
+  if (session.windowSize.cols === size.cols && session.windowSize.rows === size.rows) {
+    return;
+  }
+  session.windowSize = size;
+  session.bridge?.resize?.(size);
+  if (session.recording) {
+    writeRecordingEvent(session.recording, 'r', `${size.cols}x${size.rows}`);
+  }
+};
+
+const replaySessionOutput = (context: TerminalClientContext, offset: number) => {
+  const { session } = context;
+  const replay = readOutputRing(session.output, offset);
+  sendStatusMessage(context, 'connected', `Resumed session with ${session.settings.host}:${session.settings.port}.`);
+  sendSessionInfo(context, { resumed: true, outputOffset: replay.offset });
+  for (let start = 0; start < replay.data.length; start += REPLAY_CHUNK_BYTES) {
+    sendBinaryFrame(context, replay.data.subarray(start, start + REPLAY_CHUNK_BYTES));
+  }
+};
+
+// Text frames are reserved for control envelopes; they never reach the BBS.
+const handleControlMessage = (context: TerminalClientContext, payload: Buffer) => {
+  let message: unknown;
+  try {
+    message = JSON.parse(payload.toString('utf8'));
+  } catch {
+    sendErrorMessage(context, 'invalid-control-message', 'Control frames must be JSON envelopes.');
+    return;
+  }
+
+  if (!message || typeof message !== 'object') {
+    sendErrorMessage(context, 'invalid-control-message', 'Control frames must be JSON envelopes.');
+    return;
+  }
+
+  const record = message as Record<string, unknown>;
+
+  if (record.v !== CONTROL_PROTOCOL_VERSION) {
+    sendErrorMessage(
+      context,
+      'unsupported-version',
+      `Control protocol version ${String(record.v)} is not supported; expected ${CONTROL_PROTOCOL_VERSION}.`
+    );
+    return;
+  }
+
+  switch (record.type) {
+    case 'resize': {
+      const colsResult = normaliseWindowDimension(typeof record.cols === 'number' ? record.cols : null);
+      const rowsResult = normaliseWindowDimension(typeof record.rows === 'number' ? record.rows : null);
+      if (colsResult.value === null || rowsResult.value === null) {
+        sendErrorMessage(context, 'invalid-resize', 'Resize requests need integer cols and rows.');
+        return;
+      }
+      applyWindowSize(context.session, { cols: colsResult.value, rows: rowsResult.value });
+      return;
+    }
+    case 'latency': {
+      const { id, sentAt } = record;
+      if (typeof id !== 'number' || typeof sentAt !== 'number') {
+        sendErrorMessage(context, 'invalid-latency', 'Latency probes need numeric id and sentAt.');
+        return;
+      }
+      sendControlMessage(context, { type: 'latency', id, sentAt, serverTime: Date.now() });
+      return;
+    }
+    default:
+      sendErrorMessage(context, 'unknown-type', `Unknown control message type: ${String(record.type)}.`);
+  }
+};
+
+const inflateMessage = (context: TerminalClientContext, payload: Buffer): Buffer | null => {
+  try {
+    // Client messages use no context takeover, so every message inflates on its own. A message never carries
+    // a final deflate block, so the stream is flushed rather than finished.
+    return inflateRawSync(Buffer.concat([payload, DEFLATE_TRAILER]), {
+      finishFlush: zlibConstants.Z_SYNC_FLUSH,
+      maxOutputLength: context.maxMessageBytes
+    });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE' || error instanceof RangeError) {
+      terminate(context, 1009, 'Message too large');
+    } else {
+      console.warn('Failed to inflate WebSocket message', error);
+      terminate(context, 1007, 'Invalid compressed payload');
+    }
+    return null;
+  }
+};
+
+// Browsers send far less than the allowance. A paste over it is held back and the socket paused, which pushes
+// back on the sender through TCP instead of buffering here.
+const holdInput = (context: TerminalClientContext, payload: Buffer, wait: number) => {
+  context.heldInput = payload;
+  context.socket.pause();
+  context.inputPauseTimer = setTimeout(() => {
+    delete context.inputPauseTimer;
+    const held = context.heldInput;
+    delete context.heldInput;
+    if (context.closed || !held) {
+      return;
+    }
+    if (forwardInput(context, held)) {
+      context.socket.resume();
+      processIncomingFrames(context);
+    }
+  }, wait);
+};
+
+// Returns false when the input was held back for the allowance to refill.
+const forwardInput = (context: TerminalClientContext, payload: Buffer): boolean => {
+  if (!context.session.bridge) {
+    return true;
+  }
+  const wait = takeInputTokens(context.session, payload.length);
+  if (wait > 0) {
+    holdInput(context, payload, wait);
+    return false;
+  }
+  bridgeMetrics.bytesFromClients += payload.length;
+    context.session.bytesIn += payload.length;
+  context.session.bridge.write(payload);
+  const { recording } = context.session;
+  if (recording?.includeInput) {
+    writeRecordingEvent(recording, 'i', recording.inputDecoder.decode(payload, { stream: true }));
+  }
+  return true;
+};
+
+const handleDataMessage = (context: TerminalClientContext, opcode: number, payload: Buffer): boolean => {
+  if (opcode === 0x1) {
+    handleControlMessage(context, payload);
+    return true;
+  }
+  return forwardInput(context, payload);
+};
+
+const handleControlFrame = (context: TerminalClientContext, opcode: number, payload: Buffer): boolean => {
+  switch (opcode) {
+    case 0x8: {
+      const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1000;
+      const reason = payload.length > 2 ? payload.subarray(2).toString('utf8') : '';
+      if (!context.sentClose) {
+        context.socket.write(createCloseFrame(code, reason));
+        context.sentClose = true;
+      }
+      // Only a normal closure ends the BBS session; 1001 (reload, navigation) and the rest leave it resumable.
+      closeSilently(context, code === 1000);
+      context.socket.end();
+      return false;
+    }
+    case 0x9:
+      sendPongFrame(context, payload);
+      return true;
+    case 0xA:
+      return true;
+    default:
+      terminate(context, 1003, 'Unsupported opcode');
+      return false;
   }
 };
 
 const processIncomingFrames = (context: TerminalClientContext) => {
-  while (context.buffer.length >= 2 && !context.closed) {
+  while (context.buffer.length >= 2 && !context.closed && !context.heldInput) {
     const first = context.buffer[0];
     const second = context.buffer[1];
     const fin = (first & 0x80) !== 0;
+    const rsv1 = (first & 0x40) !== 0;
     const opcode = first & 0x0f;
     const masked = (second & 0x80) !== 0;
+    const isControl = (opcode & 0x08) !== 0;
     let length = second & 0x7f;
     let offset = 2;
 
-    if (!fin) {
-      terminate(context, 1003, 'Fragmented frames are not supported');
+    if ((first & 0x30) !== 0 || (rsv1 && (!context.deflate || isControl || opcode === 0x0))) {
+      terminate(context, 1002, 'Unexpected reserved bits');
+      return;
+    }
+
+    if (isControl && (!fin || length > MAX_CONTROL_FRAME_BYTES)) {
+      terminate(context, 1002, 'Invalid control frame');
+      return;
+    }
+
+    if (opcode === 0x0 && !context.fragments) {
+      terminate(context, 1002, 'Unexpected continuation frame');
+      return;
+    }
+
+    if ((opcode === 0x1 || opcode === 0x2) && context.fragments) {
+      terminate(context, 1002, 'Expected continuation frame');
       return;
     }
 
@@ -790,6 +2219,13 @@ const processIncomingFrames = (context: TerminalClientContext) => {
       return;
     }
 
+    // Reject oversized messages before buffering the rest of the frame.
+    const messageSize = (opcode === 0x0 && context.fragments ? context.fragments.size : 0) + length;
+    if (!isControl && messageSize > context.maxMessageBytes) {
+      terminate(context, 1009, 'Message too large');
+      return;
+    }
+
     if (context.buffer.length < offset + 4 + length) {
       return;
     }
@@ -805,37 +2241,312 @@ const processIncomingFrames = (context: TerminalClientContext) => {
     offset += length;
     context.buffer = context.buffer.subarray(offset);
 
-    switch (opcode) {
-      case 0x1:
-      case 0x2:
-        if (context.bridge) {
-          context.bridge.write(payload);
-        }
-        break;
-      case 0x8: {
-        const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1000;
-        const reason = payload.length > 2 ? payload.subarray(2).toString('utf8') : '';
-        if (!context.sentClose) {
-          context.socket.write(createCloseFrame(code, reason));
-          context.sentClose = true;
-        }
-        closeSilently(context);
-        context.socket.end();
+    if (isControl) {
+      // Control frames may arrive between the fragments of a data message.
+      if (!handleControlFrame(context, opcode, payload)) {
         return;
       }
-      case 0x9:
-        sendPongFrame(context, payload);
-        break;
-      case 0xA:
-        break;
-      default:
-        terminate(context, 1003, 'Unsupported opcode');
+      continue;
+    }
+
+    if (opcode !== 0x0) {
+      context.fragments = { opcode, compressed: rsv1, chunks: [], size: 0 };
+    }
+
+    const message = context.fragments;
+    if (!message) {
+      return;
+    }
+    message.chunks.push(payload);
+    message.size += payload.length;
+
+    if (!fin) {
+      continue;
+    }
+
+    context.fragments = null;
+    const assembled = message.chunks.length === 1 ? message.chunks[0] : Buffer.concat(message.chunks);
+    const data = message.compressed ? inflateMessage(context, assembled) : assembled;
+    if (!data || !handleDataMessage(context, message.opcode, data)) {
+      return;
+    }
+  }
+};
+
+const respondText = (
+  res: ServerResponse,
+  method: string,
+  statusCode: number,
+  contentType: string,
+  body: string
+) => {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(method === 'HEAD' ? undefined : body);
+};
+
+const respondJson = (res: ServerResponse, method: string, statusCode: number, body: unknown) => {
+  respondText(res, method, statusCode, 'application/json; charset=utf-8', `${JSON.stringify(body)}\n`);
+};
+
+const ADMIN_SESSIONS_PATH = '/admin/sessions';
+const MAX_ADMIN_BODY_BYTES = 16_384;
+const MAX_NOTICE_LENGTH = 500;
+const MAX_PENDING_NOTICES = 20;
+// Close frames carry at most 123 bytes of reason after the two-byte code.
+const MAX_CLOSE_REASON_BYTES = 123;
+
+class RequestBodyTooLargeError extends Error {}
+
+const readRequestBody = (req: IncomingMessage, limit: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    // Past the limit the rest is read and dropped rather than the socket destroyed, so the 413 still arrives.
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) {
+        return;
+      }
+      size += chunk.length;
+      if (size > limit) {
+        tooLarge = true;
+        chunks.length = 0;
+        reject(new RequestBodyTooLargeError());
         return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown> | null> => {
+  const text = await readRequestBody(req, MAX_ADMIN_BODY_BYTES);
+  if (!text.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+const liveClient = (session: TerminalSession) =>
+  session.client && !session.client.closed ? session.client : null;
+
+// The resume token and any password stay out of these: they would let the reader take over the session.
+// Parked sessions are included, since their BBS connection stays open until the resume window runs out.
+const describeSession = (session: TerminalSession) => {
+  const client = liveClient(session);
+  return {
+    id: session.id,
+    state: client ? 'attached' : 'parked',
+    remoteAddress: client?.remoteAddress ?? session.remoteAddress,
+    connectedAt: client?.connectedAt ?? null,
+    protocol: session.settings.protocol,
+    host: session.settings.host,
+    port: session.settings.port,
+    username: session.username,
+    bytesIn: session.bytesIn,
+    bytesOut: session.bytesOut
+  };
+};
+
+const describeSessionDetails = (session: TerminalSession) => ({
+  ...describeSession(session),
+  sessionStartedAt: session.startedAt,
+  windowSize: session.windowSize,
+  bridgeOpen: session.bridge !== null,
+  outputOffset: session.output.endOffset,
+  recording: session.recording !== null,
+  compression: liveClient(session)?.deflate != null
+});
+
+const findSessionById = (id: string) => {
+  for (const session of terminalSessions.values()) {
+    if (session.id === id && !session.ended) {
+      return session;
+    }
+  }
+  return null;
+};
+
+// Close codes an operator may pick: the standard "going away", "policy violation" and "server error", or any
+// application code in the 3000–4999 range.
+const isAdminCloseCode = (code: number) =>
+  Number.isInteger(code) && ([1000, 1001, 1008, 1011].includes(code) || (code >= 3000 && code <= 4999));
+
+// Operator API, off unless CHATTER_ADMIN_TOKEN is set:
+//   GET  /admin/sessions                  list sessions, attached or parked
+//   GET  /admin/sessions/:id              one session in more detail
+//   POST /admin/sessions/:id/notice       {"message"} shown to the user, on resume if parked
+//   POST /admin/sessions/:id/terminate    {"code", "reason"} closes the socket and ends its bridge
+async function handleAdminRequest(req: IncomingMessage, res: ServerResponse, method: string, urlPath: string) {
+  const { value: token } = readEnvValue('CHATTER_ADMIN_TOKEN');
+  if (!token) {
+    respondText(res, method, 404, 'text/plain; charset=utf-8', 'Not Found');
+    return;
+  }
+  if (!hasBearerToken(req, token)) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="admin"');
+    respondJson(res, method, 401, { error: 'unauthorized' });
+    return;
+  }
+
+  const [id, action, ...rest] = urlPath.slice(ADMIN_SESSIONS_PATH.length + 1).split('/');
+  const readOnly = method === 'GET' || method === 'HEAD';
+
+  if (!id) {
+    if (!readOnly) {
+      res.setHeader('Allow', 'GET, HEAD');
+      respondJson(res, method, 405, { error: 'method-not-allowed' });
+      return;
+    }
+    const sessions = Array.from(terminalSessions.values())
+      .filter((session) => !session.ended)
+      .map(describeSession);
+    respondJson(res, method, 200, { sessions });
+    return;
+  }
+
+  const session = findSessionById(id);
+  if (!session || rest.length > 0) {
+    respondJson(res, method, 404, { error: 'session-not-found' });
+    return;
+  }
+
+  if (!action) {
+    if (!readOnly) {
+      res.setHeader('Allow', 'GET, HEAD');
+      respondJson(res, method, 405, { error: 'method-not-allowed' });
+      return;
+    }
+    respondJson(res, method, 200, describeSessionDetails(session));
+    return;
+  }
+
+  if (action !== 'notice' && action !== 'terminate') {
+    respondJson(res, method, 404, { error: 'unknown-action' });
+    return;
+  }
+  if (method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    respondJson(res, method, 405, { error: 'method-not-allowed' });
+    return;
+  }
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    if (error instanceof RequestBodyTooLargeError) {
+      res.setHeader('Connection', 'close');
+      respondJson(res, method, 413, { error: 'body-too-large' });
+      return;
+    }
+    // Usually the client went away mid-body; answering is harmless if nobody is left to read it.
+    console.warn('Failed to read admin request body', error);
+    respondJson(res, method, 400, { error: 'unreadable-body' });
+    return;
+  }
+  if (!body) {
+    respondJson(res, method, 400, { error: 'invalid-json', message: 'Send a JSON object.' });
+    return;
+  }
+
+  if (action === 'notice') {
+    const message = typeof body.message === 'string' ? body.message.trim() : '';
+    if (!message || message.length > MAX_NOTICE_LENGTH) {
+      respondJson(res, method, 400, {
+        error: 'invalid-message',
+        message: `Notices need a message of 1–${MAX_NOTICE_LENGTH} characters.`
+      });
+      return;
+    }
+    const client = liveClient(session);
+    if (client) {
+      sendControlMessage(client, { type: 'notice', message });
+    } else {
+      session.pendingNotices = [...session.pendingNotices, message].slice(-MAX_PENDING_NOTICES);
     }
+    console.log(`Admin notice ${client ? 'sent' : 'queued'} for session ${session.id}`);
+    respondJson(res, method, 200, { delivered: client !== null, queued: client === null });
+    return;
+  }
+
+  const code = body.code === undefined ? 1008 : Number(body.code);
+  if (!isAdminCloseCode(code)) {
+    respondJson(res, method, 400, {
+      error: 'invalid-code',
+      message: 'Close codes must be 1000, 1001, 1008, 1011 or 3000–4999.'
+    });
+    return;
+  }
+  const reason =
+    typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : 'Terminated by an operator';
+  if (Buffer.byteLength(reason) > MAX_CLOSE_REASON_BYTES) {
+    respondJson(res, method, 400, {
+      error: 'invalid-reason',
+      message: `Close reasons are limited to ${MAX_CLOSE_REASON_BYTES} bytes.`
+    });
+    return;
+  }
+  console.log(`Admin terminated session ${session.id} from ${session.remoteAddress} (${code} ${reason})`);
+  const client = liveClient(session);
+  if (client) {
+    terminate(client, code, reason);
+  } else {
+    endSession(session, code, reason);
   }
+  respondJson(res, method, 200, { terminated: true, code, reason });
+}
+
+// Allowed origins may read the ticket cross-site, for pages served from another host than the bridge (see
+// CHATTER_WEB_SERVICE_DOMAIN); any other page is refused before a ticket is signed.
+const handleTicketRequest = (req: IncomingMessage, res: ServerResponse, method: string) => {
+  if (!readBooleanEnv(false, 'CHATTER_CONNECT_TICKETS')) {
+    respondText(res, method, 404, 'text/plain; charset=utf-8', 'Not Found');
+    return;
+  }
+  if (method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    respondJson(res, method, 405, { error: 'method-not-allowed' });
+    return;
+  }
+  const socket = req.socket as NetSocket;
+  if (!isOriginAllowed(req, socket)) {
+    respondJson(res, method, 403, { error: 'origin-not-allowed' });
+    return;
+  }
+  const origin = readHeader(req, 'origin');
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Cache-Control', 'no-store');
+  respondJson(res, method, 200, issueConnectTicket(origin, resolveClientAddress(req, socket)));
 };
 
-async function handleRequest(req: IncomingMessage, res: import('node:http').ServerResponse) {
+// Ready once the server is listening and a built front-end is there to serve; a missing BBS target is only
+// reported, since browsers may still pick a host themselves.
+const checkReadiness = async () => {
+  const assets = await resolveFile('/').then(
+    (resolved) => resolved !== null,
+    () => false
+  );
+  const checks = {
+    listening: serverListening,
+    assets,
+    bbsTarget: readBbsSettings({ silent: true }) !== null
+  };
+  return { ready: checks.listening && checks.assets, checks };
+};
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
   if (!req.url) {
     res.statusCode = 400;
     res.setHeader('Content-Type', 'text/plain; charset=utf-8');
@@ -844,6 +2555,17 @@ async function handleRequest(req: IncomingMessage, res: import('node:http').Serv
   }
 
   const method = req.method ?? 'GET';
+  const [urlPath] = req.url.split('?');
+
+  if (urlPath === ADMIN_SESSIONS_PATH || urlPath.startsWith(`${ADMIN_SESSIONS_PATH}/`)) {
+    await handleAdminRequest(req, res, method, urlPath);
+    return;
+  }
+
+  if (urlPath === TICKET_PATH) {
+    handleTicketRequest(req, res, method);
+    return;
+  }
 
   if (method !== 'GET' && method !== 'HEAD') {
     res.statusCode = 405;
@@ -852,7 +2574,32 @@ async function handleRequest(req: IncomingMessage, res: import('node:http').Serv
     return;
   }
 
-  const [urlPath] = req.url.split('?');
+  if (urlPath === '/healthz') {
+    respondText(res, method, 200, 'text/plain; charset=utf-8', 'ok\n');
+    return;
+  }
+
+  if (urlPath === '/readyz') {
+    const { ready, checks } = await checkReadiness();
+    respondText(
+      res,
+      method,
+      ready ? 200 : 503,
+      'application/json; charset=utf-8',
+      `${JSON.stringify({ status: ready ? 'ready' : 'not-ready', checks })}\n`
+    );
+    return;
+  }
+
+  if (urlPath === '/metrics') {
+    if (!isMetricsRequestAuthorised(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="metrics"');
+      respondText(res, method, 401, 'text/plain; charset=utf-8', 'Unauthorized\n');
+      return;
+    }
+    respondText(res, method, 200, 'text/plain; version=0.0.4; charset=utf-8', renderMetrics());
+    return;
+  }
 
   if (urlPath === '/env.js') {
     const config = resolveRuntimeConfig();
@@ -920,12 +2667,116 @@ async function handleRequest(req: IncomingMessage, res: import('node:http').Serv
   }
 }
 
-const respondUpgradeError = (socket: NetSocket, status: number, message: string) => {
-  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Length: ${Buffer.byteLength(message)}\r\n\r\n${message}`);
+const negotiatePerMessageDeflate = (
+  header: string | string[] | undefined
+): { settings: DeflateSettings; response: string } | null => {
+  if (!header) {
+    return null;
+  }
+
+  const offers = (Array.isArray(header) ? header.join(',') : header).split(',');
+
+  for (const offer of offers) {
+    const [name, ...rawParams] = offer.split(';').map((part) => part.trim());
+    if (name.toLowerCase() !== 'permessage-deflate') {
+      continue;
+    }
+
+    const seen = new Set<string>();
+    let serverMaxWindowBits: number | null = null;
+    let acceptable = true;
+
+    for (const rawParam of rawParams) {
+      if (!rawParam) {
+        continue;
+      }
+      const [rawKey, rawValue] = rawParam.split('=', 2).map((part) => part.trim());
+      const key = rawKey.toLowerCase();
+      const value = rawValue?.replace(/^"|"$/g, '');
+      if (seen.has(key)) {
+        acceptable = false;
+        break;
+      }
+      seen.add(key);
+
+      if (key === 'server_no_context_takeover' || key === 'client_no_context_takeover') {
+        acceptable = value === undefined;
+      } else if (key === 'client_max_window_bits') {
+        // Inflating with the default 15-bit window handles any smaller client window.
+        acceptable = value === undefined || /^(?:8|9|1[0-5])$/.test(value);
+      } else if (key === 'server_max_window_bits') {
+        // zlib cannot produce raw deflate streams with an 8-bit window, so only 9–15 are honoured.
+        const bits = value === undefined ? Number.NaN : Number.parseInt(value, 10);
+        acceptable = /^\d+$/.test(value ?? '') && bits >= 9 && bits <= 15;
+        serverMaxWindowBits = acceptable ? bits : null;
+      } else {
+        acceptable = false;
+      }
+
+      if (!acceptable) {
+        break;
+      }
+    }
+
+    if (!acceptable) {
+      continue;
+    }
+
+    const responseParams = ['permessage-deflate', 'server_no_context_takeover', 'client_no_context_takeover'];
+    if (serverMaxWindowBits !== null) {
+      responseParams.push(`server_max_window_bits=${serverMaxWindowBits}`);
+    }
+
+    return {
+      settings: { serverMaxWindowBits: serverMaxWindowBits ?? 15 },
+      response: responseParams.join('; ')
+    };
+  }
+
+  return null;
+};
+
+const respondUpgradeError = (
+  socket: NetSocket,
+  status: number,
+  message: string,
+  extraHeaders: string[] = []
+) => {
+  const headers = [
+    `HTTP/1.1 ${status} ${message}`,
+    'Connection: close',
+    'Content-Type: text/plain; charset=utf-8',
+    `Content-Length: ${Buffer.byteLength(message)}`,
+    ...extraHeaders
+  ];
+  socket.write(`${headers.join('\r\n')}\r\n\r\n${message}`);
   socket.destroy();
 };
 
-const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) => {
+const rejectUpgrade = (socket: NetSocket, reason: UpgradeRejection, message: string, retryAfterSeconds?: number) => {
+  incrementMetric(bridgeMetrics.upgradeRejections, reason);
+  respondUpgradeError(
+    socket,
+    429,
+    message,
+    retryAfterSeconds === undefined ? [] : [`Retry-After: ${retryAfterSeconds}`]
+  );
+};
+
+const rejectOverSessionCaps = (socket: NetSocket, clientAddress: string): boolean => {
+  if (terminalSessions.size >= readPositiveIntegerEnv(DEFAULT_MAX_SESSIONS, 'CHATTER_MAX_SESSIONS')) {
+    rejectUpgrade(socket, 'global-sessions', 'Server is at its session limit; try again later');
+    return true;
+  }
+  const perAddress = readPositiveIntegerEnv(DEFAULT_MAX_SESSIONS_PER_IP, 'CHATTER_MAX_SESSIONS_PER_IP');
+  if (countSessionsFrom(clientAddress) >= perAddress) {
+    rejectUpgrade(socket, 'ip-sessions', 'Too many sessions from this address');
+    return true;
+  }
+  return false;
+};
+
+const handleUpgrade = async (req: IncomingMessage, socket: NetSocket, head: Buffer) => {
   const urlText = req.url ?? '/';
   let requestUrl: URL | null = null;
 
@@ -942,6 +2793,30 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
     return;
   }
 
+  if (!isOriginAllowed(req, socket)) {
+    respondUpgradeError(socket, 403, 'Origin not allowed');
+    return;
+  }
+
+  const clientAddress = resolveClientAddress(req, socket);
+  const retryAfter = takeUpgradeToken(clientAddress);
+  if (retryAfter > 0) {
+    rejectUpgrade(socket, 'rate', 'Too many connection attempts; slow down', retryAfter);
+    return;
+  }
+
+  if (readBooleanEnv(false, 'CHATTER_CONNECT_TICKETS')) {
+    const ticket = requestUrl?.searchParams.get('ticket');
+    if (!ticket) {
+      respondUpgradeError(socket, 403, 'Connect ticket required');
+      return;
+    }
+    if (!redeemConnectTicket(ticket, readHeader(req, 'origin'), clientAddress)) {
+      respondUpgradeError(socket, 403, 'Invalid or expired connect ticket');
+      return;
+    }
+  }
+
   const settings = readBbsSettings();
   const { value: fallbackProtocolEnv } = readEnvValue(
     'CHATTER_BBS_PROTOCOL',
@@ -969,6 +2844,9 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
   let protocolOverride: BbsProtocol | null = null;
   let hostOverride: string | null = null;
   let portOverride: number | null = null;
+  const windowSize: WindowSize = { ...DEFAULT_WINDOW_SIZE };
+  let resumeToken: string | null = null;
+  let resumeOffset = 0;
 
   if (requestUrl) {
     const normalised = normaliseUsername(requestUrl.searchParams.get('username'));
@@ -997,7 +2875,14 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
       protocolOverride = protocolResult.protocol;
     }
 
-    const hostResult = normaliseHostOverride(requestUrl.searchParams.get('host'));
+    // The terminal UI always sends its target host, which by default is the configured one. That echo is not an
+    // override: it dials exactly what leaving the parameter out would, and the operator chose that target, so it
+    // skips the checks that would otherwise refuse a BBS on a private address to every stock client. Any other
+    // spelling of a host is an override and is checked.
+    const requestedHost = requestUrl.searchParams.get('host');
+    const hostResult = normaliseHostOverride(
+      settings && requestedHost?.trim() === settings.host ? null : requestedHost
+    );
     if (!hostResult.valid) {
       respondUpgradeError(socket, 400, hostResult.error ?? 'Invalid host override');
       return;
@@ -1014,6 +2899,28 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
     if (portResult.present) {
       portOverride = portResult.port;
     }
+
+    const colsResult = normaliseWindowDimension(requestUrl.searchParams.get('cols'));
+    const rowsResult = normaliseWindowDimension(requestUrl.searchParams.get('rows'));
+    if (!colsResult.valid || !rowsResult.valid) {
+      respondUpgradeError(socket, 400, 'Invalid window size');
+      return;
+    }
+    if (colsResult.value !== null && rowsResult.value !== null) {
+      windowSize.cols = colsResult.value;
+      windowSize.rows = rowsResult.value;
+    }
+
+    const resumeResult = normaliseResumeParams(
+      requestUrl.searchParams.get('resume'),
+      requestUrl.searchParams.get('offset')
+    );
+    if (!resumeResult.valid) {
+      respondUpgradeError(socket, 400, 'Invalid resume token');
+      return;
+    }
+    resumeToken = resumeResult.token;
+    resumeOffset = resumeResult.offset;
   }
 
   if (protocolOverride) {
@@ -1066,28 +2973,74 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
     .update(`${keyHeader}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
     .digest('base64');
 
-  socket.write(
-    [
-      'HTTP/1.1 101 Switching Protocols',
-      'Upgrade: websocket',
-      'Connection: Upgrade',
-      `Sec-WebSocket-Accept: ${acceptKey}`,
-      '\r\n'
-    ].join('\r\n')
-  );
+  // Unknown or expired tokens fall back to a fresh session; session-info tells the client which one it got.
+  const parked = resumeToken ? terminalSessions.get(resumeToken) : undefined;
+  const resumable = parked && !parked.ended ? parked : null;
+
+  // Resuming reattaches an existing bridge, so only new sessions count against the caps.
+  if (!resumable) {
+    if (rejectOverSessionCaps(socket, clientAddress)) {
+      return;
+    }
+
+    // The configured target is trusted as is; anything the browser changed is checked before the upgrade.
+    const hostChanged = sessionSettings.host !== settings?.host;
+    if (hostChanged || sessionSettings.port !== settings?.port) {
+      // Node drops its own error listener on upgrade, so one is needed while the lookup is pending.
+      socket.on('error', () => socket.destroy());
+      const vetting = await vetBbsTarget(sessionSettings.host, sessionSettings.port, hostChanged);
+      if (socket.destroyed) {
+        return;
+      }
+      if (!vetting.ok) {
+        respondUpgradeError(socket, 400, vetting.message);
+        return;
+      }
+      if (vetting.address) {
+        sessionSettings.address = vetting.address;
+      }
+      // Other upgrades may have opened sessions while the lookup was pending; from here to
+      // createTerminalSession nothing yields, so this check holds.
+      if (rejectOverSessionCaps(socket, clientAddress)) {
+        return;
+      }
+    }
+  }
+
+  const deflate = readBooleanEnv(true, 'CHATTER_WS_DEFLATE')
+    ? negotiatePerMessageDeflate(req.headers?.['sec-websocket-extensions'])
+    : null;
+
+  const responseHeaders = [
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${acceptKey}`
+  ];
+  if (deflate) {
+    responseHeaders.push(`Sec-WebSocket-Extensions: ${deflate.response}`);
+  }
+
+  socket.write([...responseHeaders, '\r\n'].join('\r\n'));
 
   socket.setNoDelay(true);
   socket.setKeepAlive(true, 10000);
 
   const context: TerminalClientContext = {
+    remoteAddress: clientAddress,
+    connectedAt: new Date().toISOString(),
     socket,
     buffer: head && head.length ? Buffer.from(head) : Buffer.alloc(0),
+    maxMessageBytes: readPositiveIntegerEnv(DEFAULT_MAX_MESSAGE_BYTES, 'CHATTER_WS_MAX_MESSAGE_BYTES'),
+    deflate: deflate?.settings ?? null,
+    fragments: null,
     closed: false,
     sentClose: false,
-    bridge: null,
-    settings: sessionSettings
+    session: resumable ?? createTerminalSession(sessionSettings, windowSize, clientAddress, usernameOverride)
   };
 
+  attachClient(context.session, context);
+
   context.pingTimer = setInterval(() => {
     if (context.closed) {
       if (context.pingTimer) {
@@ -1100,9 +3053,10 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
     } catch (error) {
       console.warn('Failed to send WebSocket Ping to client', error);
     }
-    if (context.bridge && context.bridge.protocol === 'telnet') {
+    const { bridge } = context.session;
+    if (bridge?.keepAlive) {
       try {
-        context.bridge.write(Buffer.from([0]));
+        bridge.keepAlive();
       } catch (error) {
         console.warn('Failed to send keep-alive to telnet BBS', error);
       }
@@ -1118,6 +3072,11 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
   });
 
   socket.on('close', () => {
+    if (context.inputPauseTimer) {
+      clearTimeout(context.inputPauseTimer);
+      delete context.inputPauseTimer;
+    }
+    delete context.heldInput;
     closeSilently(context);
   });
 
@@ -1130,7 +3089,15 @@ const handleUpgrade = (req: IncomingMessage, socket: NetSocket, head: Buffer) =>
     closeSilently(context);
   });
 
-  attachBridge(context);
+  if (resumable) {
+    applyWindowSize(resumable, windowSize);
+    replaySessionOutput(context, resumeOffset);
+    for (const message of resumable.pendingNotices.splice(0)) {
+      sendControlMessage(context, { type: 'notice', message });
+    }
+  } else {
+    attachBridge(context.session);
+  }
 
   if (context.buffer.length) {
     processIncomingFrames(context);
@@ -1141,7 +3108,16 @@ const port = Number.parseInt(process.env.PORT ?? '8081', 10);
 const host = process.env.HOST ?? '0.0.0.0';
 
 const server = createServer((req, res) => {
-  void handleRequest(req, res);
+  handleRequest(req, res).catch((error) => {
+    console.error('Unhandled error while serving request', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.statusCode = 500;
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end('Internal Server Error');
+  });
 });
 
 const upgradeableServer = server as unknown as {
@@ -1149,11 +3125,28 @@ const upgradeableServer = server as unknown as {
 };
 
 upgradeableServer.on('upgrade', (req, socket, head) => {
-  handleUpgrade(req, socket, head);
+  void handleUpgrade(req, socket, head);
 });
 
-server.listen(port, host, () => {
-  console.log(`Chatter frontend available at http://${host}:${port}`);
+server.on('close', () => {
+  serverListening = false;
 });
 
-export { server };
+// CHATTER_LISTEN=off loads the module without serving, so the unit tests can import the protocol helpers below.
+if (readBooleanEnv(true, 'CHATTER_LISTEN')) {
+  server.listen(port, host, () => {
+    serverListening = true;
+    console.log(`Chatter frontend available at http://${host}:${port}`);
+  });
+}
+
+export {
+  server,
+  createTelnetNegotiator,
+  escapeTelnetData,
+  createTerminalSession,
+  createDataFrame,
+  negotiatePerMessageDeflate,
+  processIncomingFrames
+};
+export type { TerminalClientContext };
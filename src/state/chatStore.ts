@@ -1,4 +1,6 @@
 import { OPERATING_SYSTEMS } from '../data/operatingSystems.js';
+import { MAX_PREVIEW_CARDS } from '../utils/mediaPreview.js';
+import type { ChatStatePersistence } from './persistence.js';
 import { seedState } from './seed.js';
 import type {
   AttachmentEntry,
@@ -11,16 +13,58 @@ import type {
   ReactionType,
   RssFeed,
   TimezoneLookup,
+  UserProfile,
   WeatherReport
 } from './types.js';
 
 const clone = <T>(value: T): T =>
   typeof structuredClone === 'function' ? structuredClone(value) : JSON.parse(JSON.stringify(value));
 
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sameValue = (left: unknown, right: unknown) => JSON.stringify(left) === JSON.stringify(right);
+
+// Applies what changed between `initial` and `local` on top of `saved`. Items appended to a list are appended to
+// the saved list, keys of an object are merged one by one, and anything else that changed replaces the saved value.
+const mergeChanges = (initial: unknown, local: unknown, saved: unknown): unknown => {
+  if (sameValue(local, initial)) {
+    return saved;
+  }
+  if (
+    Array.isArray(initial) &&
+    Array.isArray(local) &&
+    Array.isArray(saved) &&
+    sameValue(local.slice(0, initial.length), initial)
+  ) {
+    return [...saved, ...local.slice(initial.length)];
+  }
+  if (isPlainObject(initial) && isPlainObject(local) && isPlainObject(saved)) {
+    const merged: Record<string, unknown> = { ...saved };
+    for (const key of Object.keys(initial)) {
+      if (!(key in local)) {
+        delete merged[key];
+      }
+    }
+    for (const [key, value] of Object.entries(local)) {
+      if (!sameValue(value, initial[key])) {
+        merged[key] = key in saved ? mergeChanges(initial[key], value, saved[key]) : value;
+      }
+    }
+    return merged;
+  }
+  return local;
+};
+
 const randomId = (prefix: string) => `${prefix}-${Math.random().toString(36).slice(2, 8)}`;
 
 const normalise = (value: string) => value.trim().toLowerCase();
 
+// Live rooms can run for days; keep the feed to the most recent messages.
+const MAX_ROOM_MESSAGES = 500;
+// Per kind, matching the preview cards the terminal keeps on screen.
+const MAX_MEDIA_ENTRIES = MAX_PREVIEW_CARDS;
+
 const createEmptyReactions = (): ChatMessage['reactions'] => ({
   good: 0,
   sad: 0,
@@ -36,9 +80,17 @@ type Listener = () => void;
 export class ChatStore {
   private state: ChatState;
   private listeners = new Set<Listener>();
+  private batchDepth = 0;
+  private pendingEmit = false;
+
+  private persistence: ChatStatePersistence | null;
+  // The state the store started from, until the first hydrate; whatever differs from it was changed here.
+  private initialState: ChatState | null;
 
-  constructor(initialState: ChatState = seedState) {
+  constructor(initialState: ChatState = seedState, persistence?: ChatStatePersistence) {
     this.state = clone(initialState);
+    this.initialState = clone(initialState);
+    this.persistence = persistence ?? null;
   }
 
   subscribe(listener: Listener): () => void {
@@ -47,6 +99,11 @@ export class ChatStore {
   }
 
   private emit() {
+    if (this.batchDepth > 0) {
+      this.pendingEmit = true;
+      return;
+    }
+    this.persistence?.schedule(() => this.state);
     for (const listener of this.listeners) {
       listener();
     }
@@ -56,6 +113,31 @@ export class ChatStore {
     return clone(this.state);
   }
 
+  // Replaces the whole state, e.g. with what the persistence layer restored. Loading is asynchronous, so the
+  // first hydrate keeps the changes made since the store was created rather than discarding them.
+  hydrate(state: ChatState) {
+    const restored = clone(state);
+    this.state = this.initialState
+      ? (mergeChanges(this.initialState, this.state, restored) as ChatState)
+      : restored;
+    this.initialState = null;
+    this.emit();
+  }
+
+  // Runs several updates and notifies listeners once at the end.
+  batch(update: () => void) {
+    this.batchDepth += 1;
+    try {
+      update();
+    } finally {
+      this.batchDepth -= 1;
+      if (this.batchDepth === 0 && this.pendingEmit) {
+        this.pendingEmit = false;
+        this.emit();
+      }
+    }
+  }
+
   endSession(): CommandResult {
     if (!this.state.sessionActive) {
       return { ok: false, error: 'Already logged out.' };
@@ -265,18 +347,27 @@ export class ChatStore {
     return { ok: true, message: 'Private message sent.' };
   }
 
-  addAttachment(type: AttachmentKind, url: string, caption?: string): CommandResult {
+  addAttachment(type: AttachmentKind, url: string, caption?: string, messageId?: string): CommandResult {
     const link = url.trim();
     if (!link) {
       return { ok: false, error: 'Provide a URL.' };
     }
+    const library = this.state.mediaLibrary[type];
+    // Replayed output shares the same message again.
+    if (library.some((entry) => entry.url === link && entry.messageId === messageId)) {
+      return { ok: true, message: 'Attachment already listed.' };
+    }
     const entry: AttachmentEntry = {
       id: randomId(type),
       type,
       url: link,
       caption: caption?.trim() || undefined
     };
-    this.state.mediaLibrary[type].unshift(entry);
+    if (messageId) {
+      entry.messageId = messageId;
+    }
+    library.unshift(entry);
+    library.splice(MAX_MEDIA_ENTRIES);
     this.emit();
     return { ok: true, message: 'Attachment added.' };
   }
@@ -610,6 +701,96 @@ export class ChatStore {
     return { ok: true, message: 'Thread deleted.' };
   }
 
+  // The methods below mirror what the BBS reports (see chatStreamParser.ts) rather than user actions.
+
+  clearRoom() {
+    this.state.messages = [];
+    this.state.connectedUsers = [];
+    this.state.polls = {};
+    this.emit();
+  }
+
+  ingestMessage(entry: Omit<ChatMessage, 'reactions'>) {
+    this.ensureProfile(entry.author);
+    const existing = this.getMessageById(entry.id);
+    if (existing) {
+      // Resumed sessions and /chat lookups print messages we have already seen.
+      existing.author = entry.author;
+      existing.body = entry.body;
+      existing.replyTo = entry.replyTo;
+    } else {
+      this.state.messages.push({ ...entry, reactions: createEmptyReactions() });
+      if (this.state.messages.length > MAX_ROOM_MESSAGES) {
+        this.state.messages = this.state.messages.slice(-MAX_ROOM_MESSAGES);
+      }
+    }
+    this.emit();
+  }
+
+  markUserJoined(username: string) {
+    this.ensureProfile(username);
+    if (!this.state.connectedUsers.includes(username)) {
+      this.state.connectedUsers.push(username);
+    }
+    this.emit();
+  }
+
+  markUserLeft(username: string) {
+    this.state.connectedUsers = this.state.connectedUsers.filter((user) => user !== username);
+    this.emit();
+  }
+
+  setConnectedUsers(usernames: string[]) {
+    for (const username of usernames) {
+      this.ensureProfile(username);
+    }
+    this.state.connectedUsers = [...new Set(usernames)];
+    this.emit();
+  }
+
+  renameRemoteUser(previousName: string, nickname: string) {
+    if (previousName === nickname) {
+      return;
+    }
+    if (previousName === this.state.currentUser.username) {
+      this.renameUser(nickname);
+      return;
+    }
+    const profile: UserProfile = this.state.profiles[previousName] ?? { username: previousName };
+    delete this.state.profiles[previousName];
+    this.state.profiles[nickname] = { ...profile, username: nickname };
+    this.state.connectedUsers = this.state.connectedUsers.map((user) =>
+      user === previousName ? nickname : user
+    );
+    this.state.messages = this.state.messages.map((message) =>
+      message.author === previousName ? { ...message, author: nickname } : message
+    );
+    this.emit();
+  }
+
+  ingestPollResults(label: string, question: string, results: { label: string; votes: number }[]) {
+    const existing = this.state.polls[label];
+    const options = results.map((result, index) => ({
+      id: `${label}-${index + 1}`,
+      label: result.label,
+      votes: result.votes
+    }));
+    this.state.polls[label] = {
+      label,
+      question,
+      multiple: existing?.multiple ?? false,
+      options,
+      ballots: existing?.ballots ?? {}
+    };
+    this.emit();
+  }
+
+  private ensureProfile(username: string) {
+    if (!this.state.profiles[username]) {
+      this.state.profiles[username] = { username };
+    }
+  }
+
   setServerScrolling(isScrolling: boolean): void {
     this.state.isServerScrolling = isScrolling;
     this.emit();
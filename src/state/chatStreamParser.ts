@@ -0,0 +1,363 @@
+import type { ChatStore } from './chatStore.js';
+import type { AttachmentKind, ReactionType } from './types.js';
+import { attachmentKindFromUrl, parsePreviewUrl } from '../utils/mediaPreview.js';
+
+// Turns the decoded BBS output into structured room events. The terminal keeps rendering the raw
+// stream; this only watches complete lines for the shapes Chatter prints:
+//
+//   #123] [12:00:01] alice: hello            chat message (the [time] may also come first)
+//   #124] [12:00:05] bob ↳ #123: hi alice    reply ("(re #123)" and "(reply to #123)" work too)
+//   * bob reacted love to #123                reaction notice
+//   * carol has joined the chat               join / leave / "* a is now known as b"
+//   Connected: alice, bob, carol              /connected listing
+//   Poll lunch: Where should we eat?          poll results, followed by option lines such as
+//     1) Noodles - 3 votes                    "2. Tacos (1 vote)" until the first other line
+//
+// Messages that share media also yield an attachment event after the message itself:
+//
+//   #125] [12:01] alice: [image] https://x/cat.png a cat     tagged by /image, /video, /audio or /files
+//   #126] [12:02] bob: https://x/song.mp3                    a lone URL with a media file extension
+//   * carol shared a file: https://x/notes.pdf (notes)      share notice
+
+export type ChatStreamEvent =
+  | { type: 'message'; id: string; author: string; body: string; postedAt: string; replyTo?: string }
+  | { type: 'reaction'; messageId: string; reaction: ReactionType; user: string }
+  | { type: 'join'; user: string }
+  | { type: 'leave'; user: string }
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'roster'; users: string[] }
+  | { type: 'poll'; label: string; question: string; options: { label: string; votes: number }[] }
+  | { type: 'attachment'; kind: AttachmentKind; url: string; author: string; caption?: string; messageId?: string };
+
+export type ChatStreamParser = {
+  push: (chunk: string) => ChatStreamEvent[];
+  flush: () => ChatStreamEvent[];
+  reset: () => void;
+};
+
+// Feeds raw BBS output into a parser by session byte offset, so output the store has already seen is
+// skipped when the bridge replays it after a reconnect or a page reload.
+export type ChatStreamFeed = {
+  // `start` is the session offset of the first byte in `bytes`.
+  push: (bytes: Uint8Array, start: number) => ChatStreamEvent[];
+  flush: () => ChatStreamEvent[];
+  // Drops the partial line and picks up at `offset`, e.g. after a fresh login.
+  restart: (offset: number) => void;
+  // End of the last line handed to the parser; a reloaded page starts again from here.
+  lineOffset: () => number;
+};
+
+type ChatStreamParserOptions = {
+  now?: () => Date;
+};
+
+const REACTIONS: readonly ReactionType[] = ['good', 'sad', 'cool', 'angry', 'checked', 'love', 'wtf'];
+const MAX_PENDING_LINE = 4096;
+
+const ESCAPE_SEQUENCE_PATTERN =
+  /\u001b(?:\[[0-9;?]*[ -\/]*[@-~]|\][^\u0007\u001b]*(?:\u0007|\u001b\\)|[()][0-9A-Za-z]|[=>78DEHM])/gu;
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u0008\u000b-\u001f\u007f]/gu;
+const PREFIX_TOKEN_PATTERN = /^(?:\[(\d{1,2}):(\d{2})(?::(\d{2}))?\]|\[?#(\d+)\])\s*/u;
+const REPLY_PATTERN = /^(\S{1,32})\s+(?:↳\s*|\(re(?:ply to)?\s+)#(\d+)\)?:\s?(.*)$/u;
+const AUTHOR_PATTERN = /^(\S{1,32}):\s?(.*)$/u;
+const REACTION_PATTERN = new RegExp(
+  `^(\\S+) reacted (?:with )?(${REACTIONS.join('|')}) (?:to|on) #(\\d+)\\.?$`,
+  'u'
+);
+const JOIN_PATTERN = /^(\S+) has joined the chat\.?$/u;
+const LEAVE_PATTERN = /^(\S+) has left the chat\.?$/u;
+const RENAME_PATTERN = /^(\S+) is now known as (\S+?)\.?$/u;
+const ROSTER_PATTERN = /^Connected(?: users)?(?: \(\d+\))?:\s*(.*)$/u;
+const POLL_HEADER_PATTERN = /^Poll(?: results)?(?: (?:for )?([^\s:]+))?:\s*(.+)$/u;
+const ATTACHMENT_TAG_PATTERN = /^\[(image|video|audio|files?)\]\s+(\S+)\s*(.*)$/iu;
+const SHARED_PATTERN = /^(\S+) shared (?:an? )?(image|video|audio|file):\s*(\S+)\s*(.*)$/u;
+const POLL_OPTION_PATTERN =
+  /^\/?\d+[.)]?\s+(.+?)\s*(?:[-–—:]\s*(\d+) votes?|\((\d+) votes?\))$/u;
+
+const cleanLine = (raw: string) => {
+  const withoutEscapes = raw.replace(ESCAPE_SEQUENCE_PATTERN, '');
+  // A bare carriage return redraws the line, so only the last version is what the user saw.
+  const segments = withoutEscapes.split('\r').filter((segment) => segment.length > 0);
+  const visible = segments.length > 0 ? segments[segments.length - 1] : '';
+  return visible.replace(CONTROL_CHARACTER_PATTERN, '').trim();
+};
+
+const createAttachmentEvent = (
+  kind: AttachmentKind,
+  url: string,
+  author: string,
+  caption: string,
+  messageId?: string
+): ChatStreamEvent | null => {
+  if (!parsePreviewUrl(url)) {
+    return null;
+  }
+  const trimmed = caption.trim().replace(/^\((.*)\)$/u, '$1');
+  const event: ChatStreamEvent = { type: 'attachment', kind, url, author };
+  if (trimmed) {
+    event.caption = trimmed;
+  }
+  if (messageId) {
+    event.messageId = messageId;
+  }
+  return event;
+};
+
+const parseMessageAttachment = (message: Extract<ChatStreamEvent, { type: 'message' }>) => {
+  const tagged = message.body.match(ATTACHMENT_TAG_PATTERN);
+  if (tagged) {
+    const tag = tagged[1].toLowerCase();
+    const kind = (tag.startsWith('file') ? 'file' : tag) as AttachmentKind;
+    return createAttachmentEvent(kind, tagged[2], message.author, tagged[3], message.id);
+  }
+  const [first = '', ...rest] = message.body.split(/\s+/u);
+  const kind = attachmentKindFromUrl(first);
+  return kind ? createAttachmentEvent(kind, first, message.author, rest.join(' '), message.id) : null;
+};
+
+const splitNames = (value: string) =>
+  value
+    .split(/[,\s]+/u)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+export const createChatStreamParser = (options: ChatStreamParserOptions = {}): ChatStreamParser => {
+  const now = options.now ?? (() => new Date());
+  let pending = '';
+  let poll: Extract<ChatStreamEvent, { type: 'poll' }> | null = null;
+  let anonymousCount = 0;
+
+  const resolvePostedAt = (hours?: string, minutes?: string, seconds?: string) => {
+    const stamp = now();
+    if (hours !== undefined && minutes !== undefined) {
+      stamp.setHours(Number(hours), Number(minutes), Number(seconds ?? 0), 0);
+    }
+    return stamp.toISOString();
+  };
+
+  const closePoll = (events: ChatStreamEvent[]) => {
+    if (poll && poll.options.length > 0) {
+      events.push(poll);
+    }
+    poll = null;
+  };
+
+  const parseMessage = (line: string): ChatStreamEvent | null => {
+    let rest = line;
+    let id: string | undefined;
+    let time: RegExpMatchArray | undefined;
+    for (let match = rest.match(PREFIX_TOKEN_PATTERN); match; match = rest.match(PREFIX_TOKEN_PATTERN)) {
+      if (match[4] !== undefined) {
+        id = match[4];
+      } else {
+        time = match;
+      }
+      rest = rest.slice(match[0].length);
+    }
+    // Without an id or a timestamp a "name: text" line is more likely a command reply.
+    if (id === undefined && time === undefined) {
+      return null;
+    }
+    const reply = rest.match(REPLY_PATTERN);
+    const match = reply ?? rest.match(AUTHOR_PATTERN);
+    if (!match) {
+      return null;
+    }
+    const event: ChatStreamEvent = {
+      type: 'message',
+      id: id ?? `live-${(anonymousCount += 1)}`,
+      author: match[1],
+      body: reply ? reply[3] : match[2],
+      postedAt: resolvePostedAt(time?.[1], time?.[2], time?.[3])
+    };
+    if (reply) {
+      event.replyTo = reply[2];
+    }
+    return event;
+  };
+
+  const parseNotice = (line: string): ChatStreamEvent | null => {
+    const notice = line.replace(/^\*+\s*/u, '');
+    const reaction = notice.match(REACTION_PATTERN);
+    if (reaction) {
+      return { type: 'reaction', user: reaction[1], reaction: reaction[2] as ReactionType, messageId: reaction[3] };
+    }
+    const joined = notice.match(JOIN_PATTERN);
+    if (joined) {
+      return { type: 'join', user: joined[1] };
+    }
+    const left = notice.match(LEAVE_PATTERN);
+    if (left) {
+      return { type: 'leave', user: left[1] };
+    }
+    const renamed = notice.match(RENAME_PATTERN);
+    if (renamed) {
+      return { type: 'rename', from: renamed[1], to: renamed[2] };
+    }
+    const shared = notice.match(SHARED_PATTERN);
+    if (shared) {
+      return createAttachmentEvent(shared[2] as AttachmentKind, shared[3], shared[1], shared[4]);
+    }
+    return null;
+  };
+
+  const parseLine = (raw: string, events: ChatStreamEvent[]) => {
+    const line = cleanLine(raw);
+    if (!line) {
+      return;
+    }
+
+    if (poll) {
+      const option = line.match(POLL_OPTION_PATTERN);
+      if (option) {
+        poll.options.push({ label: option[1], votes: Number(option[2] ?? option[3]) });
+        return;
+      }
+      closePoll(events);
+    }
+
+    const header = line.match(POLL_HEADER_PATTERN);
+    if (header) {
+      poll = { type: 'poll', label: header[1] ?? 'poll', question: header[2].trim(), options: [] };
+      return;
+    }
+
+    const roster = line.match(ROSTER_PATTERN);
+    if (roster) {
+      events.push({ type: 'roster', users: splitNames(roster[1]) });
+      return;
+    }
+
+    const message = parseMessage(line);
+    if (message) {
+      events.push(message);
+      const attachment = message.type === 'message' ? parseMessageAttachment(message) : null;
+      if (attachment) {
+        events.push(attachment);
+      }
+      return;
+    }
+    const notice = parseNotice(line);
+    if (notice) {
+      events.push(notice);
+    }
+  };
+
+  const push = (chunk: string) => {
+    const events: ChatStreamEvent[] = [];
+    pending += chunk;
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    if (pending.length > MAX_PENDING_LINE) {
+      pending = pending.slice(-MAX_PENDING_LINE);
+    }
+    for (const line of lines) {
+      parseLine(line, events);
+    }
+    return events;
+  };
+
+  const flush = () => {
+    const events: ChatStreamEvent[] = [];
+    if (pending) {
+      parseLine(pending, events);
+      pending = '';
+    }
+    closePoll(events);
+    return events;
+  };
+
+  const reset = () => {
+    pending = '';
+    poll = null;
+  };
+
+  return { push, flush, reset };
+};
+
+const NEWLINE_BYTE = 0x0a;
+
+export const createChatStreamFeed = (parser: ChatStreamParser, appliedOffset = 0): ChatStreamFeed => {
+  let decoder = new TextDecoder();
+  let applied = appliedOffset;
+  let lineEnd = appliedOffset;
+
+  const restart = (offset: number) => {
+    parser.reset();
+    decoder = new TextDecoder();
+    applied = offset;
+    lineEnd = offset;
+  };
+
+  const push = (bytes: Uint8Array, start: number) => {
+    // The bridge no longer held the bytes in between, so the partial line cannot be completed.
+    if (start > applied) {
+      restart(start);
+    }
+    const skip = applied - start;
+    if (skip >= bytes.length) {
+      return [];
+    }
+    const fresh = bytes.subarray(skip);
+    applied = start + bytes.length;
+    const newline = fresh.lastIndexOf(NEWLINE_BYTE);
+    if (newline >= 0) {
+      lineEnd = start + skip + newline + 1;
+    }
+    return parser.push(decoder.decode(fresh, { stream: true }));
+  };
+
+  const flush = () => {
+    const events = parser.push(decoder.decode());
+    events.push(...parser.flush());
+    // The partial line has been applied as it stood, so replaying its start again would repeat it.
+    lineEnd = applied;
+    return events;
+  };
+
+  return { push, flush, restart, lineOffset: () => lineEnd };
+};
+
+export const applyChatStreamEvents = (store: ChatStore, events: ChatStreamEvent[]) => {
+  if (events.length === 0) {
+    return;
+  }
+  store.batch(() => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'message':
+          store.ingestMessage({
+            id: event.id,
+            author: event.author,
+            body: event.body,
+            postedAt: event.postedAt,
+            replyTo: event.replyTo
+          });
+          break;
+        case 'reaction':
+          store.reactToMessage(event.messageId, event.reaction);
+          break;
+        case 'join':
+          store.markUserJoined(event.user);
+          break;
+        case 'leave':
+          store.markUserLeft(event.user);
+          break;
+        case 'rename':
+          store.renameRemoteUser(event.from, event.to);
+          break;
+        case 'roster':
+          store.setConnectedUsers(event.users);
+          break;
+        case 'poll':
+          store.ingestPollResults(event.label, event.question, event.options);
+          break;
+        case 'attachment':
+          store.addAttachment(event.kind, event.url, event.caption, event.messageId);
+          break;
+        default:
+          break;
+      }
+    }
+  });
+};
@@ -0,0 +1,243 @@
+// Building blocks for the slash-command definitions in src/data/commandDefinitions.ts. Each argument spec
+// knows how to read itself from the line and how it is written in usage strings, so the parser, its
+// error messages and the generated command catalog all come from one description.
+
+export type ParseOutcome<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type ArgumentCursor = {
+  // The next whitespace-separated token, consumed.
+  next: () => string | undefined;
+  // Everything left on the line, consumed.
+  rest: () => string;
+  done: () => boolean;
+};
+
+// Live values the entry autocomplete can offer for an argument.
+export type CompletionSource = 'users' | 'messages' | 'palettes' | 'polls';
+
+export interface ArgumentSpec<T> {
+  readonly name: string;
+  readonly usage: string;
+  readonly optional: boolean;
+  // Takes the rest of the line rather than a single token.
+  readonly rest: boolean;
+  readonly choices?: readonly string[];
+  readonly source?: CompletionSource;
+  read: (cursor: ArgumentCursor) => ParseOutcome<T>;
+}
+
+type ValuesOf<A extends readonly ArgumentSpec<unknown>[]> = {
+  -readonly [K in keyof A]: A[K] extends ArgumentSpec<infer T> ? T : never;
+};
+
+export interface CommandDefinition<Action> {
+  // The command as typed after the slash. A space marks a subcommand, e.g. "rss read".
+  readonly name: string;
+  readonly aliases?: readonly string[];
+  // Replaces the generated "/name|/alias" prefix in usage strings.
+  readonly head?: string;
+  readonly args: readonly ArgumentSpec<unknown>[];
+  // One line in the style of the BBS /help output.
+  readonly help?: string;
+  // Present for commands that have a GUI counterpart listed in the cheat sheet.
+  readonly catalog?: { description: string; ui: string };
+  readonly build: (values: unknown[], invokedAs: string) => Action;
+}
+
+export type CommandSpec<Action, A extends readonly ArgumentSpec<unknown>[]> = Omit<
+  CommandDefinition<Action>,
+  'args' | 'build'
+> & {
+  args: A;
+  build: (values: ValuesOf<A>, invokedAs: string) => Action;
+};
+
+export const defineCommand = <Action, const A extends readonly ArgumentSpec<unknown>[]>(
+  spec: CommandSpec<Action, A>
+): CommandDefinition<Action> => spec as unknown as CommandDefinition<Action>;
+
+const success = <T>(value: T): ParseOutcome<T> => ({ ok: true, value });
+const failure = <T>(error: string): ParseOutcome<T> => ({ ok: false, error });
+
+export const createArgumentCursor = (input: string): ArgumentCursor => {
+  let remaining = input.trim();
+  return {
+    next: () => {
+      if (!remaining) {
+        return undefined;
+      }
+      const match = remaining.match(/^(\S+)\s*/u);
+      const token = match ? match[1] : remaining;
+      remaining = remaining.slice(match ? match[0].length : remaining.length);
+      return token;
+    },
+    rest: () => {
+      const value = remaining;
+      remaining = '';
+      return value;
+    },
+    done: () => remaining.length === 0
+  };
+};
+
+// A spec backed by a validator. `rest` specs take the remainder of the line instead of one token.
+export const custom = <T>(
+  name: string,
+  options: { usage?: string; rest?: boolean; parse: (raw: string) => ParseOutcome<T> }
+): ArgumentSpec<T> => ({
+  name,
+  usage: options.usage ?? `<${name}>`,
+  optional: false,
+  rest: options.rest ?? false,
+  read: (cursor) => options.parse(options.rest ? cursor.rest() : cursor.next() ?? '')
+});
+
+export const word = (name: string, usage?: string) =>
+  custom<string>(name, { usage, parse: (raw) => success(raw) });
+
+export const text = (name: string, usage?: string) =>
+  custom<string>(name, { usage, rest: true, parse: (raw) => success(raw) });
+
+export const choice = <const V extends string>(name: string, values: readonly V[]): ArgumentSpec<V> => ({
+  ...custom<V>(name, {
+    usage: `<${values.join('|')}>`,
+    parse: (raw) => {
+      const value = raw.toLowerCase() as V;
+      return values.includes(value) ? success(value) : failure(`${name} must be one of ${values.join(', ')}.`);
+    }
+  }),
+  choices: values
+});
+
+export const integer = (name: string, min: number, max: number) =>
+  custom<number>(name, {
+    usage: `<${min}-${max}>`,
+    parse: (raw) => {
+      const value = Number(raw);
+      return /^-?\d+$/u.test(raw) && value >= min && value <= max
+        ? success(value)
+        : failure(`${name} must be a whole number from ${min} to ${max}.`);
+    }
+  });
+
+export const isoDate = (name: string) =>
+  custom<string>(name, {
+    usage: 'YYYY-MM-DD',
+    parse: (raw) => {
+      const match = raw.match(/^(\d{4})-(\d{2})-(\d{2})$/u);
+      const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+      return date && date.toISOString().startsWith(raw)
+        ? success(raw)
+        : failure(`${name} must be a calendar date written as YYYY-MM-DD.`);
+    }
+  });
+
+export const url = (name: string) =>
+  custom<string>(name, {
+    parse: (raw) => {
+      try {
+        const parsed = new URL(raw);
+        if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+          return success(raw);
+        }
+      } catch (error) {
+        // Reported below.
+      }
+      return failure(`${name} must be an http:// or https:// link.`);
+    }
+  });
+
+export const pollOptions = (name: string) =>
+  custom<{ question: string; options: string[] }>(name, {
+    usage: '<question>|<option...>',
+    rest: true,
+    parse: (raw) => {
+      const [question, ...options] = raw.split('|').map((part) => part.trim());
+      const filled = options.filter(Boolean);
+      if (!question) {
+        return failure('Write the question before the first |.');
+      }
+      if (filled.length < 2) {
+        return failure('Separate at least two options with |, e.g. Pizza?|yes|no.');
+      }
+      if (filled.length !== options.length) {
+        return failure('Poll options cannot be empty.');
+      }
+      return success({ question, options: filled });
+    }
+  });
+
+// Chatter accepts a single id or an inclusive numeric range such as 10-20.
+export const MAX_ID_RANGE = 500;
+
+export const idRange = (name: string) =>
+  custom<string[]>(name, {
+    usage: '<id|start-end>',
+    parse: (raw) => {
+      const range = raw.match(/^(\d+)-(\d+)$/u);
+      if (!range) {
+        return raw.includes('-') && /^\d/u.test(raw)
+          ? failure(`${name} ranges are written start-end with whole numbers.`)
+          : success([raw]);
+      }
+      const start = Number(range[1]);
+      const end = Number(range[2]);
+      if (start > end) {
+        return failure(`${name} range starts after it ends.`);
+      }
+      if (end - start + 1 > MAX_ID_RANGE) {
+        return failure(`${name} ranges cover at most ${MAX_ID_RANGE} messages.`);
+      }
+      return success(Array.from({ length: end - start + 1 }, (_, index) => String(start + index)));
+    }
+  });
+
+export const optional = <T>(spec: ArgumentSpec<T>, usage = `[${spec.name}]`): ArgumentSpec<T | undefined> => ({
+  ...spec,
+  usage,
+  optional: true
+});
+
+export const suggest = <T>(spec: ArgumentSpec<T>, source: CompletionSource): ArgumentSpec<T> => ({
+  ...spec,
+  source
+});
+
+const withSlash = (name: string) => `/${name}`;
+
+export const formatCommandHead = (definition: CommandDefinition<unknown>) =>
+  definition.head ?? [definition.name, ...(definition.aliases ?? [])].map(withSlash).join('|');
+
+// "/vote <label> <question>|<option...>"; pass slash=false for the BBS /help style without slashes.
+export const formatUsage = (definition: CommandDefinition<unknown>, slash = true) => {
+  const head = formatCommandHead(definition);
+  const usage = [head, ...definition.args.map((arg) => arg.usage)].join(' ');
+  return slash ? usage : usage.replace(/(^|[\s|])\/(?=\S)/gu, '$1');
+};
+
+export const readArguments = (
+  definition: CommandDefinition<unknown>,
+  input: string
+): ParseOutcome<unknown[]> => {
+  const cursor = createArgumentCursor(input);
+  const values: unknown[] = [];
+  const withUsage = (error: string) => failure<unknown[]>(`${error} Usage: ${formatUsage(definition)}`);
+  for (const arg of definition.args) {
+    if (cursor.done()) {
+      if (!arg.optional) {
+        return withUsage(`Missing ${arg.usage}.`);
+      }
+      values.push(undefined);
+      continue;
+    }
+    const outcome = arg.read(cursor);
+    if (!outcome.ok) {
+      return withUsage(outcome.error);
+    }
+    values.push(outcome.value);
+  }
+  if (!cursor.done()) {
+    return withUsage(`Unexpected "${cursor.next()}".`);
+  }
+  return success(values);
+};
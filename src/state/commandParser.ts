@@ -0,0 +1,254 @@
+import { commandDefinitions } from '../data/commandDefinitions.js';
+import type { CommandAction } from '../data/commandDefinitions.js';
+import type { ChatStore } from './chatStore.js';
+import { formatUsage, readArguments } from './commandGrammar.js';
+import type { CommandDefinition } from './commandGrammar.js';
+import { seedState } from './seed.js';
+import type { CommandResult } from './types.js';
+
+export type ParsedCommand =
+  | { ok: true; action: CommandAction; definition: CommandDefinition<CommandAction> }
+  // `known` is false when no definition matches, so callers can pass the line through untouched.
+  | { ok: false; error: string; known: boolean };
+
+export type Invocation = {
+  definition: CommandDefinition<CommandAction>;
+  invokedAs: string;
+  consumed: number;
+};
+
+const tokenise = (value: string) => value.split(/\s+/u).filter(Boolean);
+
+// Picks the definition whose name (plus subcommand) matches the most leading tokens.
+export const findInvocation = (tokens: string[]): Invocation | null => {
+  let best: Invocation | null = null;
+  for (const definition of commandDefinitions) {
+    const [base, ...sub] = definition.name.split(' ');
+    for (const name of [base, ...(definition.aliases ?? [])]) {
+      const expected = [name, ...sub];
+      const matches = expected.every((part, index) => tokens[index]?.toLowerCase() === part.toLowerCase());
+      if (matches && (!best || expected.length > best.consumed)) {
+        best = { definition, invokedAs: name, consumed: expected.length };
+      }
+    }
+  }
+  return best;
+};
+
+export const subcommandsOf = (base: string) =>
+  commandDefinitions.filter((definition) => definition.name.startsWith(`${base} `));
+
+export const parseCommand = (line: string): ParsedCommand => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('/')) {
+    return { ok: false, error: 'Commands start with /.', known: false };
+  }
+  const body = trimmed.slice(1);
+  const tokens = tokenise(body);
+  const invocation = tokens.length > 0 ? findInvocation(tokens) : null;
+  if (!invocation) {
+    const subcommands = tokens.length > 0 ? subcommandsOf(tokens[0].toLowerCase()) : [];
+    if (subcommands.length > 0) {
+      const choices = subcommands.map((entry) => formatUsage(entry)).join(', ');
+      return { ok: false, error: `/${tokens[0]} needs a subcommand. Try ${choices}.`, known: true };
+    }
+    return { ok: false, error: `Unknown command: /${tokens[0] ?? ''}. Type /help for the list.`, known: false };
+  }
+
+  const { definition, invokedAs, consumed } = invocation;
+  let remainder = body;
+  for (let index = 0; index < consumed; index += 1) {
+    remainder = remainder.replace(/^\s*\S+/u, '');
+  }
+
+  const subcommands = subcommandsOf(definition.name);
+  if (subcommands.length > 0 && tokens.length > consumed && definition.args.length === 0) {
+    const choices = subcommands.map((entry) => formatUsage(entry)).join(', ');
+    return {
+      ok: false,
+      error: `Unknown /${definition.name} subcommand "${tokens[consumed]}". Try ${choices}.`,
+      known: true
+    };
+  }
+
+  const values = readArguments(definition, remainder);
+  if (!values.ok) {
+    return { ok: false, error: values.error, known: true };
+  }
+  return { ok: true, action: definition.build(values.value, invokedAs.toLowerCase()), definition };
+};
+
+const listOrNone = (values: string[], empty: string) => (values.length > 0 ? values.join(', ') : empty);
+
+const resolvePollChoice = (store: ChatStore, label: string, choice: string) => {
+  const poll = store.snapshot().polls[label];
+  if (!poll) {
+    return null;
+  }
+  const byIndex = /^\d+$/u.test(choice) ? poll.options[Number(choice) - 1] : undefined;
+  const byLabel = poll.options.find((option) => option.label.toLowerCase() === choice.toLowerCase());
+  return (byIndex ?? byLabel)?.id ?? choice;
+};
+
+// Applies a parsed command to the store. Commands whose effect lives only on the BBS succeed without
+// touching local state.
+export const dispatchCommand = (store: ChatStore, action: CommandAction): CommandResult => {
+  switch (action.type) {
+    case 'help':
+      return { ok: true, message: 'Type /help in the terminal for the server list, or open the cheat sheet.' };
+    case 'motd':
+      return { ok: true, message: store.getMotd() };
+    case 'exit':
+      return store.endSession();
+    case 'users': {
+      const count = store.connectedCount();
+      return { ok: true, message: `${count} user${count === 1 ? '' : 's'} connected.` };
+    }
+    case 'connected':
+      return { ok: true, message: `Connected: ${listOrNone(store.connectedUsers(), 'nobody')}` };
+    case 'search':
+      return { ok: true, message: `Matches: ${listOrNone(store.searchUsers(action.query), 'none')}` };
+    case 'nick':
+      return store.renameUser(action.name);
+    case 'status':
+      return store.setStatus(action.status);
+    case 'show-status':
+      return { ok: true, message: `${action.username}: ${store.getStatus(action.username) ?? '(no status)'}` };
+    case 'set-os':
+      return store.setOperatingSystem(action.os);
+    case 'get-os':
+      return { ok: true, message: `${action.username}: ${store.getOperatingSystem(action.username) ?? '(unknown)'}` };
+    case 'birthday':
+      return store.setBirthday(action.date);
+    case 'soulmate':
+      return { ok: true, message: `Birthday matches: ${listOrNone(store.findSoulmates(), 'none')}` };
+    case 'pair':
+      return { ok: true, message: `OS matches: ${listOrNone(store.findOsPairs(), 'none')}` };
+    case 'reply':
+      return store.sendMessage(action.body, action.messageId);
+    case 'view-message': {
+      const message = store.getMessageById(action.messageId);
+      return message
+        ? { ok: true, message: `${message.author}: ${message.body}` }
+        : { ok: false, error: 'Message not found.' };
+    }
+    case 'pm':
+      return store.recordPrivateMessage(action.username, action.body);
+    case 'react':
+      return store.reactToMessage(action.messageId, action.reaction);
+    case 'delete-messages':
+      return store.deleteMessages(action.ids);
+    case 'attach':
+      return store.addAttachment(action.kind, action.url, action.caption);
+    case 'ascii-art':
+      return { ok: true, message: 'ASCII art composer opened.' };
+    case 'handle-color':
+      store.setHandleColor(action.color);
+      return { ok: true, message: 'Handle colour updated.' };
+    case 'system-color':
+      store.setSystemPalette(action.palette === 'reset' ? seedState.systemPalette : action.palette);
+      return { ok: true, message: action.palette === 'reset' ? 'System colours reset.' : 'System colours updated.' };
+    case 'palette':
+      store.setPalette(action.name);
+      return { ok: true, message: `Palette set to ${action.name}.` };
+    case 'translation':
+      store.updateTranslation(action.settings);
+      return { ok: true, message: 'Translation settings updated.' };
+    case 'game':
+      store.setActiveGame(action.game);
+      return { ok: true, message: `Starting ${action.game}.` };
+    case 'suspend-game':
+      store.suspendGame();
+      return { ok: true, message: 'Game suspended.' };
+    case 'gemini':
+      store.setGeminiEnabled(action.enabled);
+      return { ok: true, message: `Gemini ${action.enabled ? 'enabled' : 'disabled'}.` };
+    case 'gemini-unfreeze':
+      store.unfreezeGemini();
+      return { ok: true, message: 'Gemini cooldown cleared.' };
+    case 'eliza':
+      store.setElizaEnabled(action.enabled);
+      return { ok: true, message: `Eliza ${action.enabled ? 'enabled' : 'disabled'}.` };
+    case 'eliza-chat':
+      return { ok: true, message: store.elizaChat(action.message) };
+    case 'grant':
+      return store.grantOperator(action.ip);
+    case 'revoke':
+      return store.revokeOperator(action.ip);
+    case 'ban':
+      return store.banUser(action.target);
+    case 'pardon':
+      return store.pardonTarget(action.target);
+    case 'block':
+      return store.blockTarget(action.target);
+    case 'unblock':
+      return store.unblockTarget(action.target);
+    case 'poke':
+      return store.pokeUser(action.username);
+    case 'kick':
+      return store.kickUser(action.username);
+    case 'create-poll':
+      return store.createPoll(action.label, action.question, action.options, action.multiple);
+    case 'show-poll': {
+      const poll = store.snapshot().polls[action.label];
+      if (!poll) {
+        return { ok: false, error: 'Poll not found.' };
+      }
+      const options = poll.options.map((option, index) => `${index + 1}) ${option.label} - ${option.votes}`);
+      return { ok: true, message: [`Poll ${poll.label}: ${poll.question}`, ...options].join('\n') };
+    }
+    case 'elect': {
+      const choice = resolvePollChoice(store, action.label, action.choice);
+      return choice ? store.vote(action.label, [choice]) : { ok: false, error: 'Poll not found.' };
+    }
+    case 'quick-vote': {
+      // The numeric shortcuts answer the unnamed /poll, or the newest named poll when there is none.
+      const labels = Object.keys(store.snapshot().polls);
+      const label = labels.includes('poll') ? 'poll' : labels[labels.length - 1];
+      return label ? store.quickVote(label, action.index) : { ok: false, error: 'No active poll.' };
+    }
+    case 'bbs-list':
+      return { ok: true, message: `${store.snapshot().bbsThreads.length} bulletin board threads.` };
+    case 'bbs-comment':
+      return store.commentOnBbs(action.threadId, action.body);
+    case 'bbs-regen':
+      store.regenBbs();
+      return { ok: true, message: 'Bulletin board regenerated.' };
+    case 'bbs-delete':
+      return store.deleteBbs(action.threadId);
+    case 'rss-list':
+      return { ok: true, message: `Feeds: ${listOrNone(store.snapshot().rssFeeds.map((feed) => feed.tag), 'none')}` };
+    case 'rss-read': {
+      const feed = store.readFeed(action.tag);
+      return feed ? { ok: true, message: `${feed.tag}: ${feed.url}` } : { ok: false, error: 'Feed not found.' };
+    }
+    case 'rss-add':
+      return store.addRssFeed(action.url, action.tag);
+    case 'today':
+    case 'date':
+    case 'weather':
+    case 'remote':
+      return { ok: true };
+    default:
+      return { ok: false, error: 'Unsupported command.' };
+  }
+};
+
+export const runCommand = (store: ChatStore, line: string): CommandResult => {
+  const parsed = parseCommand(line);
+  return parsed.ok ? dispatchCommand(store, parsed.action) : { ok: false, error: parsed.error };
+};
+
+// The BBS answers these with a line the chat stream applies itself (the reaction notice, the message that
+// carries the attachment, the rename notice), so dispatching them on send as well would apply them twice.
+const ECHOED_ACTIONS: ReadonlySet<CommandAction['type']> = new Set(['react', 'attach', 'nick']);
+
+// Mirrors a line the user sent to the BBS into the store. Returns null for plain chat, unknown or malformed
+// commands and echoed actions, all of which only the BBS answers.
+export const applySentCommand = (store: ChatStore, line: string): CommandResult | null => {
+  const parsed = line.trimStart().startsWith('/') ? parseCommand(line) : null;
+  if (!parsed?.ok || ECHOED_ACTIONS.has(parsed.action.type)) {
+    return null;
+  }
+  return dispatchCommand(store, parsed.action);
+};
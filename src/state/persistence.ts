@@ -0,0 +1,272 @@
+import type { ChatState } from './types.js';
+
+// Saves ChatState between page loads. Adapters only move strings; versioning, migrations and debouncing
+// live here so every backend behaves the same.
+
+export interface StorageAdapter {
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// Upgrades a stored state written by `version - 1` to `version`.
+export type ChatStateMigration = {
+  version: number;
+  migrate: (state: Record<string, unknown>) => Record<string, unknown>;
+};
+
+export type StoredChatState = {
+  version: number;
+  savedAt: string;
+  state: Partial<ChatState>;
+};
+
+export type ChatStatePersistence = {
+  // Saves are held until this settles, so the state it restores is never overwritten before it is hydrated.
+  load: () => Promise<ChatState | null>;
+  schedule: (read: () => ChatState) => void;
+  flush: () => Promise<void>;
+  clear: () => Promise<void>;
+  dispose: () => void;
+};
+
+export type ChatStatePersistenceOptions = {
+  adapter: StorageAdapter;
+  defaults: ChatState;
+  key?: string;
+  debounceMs?: number;
+  version?: number;
+  migrations?: ChatStateMigration[];
+};
+
+export const CHAT_STATE_STORAGE_KEY = 'chatter-state';
+export const CHAT_STATE_VERSION = 1;
+
+// Append an entry (and bump CHAT_STATE_VERSION) whenever a ChatState field is renamed or reshaped.
+// Fields that are simply added need no migration: missing keys fall back to the defaults on load.
+export const chatStateMigrations: ChatStateMigration[] = [];
+
+// Live connection details that would be stale on the next page load.
+const TRANSIENT_KEYS: readonly (keyof ChatState)[] = ['connectedUsers', 'isServerScrolling', 'activeGame'];
+
+const DEFAULT_DEBOUNCE_MS = 400;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createMemoryAdapter = (initial: Record<string, string> = {}): StorageAdapter & {
+  readonly entries: Map<string, string>;
+} => {
+  const entries = new Map(Object.entries(initial));
+  return {
+    entries,
+    read: async (key) => entries.get(key) ?? null,
+    write: async (key, value) => {
+      entries.set(key, value);
+    },
+    remove: async (key) => {
+      entries.delete(key);
+    }
+  };
+};
+
+export const createLocalStorageAdapter = (storage: Storage = window.localStorage): StorageAdapter => ({
+  read: async (key) => storage.getItem(key),
+  write: async (key, value) => {
+    storage.setItem(key, value);
+  },
+  remove: async (key) => {
+    storage.removeItem(key);
+  }
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbAdapter = (
+  databaseName = 'chatter-web',
+  storeName = 'state',
+  factory: IDBFactory = indexedDB
+): StorageAdapter => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      database = requestToPromise(request);
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    read: async (key) => {
+      const value = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    write: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    remove: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    }
+  };
+};
+
+// Prefers IndexedDB, then localStorage, and finally keeps state in memory for this page only.
+export const createDefaultStorageAdapter = (): StorageAdapter => {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDbAdapter();
+  }
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return createLocalStorageAdapter(window.localStorage);
+    }
+  } catch (error) {
+    console.warn('Local storage is unavailable', error);
+  }
+  return createMemoryAdapter();
+};
+
+export const migrateChatState = (
+  stored: unknown,
+  defaults: ChatState,
+  version = CHAT_STATE_VERSION,
+  migrations: ChatStateMigration[] = chatStateMigrations
+): ChatState | null => {
+  if (!isPlainObject(stored) || typeof stored.version !== 'number' || !isPlainObject(stored.state)) {
+    return null;
+  }
+  const storedVersion = stored.version;
+  if (storedVersion > version) {
+    // Written by a newer build; better to start over than to misread it.
+    return null;
+  }
+
+  let state = stored.state;
+  const pending = migrations
+    .filter((migration) => migration.version > storedVersion && migration.version <= version)
+    .sort((left, right) => left.version - right.version);
+  for (const migration of pending) {
+    state = migration.migrate(state);
+  }
+
+  const merged: Record<string, unknown> = JSON.parse(JSON.stringify(defaults));
+  for (const [key, value] of Object.entries(state)) {
+    if (!(key in merged) || TRANSIENT_KEYS.includes(key as keyof ChatState)) {
+      continue;
+    }
+    const fallback = merged[key];
+    merged[key] = isPlainObject(fallback) && isPlainObject(value) ? { ...fallback, ...value } : value;
+  }
+  return merged as unknown as ChatState;
+};
+
+export const createChatStatePersistence = (options: ChatStatePersistenceOptions): ChatStatePersistence => {
+  const key = options.key ?? CHAT_STATE_STORAGE_KEY;
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const version = options.version ?? CHAT_STATE_VERSION;
+  const migrations = options.migrations ?? chatStateMigrations;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pendingRead: (() => ChatState) | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let loaded = false;
+
+  const serialise = (state: ChatState) => {
+    const persisted: Partial<ChatState> = { ...state };
+    for (const transient of TRANSIENT_KEYS) {
+      delete persisted[transient];
+    }
+    const payload: StoredChatState = { version, savedAt: new Date().toISOString(), state: persisted };
+    return JSON.stringify(payload);
+  };
+
+  const startTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, debounceMs);
+  };
+
+  const load = async () => {
+    try {
+      const raw = await options.adapter.read(key);
+      if (!raw) {
+        return null;
+      }
+      return migrateChatState(JSON.parse(raw), options.defaults, version, migrations);
+    } catch (error) {
+      console.warn('Failed to restore saved chat state', error);
+      return null;
+    } finally {
+      loaded = true;
+      // The caller hydrates as soon as this resolves, before any timer can fire, so the held save sees the result.
+      if (pendingRead) {
+        startTimer();
+      }
+    }
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!loaded) {
+      return writing;
+    }
+    const read = pendingRead;
+    pendingRead = null;
+    if (read) {
+      const value = serialise(read());
+      // Chain writes so a slow backend never lets an older snapshot land last.
+      writing = writing.then(() =>
+        options.adapter.write(key, value).catch((error) => {
+          console.warn('Failed to save chat state', error);
+        })
+      );
+    }
+    return writing;
+  };
+
+  const schedule = (read: () => ChatState) => {
+    pendingRead = read;
+    if (loaded) {
+      startTimer();
+    }
+  };
+
+  const clear = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pendingRead = null;
+    await writing;
+    await options.adapter.remove(key);
+  };
+
+  const dispose = () => {
+    void flush();
+  };
+
+  return { load, schedule, flush, clear, dispose };
+};
@@ -18,6 +18,8 @@ export interface AttachmentEntry {
   type: AttachmentKind;
   url: string;
   caption?: string;
+  // The room message that shared it, when the BBS printed one.
+  messageId?: string;
 }
 
 export interface PrivateMessage {
@@ -1,5 +1,6 @@
 import type { ChatMessage } from '../state/types.js';
 import { ChatStore } from '../state/chatStore.js';
+import { dispatchCommand } from '../state/commandParser.js';
 import { escapeHtml, formatRelative } from './helpers.js';
 
 const renderReactions = (message: ChatMessage) => {
@@ -83,7 +84,9 @@ export const renderChatFeed = (store: ChatStore, container: HTMLElement) => {
     const formData = new FormData(form);
     const message = String(formData.get('message') ?? '');
     const replyTo = String(formData.get('reply') ?? '');
-    const result = store.sendMessage(message, replyTo || undefined);
+    const result = replyTo
+      ? dispatchCommand(store, { type: 'reply', messageId: replyTo, body: message })
+      : store.sendMessage(message);
     if (!result.ok) {
       container.dataset.feedback = result.error ?? 'Unable to post message.';
       container.dataset.feedbackType = 'error';
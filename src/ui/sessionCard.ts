@@ -1,4 +1,5 @@
 import { ChatStore } from '../state/chatStore.js';
+import { dispatchCommand } from '../state/commandParser.js';
 import { escapeHtml, formatRelative } from './helpers.js';
 
 export const renderSession = (store: ChatStore, container: HTMLElement, root?: HTMLElement) => {
@@ -84,7 +85,7 @@ export const renderSession = (store: ChatStore, container: HTMLElement, root?: H
   });
 
   container.querySelector<HTMLButtonElement>('button[data-action="toggle-session"]')?.addEventListener('click', () => {
-    const result = state.sessionActive ? store.endSession() : store.resumeSession();
+    const result = state.sessionActive ? dispatchCommand(store, { type: 'exit' }) : store.resumeSession();
     if (!result.ok) {
       container.dataset.feedback = result.error ?? 'Unable to update session.';
       container.dataset.feedbackType = 'error';
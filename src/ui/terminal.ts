@@ -1,18 +1,115 @@
 import { ChatStore } from '../state/chatStore.js';
+import { applyChatStreamEvents, createChatStreamFeed, createChatStreamParser } from '../state/chatStreamParser.js';
+import type { ChatStreamEvent } from '../state/chatStreamParser.js';
+import { applySentCommand, parseCommand } from '../state/commandParser.js';
 import { pickRandomNickname } from '../data/nicknames.js';
+import { PALETTE_NAMES } from '../data/palettes.js';
 import { describeMobilePlatform, detectMobilePlatform, escapeHtml, isMobilePlatform } from './helpers.js';
 import type { MobilePlatform } from './helpers.js';
+import { encodeControlMessage, parseControlMessage } from '../utils/terminalControl.js';
+import { completeCommandLine } from '../utils/commandCompletion.js';
+import {
+  clampHistoryLimit,
+  createCommandHistory,
+  createHistoryCursor,
+  DEFAULT_HISTORY_LIMIT,
+  MAX_HISTORY_LIMIT,
+  searchHistory
+} from '../utils/commandHistory.js';
+import type { HistoryMatch } from '../utils/commandHistory.js';
+import type { CompletionContext, CompletionResult } from '../utils/commandCompletion.js';
+import { createScreenBuffer, DEFAULT_SCROLLBACK, lineRuns, lineText } from '../utils/screenBuffer.js';
+import type { CellColor, CellStyle, ScreenBuffer, ScreenLine } from '../utils/screenBuffer.js';
+import { findUrls, lastLinkIn, needsLinkConfirmation, parseSafeUrl } from '../utils/links.js';
+import { compileSearch, findOutputMatches, MAX_SEARCH_MATCHES, nearestMatch } from '../utils/outputSearch.js';
+import {
+  ARCHIVE_DAY_CHOICES,
+  clampArchiveDays,
+  createIndexedDbArchiveBackend,
+  createLineCollector,
+  createMemoryArchiveBackend,
+  createScrollbackArchive,
+  DEFAULT_ARCHIVE_DAYS,
+  parseArchivedLine
+} from '../utils/scrollbackArchive.js';
+import type { ArchivedLine } from '../utils/scrollbackArchive.js';
+import {
+  createHighlighter,
+  formatUnreadTitle,
+  MAX_HIGHLIGHT_RULES,
+  parseHighlightRules
+} from '../utils/highlightRules.js';
+import type { Highlighter } from '../utils/highlightRules.js';
+import type { OutputSearchMatch } from '../utils/outputSearch.js';
+import {
+  attachmentFileName,
+  formatByteSize,
+  MAX_PREVIEW_CARDS,
+  parsePreviewUrl,
+  previewAction
+} from '../utils/mediaPreview.js';
+import { createSessionRecorder } from '../utils/sessionRecording.js';
+import { createReplayController, parseRecording } from '../utils/sessionReplay.js';
+import type { ReplayController } from '../utils/sessionReplay.js';
 
 // xterm.js types - modules will be loaded dynamically at runtime
 interface ITerminal {
+  readonly cols: number;
+  readonly rows: number;
   open(container: HTMLElement): void;
-  write(data: string | Uint8Array): void;
+  write(data: string | Uint8Array, callback?: () => void): void;
   writeln(data: string): void;
   clear(): void;
+  reset(): void;
   dispose(): void;
   loadAddon(addon: unknown): void;
+  onResize(listener: (size: TerminalWindowSize) => void): { dispose(): void };
+  registerLinkProvider(provider: ILinkProvider): { dispose(): void };
+  registerMarker(cursorYOffset?: number): { readonly line: number; dispose(): void } | undefined;
+  registerDecoration(options: {
+    marker: { readonly line: number; dispose(): void };
+    x?: number;
+    width?: number;
+    backgroundColor?: string;
+    foregroundColor?: string;
+    layer?: 'bottom' | 'top';
+  }): { dispose(): void } | undefined;
+  select(column: number, row: number, length: number): void;
+  clearSelection(): void;
+  scrollToLine(line: number): void;
+  scrollToBottom(): void;
+  readonly buffer: { readonly active: IBuffer };
 }
 
+interface IBuffer {
+  readonly length: number;
+  readonly baseY: number;
+  readonly cursorY: number;
+  getLine(y: number): IBufferLine | undefined;
+}
+
+interface IBufferLine {
+  readonly isWrapped: boolean;
+  readonly length: number;
+  getCell(x: number): { getChars(): string; getWidth(): number } | undefined;
+}
+
+// Buffer positions are 1-based and the end is inclusive.
+interface ILink {
+  range: { start: { x: number; y: number }; end: { x: number; y: number } };
+  text: string;
+  activate(event: MouseEvent, text: string): void;
+}
+
+interface ILinkProvider {
+  provideLinks(bufferLineNumber: number, callback: (links: ILink[] | undefined) => void): void;
+}
+
+type TerminalWindowSize = {
+  cols: number;
+  rows: number;
+};
+
 interface IFitAddon {
   fit(): void;
   dispose(): void;
@@ -34,6 +131,8 @@ interface Unicode11AddonConstructor {
   new(): IUnicode11Addon;
 }
 
+type MediaAttachment = Extract<ChatStreamEvent, { type: 'attachment' }>;
+
 const runtimeMap = new WeakMap<HTMLElement, TerminalRuntime>();
 const textEncoder = new TextEncoder();
 const TARGET_STORAGE_KEY = 'chatter-terminal-target';
@@ -219,12 +318,30 @@ const writeStoredUsername = (key: string, username: string) => {
 
 type EntryPreferences = {
   showTerminateShortcut: boolean;
+  autoReconnect: boolean;
+  recordInput: boolean;
+  historyLimit: number;
+  autoLoadMedia: boolean;
+  archiveDays: number;
+  highlightNickname: boolean;
+  highlightRules: string[];
+  mentionNotifications: boolean;
+  mentionBell: boolean;
 };
 
 const ENTRY_PREFERENCES_STORAGE_KEY = 'chatter-terminal-entry-preferences';
 
 const defaultEntryPreferences: EntryPreferences = {
-  showTerminateShortcut: false
+  showTerminateShortcut: false,
+  autoReconnect: false,
+  recordInput: false,
+  autoLoadMedia: false,
+  archiveDays: DEFAULT_ARCHIVE_DAYS,
+  historyLimit: DEFAULT_HISTORY_LIMIT,
+  highlightNickname: true,
+  highlightRules: [],
+  mentionNotifications: false,
+  mentionBell: false
 };
 
 const readEntryPreferences = (): EntryPreferences => {
@@ -246,8 +363,33 @@ const readEntryPreferences = (): EntryPreferences => {
     const showTerminate = Boolean(
       (parsed as { showTerminateShortcut?: unknown }).showTerminateShortcut
     );
-
-    return { showTerminateShortcut: showTerminate };
+    const autoReconnect = Boolean((parsed as { autoReconnect?: unknown }).autoReconnect);
+    const recordInput = Boolean((parsed as { recordInput?: unknown }).recordInput);
+    const historyLimit = clampHistoryLimit(Number((parsed as { historyLimit?: unknown }).historyLimit));
+    const autoLoadMedia = Boolean((parsed as { autoLoadMedia?: unknown }).autoLoadMedia);
+    const storedArchiveDays = (parsed as { archiveDays?: unknown }).archiveDays;
+    const archiveDays =
+      typeof storedArchiveDays === 'number' ? clampArchiveDays(storedArchiveDays) : DEFAULT_ARCHIVE_DAYS;
+    const storedHighlightNickname = (parsed as { highlightNickname?: unknown }).highlightNickname;
+    const storedHighlightRules = (parsed as { highlightRules?: unknown }).highlightRules;
+    const highlightRules = Array.isArray(storedHighlightRules)
+      ? storedHighlightRules.filter((rule): rule is string => typeof rule === 'string').slice(0, MAX_HIGHLIGHT_RULES)
+      : [];
+    const mentionNotifications = Boolean((parsed as { mentionNotifications?: unknown }).mentionNotifications);
+    const mentionBell = Boolean((parsed as { mentionBell?: unknown }).mentionBell);
+
+    return {
+      showTerminateShortcut: showTerminate,
+      autoReconnect,
+      recordInput,
+      historyLimit,
+      autoLoadMedia,
+      archiveDays,
+      highlightNickname: storedHighlightNickname === undefined ? true : Boolean(storedHighlightNickname),
+      highlightRules,
+      mentionNotifications,
+      mentionBell
+    };
   } catch (error) {
     console.warn('Failed to read terminal entry preferences', error);
     return { ...defaultEntryPreferences };
@@ -263,7 +405,16 @@ const writeEntryPreferences = (preferences: EntryPreferences) => {
     window.localStorage.setItem(
       ENTRY_PREFERENCES_STORAGE_KEY,
       JSON.stringify({
-        showTerminateShortcut: Boolean(preferences.showTerminateShortcut)
+        showTerminateShortcut: Boolean(preferences.showTerminateShortcut),
+        autoReconnect: Boolean(preferences.autoReconnect),
+        recordInput: Boolean(preferences.recordInput),
+        historyLimit: clampHistoryLimit(preferences.historyLimit),
+        autoLoadMedia: Boolean(preferences.autoLoadMedia),
+        archiveDays: clampArchiveDays(preferences.archiveDays),
+        highlightNickname: Boolean(preferences.highlightNickname),
+        highlightRules: preferences.highlightRules.slice(0, MAX_HIGHLIGHT_RULES),
+        mentionNotifications: Boolean(preferences.mentionNotifications),
+        mentionBell: Boolean(preferences.mentionBell)
       })
     );
   } catch (error) {
@@ -271,6 +422,59 @@ const writeEntryPreferences = (preferences: EntryPreferences) => {
   }
 };
 
+// Resume tokens live in sessionStorage so a reload of this tab can reattach, but other tabs start fresh.
+const RESUME_STORAGE_KEY = 'chatter-terminal-resume';
+
+type StoredResumeState = {
+  token: string;
+  target: string;
+  // Output offset the chat cards are already built up to, so the replay after a reload is not applied twice.
+  chatOffset: number;
+};
+
+const readResumeState = (): StoredResumeState | null => {
+  if (typeof window === 'undefined' || typeof window.sessionStorage === 'undefined') {
+    return null;
+  }
+
+  try {
+    const raw = window.sessionStorage.getItem(RESUME_STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<StoredResumeState> | null;
+    if (!parsed || typeof parsed.token !== 'string' || typeof parsed.target !== 'string') {
+      return null;
+    }
+
+    const chatOffset =
+      typeof parsed.chatOffset === 'number' && Number.isSafeInteger(parsed.chatOffset) && parsed.chatOffset >= 0
+        ? parsed.chatOffset
+        : 0;
+    return { token: parsed.token, target: parsed.target, chatOffset };
+  } catch (error) {
+    console.warn('Failed to read terminal resume token', error);
+    return null;
+  }
+};
+
+const writeResumeState = (state: StoredResumeState | null) => {
+  if (typeof window === 'undefined' || typeof window.sessionStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    if (state) {
+      window.sessionStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(state));
+    } else {
+      window.sessionStorage.removeItem(RESUME_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to persist terminal resume token', error);
+  }
+};
+
 
 const loadTargetOverrides = (): TargetOverrides => {
   if (typeof window === 'undefined' || typeof window.localStorage === 'undefined') {
@@ -449,6 +653,25 @@ const readRuntimeConfig = () => {
   return (window as any).__CHATTER_CONFIG__;
 };
 
+// With CHATTER_CONNECT_TICKETS on, each upgrade needs a fresh ticket from the bridge's ticket endpoint.
+const connectTicketsRequired = () => readRuntimeConfig()?.connectTickets === 'required';
+
+const requestConnectTicket = async (socketUrlText: string): Promise<string> => {
+  const url = new URL(socketUrlText);
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  url.pathname = `${url.pathname.replace(/\/$/u, '')}/ticket`;
+  url.search = '';
+  const response = await fetch(url.toString(), { method: 'POST', credentials: 'omit', cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Ticket request failed with status ${response.status}`);
+  }
+  const body = (await response.json()) as { ticket?: unknown };
+  if (typeof body.ticket !== 'string' || !body.ticket) {
+    throw new Error('Ticket response did not include a ticket');
+  }
+  return body.ticket;
+};
+
 type TerminalTarget = {
   available: boolean;
   description: string;
@@ -579,6 +802,7 @@ const resolveSocketUrl = (container: HTMLElement): string | null => {
 const SCROLL_LOCK_EPSILON = 4;
 const INTRO_MARKER = 'Connection established.';
 const INTRO_CAPTURE_LIMIT = 16000;
+const XTERM_SCROLLBACK = 10000;
 const TOUCH_ARROW_THRESHOLD_PX = 120;
 
 const keySequences: Record<string, string> = {
@@ -638,10 +862,17 @@ type TerminalRuntime = {
   shellElement: HTMLElement;
   terminal: ITerminal | null;
   fitAddon: IFitAddon | null;
+  // The DOM renderer's screen model, used only when xterm.js failed to load.
+  screen: ScreenBuffer | null;
   captureElement: HTMLTextAreaElement;
   entryElement: HTMLElement;
   entryForm: HTMLFormElement;
   entryStatusElement: HTMLElement;
+  completionList: HTMLElement;
+  completionHint: HTMLElement;
+  historySearch: HTMLElement;
+  historyQuery: HTMLInputElement;
+  historyMatch: HTMLElement;
   connectButtons: HTMLButtonElement[];
   disconnectButtons: HTMLButtonElement[];
   focusButton: HTMLButtonElement;
@@ -664,14 +895,6 @@ type TerminalRuntime = {
   connecting: boolean;
   socketUrl: string | null;
   target: TerminalTarget;
-  incomingBuffer: string;
-  incomingLineElement: HTMLPreElement | null;
-  asciiArtBlock: {
-    element: HTMLPreElement;
-    lines: string[];
-    currentLine: string;
-  } | null;
-  asciiEditorLine: string | null;
   introSilenced: boolean;
   introBuffer: string;
   autoCommandBuffer: string;
@@ -705,18 +928,6 @@ type RenderTerminalOptions = {
 
 type ThemeName = 'dark' | 'light';
 
-type AnsiState = {
-  color: string | null;
-  colorCode: number | null;
-  background: string | null;
-  bold: boolean;
-};
-
-type ParsedAnsiLine = {
-  fragment: DocumentFragment;
-  trailingBackground: string | null;
-};
-
 const applyColumnResetToChunk = (value: string, runtime: TerminalRuntime): string => {
   if (!value) {
     if (runtime.xtermColumnResetPending) {
@@ -840,8 +1051,6 @@ const resolveAnsi256Color = (index: number): string | null => {
   return rgbToHex(level, level, level);
 };
 
-const ANSI_PATTERN = /\u001b\[([0-9;]*)([A-Za-z])/g;
-
 const ANSI_BOLD_FOREGROUND_ALIASES: Record<number, number> = {
   30: 90,
   31: 91,
@@ -858,262 +1067,155 @@ const resolveForegroundColor = (code: number, bold: boolean): string | null => {
   return ANSI_FOREGROUND_COLOR_MAP[effectiveCode] ?? null;
 };
 
-const createAnsiFragment = (line: string, runtime: TerminalRuntime): ParsedAnsiLine => {
-  const fragment = document.createDocumentFragment();
-  const state: AnsiState = { color: null, colorCode: null, background: null, bold: false };
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  const pushSegment = (segment: string) => {
-    if (!segment) {
-      return;
-    }
-
-    // Always create a span element, even for unstyled text
-    // This ensures consistent rendering and styling inheritance
-    const span = document.createElement('span');
-    span.className = 'terminal__segment';
-    span.textContent = segment;
-    
-    if (state.color) {
-      span.style.color = state.color;
-    }
-    if (state.background) {
-      span.style.setProperty('--segment-bg', state.background);
-      span.classList.add('terminal__segment--background');
-    }
-    if (state.bold) {
-      span.style.fontWeight = '700';
-    }
-    
-    fragment.append(span);
-  };
-
-  while ((match = ANSI_PATTERN.exec(line)) !== null) {
-    const matchIndex = match.index;
-    if (matchIndex > lastIndex) {
-      pushSegment(line.slice(lastIndex, matchIndex));
-    }
-        lastIndex = ANSI_PATTERN.lastIndex;
-    
-        const command = match[2];
-        const codes = match[1] ? match[1].split(';') : ['0'];
-    
-        if (command === 'J') { // Erase in Display
-          const code = Number.parseInt(codes[0], 10);
-          if (code === 2) { // Clear entire screen
-            runtime.clearOutput();
-          }
-          continue;
-        }
-    
-        if (command === 'K') { // Erase in Line
-          const code = Number.parseInt(codes[0], 10);
-          if (code === 2) { // Clear entire line
-            if (runtime.incomingLineElement) {
-              runtime.incomingLineElement.textContent = '';
-              runtime.incomingBuffer = '';
-            }
-          }
-          continue;
-        }
-    
-        if (command !== 'm') { // Only process 'm' (SGR) commands if not J or K
-          continue;
-        }
-
-    let codeIndex = 0;
-
-    while (codeIndex < codes.length) {
-      const codeText = codes[codeIndex];
-      codeIndex += 1;
-
-      const code = Number.parseInt(codeText, 10);
-      if (!Number.isFinite(code)) {
-        continue;
-      }
-      if (code === 0) {
-        state.color = null;
-        state.colorCode = null;
-        state.background = null;
-        state.bold = false;
-        continue;
-      }
-      if (code === 1) {
-        state.bold = true;
-        if (state.colorCode !== null) {
-          const resolved = resolveForegroundColor(state.colorCode, state.bold);
-          state.color = resolved;
-        }
-        continue;
-      }
-      if (code === 22) {
-        state.bold = false;
-        if (state.colorCode !== null) {
-          const resolved = resolveForegroundColor(state.colorCode, state.bold);
-          state.color = resolved;
-        }
-        continue;
-      }
-      if (code === 39) {
-        state.color = null;
-        state.colorCode = null;
-        continue;
-      }
-      if (code === 49) {
-        state.background = null;
-        continue;
-      }
-      if (code === 38 || code === 48) {
-        const modeText = codes[codeIndex];
-        const mode = modeText ? Number.parseInt(modeText, 10) : Number.NaN;
-        if (!Number.isFinite(mode)) {
-          continue;
-        }
-        codeIndex += 1;
-
-        if (mode === 5) {
-          const colorIndexText = codes[codeIndex];
-          const colorIndex = colorIndexText ? Number.parseInt(colorIndexText, 10) : Number.NaN;
-          if (Number.isFinite(colorIndex)) {
-            const resolved = resolveAnsi256Color(colorIndex);
-            if (resolved) {
-              if (code === 38) {
-                state.color = resolved;
-                state.colorCode = null;
-              } else {
-                state.background = resolved;
-              }
-            }
-          }
-          codeIndex += 1;
-          continue;
-        }
-
-        if (mode === 2) {
-          const rText = codes[codeIndex];
-          const gText = codes[codeIndex + 1];
-          const bText = codes[codeIndex + 2];
-          if (typeof rText === 'string' && typeof gText === 'string' && typeof bText === 'string') {
-            const r = Number.parseInt(rText, 10);
-            const g = Number.parseInt(gText, 10);
-            const b = Number.parseInt(bText, 10);
-            if (Number.isFinite(r) && Number.isFinite(g) && Number.isFinite(b)) {
-              const resolved = rgbToHex(r, g, b);
-              if (code === 38) {
-                state.color = resolved;
-                state.colorCode = null;
-              } else {
-                state.background = resolved;
-              }
-            }
-          }
-          codeIndex += 3;
-          continue;
-        }
-
-        continue;
-      }
-      const foreground = resolveForegroundColor(code, state.bold);
-      if ((code >= 30 && code <= 37) || (code >= 90 && code <= 97)) {
-        state.colorCode = code;
-        state.color = foreground;
-        continue;
-      }
-      if (foreground) {
-        state.color = foreground;
-        state.colorCode = code;
-        continue;
-      }
-      const background = ANSI_BACKGROUND_COLOR_MAP[code];
-      if (background) {
-        state.background = background;
-        continue;
-      }
-    }
+// Screen cells keep palette indexes, so bold can still brighten the eight base foregrounds here.
+const resolveCellColor = (color: CellColor, layer: 'fg' | 'bg', bold: boolean): string | null => {
+  if (typeof color === 'string' || color === null) {
+    return color;
   }
-
-  if (lastIndex < line.length) {
-    pushSegment(line.slice(lastIndex));
+  if (color < 8) {
+    return layer === 'fg' ? resolveForegroundColor(30 + color, bold) : ANSI_BACKGROUND_COLOR_MAP[40 + color] ?? null;
   }
-
-  return { fragment, trailingBackground: state.background };
-};
-
-const applyTrailingBackground = (element: HTMLElement, trailingBackground: string | null) => {
-  if (trailingBackground) {
-    element.style.setProperty('--terminal-trailing-bg', trailingBackground);
-    element.classList.add('terminal__line--trailing-background');
-    return;
+  if (color < 16) {
+    return layer === 'fg'
+      ? ANSI_FOREGROUND_COLOR_MAP[82 + color] ?? null
+      : ANSI_BACKGROUND_COLOR_MAP[92 + color] ?? null;
   }
-
-  element.style.removeProperty('--terminal-trailing-bg');
-  element.classList.remove('terminal__line--trailing-background');
+  return resolveAnsi256Color(color);
 };
 
-const pendingLineRenders = new Map<HTMLElement, { content: string; runtime: TerminalRuntime }>();
-const lastRenderedLine = new WeakMap<HTMLElement, string>();
-let lineRenderScheduled = false;
+const createScreenRunElement = (text: string, style: CellStyle): HTMLSpanElement => {
+  const span = document.createElement('span');
+  span.className = 'terminal__segment';
+  span.textContent = style.hidden ? ' '.repeat(text.length) : text;
 
-const flushPendingLineRenders = () => {
-  lineRenderScheduled = false;
-  if (pendingLineRenders.size === 0) {
-    return;
+  let foreground = resolveCellColor(style.fg, 'fg', style.bold);
+  let background = resolveCellColor(style.bg, 'bg', false);
+  if (style.inverse) {
+    [foreground, background] = [background, foreground];
+    span.classList.add('terminal__segment--inverse');
+  }
+  if (foreground) {
+    span.style.color = foreground;
+  }
+  if (background) {
+    span.classList.add('terminal__segment--background');
+    span.style.setProperty('--segment-bg', background);
+  }
+  if (style.bold) {
+    span.style.fontWeight = '700';
+  }
+  if (style.italic) {
+    span.style.fontStyle = 'italic';
+  }
+  const decorations = [style.underline ? 'underline' : '', style.strikethrough ? 'line-through' : '']
+    .filter(Boolean)
+    .join(' ');
+  if (decorations) {
+    span.style.textDecoration = decorations;
   }
+  if (style.dim) {
+    span.classList.add('terminal__segment--dim');
+  }
+  if (style.blink) {
+    span.classList.add('terminal__segment--blink');
+  }
+  return span;
+};
 
-  const entries = Array.from(pendingLineRenders.entries());
-  pendingLineRenders.clear();
+const createLinkElement = (href: string): HTMLAnchorElement => {
+  const anchor = document.createElement('a');
+  anchor.className = 'terminal__link';
+  anchor.href = href;
+  anchor.target = '_blank';
+  anchor.rel = 'noopener noreferrer';
+  return anchor;
+};
 
-  for (const [target, { content: nextContent, runtime }] of entries) {
-    if (!target.isConnected) {
-      lastRenderedLine.delete(target);
-      continue;
+// Runs of one screen line, split wherever a plain URL starts or ends. Pieces that point at the same target,
+// either a URL in the text or an OSC 8 hyperlink, are wrapped in a single anchor.
+const createScreenLineNodes = (line: ScreenLine): Node[] => {
+  const runs = lineRuns(line);
+  const urls = findUrls(runs.map((run) => run.text).join(''));
+  const nodes: Node[] = [];
+  let anchor: { element: HTMLAnchorElement; key: string } | null = null;
+  let offset = 0;
+
+  for (const run of runs) {
+    let position = 0;
+    while (position < run.text.length) {
+      const at = offset + position;
+      const match = urls.find((url) => url.end > at);
+      const inside = match !== undefined && match.start <= at;
+      const end = Math.min(run.text.length, (inside ? match.end : match?.start ?? Infinity) - offset);
+      const span = createScreenRunElement(run.text.slice(position, end), run.style);
+      position = end;
+
+      const href = inside ? match.url : run.style.link ? parseSafeUrl(run.style.link)?.href ?? null : null;
+      const key = inside ? `url:${match.start}` : `osc:${href}`;
+      if (!href) {
+        anchor = null;
+        nodes.push(span);
+      } else if (anchor && anchor.key === key) {
+        anchor.element.append(span);
+      } else {
+        anchor = { element: createLinkElement(href), key };
+        anchor.element.append(span);
+        nodes.push(anchor.element);
+      }
     }
+    offset += run.text.length;
+  }
+  return nodes;
+};
 
-    const previous = lastRenderedLine.get(target) ?? '';
-    if (previous === nextContent) {
+// The text of one buffer row and the 0-based cell column of each UTF-16 unit in it. Wide characters take
+// two cells but one character, so string offsets and columns drift apart without this. The extra last
+// entry is the column just past the text.
+const readBufferLineText = (line: IBufferLine | undefined) => {
+  let text = '';
+  const columns: number[] = [];
+  let next = 0;
+  for (let x = 0; line && x < line.length; x += 1) {
+    const cell = line.getCell(x);
+    if (!cell || cell.getWidth() === 0) {
       continue;
     }
-
-    if (!nextContent) {
-      target.replaceChildren();
-      applyTrailingBackground(target, null);
-      lastRenderedLine.set(target, '');
-      continue;
+    const chars = cell.getChars() || ' ';
+    text += chars;
+    for (let unit = 0; unit < chars.length; unit += 1) {
+      columns.push(x);
     }
-
-    const { fragment, trailingBackground } = createAnsiFragment(nextContent, runtime);
-    target.replaceChildren(fragment);
-    applyTrailingBackground(target, trailingBackground);
-    lastRenderedLine.set(target, nextContent);
+    next = x + cell.getWidth();
   }
+  columns.push(next);
+  return { text, columns };
 };
 
-const schedulePendingLineRenderFlush = () => {
-  if (lineRenderScheduled) {
-    return;
+// Plain URLs in the xterm.js buffer, following soft-wrapped rows so a long URL stays one link.
+const findBufferLinks = (terminal: ITerminal, bufferLineNumber: number) => {
+  const buffer = terminal.buffer.active;
+  let first = bufferLineNumber - 1;
+  while (first > 0 && buffer.getLine(first)?.isWrapped) {
+    first -= 1;
+  }
+  let last = bufferLineNumber - 1;
+  while (buffer.getLine(last + 1)?.isWrapped) {
+    last += 1;
   }
-  lineRenderScheduled = true;
-
-  const schedule =
-    typeof window !== 'undefined' && typeof window.requestAnimationFrame === 'function'
-      ? window.requestAnimationFrame.bind(window)
-      : (callback: FrameRequestCallback) => {
-          setTimeout(() => {
-            const timestamp = typeof performance !== 'undefined' ? performance.now() : Date.now();
-            callback(timestamp);
-          }, 0);
-        };
 
-  schedule(() => {
-    flushPendingLineRenders();
-  });
-};
+  let text = '';
+  const positions: { x: number; y: number }[] = [];
+  for (let y = first; y <= last; y += 1) {
+    const row = readBufferLineText(buffer.getLine(y));
+    text += row.text;
+    for (let unit = 0; unit < row.text.length; unit += 1) {
+      positions.push({ x: row.columns[unit] + 1, y: y + 1 });
+    }
+  }
 
-const renderAnsiLine = (target: HTMLElement, content: string, runtime: TerminalRuntime) => {
-  const normalisedContent = content.replace(/\r/g, '');
-  pendingLineRenders.set(target, { content: normalisedContent, runtime });
-  schedulePendingLineRenderFlush();
+  return findUrls(text)
+    .map((match) => ({ url: match.url, start: positions[match.start], end: positions[match.end - 1] }))
+    .filter(({ start, end }) => start.y <= bufferLineNumber && end.y >= bufferLineNumber);
 };
 
 const limitOutputLines = (output: HTMLElement, maxLines = 600) => {
@@ -1298,6 +1400,17 @@ const createRuntime = (
 
   const entryPreferences = readEntryPreferences();
   const showTerminateShortcut = Boolean(entryPreferences.showTerminateShortcut);
+  const autoReconnect = Boolean(entryPreferences.autoReconnect);
+  const recordInput = Boolean(entryPreferences.recordInput);
+  const historyLimit = entryPreferences.historyLimit;
+  const autoLoadMedia = Boolean(entryPreferences.autoLoadMedia);
+  const highlightNickname = Boolean(entryPreferences.highlightNickname);
+  const mentionNotifications = Boolean(entryPreferences.mentionNotifications);
+  const mentionBell = Boolean(entryPreferences.mentionBell);
+  const archiveDayOptions = ARCHIVE_DAY_CHOICES.map((days) => {
+    const label = days === 0 ? 'Off' : `${days} day${days === 1 ? '' : 's'}`;
+    return `<option value="${days}" ${days === entryPreferences.archiveDays ? 'selected' : ''}>${label}</option>`;
+  }).join('');
 
   const controlBarMarkup = `
         <nav class="terminal-chat__menu-bar" aria-label="Terminal bridge controls">
@@ -1364,6 +1477,71 @@ const createRuntime = (
                 <span>Show Terminate shortcut</span>
               </label>
               <p class="terminal-chat__hint terminal__note terminal__note--muted">Expose the Ctrl+Z shortcut button in the on-screen keyboard.</p>
+              <label class="terminal-chat__option">
+                <input type="checkbox" data-terminal-toggle-reconnect ${autoReconnect ? 'checked' : ''} />
+                <span>Reconnect automatically</span>
+              </label>
+              <p class="terminal-chat__hint terminal__note terminal__note--muted">Retry dropped connections with increasing delays and hold lines you type until the bridge is back.</p>
+              <label class="terminal-chat__field">
+                <span class="terminal-chat__field-label">Command history size</span>
+                <input type="number" class="terminal-chat__input" data-terminal-history-limit min="0" max="${MAX_HISTORY_LIMIT}" step="50" value="${historyLimit}" />
+              </label>
+              <p class="terminal-chat__hint terminal__note terminal__note--muted">Lines you send are kept per server for Alt+↑/↓ and Ctrl+R search. Login commands are never stored. Set 0 to turn history off.</p>
+              <div class="terminal-chat__field-actions">
+                <button type="button" class="terminal-chat__menu-button" data-terminal-history-clear>Clear history</button>
+              </div>
+              <label class="terminal-chat__option">
+                <input type="checkbox" data-terminal-toggle-auto-media ${autoLoadMedia ? 'checked' : ''} />
+                <span>Load media previews automatically</span>
+              </label>
+              <p class="terminal-chat__hint terminal__note terminal__note--muted">When off, shared images, video and audio are only fetched from their hosts after you click Load preview. Media whose host hides its size always waits for a click.</p>
+            </div>
+            <div class="terminal-chat__menu-block terminal-chat__menu-block--highlights" role="group" aria-label="Highlights">
+              <span class="terminal-chat__menu-block-title">Highlights</span>
+              <label class="terminal-chat__option">
+                <input type="checkbox" data-terminal-highlight-nickname ${highlightNickname ? 'checked' : ''} />
+                <span>Highlight my nickname</span>
+              </label>
+              <label class="terminal-chat__field">
+                <span class="terminal-chat__field-label">Also highlight</span>
+                <textarea class="terminal-chat__input terminal-chat__highlight-rules" rows="3" spellcheck="false" placeholder="one word or /regex/i per line" data-terminal-highlight-rules>${escapeHtml(entryPreferences.highlightRules.join('\n'))}</textarea>
+              </label>
+              <p class="terminal-chat__hint terminal__note terminal__note--muted">Matching lines are coloured, and while this tab is in the background they are counted in the window header and page title.</p>
+              <label class="terminal-chat__option">
+                <input type="checkbox" data-terminal-toggle-mention-notify ${mentionNotifications ? 'checked' : ''} />
+                <span>Notify me when the tab is hidden</span>
+              </label>
+              <label class="terminal-chat__option">
+                <input type="checkbox" data-terminal-toggle-mention-bell ${mentionBell ? 'checked' : ''} />
+                <span>Ring a bell when the tab is hidden</span>
+              </label>
+            </div>
+            <div class="terminal-chat__menu-block terminal-chat__menu-block--recording" role="group" aria-label="Session recording">
+              <span class="terminal-chat__menu-block-title">Session recording</span>
+              <label class="terminal-chat__option">
+                <input type="checkbox" data-terminal-toggle-record-input ${recordInput ? 'checked' : ''} />
+                <span>Include typed input</span>
+              </label>
+              <p class="terminal-chat__hint terminal__note terminal__note--muted">Everything the bridge prints on this page is recorded with timestamps. Passwords you type are recorded too when input is included.</p>
+              <div class="terminal-chat__field-actions">
+                <button type="button" class="terminal-chat__menu-button" data-terminal-download-cast>Download .cast</button>
+                <button type="button" class="terminal-chat__menu-button" data-terminal-download-transcript>Download transcript</button>
+              </div>
+              <label class="terminal-chat__field">
+                <span class="terminal-chat__field-label">Replay a recording</span>
+                <input type="file" class="terminal-chat__input" data-terminal-replay-file accept=".cast,.txt,.log,text/plain,application/x-asciicast" />
+              </label>
+            </div>
+            <div class="terminal-chat__menu-block terminal-chat__menu-block--archive" role="group" aria-label="Scrollback archive">
+              <span class="terminal-chat__menu-block-title">Scrollback archive</span>
+              <label class="terminal-chat__field">
+                <span class="terminal-chat__field-label">Keep output for</span>
+                <select class="terminal-chat__input" data-terminal-archive-days>${archiveDayOptions}</select>
+              </label>
+              <p class="terminal-chat__hint terminal__note terminal__note--muted">Off unless you pick a period. Lines that scroll out of the live view are then kept in this browser per server, with colours and arrival times, and load above the output as you scroll up. Off deletes the archive.</p>
+              <div class="terminal-chat__field-actions">
+                <button type="button" class="terminal-chat__menu-button" data-terminal-archive-clear>Clear archive</button>
+              </div>
             </div>
           </div>
         </nav>`;
@@ -1386,6 +1564,7 @@ const createRuntime = (
           <header class="terminal-chat__window-header" aria-label="Terminal window header">
             <div class="terminal-chat__window-title">
               <span class="terminal-chat__window-badge">CHT-98</span>
+              <span class="terminal-chat__window-unread" data-terminal-unread role="status" hidden></span>
               <div class="terminal-chat__window-copy">
                 <span class="terminal-chat__window-heading">Retro Terminal</span>
                 <span class="terminal-chat__window-subtitle" data-terminal-endpoint>${escapeHtml(target.description)}</span>
@@ -1416,12 +1595,47 @@ const createRuntime = (
               <div class="terminal-chat__window-actions">
                 <button type="button" class="terminal-chat__menu-button terminal-chat__menu-button--primary" data-terminal-connect>Join</button>
                 <button type="button" class="terminal-chat__menu-button" data-terminal-disconnect disabled>Exit</button>
+                <button type="button" class="terminal-chat__menu-button" data-terminal-search-open title="Find in output (Ctrl+Shift+F)">Find</button>
               </div>
             </div>
           </header>
+          <div class="terminal-chat__replay" data-terminal-replay hidden>
+            <span class="terminal-chat__replay-title" data-terminal-replay-title>Replay</span>
+            <button type="button" class="terminal-chat__menu-button terminal-chat__menu-button--primary" data-terminal-replay-toggle>Pause</button>
+            <input type="range" class="terminal-chat__replay-seek" min="0" max="0" step="0.1" value="0" aria-label="Replay position" data-terminal-replay-seek />
+            <span class="terminal-chat__replay-time" data-terminal-replay-time>0:00 / 0:00</span>
+            <select class="terminal-chat__input terminal-chat__replay-speed" aria-label="Replay speed" data-terminal-replay-speed>
+              <option value="0.5">0.5×</option>
+              <option value="1" selected>1×</option>
+              <option value="2">2×</option>
+              <option value="4">4×</option>
+              <option value="8">8×</option>
+            </select>
+            <form class="terminal-chat__replay-search" data-terminal-replay-search>
+              <input type="search" class="terminal-chat__input" placeholder="Find in recording" aria-label="Find in recording" data-terminal-replay-query />
+              <button type="submit" class="terminal-chat__menu-button">Find next</button>
+            </form>
+            <button type="button" class="terminal-chat__menu-button" data-terminal-replay-close>Close</button>
+          </div>
+          <form class="terminal-chat__search" role="search" data-terminal-search hidden>
+            <input type="search" class="terminal-chat__input" placeholder="Find in output" aria-label="Find in output" autocomplete="off" spellcheck="false" data-terminal-search-query />
+            <label class="terminal-chat__option">
+              <input type="checkbox" data-terminal-search-case />
+              <span>Match case</span>
+            </label>
+            <label class="terminal-chat__option">
+              <input type="checkbox" data-terminal-search-regex />
+              <span>Regex</span>
+            </label>
+            <span class="terminal-chat__search-count" aria-live="polite" data-terminal-search-count></span>
+            <button type="submit" class="terminal-chat__menu-button" title="Enter">Older</button>
+            <button type="button" class="terminal-chat__menu-button" title="Shift+Enter" data-terminal-search-newer>Newer</button>
+            <button type="button" class="terminal-chat__menu-button" data-terminal-search-close>Close</button>
+          </form>
           <div class="terminal-chat__viewport terminal__viewport" data-terminal-viewport>
             <div class="terminal-chat__output terminal__output" data-terminal-output></div>
           </div>
+          <section class="terminal-chat__previews" aria-label="Shared media" data-terminal-previews hidden></section>
           <div class="terminal-chat__entry-region">
             <div class="terminal-chat__entry-main">
               <div class="terminal-chat__keyboard" id="${entryStatusId}-kbd" data-terminal-kbd hidden>
@@ -1459,12 +1673,38 @@ const createRuntime = (
                       placeholder=""
                       aria-describedby="${entryStatusId}"
                       aria-label="Command buffer"
+                      aria-autocomplete="list"
+                      aria-controls="${entryStatusId}-completion"
                       autocomplete="off"
                       autocorrect="off"
                       autocapitalize="off"
                       spellcheck="false"
                     ></textarea>
                   </label>
+                  <p class="terminal-chat__completion-hint" data-terminal-completion-hint hidden></p>
+                  <div class="terminal-chat__history-search" data-terminal-history-search hidden>
+                    <label class="terminal-chat__history-search-field">
+                      <span class="terminal-chat__history-search-label">History search</span>
+                      <input
+                        type="search"
+                        class="terminal-chat__input"
+                        data-terminal-history-query
+                        placeholder="Type to search, Ctrl+R for older matches"
+                        aria-describedby="${entryStatusId}-history-match"
+                        autocomplete="off"
+                        spellcheck="false"
+                      />
+                    </label>
+                    <p id="${entryStatusId}-history-match" class="terminal-chat__history-search-match" data-terminal-history-match aria-live="polite"></p>
+                  </div>
+                  <ul
+                    id="${entryStatusId}-completion"
+                    class="terminal-chat__completion"
+                    role="listbox"
+                    aria-label="Command suggestions"
+                    data-terminal-completion
+                    hidden
+                  ></ul>
                 </form>
               </section>
             </div>
@@ -1517,10 +1757,48 @@ const createRuntime = (
   const keyboardToggleButton = query<HTMLButtonElement>('[data-terminal-kbd-toggle]');
   const keyboardPanel = query<HTMLElement>('[data-terminal-kbd]');
   const terminateToggle = query<HTMLInputElement>('[data-terminal-toggle-terminate]');
+  const reconnectToggle = query<HTMLInputElement>('[data-terminal-toggle-reconnect]');
+  const recordInputToggle = query<HTMLInputElement>('[data-terminal-toggle-record-input]');
+  const downloadCastButtons = queryAll<HTMLButtonElement>('[data-terminal-download-cast]');
+  const downloadTranscriptButtons = queryAll<HTMLButtonElement>('[data-terminal-download-transcript]');
+  const replayFileInput = query<HTMLInputElement>('[data-terminal-replay-file]');
+  const replayBar = query<HTMLElement>('[data-terminal-replay]');
+  const replayTitle = query<HTMLElement>('[data-terminal-replay-title]');
+  const replayToggle = query<HTMLButtonElement>('[data-terminal-replay-toggle]');
+  const replaySeek = query<HTMLInputElement>('[data-terminal-replay-seek]');
+  const replayTime = query<HTMLElement>('[data-terminal-replay-time]');
+  const replaySpeed = query<HTMLSelectElement>('[data-terminal-replay-speed]');
+  const replaySearchForm = query<HTMLFormElement>('[data-terminal-replay-search]');
+  const replayQuery = query<HTMLInputElement>('[data-terminal-replay-query]');
+  const replayClose = query<HTMLButtonElement>('[data-terminal-replay-close]');
+  const searchOpenButton = query<HTMLButtonElement>('[data-terminal-search-open]');
+  const searchForm = query<HTMLFormElement>('[data-terminal-search]');
+  const searchQuery = query<HTMLInputElement>('[data-terminal-search-query]');
+  const searchCase = query<HTMLInputElement>('[data-terminal-search-case]');
+  const searchRegex = query<HTMLInputElement>('[data-terminal-search-regex]');
+  const searchCount = query<HTMLElement>('[data-terminal-search-count]');
+  const searchNewer = query<HTMLButtonElement>('[data-terminal-search-newer]');
+  const searchClose = query<HTMLButtonElement>('[data-terminal-search-close]');
+  const archiveDaysSelect = query<HTMLSelectElement>('[data-terminal-archive-days]');
+  const archiveClearButton = query<HTMLButtonElement>('[data-terminal-archive-clear]');
   const entryElement = query<HTMLElement>('[data-terminal-entry]');
   const entryForm = entryElement?.querySelector<HTMLFormElement>('[data-terminal-entry-form]');
   const entryBufferElement = entryElement?.querySelector<HTMLTextAreaElement>('[data-terminal-entry-buffer]');
   const entryStatusElement = entryElement?.querySelector<HTMLElement>('[data-terminal-entry-status]');
+  const completionList = entryElement?.querySelector<HTMLElement>('[data-terminal-completion]');
+  const completionHint = entryElement?.querySelector<HTMLElement>('[data-terminal-completion-hint]');
+  const historySearch = entryElement?.querySelector<HTMLElement>('[data-terminal-history-search]');
+  const historyQuery = entryElement?.querySelector<HTMLInputElement>('[data-terminal-history-query]');
+  const historyMatch = entryElement?.querySelector<HTMLElement>('[data-terminal-history-match]');
+  const historyLimitInput = query<HTMLInputElement>('[data-terminal-history-limit]');
+  const historyClearButton = query<HTMLButtonElement>('[data-terminal-history-clear]');
+  const autoMediaToggle = query<HTMLInputElement>('[data-terminal-toggle-auto-media]');
+  const highlightNicknameToggle = query<HTMLInputElement>('[data-terminal-highlight-nickname]');
+  const highlightRulesInput = query<HTMLTextAreaElement>('[data-terminal-highlight-rules]');
+  const mentionNotifyToggle = query<HTMLInputElement>('[data-terminal-toggle-mention-notify]');
+  const mentionBellToggle = query<HTMLInputElement>('[data-terminal-toggle-mention-bell]');
+  const unreadBadge = query<HTMLElement>('[data-terminal-unread]');
+  const previewsElement = query<HTMLElement>('[data-terminal-previews]');
   const mobileForm = query<HTMLFormElement>('[data-terminal-mobile-form]');
   const mobileBuffer = query<HTMLTextAreaElement>('[data-terminal-mobile-buffer]');
   const mobileSendButton = query<HTMLButtonElement>('[data-terminal-mobile-send]');
@@ -1554,7 +1832,12 @@ const createRuntime = (
     !targetStatus ||
     !entryElement ||
     !entryForm ||
-    !entryStatusElement
+    !entryStatusElement ||
+    !completionList ||
+    !completionHint ||
+    !historySearch ||
+    !historyQuery ||
+    !historyMatch
   ) {
       throw new Error('Failed to mount the web terminal.');
     }
@@ -1629,6 +1912,8 @@ const createRuntime = (
 
   let scrollOutputToBottom: (force?: boolean) => void = () => {};
   let updateScrollLockState: () => void = () => {};
+  // While the search bar is open, new output must not drag the view away from the match being read.
+  let outputSearchActive = false;
   const pendingOutgoingEchoes: string[] = [];
   let pendingTerminalOutput = '';
 
@@ -1640,10 +1925,16 @@ const createRuntime = (
     shellElement,
     terminal: null,
     fitAddon: null,
+    screen: null,
     captureElement,
     entryElement,
     entryForm,
     entryStatusElement,
+    completionList,
+    completionHint,
+    historySearch,
+    historyQuery,
+    historyMatch,
     connectButtons,
     disconnectButtons,
     focusButton,
@@ -1667,10 +1958,6 @@ const createRuntime = (
     target,
     connected: false,
     connecting: false,
-    incomingBuffer: '',
-    incomingLineElement: null,
-    asciiArtBlock: null,
-    asciiEditorLine: null,
     introSilenced: true,
     introBuffer: '',
     autoCommandBuffer: '',
@@ -1689,12 +1976,15 @@ const createRuntime = (
     requestDisconnect: () => false,
     clearOutput: () => {
       runtime.xtermColumnResetPending = true;
+      // Cleared lines have left the live view for good, so they are archived like scrolled-out ones.
+      void scrollbackArchive.evictLive();
       if (runtime.terminal) {
         runtime.terminal.clear();
+      } else if (runtime.screen) {
+        runtime.screen.clear();
+        scheduleScreenRender();
       } else {
         runtime.outputElement.innerHTML = '';
-        runtime.incomingLineElement = null;
-        runtime.incomingBuffer = '';
       }
       scrollOutputToBottom(true);
     },
@@ -1704,16 +1994,17 @@ const createRuntime = (
         return;
       }
 
-      if (runtime.terminal) {
+      const write = outputWriter();
+      if (write) {
         const prefix = kind === 'error' ? '\u001b[31m[ERROR] ' : kind === 'outgoing' ? '\u001b[32m> ' : '';
         const suffix = prefix ? '\u001b[0m' : '';
         for (const line of text.split('\n')) {
-          runtime.terminal.writeln(`${prefix}${line}${suffix}`);
+          write(`${prefix}${line}${suffix}\r\n`);
         }
         return;
       }
 
-      pendingTerminalOutput += `${text}\n`;
+      pendingTerminalOutput += `${text}\r\n`;
       if (pendingTerminalOutput.length > 16_384) {
         pendingTerminalOutput = pendingTerminalOutput.slice(-16_384);
       }
@@ -1780,7 +2071,7 @@ const createRuntime = (
 
   const flushEchoBuffer = () => {
     if (runtime.echoSuppressBuffer) {
-      if (runtime.terminal) {
+      if (runtime.terminal || runtime.screen) {
         runtime.writeToTerminal(runtime.echoSuppressBuffer);
       }
       runtime.echoSuppressBuffer = '';
@@ -1869,6 +2160,24 @@ const createRuntime = (
     return result;
   };
 
+  // Lines that scroll out of the live renderer go to the archive, which the region at the top of the output
+  // pane shows again; see renderArchive.
+  const scrollbackArchive = createScrollbackArchive({
+    backend: typeof indexedDB !== 'undefined' ? createIndexedDbArchiveBackend() : createMemoryArchiveBackend(),
+    retentionDays: runtime.entryPreferences.archiveDays,
+    onArchived: () => void refreshArchiveRegion()
+  });
+  if (scrollbackArchive.retentionDays > 0) {
+    void scrollbackArchive.applyRetention();
+  }
+  const archiveRegion = document.createElement('section');
+  archiveRegion.className = 'terminal-chat__archive';
+  archiveRegion.setAttribute('aria-label', 'Archived output');
+  archiveRegion.hidden = true;
+  const archiveRows = document.createElement('div');
+  archiveRows.className = 'terminal-chat__archive-rows';
+  archiveRegion.append(archiveRows);
+
   // Initialize xterm.js Terminal - load dynamically at runtime
   const initializeXterm = async () => {
     try {
@@ -1883,7 +2192,7 @@ const createRuntime = (
       const term = new Terminal({
         cursorBlink: true,
         cursorStyle: 'block',
-        scrollback: 10000,
+        scrollback: XTERM_SCROLLBACK,
         fontSize: 14,
         fontFamily: '"ThreeKingdoms3Font", "IBM Plex Mono", "Courier New", Courier, monospace',
         theme: {
@@ -1893,7 +2202,14 @@ const createRuntime = (
           selection: currentTheme === 'dark' ? 'rgba(147, 255, 180, 0.35)' : 'rgba(18, 44, 26, 0.26)'
         },
         convertEol: false,
-        disableStdin: true
+        disableStdin: true,
+        // Decorations, which output search uses to highlight matches, are still a proposed API.
+        allowProposedApi: true,
+        // OSC 8 hyperlinks; plain URLs come from the link provider registered below.
+        linkHandler: {
+          activate: (_event: MouseEvent, uri: string) => openTerminalLink(uri),
+          allowNonHttpProtocols: true
+        }
       });
 
       const fitAddon = new FitAddon();
@@ -1915,10 +2231,20 @@ const createRuntime = (
 
       const host = document.createElement('div');
       host.className = 'terminal-chat__xterm';
-      runtime.outputElement.replaceChildren(host);
+      runtime.outputElement.replaceChildren(archiveRegion, host);
       runtime.outputElement.classList.add('terminal-chat__output--xterm');
       runtime.shellElement.classList.add('terminal-chat--xterm-ready');
       term.open(host);
+      term.registerLinkProvider({
+        provideLinks: (bufferLineNumber, callback) => {
+          const links = findBufferLinks(term, bufferLineNumber).map(({ url, start, end }) => ({
+            range: { start, end },
+            text: url,
+            activate: () => openTerminalLink(url)
+          }));
+          callback(links.length > 0 ? links : undefined);
+        }
+      });
 
       try {
         fitAddon.fit();
@@ -1928,6 +2254,12 @@ const createRuntime = (
 
       runtime.terminal = term;
       runtime.fitAddon = fitAddon;
+      syncArchiveLiveView();
+      void refreshArchiveRegion();
+      term.onResize(() => {
+        sendWindowSize();
+        syncArchiveLiveView();
+      });
       runtime.writeToTerminal = (text: string) => term.write(text);
       if (pendingTerminalOutput) {
         term.write(pendingTerminalOutput);
@@ -1949,6 +2281,7 @@ const createRuntime = (
       runtime.shellElement.classList.remove('terminal-chat--xterm-ready');
       runtime.terminal = null;
       runtime.fitAddon = null;
+      activateScreenFallback();
       runtime.appendLine(
         'Terminal engine failed to load. Please reload the page or check /dist/lib assets.',
         'error'
@@ -1961,7 +2294,7 @@ const createRuntime = (
   updateScrollLockState = () => {
     const { scrollHeight, scrollTop, clientHeight } = runtime.outputElement;
     const distanceToBottom = scrollHeight - (scrollTop + clientHeight);
-    runtime.autoScrollLocked = distanceToBottom > SCROLL_LOCK_EPSILON;
+    runtime.autoScrollLocked = outputSearchActive || distanceToBottom > SCROLL_LOCK_EPSILON;
   };
 
   scrollOutputToBottom = (force = false) => {
@@ -1974,6 +2307,113 @@ const createRuntime = (
     }
   };
 
+  // DOM renderer for when xterm.js is unavailable: the screen buffer does the terminal emulation, and each of
+  // its lines maps to one <pre>, redrawn only when its revision changes.
+  const screenLineElements = new Map<number, { element: HTMLPreElement; revision: number }>();
+  const screenCursorElement = document.createElement('span');
+  screenCursorElement.className = 'terminal__cursor';
+  screenCursorElement.setAttribute('aria-hidden', 'true');
+  let screenRenderPending = false;
+
+  function renderScreen() {
+    screenRenderPending = false;
+    const screen = runtime.screen;
+    if (!screen) {
+      return;
+    }
+
+    const lines = screen.lines();
+    const elements: HTMLPreElement[] = [];
+    const seen = new Set<number>();
+    for (const line of lines) {
+      seen.add(line.id);
+      let entry = screenLineElements.get(line.id);
+      if (!entry) {
+        const element = document.createElement('pre');
+        element.className = 'terminal__line';
+        entry = { element, revision: -1 };
+        screenLineElements.set(line.id, entry);
+      }
+      if (entry.revision !== line.revision) {
+        entry.element.replaceChildren(...createScreenLineNodes(line));
+        entry.element.classList.toggle('terminal__line--highlight', Boolean(highlighter?.(lineText(line))));
+        entry.revision = line.revision;
+      }
+      elements.push(entry.element);
+    }
+    for (const id of Array.from(screenLineElements.keys())) {
+      if (!seen.has(id)) {
+        screenLineElements.delete(id);
+      }
+    }
+
+    const current = runtime.outputElement.children;
+    const inOrder =
+      current.length === elements.length + 1 &&
+      current[0] === archiveRegion &&
+      elements.every((element, index) => current[index + 1] === element);
+    if (!inOrder) {
+      runtime.outputElement.replaceChildren(archiveRegion, ...elements);
+    }
+
+    const { cursor } = screen;
+    const cursorLine = elements[lines.length - screen.rows + cursor.row];
+    if (cursor.visible && cursorLine) {
+      screenCursorElement.style.left = `${cursor.col}ch`;
+      cursorLine.append(screenCursorElement);
+    } else {
+      screenCursorElement.remove();
+    }
+    scrollOutputToBottom();
+  }
+
+  function scheduleScreenRender() {
+    if (screenRenderPending) {
+      return;
+    }
+    screenRenderPending = true;
+    if (typeof window === 'undefined' || typeof window.requestAnimationFrame !== 'function') {
+      setTimeout(renderScreen, 16);
+      return;
+    }
+    window.requestAnimationFrame(renderScreen);
+  }
+
+  function writeToScreen(text: string) {
+    runtime.screen?.write(text);
+    scheduleScreenRender();
+  }
+
+  function outputWriter(): ((text: string) => void) | null {
+    if (runtime.terminal) {
+      return (text) => runtime.terminal?.write(text, () => highlightWrittenRows(text));
+    }
+    return runtime.screen ? writeToScreen : null;
+  }
+
+  function activateScreenFallback() {
+    const size = measureWindowSize() ?? { cols: 80, rows: 24 };
+    runtime.screen = createScreenBuffer({
+      cols: size.cols,
+      rows: size.rows,
+      onReply: (data) => {
+        if (isSocketOpen()) {
+          runtime.socket?.send(textEncoder.encode(data));
+        }
+      }
+    });
+    screenLineElements.clear();
+    runtime.outputElement.replaceChildren(archiveRegion);
+    runtime.outputElement.classList.add('terminal-chat__output--screen');
+    runtime.writeToTerminal = writeToScreen;
+    syncArchiveLiveView();
+    void refreshArchiveRegion();
+    if (pendingTerminalOutput) {
+      writeToScreen(pendingTerminalOutput);
+      pendingTerminalOutput = '';
+    }
+  }
+
   const resetOutputScroll = () => {
     runtime.autoScrollLocked = false;
     runtime.pendingAutoScroll = false;
@@ -2211,53 +2651,357 @@ const createRuntime = (
   }
 
 
-  const KEEP_ALIVE_INTERVAL_MS = 20000;
-  const KEEP_ALIVE_PAYLOAD = new Uint8Array([0]);
-  let keepAliveTimer: number | null = null;
-  let lastBridgeActivity = Date.now();
-
-  const markBridgeActivity = () => {
-    lastBridgeActivity = Date.now();
+  let lastSentWindowSize: TerminalWindowSize | null = null;
+  // Fetched just before connecting and spent on that one upgrade.
+  let connectTicket: string | null = null;
+  // Bytes of BBS output shown since the session started; null until this page has rendered any of it.
+  let receivedOutputBytes: number | null = null;
+  // Set while an automatic reconnect is pending; lines sent in the meantime wait in the offline queue.
+  let reconnecting = false;
+  const offlineQueue: string[] = [];
+
+  // Every decoded byte of BBS output (and, if enabled, what the user sends) since this page loaded.
+  const sessionRecorder = createSessionRecorder({ cols: 80, rows: 24 });
+  // Mirrors messages, the roster and polls from the live output into the store for the GUI cards.
+  const chatStream = createChatStreamParser();
+  let storedChatOffset = readResumeState()?.chatOffset ?? 0;
+  const chatFeed = createChatStreamFeed(chatStream, storedChatOffset);
+  // Lines sent on this page and earlier ones, per target, for Alt+Up/Down recall and Ctrl+R search.
+  const commandHistory = createCommandHistory({
+    storage: typeof window !== 'undefined' && typeof window.localStorage !== 'undefined' ? window.localStorage : null,
+    limit: runtime.entryPreferences.historyLimit
+  });
+  const historyTarget = () => runtime.identityKey ?? deriveIdentityKey(runtime.target);
+  const historyEntries = () => {
+    const target = historyTarget();
+    return target ? commandHistory.entries(target) : [];
   };
+  const historyCursor = createHistoryCursor(historyEntries);
 
-  const stopKeepAliveTimer = () => {
-    if (keepAliveTimer !== null && typeof window !== 'undefined') {
-      window.clearInterval(keepAliveTimer);
-      keepAliveTimer = null;
+  const downloadRecording = (extension: 'cast' | 'txt') => {
+    if (sessionRecorder.events.length === 0) {
+      setEntryStatus('Nothing recorded yet. Join the BBS first.', 'muted');
+      return;
     }
+
+    const title = runtime.target.description;
+    const contents = extension === 'cast' ? sessionRecorder.toAsciicast(title) : sessionRecorder.toTranscript();
+    const type = extension === 'cast' ? 'application/x-asciicast' : 'text/plain;charset=utf-8';
+    const stamp = new Date(sessionRecorder.startedAt).toISOString().replace(/[:.]/g, '-');
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chatter-session-${stamp}.${extension}`;
+    document.body.append(link);
+    link.click();
+    link.remove();
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
   };
 
-  const ensureKeepAliveTimer = () => {
-    if (typeof window === 'undefined') {
-      return;
-    }
+  if (recordInputToggle) {
+    recordInputToggle.checked = runtime.entryPreferences.recordInput;
+    recordInputToggle.addEventListener('change', () => {
+      runtime.entryPreferences.recordInput = recordInputToggle.checked;
+      writeEntryPreferences(runtime.entryPreferences);
+      setEntryStatus(
+        recordInputToggle.checked
+          ? 'Typed input is now included in the session recording.'
+          : 'Typed input is no longer recorded.',
+        'muted'
+      );
+    });
+  }
 
-    if (keepAliveTimer !== null) {
-      return;
-    }
+  if (historyLimitInput) {
+    historyLimitInput.addEventListener('change', () => {
+      commandHistory.setLimit(Number(historyLimitInput.value));
+      runtime.entryPreferences.historyLimit = commandHistory.limit;
+      historyLimitInput.value = String(commandHistory.limit);
+      writeEntryPreferences(runtime.entryPreferences);
+      setEntryStatus(
+        commandHistory.limit === 0
+          ? 'Command history is off.'
+          : `Keeping the last ${commandHistory.limit} lines per server.`,
+        'muted'
+      );
+    });
+  }
 
-    keepAliveTimer = window.setInterval(() => {
-      const socket = runtime.socket;
-      if (!socket || socket.readyState !== WebSocket.OPEN) {
-        return;
-      }
+  if (historyClearButton) {
+    historyClearButton.addEventListener('click', () => {
+      commandHistory.clear();
+      historyCursor.reset();
+      setEntryStatus('Cleared the command history for every server.', 'muted');
+    });
+  }
 
-      const now = Date.now();
-      if (now - lastBridgeActivity < KEEP_ALIVE_INTERVAL_MS) {
-        return;
-      }
+  for (const button of downloadCastButtons) {
+    button.addEventListener('click', () => {
+      downloadRecording('cast');
+    });
+  }
 
-      try {
-        socket.send(KEEP_ALIVE_PAYLOAD);
-        markBridgeActivity();
-      } catch (error) {
-        console.warn('Failed to send terminal keep-alive payload', error);
-        stopKeepAliveTimer();
-      }
-    }, KEEP_ALIVE_INTERVAL_MS);
+  for (const button of downloadTranscriptButtons) {
+    button.addEventListener('click', () => {
+      downloadRecording('txt');
+    });
+  }
+
+  // Replay mode plays a recording through the same output path as live BBS data, with the bridge disconnected.
+  let replay: ReplayController | null = null;
+
+  const formatReplayTime = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
   };
 
-  const revealKeyboardPanel = () => {
+  const renderReplayProgress = (position: number, playing: boolean) => {
+    if (!replay) {
+      return;
+    }
+    if (replaySeek && document.activeElement !== replaySeek) {
+      replaySeek.value = String(position);
+    }
+    if (replayTime) {
+      replayTime.textContent = `${formatReplayTime(position)} / ${formatReplayTime(replay.duration)}`;
+    }
+    if (replayToggle) {
+      replayToggle.textContent = playing ? 'Pause' : 'Play';
+    }
+  };
+
+  const closeReplay = () => {
+    if (!replay) {
+      return;
+    }
+    replay.dispose();
+    replay = null;
+    if (replayBar) {
+      replayBar.hidden = true;
+    }
+    runtime.introSilenced = true;
+    runtime.updateStatus('Disconnected', 'disconnected');
+  };
+
+  const openReplay = async (file: File) => {
+    if (runtime.connected || runtime.connecting) {
+      setEntryStatus('Exit the BBS before replaying a recording.', 'error');
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.warn('Failed to read recording', error);
+      setEntryStatus('Unable to read the selected recording.', 'error');
+      return;
+    }
+
+    const parsed = parseRecording(text);
+    if (!parsed.ok) {
+      setEntryStatus(parsed.error, 'error');
+      return;
+    }
+
+    closeReplay();
+    const { recording } = parsed;
+    runtime.introSilenced = false;
+    replay = createReplayController({
+      recording,
+      write: (data) => runtime.appendLine(data, 'incoming'),
+      reset: () => {
+        if (runtime.terminal) {
+          runtime.terminal.reset();
+        } else if (runtime.screen) {
+          runtime.screen.reset();
+          scheduleScreenRender();
+        } else {
+          runtime.clearOutput();
+        }
+      },
+      onProgress: renderReplayProgress
+    });
+
+    if (replayBar) {
+      replayBar.hidden = false;
+    }
+    if (replayTitle) {
+      replayTitle.textContent = recording.title ?? file.name;
+    }
+    if (replaySeek) {
+      replaySeek.max = String(recording.duration);
+    }
+    if (replaySpeed) {
+      replaySpeed.value = '1';
+    }
+    runtime.updateStatus('Replaying recording', 'disconnected');
+    setEntryStatus(`Replaying ${file.name} (${formatReplayTime(recording.duration)}).`, 'muted');
+    replay.seek(0);
+    replay.play();
+  };
+
+  if (replayFileInput) {
+    replayFileInput.addEventListener('change', () => {
+      const file = replayFileInput.files?.[0];
+      replayFileInput.value = '';
+      if (file) {
+        void openReplay(file);
+      }
+    });
+  }
+
+  replayToggle?.addEventListener('click', () => {
+    if (!replay) {
+      return;
+    }
+    if (replay.playing) {
+      replay.pause();
+    } else {
+      replay.play();
+    }
+  });
+
+  replaySeek?.addEventListener('input', () => {
+    replay?.seek(Number.parseFloat(replaySeek.value));
+  });
+
+  replaySpeed?.addEventListener('change', () => {
+    replay?.setSpeed(Number.parseFloat(replaySpeed.value));
+  });
+
+  replaySearchForm?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    if (!replay || !replayQuery) {
+      return;
+    }
+    const query = replayQuery.value;
+    const match = replay.find(query);
+    if (match === null) {
+      setEntryStatus(`No match for "${query.trim()}" in this recording.`, 'muted');
+      return;
+    }
+    replay.pause();
+    replay.seek(match);
+    setEntryStatus(`Found "${query.trim()}" at ${formatReplayTime(match)}.`, 'muted');
+  });
+
+  replayClose?.addEventListener('click', () => {
+    closeReplay();
+    setEntryStatus('Replay closed.', 'muted');
+  });
+
+  // Latency probes double as the bridge keep-alive; the server echoes each one on the control channel.
+  const LATENCY_PROBE_INTERVAL_MS = 15000;
+  let latencyProbeTimer: number | null = null;
+  let latencyProbeId = 0;
+  let lastLatencyMs: number | null = null;
+  let bbsConnected = false;
+
+  const renderConnectedStatus = () => {
+    runtime.updateStatus(lastLatencyMs === null ? 'Connected' : `Connected · ${lastLatencyMs} ms`, 'connected');
+  };
+
+  const sendLatencyProbe = () => {
+    const socket = runtime.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    latencyProbeId += 1;
+    try {
+      socket.send(encodeControlMessage({ type: 'latency', id: latencyProbeId, sentAt: Date.now() }));
+    } catch (error) {
+      console.warn('Failed to send terminal latency probe', error);
+      stopLatencyProbes();
+    }
+  };
+
+  const stopLatencyProbes = () => {
+    if (latencyProbeTimer !== null && typeof window !== 'undefined') {
+      window.clearInterval(latencyProbeTimer);
+      latencyProbeTimer = null;
+    }
+  };
+
+  const startLatencyProbes = () => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    if (latencyProbeTimer !== null) {
+      return;
+    }
+
+    sendLatencyProbe();
+    latencyProbeTimer = window.setInterval(sendLatencyProbe, LATENCY_PROBE_INTERVAL_MS);
+  };
+
+  const handleControlEnvelope = (text: string) => {
+    const message = parseControlMessage(text);
+    if (!message) {
+      console.warn('Ignoring malformed terminal control message', text);
+      return;
+    }
+
+    switch (message.type) {
+      case 'status':
+        if (message.state === 'connected') {
+          bbsConnected = true;
+          renderConnectedStatus();
+          setEntryStatus(`${message.message} Waiting for "Type N" prompt.`, 'muted');
+        } else {
+          bbsConnected = false;
+          runtime.updateStatus('Dialling…', 'connecting');
+          setEntryStatus(message.message, 'muted');
+        }
+        break;
+      case 'error':
+        setEntryStatus(message.message, 'error');
+        break;
+      case 'notice':
+        runtime.appendLine(`\u001b[33m[Server notice] ${message.message}\u001b[0m`);
+        setEntryStatus(`Server notice: ${message.message}`, 'default');
+        break;
+      case 'latency':
+        if (message.id === latencyProbeId) {
+          lastLatencyMs = Math.max(0, Date.now() - message.sentAt);
+          if (bbsConnected) {
+            renderConnectedStatus();
+          }
+        }
+        break;
+      case 'session-info': {
+        runtime.endpointElement.textContent =
+          `${message.protocol.toUpperCase()} ${message.host}:${message.port} · ${message.cols}×${message.rows}`;
+        receivedOutputBytes = message.outputOffset;
+        if (!message.resumed) {
+          chatFeed.restart(message.outputOffset);
+        }
+        const identityKey = deriveIdentityKey(runtime.target);
+        storedChatOffset = chatFeed.lineOffset();
+        writeResumeState(
+          identityKey ? { token: message.resumeToken, target: identityKey, chatOffset: storedChatOffset } : null
+        );
+        if (message.resumed) {
+          // The BBS login already happened; skip the intro filter and the automatic Type N / retro replies.
+          runtime.introSilenced = false;
+          runtime.yCommandSent = true;
+          runtime.retroCommandSent = true;
+          setEntryStatus('Session resumed. Replaying output you missed…', 'muted');
+          handleSessionReady();
+        } else {
+          // A fresh login: drop the demo room (or the last session's) before the BBS repaints it.
+          store.clearRoom();
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  };
+
+  const revealKeyboardPanel = () => {
     keyboardPanel.hidden = false;
     container.classList.add('terminal-chat--keyboard-open');
   };
@@ -2347,28 +3091,6 @@ const createRuntime = (
     });
   });
 
-  function ensureIncomingLine(): HTMLPreElement {
-    if (runtime.asciiArtBlock) {
-      runtime.incomingLineElement = runtime.asciiArtBlock.element;
-      return runtime.asciiArtBlock.element;
-    }
-
-    if (runtime.incomingLineElement && runtime.incomingLineElement.isConnected) {
-      return runtime.incomingLineElement;
-    }
-
-    const entry = document.createElement('pre');
-    entry.className = 'terminal__line';
-    runtime.outputElement.append(entry);
-    runtime.incomingLineElement = entry;
-    limitOutputLines(runtime.outputElement, runtime.maxOutputLines);
-    if (runtime.incomingLineElement && !runtime.incomingLineElement.isConnected) {
-      runtime.incomingLineElement = null;
-      runtime.incomingBuffer = '';
-    }
-    return entry;
-  }
-
   const updateViewportSizing = () => {
     if (typeof window === 'undefined') {
       runtime.maxOutputLines = 600;
@@ -2404,7 +3126,10 @@ const createRuntime = (
     if (measuredHeight > 0) {
       const availableForLines = Math.max(measuredHeight - paddingTop - paddingBottom, lineHeight);
       runtime.maxOutputLines = Math.max(1, Math.floor(availableForLines / lineHeight));
-      limitOutputLines(runtime.outputElement, runtime.maxOutputLines);
+      // The renderers keep their own scrollback, so their lines are never trimmed here.
+      if (!runtime.screen && !runtime.terminal) {
+        limitOutputLines(runtime.outputElement, runtime.maxOutputLines);
+      }
       return;
     }
 
@@ -2426,6 +3151,12 @@ const createRuntime = (
           console.warn('Failed to fit terminal on resize', error);
         }
       }
+      const screenSize = runtime.screen ? measureWindowSize() : null;
+      if (runtime.screen && screenSize) {
+        runtime.screen.resize(screenSize.cols, screenSize.rows);
+        syncArchiveLiveView();
+      }
+      sendWindowSize();
       runtime.clearOutput();
       if (isSocketOpen()) {
         sendTextPayload(keySequences.ArrowUp);
@@ -2439,290 +3170,886 @@ const createRuntime = (
     }
   }
 
-  const asciiArtHeaderPattern = /shared ascii art:/i;
-  const asciiArtPromptPattern = /^│\s*>/i;
-  const asciiArtMessagePattern = /^#\d+]/;
-  const asciiEditorLinePattern = /^\s*(?:│\s*)?>\s?(.*)$/;
+  // The tail of recent output is rescanned on every chunk so a URL split across chunks is still found whole.
+  let linkScanTail = '';
+  let latestLink: string | null = null;
+
+  function trackLinks(chunk: string) {
+    linkScanTail = (linkScanTail + chunk).slice(-4096);
+    latestLink = lastLinkIn(linkScanTail) ?? latestLink;
+  }
 
-  const syncAsciiEditorEntry = (line: string) => {
-    if (!runtime.asciiArtBlock) {
-      runtime.asciiEditorLine = null;
+  function openTerminalLink(href: string) {
+    const url = parseSafeUrl(href);
+    if (!url) {
+      setEntryStatus('That link uses a scheme the terminal does not open.', 'error');
       return;
     }
+    if (
+      needsLinkConfirmation(url) &&
+      !window.confirm(`This link is not HTTPS. Open it anyway?\n\n${url.href}`)
+    ) {
+      return;
+    }
+    window.open(url.href, '_blank', 'noopener,noreferrer');
+  }
 
-    const match = line.match(asciiEditorLinePattern);
-    if (!match) {
-      runtime.asciiEditorLine = null;
+  function openLatestLink() {
+    if (!latestLink) {
+      setEntryStatus('No links in the output yet.', 'muted');
       return;
     }
+    openTerminalLink(latestLink);
+  }
+
+  const handleLinkClick = (event: MouseEvent) => {
+    const anchor = (event.target as Element | null)?.closest?.('a.terminal__link');
+    if (anchor instanceof HTMLAnchorElement) {
+      event.preventDefault();
+      openTerminalLink(anchor.href);
+    }
+  };
 
-    const content = match[1] ?? '';
-    const normalisedContent = content.replace(/\s+$/u, '');
-    const previous = runtime.asciiEditorLine;
-    runtime.asciiEditorLine = normalisedContent;
+  runtime.outputElement.addEventListener('click', handleLinkClick);
+  previewsElement?.addEventListener('click', handleLinkClick);
 
-    if (previous === normalisedContent) {
+  // Shared media gets a card in the tray under the output. Nothing is fetched from the media host until the
+  // card is loaded, either by its button or automatically when the preference allows it.
+  async function readContentLength(url: string): Promise<number | null> {
+    try {
+      const response = await fetch(url, { method: 'HEAD', credentials: 'omit', referrerPolicy: 'no-referrer' });
+      const length = Number(response.headers.get('content-length'));
+      return response.ok && Number.isFinite(length) && length > 0 ? length : null;
+    } catch {
+      // Most hosts do not allow cross-origin HEAD requests; the size just stays unknown.
+      return null;
+    }
+  }
+
+  // `requested` is set when the user clicked to load, which is the only way media of unknown size is shown.
+  async function loadMediaPreview(body: HTMLElement, attachment: MediaAttachment, requested: boolean) {
+    const note = document.createElement('p');
+    note.className = 'terminal-chat__preview-note';
+    note.textContent = 'Loading…';
+    body.replaceChildren(note);
+
+    const size = await readContentLength(attachment.url);
+    const action = previewAction(size, requested);
+    if (action === 'too-large' && size !== null) {
+      note.textContent = `Too large to preview (${formatByteSize(size)}).`;
+      return;
+    }
+    if (attachment.kind === 'file') {
+      note.textContent = size === null ? 'Size unknown.' : formatByteSize(size);
       return;
     }
+    if (action === 'ask') {
+      note.textContent = 'Size unknown, so this was not loaded automatically.';
+      const load = document.createElement('button');
+      load.type = 'button';
+      load.className = 'terminal-chat__menu-button terminal-chat__menu-button--primary';
+      load.textContent = 'Load anyway';
+      const { kind } = attachment;
+      load.addEventListener('click', () => showMediaElement(body, attachment, kind), { once: true });
+      body.append(load);
+      return;
+    }
+    showMediaElement(body, attachment, attachment.kind);
+  }
 
-    runtime.captureElement.value = normalisedContent;
-    updateEntryControls();
-    scheduleEntryResize();
+  function showMediaElement(body: HTMLElement, attachment: MediaAttachment, kind: 'image' | 'video' | 'audio') {
+    const note = document.createElement('p');
+    note.className = 'terminal-chat__preview-note';
+    const showFailure = () => {
+      note.textContent = 'Preview unavailable.';
+      body.replaceChildren(note);
+    };
+    let media: HTMLImageElement | HTMLMediaElement;
+    if (kind === 'image') {
+      const image = document.createElement('img');
+      image.loading = 'lazy';
+      image.decoding = 'async';
+      image.referrerPolicy = 'no-referrer';
+      image.alt = attachment.caption ?? attachmentFileName(attachment.url);
+      media = image;
+    } else {
+      media = document.createElement(kind);
+      media.controls = true;
+      media.preload = 'metadata';
+    }
+    media.className = 'terminal-chat__preview-media';
+    media.addEventListener('error', showFailure, { once: true });
+    media.src = attachment.url;
+    body.replaceChildren(media);
+  }
 
-    try {
-      runtime.captureElement.setSelectionRange(
-        normalisedContent.length,
-        normalisedContent.length
-      );
-    } catch (error) {
-      // Ignore selection errors for unsupported environments.
+  function showMediaPreview(attachment: MediaAttachment) {
+    if (!previewsElement) {
+      return;
     }
 
-    if (previous === null) {
-      try {
-        runtime.captureElement.focus({ preventScroll: true });
-      } catch (error) {
-        runtime.captureElement.focus();
+    const card = document.createElement('details');
+    card.className = 'terminal-chat__preview';
+    card.open = true;
+
+    const summary = document.createElement('summary');
+    summary.className = 'terminal-chat__preview-summary';
+    const label = attachment.caption ?? attachmentFileName(attachment.url);
+    summary.textContent = `${attachment.author} · ${attachment.kind} · ${label}`;
+
+    const body = document.createElement('div');
+    body.className = 'terminal-chat__preview-body';
+
+    const actions = document.createElement('div');
+    actions.className = 'terminal-chat__preview-actions';
+    const open = createLinkElement(attachment.url);
+    open.textContent = new URL(attachment.url).host;
+    const dismiss = document.createElement('button');
+    dismiss.type = 'button';
+    dismiss.className = 'terminal-chat__menu-button';
+    dismiss.textContent = 'Dismiss';
+    dismiss.addEventListener('click', () => {
+      card.remove();
+      previewsElement.hidden = previewsElement.childElementCount === 0;
+    });
+    actions.append(open, dismiss);
+
+    if (runtime.entryPreferences.autoLoadMedia) {
+      void loadMediaPreview(body, attachment, false);
+    } else {
+      const load = document.createElement('button');
+      load.type = 'button';
+      load.className = 'terminal-chat__menu-button terminal-chat__menu-button--primary';
+      load.textContent = attachment.kind === 'file' ? 'Check size' : 'Load preview';
+      load.addEventListener('click', () => void loadMediaPreview(body, attachment, true), { once: true });
+      body.append(load);
+    }
+
+    card.append(summary, body, actions);
+    previewsElement.append(card);
+    while (previewsElement.childElementCount > MAX_PREVIEW_CARDS) {
+      previewsElement.firstElementChild?.remove();
+    }
+    previewsElement.hidden = false;
+  }
+
+  // Keeps the stored chat offset in step with the feed so a reload skips what the store already holds.
+  function rememberChatOffset() {
+    const offset = chatFeed.lineOffset();
+    if (offset === storedChatOffset) {
+      return;
+    }
+    const state = readResumeState();
+    if (state) {
+      storedChatOffset = offset;
+      writeResumeState({ ...state, chatOffset: offset });
+    }
+  }
+
+  function applyChatStream(events: ChatStreamEvent[]) {
+    applyChatStreamEvents(store, events);
+    for (const event of events) {
+      if (event.type === 'attachment' && parsePreviewUrl(event.url)) {
+        showMediaPreview(event);
       }
-      setEntryStatus('Synced the ASCII editor line with the entry buffer.', 'muted');
     }
-  };
+  }
 
-  const shouldStartAsciiArtBlock = (line: string) => asciiArtHeaderPattern.test(line);
+  if (autoMediaToggle) {
+    autoMediaToggle.checked = runtime.entryPreferences.autoLoadMedia;
+    autoMediaToggle.addEventListener('change', () => {
+      runtime.entryPreferences.autoLoadMedia = autoMediaToggle.checked;
+      writeEntryPreferences(runtime.entryPreferences);
+      setEntryStatus(
+        autoMediaToggle.checked
+          ? 'Media previews will load automatically.'
+          : 'Media previews now wait for you to click Load preview.',
+        'muted'
+      );
+    });
+  }
 
-  const isAsciiArtTerminator = (line: string) => {
-    const trimmed = line.trimStart();
-    return asciiArtPromptPattern.test(trimmed) || asciiArtMessagePattern.test(trimmed);
-  };
+  // Highlights. Rules are recompiled whenever they or the nickname change. Lines are coloured where they are
+  // drawn: xterm.js rows get a background decoration once parsed, DOM lines a class. Matches that arrive while
+  // the page is in the background are counted, and can notify or ring when the tab is hidden.
+  let highlighter: Highlighter | null = null;
+  let highlighterKey = '';
+  let highlightMarkers: { readonly line: number; dispose(): void }[] = [];
+  let unreadMentions = 0;
+  let bellContext: AudioContext | null = null;
+  const mentionLines = createLineCollector();
+  const pageTitle = typeof document !== 'undefined' ? document.title : '';
+
+  const currentNickname = () => runtime.nicknameInput.value.trim() || runtime.usernameInput.value.trim();
+
+  const pageUnattended = () =>
+    typeof document !== 'undefined' && (document.hidden || !document.hasFocus());
+
+  function refreshHighlighter() {
+    const { highlightNickname: byNickname, highlightRules } = runtime.entryPreferences;
+    const nickname = currentNickname();
+    const key = JSON.stringify([byNickname ? nickname : '', highlightRules]);
+    if (key === highlighterKey) {
+      return;
+    }
+    highlighterKey = key;
+    highlighter = createHighlighter({
+      nickname,
+      highlightNickname: byNickname,
+      rules: parseHighlightRules(highlightRules).rules
+    });
+    rescanHighlights();
+  }
 
-  const updateAsciiArtPreview = (currentLine: string) => {
-    const block = runtime.asciiArtBlock;
-    if (!block) {
+  function decorateHighlightRow(terminal: ITerminal, row: number) {
+    const buffer = terminal.buffer.active;
+    const marker = terminal.registerMarker(row - (buffer.baseY + buffer.cursorY));
+    if (!marker) {
       return;
     }
-    block.currentLine = currentLine;
-    const visibleLines = currentLine ? [...block.lines, currentLine] : [...block.lines];
-    const content = visibleLines.join('\n');
-    block.element.textContent = content;
-    lastRenderedLine.set(block.element, content);
-  };
+    highlightMarkers.push(marker);
+    terminal.registerDecoration({
+      marker,
+      width: terminal.cols,
+      backgroundColor: currentTheme === 'light' ? '#fde68a' : '#4d3b00',
+      layer: 'bottom'
+    });
+  }
 
-  const startAsciiArtBlock = (headerLine: string, element: HTMLPreElement) => {
-    runtime.asciiArtBlock = {
-      element,
-      lines: [headerLine],
-      currentLine: ''
-    };
-    element.classList.add('terminal__line--ascii-art');
-    element.dataset.terminalBlock = 'ascii-art';
-    applyTrailingBackground(element, null);
-    element.textContent = headerLine;
-    lastRenderedLine.set(element, headerLine);
-    runtime.incomingLineElement = element;
-    runtime.incomingBuffer = '';
-  };
+  // Checks the logical lines ending just above `lastRow`, joining wrapped rows, and colours the matches.
+  function highlightBufferLines(terminal: ITerminal, lastRow: number, count: number) {
+    const buffer = terminal.buffer.active;
+    let end = lastRow;
+    for (let checked = 0; checked < count && end >= 0; checked += 1) {
+      let start = end;
+      while (start > 0 && buffer.getLine(start)?.isWrapped) {
+        start -= 1;
+      }
+      let text = '';
+      for (let row = start; row <= end; row += 1) {
+        text += readBufferLineText(buffer.getLine(row)).text;
+      }
+      if (highlighter?.(text)) {
+        for (let row = start; row <= end; row += 1) {
+          decorateHighlightRow(terminal, row);
+        }
+      }
+      end = start - 1;
+    }
+  }
 
-  const appendAsciiArtLine = (line: string) => {
-    const block = runtime.asciiArtBlock;
-    if (!block) {
+  // Only the lines a write completed are checked, counted back from the cursor row; the rest were checked by
+  // earlier writes. Markers for rows that have scrolled out of the buffer are dropped as they go.
+  function highlightWrittenRows(chunk: string) {
+    const terminal = runtime.terminal;
+    const completed = chunk.split('\n').length - 1;
+    if (!terminal || !highlighter || completed === 0) {
       return;
     }
-    block.lines.push(line);
-    block.currentLine = '';
-    const content = block.lines.join('\n');
-    block.element.textContent = content;
-    lastRenderedLine.set(block.element, content);
-  };
+    const buffer = terminal.buffer.active;
+    highlightBufferLines(terminal, buffer.baseY + buffer.cursorY - 1, completed);
+    if (highlightMarkers.length > 1000) {
+      highlightMarkers = highlightMarkers.filter((marker) => marker.line >= 0);
+    }
+  }
 
-  const finishAsciiArtBlock = () => {
-    const block = runtime.asciiArtBlock;
-    if (!block) {
+  function rescanHighlights() {
+    for (const marker of highlightMarkers) {
+      marker.dispose();
+    }
+    highlightMarkers = [];
+    const terminal = runtime.terminal;
+    if (terminal) {
+      const buffer = terminal.buffer.active;
+      highlightBufferLines(terminal, buffer.length - 1, buffer.length);
       return;
     }
-    block.currentLine = '';
-    const content = block.lines.join('\n');
-    block.element.textContent = content;
-    lastRenderedLine.set(block.element, content);
-    runtime.asciiArtBlock = null;
-    runtime.incomingLineElement = null;
-    runtime.incomingBuffer = '';
-    runtime.asciiEditorLine = null;
-  };
+    for (const entry of screenLineElements.values()) {
+      entry.revision = -1;
+    }
+    if (runtime.screen) {
+      scheduleScreenRender();
+    }
+  }
 
-  const appendStandaloneLine = (line: string) => {
-    const normalisedLine = line.replace(/\r/g, '');
-    const entry = ensureIncomingLine(); // Use the element from ensureIncomingLine
-    const { fragment, trailingBackground } = createAnsiFragment(normalisedLine, runtime);
-    entry.replaceChildren(fragment); // Replace content of existing element
-    applyTrailingBackground(entry, trailingBackground);
-    lastRenderedLine.set(entry, normalisedLine);
-    // No need to append again, ensureIncomingLine already did if it was new
-    // If it was an existing element, it's already in the DOM.
-    limitOutputLines(runtime.outputElement, runtime.maxOutputLines);
-  };
+  function updateUnreadIndicators() {
+    if (unreadBadge) {
+      unreadBadge.hidden = unreadMentions === 0;
+      unreadBadge.textContent = `${unreadMentions} new`;
+      unreadBadge.title = `${unreadMentions} highlighted line${unreadMentions === 1 ? '' : 's'} since you looked`;
+    }
+    if (typeof document !== 'undefined') {
+      document.title = formatUnreadTitle(pageTitle, unreadMentions);
+    }
+  }
+
+  // Browsers only let audio start once the user has interacted with the page, which they have by the time a
+  // highlight arrives; turning the option on also counts.
+  function ensureBellContext() {
+    if (!bellContext && typeof AudioContext !== 'undefined') {
+      bellContext = new AudioContext();
+    }
+    void bellContext?.resume();
+    return bellContext;
+  }
 
-  const handleAsciiLineCommit = (line: string) => {
-    if (!runtime.asciiArtBlock) {
+  function ringMentionBell() {
+    const context = ensureBellContext();
+    if (!context) {
       return;
     }
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.15, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.3);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.3);
+  }
 
-    if (isAsciiArtTerminator(line)) {
-      finishAsciiArtBlock();
-      if (line) {
-        appendStandaloneLine(line);
-      }
+  function notifyMention(line: string) {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') {
+      return;
+    }
+    try {
+      const notification = new Notification(`Highlight on ${runtime.target.description}`, {
+        body: line.trim().slice(0, 200),
+        tag: 'chatter-mention'
+      });
+      notification.addEventListener('click', () => {
+        window.focus();
+        notification.close();
+      });
+    } catch (error) {
+      console.warn('Failed to show a mention notification', error);
+    }
+  }
+
+  function noticeMentions(chunk: string) {
+    const lines = mentionLines.push(chunk);
+    refreshHighlighter();
+    if (!highlighter || lines.length === 0) {
+      return;
+    }
+    const mentions = lines
+      .map((line) => parseArchivedLine(line).map((run) => run.text).join(''))
+      .filter((line) => highlighter?.(line));
+    if (mentions.length === 0 || !pageUnattended()) {
+      return;
+    }
+    unreadMentions += mentions.length;
+    updateUnreadIndicators();
+    if (!document.hidden) {
       return;
     }
+    if (runtime.entryPreferences.mentionNotifications) {
+      notifyMention(mentions[mentions.length - 1]);
+    }
+    if (runtime.entryPreferences.mentionBell) {
+      ringMentionBell();
+    }
+  }
 
-    appendAsciiArtLine(line);
+  const clearUnreadMentions = () => {
+    if (unreadMentions > 0 && !pageUnattended()) {
+      unreadMentions = 0;
+      updateUnreadIndicators();
+    }
   };
 
-  function deliverIncomingPayload(chunk: string) {
-    if (!chunk) {
+  if (typeof window !== 'undefined') {
+    window.addEventListener('focus', clearUnreadMentions);
+    document.addEventListener('visibilitychange', clearUnreadMentions);
+  }
+
+  runtime.nicknameInput.addEventListener('change', refreshHighlighter);
+  runtime.usernameInput.addEventListener('change', refreshHighlighter);
+
+  if (highlightNicknameToggle) {
+    highlightNicknameToggle.addEventListener('change', () => {
+      runtime.entryPreferences.highlightNickname = highlightNicknameToggle.checked;
+      writeEntryPreferences(runtime.entryPreferences);
+      refreshHighlighter();
+    });
+  }
+
+  if (highlightRulesInput) {
+    highlightRulesInput.addEventListener('change', () => {
+      const entries = highlightRulesInput.value.split('\n').map((entry) => entry.trim()).filter(Boolean);
+      const { errors } = parseHighlightRules(entries);
+      runtime.entryPreferences.highlightRules = entries.slice(0, MAX_HIGHLIGHT_RULES);
+      writeEntryPreferences(runtime.entryPreferences);
+      refreshHighlighter();
+      if (errors.length > 0) {
+        setEntryStatus(`Some highlight rules were skipped. ${errors.join(' ')}`, 'error');
+      } else {
+        setEntryStatus(
+          entries.length
+            ? `Highlighting ${entries.length} rule${entries.length === 1 ? '' : 's'}.`
+            : 'Custom highlights cleared.',
+          'muted'
+        );
+      }
+    });
+  }
+
+  if (mentionNotifyToggle) {
+    mentionNotifyToggle.addEventListener('change', () => {
+      const enabled = mentionNotifyToggle.checked;
+      const save = (granted: boolean) => {
+        mentionNotifyToggle.checked = granted;
+        runtime.entryPreferences.mentionNotifications = granted;
+        writeEntryPreferences(runtime.entryPreferences);
+      };
+      if (!enabled) {
+        save(false);
+        return;
+      }
+      if (typeof Notification === 'undefined') {
+        save(false);
+        setEntryStatus('This browser does not support notifications.', 'error');
+        return;
+      }
+      void Notification.requestPermission().then(
+        (permission) => {
+          save(permission === 'granted');
+          if (permission !== 'granted') {
+            setEntryStatus(
+              'Notifications are blocked for this site. Allow them in the browser to turn this on.',
+              'error'
+            );
+          }
+        },
+        (error) => {
+          save(false);
+          console.warn('Failed to request notification permission', error);
+        }
+      );
+    });
+  }
+
+  if (mentionBellToggle) {
+    mentionBellToggle.addEventListener('change', () => {
+      runtime.entryPreferences.mentionBell = mentionBellToggle.checked;
+      writeEntryPreferences(runtime.entryPreferences);
+      if (mentionBellToggle.checked) {
+        ensureBellContext();
+      }
+    });
+  }
+
+  refreshHighlighter();
+
+  // Find in output. xterm.js matches are drawn as decorations and the current one is selected; in DOM mode
+  // both go through the CSS Custom Highlight API so the rendered lines are never touched. Each step searches
+  // again, because output keeps arriving and the DOM renderer replaces the nodes a range points into.
+  let searchMatches: OutputSearchMatch[] = [];
+  let searchIndex = -1;
+  let searchMarkers: { dispose(): void }[] = [];
+  let searchLineColumns: number[][] = [];
+  let searchLineElements: HTMLElement[] = [];
+
+  const highlightRegistry = () =>
+    typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined' ? CSS.highlights : null;
+
+  function clearSearchHighlights() {
+    for (const marker of searchMarkers) {
+      marker.dispose();
+    }
+    searchMarkers = [];
+    runtime.terminal?.clearSelection();
+    highlightRegistry()?.delete('terminal-search');
+    highlightRegistry()?.delete('terminal-search-current');
+  }
+
+  function readSearchLines(): string[] {
+    if (runtime.terminal) {
+      const buffer = runtime.terminal.buffer.active;
+      const rows = Array.from({ length: buffer.length }, (_, y) => readBufferLineText(buffer.getLine(y)));
+      searchLineColumns = rows.map((row) => row.columns);
+      return rows.map((row) => row.text);
+    }
+    searchLineElements = (Array.from(runtime.outputElement.children) as HTMLElement[]).filter(
+      (element) => element !== archiveRegion
+    );
+    return searchLineElements.map((element) => element.textContent ?? '');
+  }
+
+  function createTextRange(element: HTMLElement, start: number, end: number): Range | null {
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+    let offset = 0;
+    let started = false;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const length = node.textContent?.length ?? 0;
+      if (!started && start < offset + length) {
+        range.setStart(node, start - offset);
+        started = true;
+      }
+      if (started && end <= offset + length) {
+        range.setEnd(node, end - offset);
+        return range;
+      }
+      offset += length;
+    }
+    return null;
+  }
+
+  function showCurrentSearchMatch() {
+    const match = searchMatches[searchIndex];
+    if (searchCount) {
+      const capped = searchMatches.length >= MAX_SEARCH_MATCHES ? '+' : '';
+      searchCount.textContent = match
+        ? `${searchIndex + 1} of ${searchMatches.length}${capped}`
+        : searchQuery?.value
+          ? 'No matches'
+          : '';
+      searchCount.classList.remove('terminal-chat__search-count--error');
+    }
+    if (!match) {
       return;
     }
 
     if (runtime.terminal) {
-      if (runtime.introSilenced) {
-        runtime.introBuffer += chunk;
-        if (runtime.introBuffer.length > INTRO_CAPTURE_LIMIT) {
-          runtime.introBuffer = runtime.introBuffer.slice(-INTRO_CAPTURE_LIMIT);
-        }
-        const markerIndex = runtime.introBuffer.indexOf(INTRO_MARKER);
-        if (markerIndex === -1) {
-          return;
-        }
-        const output = runtime.introBuffer.slice(markerIndex);
-        runtime.introBuffer = '';
-        runtime.introSilenced = false;
-        runtime.terminal.write(output);
-        return;
+      const columns = searchLineColumns[match.line];
+      const start = columns[match.start];
+      runtime.terminal.select(start, match.line, columns[match.end] - start);
+      runtime.terminal.scrollToLine(Math.max(0, match.line - Math.floor(runtime.terminal.rows / 2)));
+      return;
+    }
+
+    const element = searchLineElements[match.line];
+    const range = element ? createTextRange(element, match.start, match.end) : null;
+    const registry = highlightRegistry();
+    if (range && registry) {
+      registry.set('terminal-search-current', new Highlight(range));
+    }
+    if (element) {
+      const outputRect = runtime.outputElement.getBoundingClientRect();
+      const lineRect = element.getBoundingClientRect();
+      runtime.outputElement.scrollTop += lineRect.top - outputRect.top - runtime.outputElement.clientHeight / 2;
+    }
+  }
+
+  // Searches again and keeps the position near the previous match; a new query starts at the newest match.
+  function runOutputSearch(keepPosition: boolean) {
+    const previous = keepPosition ? searchMatches[searchIndex] : undefined;
+    clearSearchHighlights();
+    searchMatches = [];
+    searchIndex = -1;
+
+    const compiled = compileSearch(searchQuery?.value ?? '', {
+      caseSensitive: Boolean(searchCase?.checked),
+      regex: Boolean(searchRegex?.checked)
+    });
+    if (!compiled.ok) {
+      if (searchCount) {
+        searchCount.textContent = searchQuery?.value ? compiled.error : '';
+        searchCount.classList.toggle('terminal-chat__search-count--error', Boolean(searchQuery?.value));
       }
-      runtime.terminal.write(chunk);
       return;
     }
-    pendingTerminalOutput += chunk;
-    if (pendingTerminalOutput.length > 65_536) {
-      pendingTerminalOutput = pendingTerminalOutput.slice(-65_536);
+
+    searchMatches = findOutputMatches(readSearchLines(), compiled.pattern);
+    const same = previous
+      ? searchMatches.findIndex((match) => match.line === previous.line && match.start === previous.start)
+      : -1;
+    searchIndex =
+      same !== -1 ? same : previous ? nearestMatch(searchMatches, previous.line) : searchMatches.length - 1;
+
+    const terminal = runtime.terminal;
+    if (terminal) {
+      const buffer = terminal.buffer.active;
+      for (const match of searchMatches) {
+        const columns = searchLineColumns[match.line];
+        const marker = terminal.registerMarker(match.line - (buffer.baseY + buffer.cursorY));
+        if (!marker) {
+          continue;
+        }
+        // Disposing the marker also removes its decoration.
+        searchMarkers.push(marker);
+        terminal.registerDecoration({
+          marker,
+          x: columns[match.start],
+          width: columns[match.end] - columns[match.start],
+          backgroundColor: '#facc15',
+          foregroundColor: '#000000',
+          layer: 'top'
+        });
+      }
+    } else {
+      const registry = highlightRegistry();
+      if (registry) {
+        const ranges = searchMatches
+          .map((match) => {
+            const element = searchLineElements[match.line];
+            return element ? createTextRange(element, match.start, match.end) : null;
+          })
+          .filter((range): range is Range => range !== null);
+        registry.set('terminal-search', new Highlight(...ranges));
+      }
     }
+    showCurrentSearchMatch();
   }
 
-  const handleRegularLineCommit = (line: string, element: HTMLPreElement | null) => {
-    if (!shouldStartAsciiArtBlock(line)) {
+  function stepOutputSearch(direction: 'older' | 'newer') {
+    runOutputSearch(true);
+    if (searchMatches.length === 0) {
       return;
     }
+    const step = direction === 'older' ? -1 : 1;
+    searchIndex = (searchIndex + step + searchMatches.length) % searchMatches.length;
+    showCurrentSearchMatch();
+  }
 
-    const target = element ?? ensureIncomingLine();
-    startAsciiArtBlock(line, target);
-  };
+  function openOutputSearch() {
+    if (!searchForm || !searchQuery) {
+      return;
+    }
+    outputSearchActive = true;
+    runtime.autoScrollLocked = true;
+    searchForm.hidden = false;
+    searchQuery.focus();
+    searchQuery.select();
+    if (searchQuery.value) {
+      runOutputSearch(false);
+    }
+  }
 
-  function processIncomingChunk(chunk: string) {
-    if (!chunk) {
+  function closeOutputSearch() {
+    if (!searchForm || searchForm.hidden) {
       return;
     }
+    searchForm.hidden = true;
+    outputSearchActive = false;
+    clearSearchHighlights();
+    searchMatches = [];
+    searchIndex = -1;
+    searchLineElements = [];
+    searchLineColumns = [];
+    if (runtime.terminal) {
+      runtime.terminal.scrollToBottom();
+    } else {
+      scrollOutputToBottom(true);
+    }
+    runtime.captureElement.focus();
+  }
 
-    let buffer = runtime.incomingBuffer;
-    let lineElement = runtime.incomingLineElement;
-    let needsRender = false;
-    let lastLineBuffer = ''; // Track the last line content for echo suppression
+  searchOpenButton?.addEventListener('click', () => openOutputSearch());
+  searchClose?.addEventListener('click', () => closeOutputSearch());
+  searchNewer?.addEventListener('click', () => stepOutputSearch('newer'));
+  searchForm?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    stepOutputSearch('older');
+  });
+  searchQuery?.addEventListener('input', () => runOutputSearch(false));
+  searchCase?.addEventListener('change', () => runOutputSearch(false));
+  searchRegex?.addEventListener('change', () => runOutputSearch(false));
+  searchQuery?.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      closeOutputSearch();
+    } else if (event.key === 'Enter' && event.shiftKey) {
+      event.preventDefault();
+      stepOutputSearch('newer');
+    }
+  });
 
-    for (const char of chunk) {
-      if (char === '\r') {
-        if (runtime.asciiArtBlock) {
-          updateAsciiArtPreview(buffer);
-          lineElement = runtime.asciiArtBlock.element;
-          runtime.incomingLineElement = runtime.asciiArtBlock.element;
-        } else {
-          // Check if this line should be suppressed before rendering
-          // Use non-destructive check so we can still remove it on \n
-          const shouldSuppress = checkIfShouldSuppressEcho(buffer);
-          if (!shouldSuppress) {
-            const target = ensureIncomingLine();
-            renderAnsiLine(target, buffer, runtime);
-            lineElement = runtime.incomingLineElement;
-          } else {
-            // Don't render the line at all if it should be suppressed
-            lineElement = null;
-            // Remove any partially rendered content for this line
-            if (runtime.incomingLineElement && runtime.incomingLineElement.isConnected) {
-              runtime.incomingLineElement.remove();
-              runtime.incomingLineElement = null;
-            }
+  // Archived output sits above the live renderer in the output pane, so scrolling past the top of the live
+  // scrollback carries on into it. Only the rows in view (plus some overscan) exist in the DOM; the region's
+  // height stands in for the rest, and pages of lines are read from the archive as they scroll into view.
+  const ARCHIVE_PAGE_SIZE = 200;
+  const ARCHIVE_OVERSCAN = 20;
+  const ARCHIVE_CACHED_PAGES = 12;
+  const archivePages = new Map<number, ArchivedLine[] | null>();
+  const archiveTimeFormatter = new Intl.DateTimeFormat('en', { dateStyle: 'short', timeStyle: 'medium' });
+  let archiveTarget = '';
+  let archiveTotal = 0;
+  let archiveRowHeight = 20;
+  let archiveRenderPending = false;
+
+  function syncArchiveLiveView() {
+    if (runtime.terminal) {
+      scrollbackArchive.setLiveView(runtime.terminal.rows + XTERM_SCROLLBACK, runtime.terminal.cols);
+    } else if (runtime.screen) {
+      scrollbackArchive.setLiveView(runtime.screen.rows + DEFAULT_SCROLLBACK, runtime.screen.cols);
+    }
+  }
+
+  function requestArchivePage(page: number) {
+    if (archivePages.has(page)) {
+      return;
+    }
+    archivePages.set(page, null);
+    const target = archiveTarget;
+    void scrollbackArchive.read(target, page * ARCHIVE_PAGE_SIZE, ARCHIVE_PAGE_SIZE).then(
+      (lines) => {
+        if (target !== archiveTarget || !archivePages.has(page)) {
+          return;
+        }
+        archivePages.set(page, lines);
+        // Map order is insertion order, so the first keys are the pages loaded longest ago.
+        for (const key of archivePages.keys()) {
+          if (archivePages.size <= ARCHIVE_CACHED_PAGES) {
+            break;
           }
+          archivePages.delete(key);
         }
-        lastLineBuffer = buffer; // Save the line content before clearing
-        buffer = '';
-        needsRender = false;
-        continue;
+        scheduleArchiveRender();
+      },
+      (error) => {
+        archivePages.delete(page);
+        console.warn('Failed to read the scrollback archive', error);
       }
+    );
+  }
 
-      if (char === '\n') {
-        if (runtime.asciiArtBlock) {
-          updateAsciiArtPreview(buffer);
-          handleAsciiLineCommit(buffer);
-        } else {
-          // Use the saved line content if buffer is empty (after \r)
-          // Explicit check for empty string to avoid falsy coercion
-          const lineToCheck = buffer !== '' ? buffer : lastLineBuffer;
-          // Check and consume matching echo entry from the queue if found
-          const suppressEcho = shouldSuppressOutgoingEcho(lineToCheck);
-          if (!suppressEcho) {
-            // Only render if we have new buffer content (no \r before \n)
-            if (buffer !== '') {
-              const target = ensureIncomingLine();
-              renderAnsiLine(target, buffer, runtime);
-              lineElement = runtime.incomingLineElement;
-            }
-            // Handle line commit for non-suppressed lines
-            if (lineElement) {
-              handleRegularLineCommit(lineToCheck, lineElement);
-            }
-          } else {
-            // If suppressed, remove any partial render
-            if (runtime.incomingLineElement && runtime.incomingLineElement.isConnected) {
-              runtime.incomingLineElement.remove();
-              runtime.incomingLineElement = null;
-            }
-          }
-          // If suppressed, lineElement is null from \r handling (when echo was detected) or remains null (when no rendering occurred)
-        }
+  function createArchiveRow(line: ArchivedLine | undefined): HTMLElement {
+    const row = document.createElement('pre');
+    row.className = 'terminal__line terminal-chat__archive-line';
+    row.style.height = `${archiveRowHeight}px`;
+    if (!line) {
+      row.classList.add('terminal-chat__archive-line--loading');
+      row.textContent = '…';
+      return row;
+    }
+    const time = document.createElement('time');
+    time.className = 'terminal-chat__archive-time';
+    time.dateTime = new Date(line.at).toISOString();
+    time.textContent = archiveTimeFormatter.format(line.at);
+    row.append(time, ...parseArchivedLine(line.text).map((run) => createScreenRunElement(run.text, run.style)));
+    return row;
+  }
 
-        buffer = '';
-        lastLineBuffer = ''; // Clear the saved content
-        lineElement = runtime.asciiArtBlock ? runtime.asciiArtBlock.element : null;
-        runtime.incomingBuffer = '';
-        runtime.incomingLineElement = runtime.asciiArtBlock ? runtime.asciiArtBlock.element : null;
-        needsRender = false;
-        continue;
+  function renderArchive() {
+    archiveRenderPending = false;
+    if (archiveRegion.hidden) {
+      return;
+    }
+    const output = runtime.outputElement;
+    // How far the top of the pane has scrolled into the region.
+    const offset = output.getBoundingClientRect().top - archiveRegion.getBoundingClientRect().top;
+    const first = Math.max(0, Math.floor(offset / archiveRowHeight) - ARCHIVE_OVERSCAN);
+    const last = Math.min(archiveTotal, Math.ceil((offset + output.clientHeight) / archiveRowHeight) + ARCHIVE_OVERSCAN);
+    const rows: HTMLElement[] = [];
+    for (let index = first; index < last; index += 1) {
+      const page = Math.floor(index / ARCHIVE_PAGE_SIZE);
+      const lines = archivePages.get(page);
+      if (!lines) {
+        requestArchivePage(page);
       }
+      rows.push(createArchiveRow(lines?.[index - page * ARCHIVE_PAGE_SIZE]));
+    }
+    archiveRows.style.transform = `translateY(${first * archiveRowHeight}px)`;
+    archiveRows.replaceChildren(...rows);
+  }
 
-      if (char === '\u0008') {
-        if (buffer) {
-          buffer = buffer.slice(0, -1);
-          needsRender = true;
-        }
-        continue;
-      }
+  function scheduleArchiveRender() {
+    if (archiveRenderPending) {
+      return;
+    }
+    archiveRenderPending = true;
+    if (typeof window === 'undefined' || typeof window.requestAnimationFrame !== 'function') {
+      setTimeout(renderArchive, 16);
+      return;
+    }
+    window.requestAnimationFrame(renderArchive);
+  }
 
-      buffer += char;
-      needsRender = true;
+  // Sizes the region to the current target's archive. Lines only ever join at the newest end, so pages already
+  // read stay valid unless retention has trimmed the oldest ones.
+  async function refreshArchiveRegion() {
+    const target = scrollbackArchive.retentionDays > 0 ? historyTarget() ?? '' : '';
+    const total = target ? await scrollbackArchive.count(target) : 0;
+    if (target !== archiveTarget || total < archiveTotal) {
+      archivePages.clear();
+    } else if (total > archiveTotal) {
+      archivePages.delete(Math.floor(archiveTotal / ARCHIVE_PAGE_SIZE));
+    }
+    archiveTarget = target;
+    archiveTotal = total;
+    archiveRegion.hidden = total === 0;
+    runtime.outputElement.classList.toggle('terminal-chat__output--archived', total > 0);
+    if (total === 0) {
+      archiveRows.replaceChildren();
+      return;
     }
+    const lineHeight = Number.parseFloat(window.getComputedStyle(archiveRegion).lineHeight);
+    archiveRowHeight = Number.isFinite(lineHeight) && lineHeight > 0 ? lineHeight : 20;
+    archiveRegion.style.height = `${total * archiveRowHeight}px`;
+    scrollOutputToBottom();
+    scheduleArchiveRender();
+  }
 
-    if (needsRender) {
-      if (runtime.asciiArtBlock) {
-        updateAsciiArtPreview(buffer);
-        lineElement = runtime.asciiArtBlock.element;
-        runtime.incomingLineElement = runtime.asciiArtBlock.element;
-      } else {
-        const target = ensureIncomingLine();
-        renderAnsiLine(target, buffer, runtime);
-        lineElement = target;
-      }
+  runtime.outputElement.addEventListener('scroll', () => scheduleArchiveRender(), { passive: true });
+
+  if (archiveDaysSelect) {
+    archiveDaysSelect.addEventListener('change', () => {
+      const days = clampArchiveDays(Number(archiveDaysSelect.value));
+      runtime.entryPreferences.archiveDays = days;
+      writeEntryPreferences(runtime.entryPreferences);
+      void scrollbackArchive.setRetentionDays(days).then(() => refreshArchiveRegion());
+      setEntryStatus(
+        days === 0
+          ? 'Scrollback archiving is off and the archive was deleted.'
+          : `Archived output is now kept for ${days} day${days === 1 ? '' : 's'}.`,
+        'muted'
+      );
+    });
+  }
+
+  if (archiveClearButton) {
+    archiveClearButton.addEventListener('click', () => {
+      void scrollbackArchive.clear().then(
+        () => {
+          setEntryStatus('Cleared the scrollback archive for every server.', 'muted');
+          void refreshArchiveRegion();
+        },
+        (error) => console.warn('Failed to clear the scrollback archive', error)
+      );
+    });
+  }
+
+  if (typeof window !== 'undefined') {
+    // Nothing stays on screen once the page goes, so whatever the live view still holds is archived too.
+    window.addEventListener('pagehide', () => {
+      void scrollbackArchive.flush();
+      void scrollbackArchive.evictLive();
+    });
+  }
+
+  function deliverIncomingPayload(chunk: string) {
+    if (!chunk) {
+      return;
     }
 
-    runtime.incomingBuffer = buffer;
-    runtime.incomingLineElement = lineElement;
-    scrollOutputToBottom();
+    trackLinks(chunk);
+
+    const write = outputWriter();
+    if (write) {
+      if (runtime.introSilenced) {
+        runtime.introBuffer += chunk;
+        if (runtime.introBuffer.length > INTRO_CAPTURE_LIMIT) {
+          runtime.introBuffer = runtime.introBuffer.slice(-INTRO_CAPTURE_LIMIT);
+        }
+        const markerIndex = runtime.introBuffer.indexOf(INTRO_MARKER);
+        if (markerIndex === -1) {
+          return;
+        }
+        const output = runtime.introBuffer.slice(markerIndex);
+        runtime.introBuffer = '';
+        runtime.introSilenced = false;
+        write(output);
+        return;
+      }
+      write(chunk);
+      return;
+    }
+    pendingTerminalOutput += chunk;
+    if (pendingTerminalOutput.length > 65_536) {
+      pendingTerminalOutput = pendingTerminalOutput.slice(-65_536);
+    }
   }
 
   const collectOverridesFromInputs = (): { overrides: TargetOverrides; errors: string[] } => {
@@ -2787,6 +4114,7 @@ const createRuntime = (
       sendTextPayload('/retro off\n');
       runtime.retroCommandSent = true;
       setEntryStatus('Detected join message. Sent /retro off automatically.', 'muted');
+      handleSessionReady();
     }
   };
 
@@ -2977,156 +4305,339 @@ const createRuntime = (
     updateEntryControls();
   }
 
-  for (const button of connectButtons) {
-    button.addEventListener('click', () => {
-      if (runtime.connected) {
-        return;
-      }
+  // An automatic attempt that cannot start will not succeed on a retry either, so the reconnect ends and the
+  // offline queue goes back to the buffer instead of waiting on a flag nothing would clear.
+  const abandonReconnect = () => {
+    if (reconnecting) {
+      stopReconnecting();
+      returnOfflineQueueToBuffer();
+    }
+  };
 
-      const { overrides, errors } = collectOverridesFromInputs();
-      if (errors.length > 0) {
-        setTargetStatusMessage(errors.join(' '), 'error');
-        return;
+  const connect = () => {
+    if (runtime.connected) {
+      // Already back: nothing to dial, so the queue is offered now.
+      if (reconnecting) {
+        handleSessionReady();
       }
+      return;
+    }
+    closeReplay();
+
+    const { overrides, errors } = collectOverridesFromInputs();
+    if (errors.length > 0) {
+      abandonReconnect();
+      setTargetStatusMessage(errors.join(' '), 'error');
+      return;
+    }
 
-      saveTargetOverrides(overrides);
-      refreshTarget(false);
+    saveTargetOverrides(overrides);
+    refreshTarget(false);
 
-      if (!runtime.target.available) {
-        setTargetStatusMessage('Cannot connect without a target host. Use the control bar to add overrides.', 'error');
-        return;
-      }
+    if (!runtime.target.available) {
+      abandonReconnect();
+      setTargetStatusMessage('Cannot connect without a target host. Use the control bar to add overrides.', 'error');
+      return;
+    }
 
-      const socketUrlText = runtime.socketUrl;
-      if (!socketUrlText) {
-        runtime.updateStatus('Bridge unavailable', 'disconnected');
-        setEntryStatus('Bridge unavailable. Buffer stays queued until the service returns.', 'error');
-        updateEntryControls();
-        return;
+    const socketUrlText = runtime.socketUrl;
+    if (!socketUrlText) {
+      abandonReconnect();
+      runtime.updateStatus('Bridge unavailable', 'disconnected');
+      setEntryStatus('Bridge unavailable. Buffer stays queued until the service returns.', 'error');
+      updateEntryControls();
+      return;
+    }
+    const username = runtime.usernameInput.value.trim();
+    const passwordValue = runtime.passwordInput.disabled ? '' : runtime.passwordInput.value;
+    if (!username) {
+      abandonReconnect();
+      runtime.updateStatus('Username required', 'disconnected');
+      setEntryStatus('Enter a username before sending buffered commands.', 'error');
+      return;
+    }
+    runtime.updateStatus('Connecting…', 'connecting');
+    runtime.connecting = true;
+    setConnectButtonsDisabled(true);
+    setEntryStatus('Joining TELNET bridge… buffered commands will send once ready.', 'muted');
+    updateEntryControls();
+    if (connectTicketsRequired() && !connectTicket) {
+      requestConnectTicket(socketUrlText)
+        .then((ticket) => {
+          connectTicket = ticket;
+          runtime.connecting = false;
+          connect();
+        })
+        .catch((error) => {
+          runtime.connecting = false;
+          console.error('Terminal connect ticket request failed', error);
+          updateConnectAvailability();
+          updateEntryControls();
+          // The bridge may just be restarting; a pending reconnect backs off and tries again.
+          if (reconnecting) {
+            scheduleReconnect();
+            return;
+          }
+          runtime.updateStatus('Connection failed', 'disconnected');
+          setEntryStatus('The bridge refused to issue a connect ticket. Buffer kept for your next attempt.', 'error');
+        });
+      return;
+    }
+    try {
+      const socketUrl = new URL(socketUrlText);
+      socketUrl.searchParams.set('protocol', runtime.target.protocol);
+      if (runtime.target.host) {
+        socketUrl.searchParams.set('host', runtime.target.host);
+      } else {
+        socketUrl.searchParams.delete('host');
       }
-      const username = runtime.usernameInput.value.trim();
-      const passwordValue = runtime.passwordInput.disabled ? '' : runtime.passwordInput.value;
-      if (!username) {
-        runtime.updateStatus('Username required', 'disconnected');
-        setEntryStatus('Enter a username before sending buffered commands.', 'error');
-        return;
+      if (runtime.target.port) {
+        socketUrl.searchParams.set('port', runtime.target.port);
+      } else {
+        socketUrl.searchParams.delete('port');
       }
-      runtime.updateStatus('Connecting…', 'connecting');
-      runtime.connecting = true;
-      setConnectButtonsDisabled(true);
-      setEntryStatus('Joining TELNET bridge… buffered commands will send once ready.', 'muted');
-      updateEntryControls();
-      try {
-        const socketUrl = new URL(socketUrlText);
-        socketUrl.searchParams.set('protocol', runtime.target.protocol);
-        if (runtime.target.host) {
-          socketUrl.searchParams.set('host', runtime.target.host);
-        } else {
-          socketUrl.searchParams.delete('host');
+      if (username) {
+        socketUrl.searchParams.set('username', username);
+      } else {
+        socketUrl.searchParams.delete('username');
+      }
+      if (passwordValue) {
+        socketUrl.searchParams.set('password', passwordValue);
+      } else {
+        socketUrl.searchParams.delete('password');
+      }
+      const resumeState = readResumeState();
+      if (resumeState && resumeState.target === deriveIdentityKey(runtime.target)) {
+        socketUrl.searchParams.set('resume', resumeState.token);
+        socketUrl.searchParams.set('offset', String(receivedOutputBytes ?? 0));
+      } else {
+        socketUrl.searchParams.delete('resume');
+        socketUrl.searchParams.delete('offset');
+      }
+      const initialWindowSize = measureWindowSize();
+      if (initialWindowSize) {
+        socketUrl.searchParams.set('cols', String(initialWindowSize.cols));
+        socketUrl.searchParams.set('rows', String(initialWindowSize.rows));
+      }
+      if (connectTicket) {
+        socketUrl.searchParams.set('ticket', connectTicket);
+        connectTicket = null;
+      }
+      const socket = new WebSocket(socketUrl.toString());
+      socket.binaryType = 'arraybuffer';
+
+      runtime.socket = socket;
+      runtime.binaryDecoder = new TextDecoder();
+      lastSentWindowSize = initialWindowSize;
+      if (initialWindowSize) {
+        sessionRecorder.recordResize(initialWindowSize.cols, initialWindowSize.rows);
+      }
+      runtime.introSilenced = true;
+      runtime.introBuffer = '';
+      runtime.autoCommandBuffer = '';
+      runtime.yCommandSent = false;
+      runtime.retroCommandSent = false;
+      socket.addEventListener('open', () => {
+        lastLatencyMs = null;
+        bbsConnected = false;
+        startLatencyProbes();
+        runtime.connecting = false;
+        runtime.connected = true;
+        runtime.updateStatus('Dialling…', 'connecting');
+        setDisconnectButtonsDisabled(false);
+        sendWindowSize();
+        focusCapture();
+        updateConnectAvailability();
+        setEntryStatus('Bridge open. Dialling the BBS…', 'muted');
+        updateEntryControls();
+        resetLightPaletteAutoState();
+        void refreshArchiveRegion();
+      });
+      socket.addEventListener('message', (event) => {
+        if (typeof event.data === 'string') {
+          handleControlEnvelope(event.data);
+          return;
         }
-        if (runtime.target.port) {
-          socketUrl.searchParams.set('port', runtime.target.port);
-        } else {
-          socketUrl.searchParams.delete('port');
+        if (event.data instanceof ArrayBuffer) {
+          const start = receivedOutputBytes ?? 0;
+          receivedOutputBytes = start + event.data.byteLength;
+          applyChatStream(chatFeed.push(new Uint8Array(event.data), start));
+          rememberChatOffset();
+          const decoded = runtime.binaryDecoder.decode(event.data, { stream: true });
+          if (decoded) {
+            sessionRecorder.recordOutput(decoded);
+            scrollbackArchive.record(historyTarget() ?? '', decoded);
+            noticeMentions(decoded);
+            runtime.appendLine(decoded, 'incoming');
+            runtime.autoCommandBuffer += decoded;
+          }
         }
-        if (username) {
-          socketUrl.searchParams.set('username', username);
-        } else {
-          socketUrl.searchParams.delete('username');
+        if (runtime.autoCommandBuffer.length > 4096) {
+          runtime.autoCommandBuffer = runtime.autoCommandBuffer.slice(-4096);
         }
-        if (passwordValue) {
-          socketUrl.searchParams.set('password', passwordValue);
-        } else {
-          socketUrl.searchParams.delete('password');
+        maybeSendAutoCommands();
+      });
+      socket.addEventListener('close', (event) => {
+        stopLatencyProbes();
+        bbsConnected = false;
+        const remainder = runtime.binaryDecoder.decode();
+        if (remainder) {
+          sessionRecorder.recordOutput(remainder);
+          scrollbackArchive.record(historyTarget() ?? '', remainder);
+          noticeMentions(remainder);
+          runtime.appendLine(remainder, 'incoming');
         }
-        const socket = new WebSocket(socketUrl.toString());
-        socket.binaryType = 'arraybuffer';
-
-        runtime.socket = socket;
-        runtime.binaryDecoder = new TextDecoder();
+        void scrollbackArchive.flush();
+        applyChatStream(chatFeed.flush());
+        rememberChatOffset();
+        runtime.connecting = false;
+        runtime.connected = false;
+        runtime.socket = null;
         runtime.introSilenced = true;
         runtime.introBuffer = '';
         runtime.autoCommandBuffer = '';
         runtime.yCommandSent = false;
         runtime.retroCommandSent = false;
-        socket.addEventListener('open', () => {
-          markBridgeActivity();
-          ensureKeepAliveTimer();
-          runtime.connecting = false;
-          runtime.connected = true;
-          runtime.updateStatus('Connected', 'connected');
-          setDisconnectButtonsDisabled(false);
-          focusCapture();
-          updateConnectAvailability();
-          setEntryStatus('Connected via TELNET. Waiting for "Type N" prompt.', 'muted');
-          updateEntryControls();
-          resetLightPaletteAutoState();
-        });
-        socket.addEventListener('message', (event) => {
-          markBridgeActivity();
-          if (typeof event.data === 'string') {
-            const pending = runtime.binaryDecoder.decode();
-            if (pending) {
-              runtime.appendLine(pending, 'incoming');
-              runtime.autoCommandBuffer += pending;
-            }
-            runtime.appendLine(event.data, 'incoming');
-            runtime.autoCommandBuffer += event.data;
-          } else if (event.data instanceof ArrayBuffer) {
-            const decoded = runtime.binaryDecoder.decode(event.data, { stream: true });
-            if (decoded) {
-              runtime.appendLine(decoded, 'incoming');
-              runtime.autoCommandBuffer += decoded;
-            }
-          }
-          if (runtime.autoCommandBuffer.length > 4096) {
-            runtime.autoCommandBuffer = runtime.autoCommandBuffer.slice(-4096);
-          }
-          maybeSendAutoCommands();
-        });
-        socket.addEventListener('close', (event) => {
-          stopKeepAliveTimer();
-          const remainder = runtime.binaryDecoder.decode();
-          if (remainder) {
-            runtime.appendLine(remainder, 'incoming');
-          }
-          runtime.connecting = false;
-          runtime.connected = false;
-          runtime.socket = null;
-          runtime.introSilenced = true;
-          runtime.introBuffer = '';
-          runtime.autoCommandBuffer = '';
-          runtime.yCommandSent = false;
-          runtime.retroCommandSent = false;
-          setDisconnectButtonsDisabled(true);
-          runtime.updateStatus('Disconnected', 'disconnected');
-          refreshTarget(false);
-          updateConnectAvailability();
-          setEntryStatus('Disconnected. Buffer stays queued until you reconnect.', 'muted');
-          updateEntryControls();
-          resetLightPaletteAutoState();
-        });
-        socket.addEventListener('error', () => {
-          stopKeepAliveTimer();
-          runtime.updateStatus('Connection error', 'disconnected');
-          runtime.introSilenced = true;
-          runtime.introBuffer = '';
-          runtime.autoCommandBuffer = '';
-          runtime.yCommandSent = false;
-          runtime.retroCommandSent = false;
-          setEntryStatus('Bridge error. Commands will resume after reconnecting.', 'error');
-        });
-      } catch (error) {
-        runtime.connecting = false;
-        runtime.connected = false;
-        runtime.socket = null;
         setDisconnectButtonsDisabled(true);
-        runtime.updateStatus('Connection failed', 'disconnected');
-        console.error('Terminal connection failed', error);
+        runtime.updateStatus('Disconnected', 'disconnected');
+        refreshTarget(false);
         updateConnectAvailability();
-        setEntryStatus('Connection failed. Buffer kept for your next attempt.', 'error');
+        // A normal closure ended the BBS session; 4000 means another tab took it over.
+        const sessionEnded = event.code === 1000 || event.code === 4000;
+        if (sessionEnded) {
+          writeResumeState(null);
+          receivedOutputBytes = null;
+        }
         updateEntryControls();
+        resetLightPaletteAutoState();
+        if (!sessionEnded && runtime.entryPreferences.autoReconnect) {
+          setEntryStatus('Connection lost. Lines you send now will be queued until the bridge is back.', 'muted');
+          scheduleReconnect();
+          return;
+        }
+        setEntryStatus(
+          sessionEnded
+            ? 'Disconnected. Buffer stays queued until you reconnect.'
+            : 'Connection lost. Reconnect shortly to resume where you left off.',
+          'muted'
+        );
+      });
+      socket.addEventListener('error', () => {
+        stopLatencyProbes();
+        bbsConnected = false;
+        runtime.updateStatus('Connection error', 'disconnected');
+        runtime.introSilenced = true;
+        runtime.introBuffer = '';
+        runtime.autoCommandBuffer = '';
+        runtime.yCommandSent = false;
+        runtime.retroCommandSent = false;
+        setEntryStatus('Bridge error. Commands will resume after reconnecting.', 'error');
+      });
+    } catch (error) {
+      runtime.connecting = false;
+      runtime.connected = false;
+      runtime.socket = null;
+      setDisconnectButtonsDisabled(true);
+      console.error('Terminal connection failed', error);
+      updateConnectAvailability();
+      updateEntryControls();
+      if (reconnecting) {
+        scheduleReconnect();
+        return;
+      }
+      runtime.updateStatus('Connection failed', 'disconnected');
+      setEntryStatus('Connection failed. Buffer kept for your next attempt.', 'error');
+    }
+  };
+
+  // Opt-in auto-reconnect: jittered exponential backoff with a countdown in the status elements.
+  const RECONNECT_BASE_DELAY_MS = 1000;
+  const RECONNECT_MAX_DELAY_MS = 30000;
+  const RECONNECT_MAX_ATTEMPTS = 8;
+  let reconnectAttempt = 0;
+  let reconnectTimer: number | null = null;
+  let reconnectCountdownTimer: number | null = null;
+
+  const computeReconnectDelay = (attempt: number) => {
+    const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+    // Equal jitter: keep half of the exponential delay and randomise the rest so tabs do not retry in lockstep.
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  };
+
+  const cancelReconnect = () => {
+    if (reconnectTimer !== null) {
+      window.clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (reconnectCountdownTimer !== null) {
+      window.clearInterval(reconnectCountdownTimer);
+      reconnectCountdownTimer = null;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    cancelReconnect();
+
+    if (reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+      reconnectAttempt = 0;
+      reconnecting = false;
+      runtime.updateStatus('Disconnected', 'disconnected');
+      setEntryStatus(
+        `Gave up after ${RECONNECT_MAX_ATTEMPTS} reconnect attempts. Press Join to try again.`,
+        'error'
+      );
+      returnOfflineQueueToBuffer();
+      return;
+    }
+
+    const delay = computeReconnectDelay(reconnectAttempt);
+    reconnectAttempt += 1;
+    reconnecting = true;
+    const deadline = Date.now() + delay;
+
+    const renderCountdown = () => {
+      const seconds = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      runtime.updateStatus(`Reconnecting in ${seconds}s…`, 'connecting');
+    };
+
+    renderCountdown();
+    reconnectCountdownTimer = window.setInterval(renderCountdown, 1000);
+    reconnectTimer = window.setTimeout(() => {
+      cancelReconnect();
+      runtime.updateStatus(`Reconnect attempt ${reconnectAttempt}…`, 'connecting');
+      connect();
+    }, delay);
+  };
+
+  const stopReconnecting = () => {
+    cancelReconnect();
+    reconnectAttempt = 0;
+    reconnecting = false;
+  };
+
+  if (reconnectToggle) {
+    reconnectToggle.checked = runtime.entryPreferences.autoReconnect;
+    reconnectToggle.addEventListener('change', () => {
+      runtime.entryPreferences.autoReconnect = reconnectToggle.checked;
+      writeEntryPreferences(runtime.entryPreferences);
+      if (!reconnectToggle.checked && reconnecting) {
+        stopReconnecting();
+        returnOfflineQueueToBuffer();
+        runtime.updateStatus('Disconnected', 'disconnected');
       }
+      setEntryStatus(
+        reconnectToggle.checked
+          ? 'Auto-reconnect enabled. Dropped connections will be retried automatically.'
+          : 'Auto-reconnect disabled.',
+        'muted'
+      );
+    });
+  }
+
+  for (const button of connectButtons) {
+    button.addEventListener('click', () => {
+      stopReconnecting();
+      connect();
     });
   }
 
@@ -3160,10 +4671,17 @@ const createRuntime = (
   const requestDisconnect = (reason?: string): boolean => {
     const socket = runtime.socket;
     if (!socket) {
-      return false;
+      if (!reconnecting) {
+        return false;
+      }
+      stopReconnecting();
+      returnOfflineQueueToBuffer();
+      runtime.updateStatus('Disconnected', 'disconnected');
+      setEntryStatus('Reconnect cancelled. Queued lines are back in the buffer.', 'muted');
+      return true;
     }
 
-    stopKeepAliveTimer();
+    stopLatencyProbes();
     const closeReason = reason && reason.trim() ? reason : 'Client closed';
     let statusApplied = false;
 
@@ -3174,7 +4692,6 @@ const createRuntime = (
 
       try {
         socket.send(textEncoder.encode(value));
-        markBridgeActivity();
         return true;
       } catch (error) {
         console.warn('Failed to send disconnect sequence', error);
@@ -3275,6 +4792,7 @@ const createRuntime = (
   runtime.captureElement.addEventListener('blur', () => {
     runtime.viewport.classList.remove('terminal__viewport--focused');
     runtime.entryElement.classList.remove('terminal__entry--focused');
+    closeCompletion();
   });
 
   function setEntryStatus(message: string, tone: 'default' | 'muted' | 'error' = 'default') {
@@ -3304,7 +4822,245 @@ const createRuntime = (
     return Boolean(runtime.socket && runtime.socket.readyState === WebSocket.OPEN);
   }
 
-  function updateEntryControls() {}
+  function updateEntryControls() {
+    refreshCompletion();
+  }
+
+  let completion: CompletionResult | null = null;
+  let completionIndex = 0;
+  // Enter only accepts a suggestion the user picked with the arrow keys; otherwise it sends the line.
+  let completionNavigated = false;
+
+  function buildCompletionContext(): CompletionContext {
+    const state = store.snapshot();
+    const clip = (value: string) => (value.length > 48 ? `${value.slice(0, 47)}…` : value);
+    return {
+      users: store.connectedUsers().map((username) => ({ value: username })),
+      messages: state.messages
+        .slice(-50)
+        .reverse()
+        .map((message) => ({ value: message.id, detail: clip(`${message.author}: ${message.body}`) })),
+      palettes: PALETTE_NAMES.map((name) => ({ value: name })),
+      polls: Object.values(state.polls).map((poll) => ({ value: poll.label, detail: clip(poll.question) }))
+    };
+  }
+
+  function renderCompletion() {
+    const items = completion?.items ?? [];
+    runtime.completionList.replaceChildren(
+      ...items.map((item, index) => {
+        const option = document.createElement('li');
+        option.id = `${runtime.completionList.id}-${index}`;
+        option.className = 'terminal-chat__completion-item';
+        option.setAttribute('role', 'option');
+        option.setAttribute('aria-selected', index === completionIndex ? 'true' : 'false');
+        option.dataset.terminalCompletionIndex = String(index);
+        const label = document.createElement('span');
+        label.className = 'terminal-chat__completion-label';
+        label.textContent = item.label;
+        option.append(label);
+        if (item.detail) {
+          const detail = document.createElement('span');
+          detail.className = 'terminal-chat__completion-detail';
+          detail.textContent = item.detail;
+          option.append(detail);
+        }
+        return option;
+      })
+    );
+    runtime.completionList.hidden = items.length === 0;
+    if (items.length > 0) {
+      runtime.captureElement.setAttribute('aria-activedescendant', `${runtime.completionList.id}-${completionIndex}`);
+    } else {
+      runtime.captureElement.removeAttribute('aria-activedescendant');
+    }
+
+    const hint = completion?.hint ?? null;
+    runtime.completionHint.hidden = !hint;
+    if (!hint) {
+      runtime.completionHint.replaceChildren();
+      return;
+    }
+    const head = document.createElement('span');
+    head.className = 'terminal-chat__completion-head';
+    head.textContent = hint.head;
+    runtime.completionHint.replaceChildren(
+      head,
+      ...hint.args.map((usage, index) => {
+        const arg = document.createElement('span');
+        arg.className = 'terminal-chat__completion-arg';
+        arg.classList.toggle('terminal-chat__completion-arg--active', index === hint.active);
+        arg.textContent = usage;
+        return arg;
+      })
+    );
+  }
+
+  function refreshCompletion() {
+    const { value, selectionStart, selectionEnd } = runtime.captureElement;
+    const caret = selectionStart === selectionEnd ? selectionStart : null;
+    const typingCommand =
+      caret !== null && value.startsWith('/', value.lastIndexOf('\n', caret - 1) + 1);
+    completion = typingCommand ? completeCommandLine(value, caret, buildCompletionContext()) : null;
+    completionIndex = 0;
+    completionNavigated = false;
+    renderCompletion();
+  }
+
+  function closeCompletion() {
+    completion = null;
+    renderCompletion();
+  }
+
+  function acceptCompletion(index: number): boolean {
+    const item = completion?.items[index];
+    if (!completion || !item) {
+      return false;
+    }
+    const { value } = runtime.captureElement;
+    runtime.captureElement.value = `${value.slice(0, completion.from)}${item.insert}${value.slice(completion.to)}`;
+    try {
+      const position = completion.from + item.insert.length;
+      runtime.captureElement.setSelectionRange(position, position);
+    } catch (error) {
+      // Ignore selection errors
+    }
+    updateEntryControls();
+    scheduleEntryResize();
+    return true;
+  }
+
+  function moveCompletion(step: number) {
+    const count = completion?.items.length ?? 0;
+    if (count === 0) {
+      return;
+    }
+    completionIndex = (completionIndex + step + count) % count;
+    completionNavigated = true;
+    renderCompletion();
+  }
+
+  runtime.completionList.addEventListener('mousedown', (event) => {
+    const option = (event.target as HTMLElement).closest<HTMLElement>('[data-terminal-completion-index]');
+    if (!option) {
+      return;
+    }
+    // Keep focus in the buffer so the caret survives the click.
+    event.preventDefault();
+    acceptCompletion(Number(option.dataset.terminalCompletionIndex));
+  });
+
+  let historySearchMatch: HistoryMatch | null = null;
+
+  function recallHistory(direction: 'older' | 'newer') {
+    const line =
+      direction === 'older' ? historyCursor.older(runtime.captureElement.value) : historyCursor.newer();
+    if (line === null) {
+      setEntryStatus(direction === 'older' ? 'No older history for this server.' : 'Back at the newest line.', 'muted');
+      return;
+    }
+    setCaptureValue(line);
+  }
+
+  function showHistorySearchMatch() {
+    runtime.historyMatch.textContent = historySearchMatch
+      ? historySearchMatch.line
+      : runtime.historyQuery.value
+        ? 'No match.'
+        : `${historyEntries().length} lines in history.`;
+  }
+
+  function openHistorySearch() {
+    historySearchMatch = null;
+    runtime.historySearch.hidden = false;
+    runtime.historyQuery.value = '';
+    showHistorySearchMatch();
+    runtime.historyQuery.focus();
+  }
+
+  function closeHistorySearch(accept: boolean) {
+    if (accept && historySearchMatch) {
+      setCaptureValue(historySearchMatch.line);
+    }
+    historySearchMatch = null;
+    runtime.historySearch.hidden = true;
+    runtime.captureElement.focus();
+  }
+
+  runtime.historyQuery.addEventListener('input', () => {
+    historySearchMatch = runtime.historyQuery.value
+      ? searchHistory(historyEntries(), runtime.historyQuery.value)
+      : null;
+    showHistorySearchMatch();
+  });
+
+  runtime.historyQuery.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      // The search field sits inside the entry form; Enter picks the match instead of submitting.
+      event.preventDefault();
+      closeHistorySearch(true);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      closeHistorySearch(false);
+    } else if (event.ctrlKey && event.key.toLowerCase() === 'r') {
+      event.preventDefault();
+      const older = searchHistory(
+        historyEntries(),
+        runtime.historyQuery.value,
+        historySearchMatch?.index ?? historyEntries().length
+      );
+      historySearchMatch = older ?? historySearchMatch;
+      showHistorySearchMatch();
+    }
+  });
+
+  function measureWindowSize(): TerminalWindowSize | null {
+    if (runtime.terminal) {
+      const { cols, rows } = runtime.terminal;
+      return cols > 0 && rows > 0 ? { cols, rows } : null;
+    }
+
+    // DOM fallback: estimate the grid from the output box and a monospace cell width.
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    const computed = window.getComputedStyle(runtime.outputElement);
+    const fontSize = Number.parseFloat(computed.fontSize);
+    const paddingLeft = Number.parseFloat(computed.paddingLeft) || 0;
+    const paddingRight = Number.parseFloat(computed.paddingRight) || 0;
+    const width = runtime.outputElement.clientWidth - paddingLeft - paddingRight;
+    if (!Number.isFinite(fontSize) || fontSize <= 0 || width <= 0) {
+      return null;
+    }
+    return {
+      cols: Math.max(1, Math.floor(width / (fontSize * 0.6))),
+      rows: Math.max(1, runtime.maxOutputLines)
+    };
+  }
+
+  function sendWindowSize(): boolean {
+    if (!isSocketOpen()) {
+      return false;
+    }
+
+    const size = measureWindowSize();
+    if (!size) {
+      return false;
+    }
+    if (lastSentWindowSize && lastSentWindowSize.cols === size.cols && lastSentWindowSize.rows === size.rows) {
+      return false;
+    }
+
+    try {
+      runtime.socket?.send(encodeControlMessage({ type: 'resize', cols: size.cols, rows: size.rows }));
+      lastSentWindowSize = size;
+      sessionRecorder.recordResize(size.cols, size.rows);
+      return true;
+    } catch (error) {
+      console.warn('Failed to send terminal window size', error);
+      return false;
+    }
+  }
 
   function sendTextPayload(rawValue: string): boolean {
     if (!rawValue) {
@@ -3324,7 +5080,9 @@ const createRuntime = (
 
     try {
       runtime.socket?.send(textEncoder.encode(payload));
-      markBridgeActivity();
+      if (runtime.entryPreferences.recordInput) {
+        sessionRecorder.recordInput(payload);
+      }
       return true;
     } catch (error) {
       console.warn('Failed to send terminal payload', error);
@@ -3361,6 +5119,14 @@ const createRuntime = (
       return;
     }
 
+    historyCursor.reset();
+    const target = historyTarget();
+    // A line identical to the saved password is the answer to a login prompt.
+    if (target && !(runtime.passwordInput.value && value === runtime.passwordInput.value)) {
+      commandHistory.record(target, value);
+    }
+    applySentCommand(store, value);
+
     maybeSendLightModePaletteCommand();
 
     const paletteMatch = trimmed.match(/^\/?palette\s+(.*)$/i);
@@ -3381,9 +5147,72 @@ const createRuntime = (
     }
   };
 
+  function setCaptureValue(value: string) {
+    runtime.captureElement.value = value;
+    scheduleEntryResize();
+    try {
+      const position = runtime.captureElement.value.length;
+      runtime.captureElement.setSelectionRange(position, position);
+    } catch (error) {
+      // Ignore selection errors
+    }
+    updateEntryControls();
+  }
+
+  function returnOfflineQueueToBuffer() {
+    if (offlineQueue.length === 0) {
+      return;
+    }
+    const queued = offlineQueue.splice(0, offlineQueue.length).join('\n');
+    const buffered = normaliseBufferValue(runtime.captureElement.value);
+    setCaptureValue([queued, buffered].filter(Boolean).join('\n'));
+  }
+
+  // Runs once the BBS session is usable again: clears the backoff and offers to send what was queued offline.
+  function handleSessionReady() {
+    stopReconnecting();
+    if (offlineQueue.length === 0) {
+      return;
+    }
+
+    const preview = offlineQueue.slice(0, 5).map((line) => `  ${line}`).join('\n');
+    const more = offlineQueue.length > 5 ? `\n  …and ${offlineQueue.length - 5} more` : '';
+    const confirmed = window.confirm(
+      `Send ${offlineQueue.length} line${offlineQueue.length === 1 ? '' : 's'} queued while offline?\n\n${preview}${more}`
+    );
+    if (!confirmed) {
+      returnOfflineQueueToBuffer();
+      setEntryStatus('Queued lines were moved back to the buffer.', 'muted');
+      return;
+    }
+
+    let sentCount = 0;
+    while (offlineQueue.length > 0) {
+      const line = offlineQueue[0];
+      if (!sendTextPayload(`${line}\n`)) {
+        returnOfflineQueueToBuffer();
+        return;
+      }
+      offlineQueue.shift();
+      handleUserLineSent(line);
+      sentCount += 1;
+    }
+    setEntryStatus(`Sent ${sentCount} queued line${sentCount === 1 ? '' : 's'} to the bridge.`, 'default');
+  }
+
   function flushNextBufferedLine(allowBlank = false, flushAll = false): boolean {
     const buffered = normaliseBufferValue(runtime.captureElement.value);
 
+    if (reconnecting && !runtime.connected && buffered) {
+      offlineQueue.push(...(flushAll ? buffered.split('\n') : [buffered.split('\n', 1)[0]]));
+      setCaptureValue(flushAll ? '' : buffered.slice(buffered.split('\n', 1)[0].length + 1));
+      setEntryStatus(
+        `Queued ${offlineQueue.length} line${offlineQueue.length === 1 ? '' : 's'}. They will be sent after reconnecting.`,
+        'muted'
+      );
+      return true;
+    }
+
     if (!buffered) {
       if (!allowBlank) {
         setEntryStatus('Buffer is empty. Type a command first or press Enter to send a blank line.', 'muted');
@@ -3421,6 +5250,16 @@ const createRuntime = (
       remainder = '';
     }
 
+    // Catch malformed arguments to commands we know before the BBS answers with a generic error.
+    // Unknown commands pass through.
+    for (const line of linesToSend) {
+      const parsed = line.trimStart().startsWith('/') ? parseCommand(line) : null;
+      if (parsed && !parsed.ok && parsed.known) {
+        setEntryStatus(parsed.error, 'error');
+        return false;
+      }
+    }
+
     let sentCount = 0;
     for (const line of linesToSend) {
       const sent = sendTextPayload(`${line}\n`);
@@ -3524,6 +5363,52 @@ const createRuntime = (
     };
 
     runtime.captureElement.addEventListener('keydown', (event) => {
+      const suggesting = Boolean(completion && completion.items.length > 0);
+      if (suggesting && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+          event.preventDefault();
+          moveCompletion(event.key === 'ArrowDown' ? 1 : -1);
+          return;
+        }
+
+        if ((event.key === 'Tab' || (event.key === 'Enter' && completionNavigated)) && !event.shiftKey) {
+          event.preventDefault();
+          acceptCompletion(completionIndex);
+          return;
+        }
+
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          closeCompletion();
+          return;
+        }
+      }
+
+      if (event.altKey && !event.ctrlKey && !event.metaKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+        event.preventDefault();
+        recallHistory(event.key === 'ArrowUp' ? 'older' : 'newer');
+        return;
+      }
+
+      if (event.ctrlKey && !event.altKey && !event.metaKey && event.key.toLowerCase() === 'r') {
+        event.preventDefault();
+        openHistorySearch();
+        return;
+      }
+
+      if ((event.ctrlKey || event.metaKey) && event.shiftKey && !event.altKey && event.code === 'KeyF') {
+        event.preventDefault();
+        openOutputSearch();
+        return;
+      }
+
+      // event.code, because Option+O types a character on macOS.
+      if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyO') {
+        event.preventDefault();
+        openLatestLink();
+        return;
+      }
+
       const editingBuffer = isEditingMultilineBuffer();
 
       if (event.key === 'Enter') {
@@ -3753,7 +5638,9 @@ const createRuntime = (
       runtime.fitAddon.dispose();
       runtime.fitAddon = null;
     }
-    runtime.outputElement.classList.remove('terminal-chat__output--xterm');
+    runtime.screen = null;
+    screenLineElements.clear();
+    runtime.outputElement.classList.remove('terminal-chat__output--xterm', 'terminal-chat__output--screen');
     runtime.shellElement.classList.remove('terminal-chat--xterm-ready');
     runtime.outputElement.replaceChildren();
     detachThemeListener();
@@ -0,0 +1,165 @@
+import { commandDefinitions } from '../data/commandDefinitions.js';
+import type { CommandAction } from '../data/commandDefinitions.js';
+import { formatUsage } from '../state/commandGrammar.js';
+import type { CommandDefinition, CompletionSource } from '../state/commandGrammar.js';
+import { findInvocation, subcommandsOf } from '../state/commandParser.js';
+
+// Suggestions for the entry buffer while a slash command is being typed. Pure: the terminal passes the
+// buffer, the caret and the live values it knows about, and renders whatever comes back.
+
+export type CompletionCandidate = {
+  value: string;
+  detail?: string;
+};
+
+export type CompletionContext = Partial<Record<CompletionSource, readonly CompletionCandidate[]>>;
+
+export type CompletionItem = {
+  label: string;
+  insert: string;
+  detail?: string;
+};
+
+export type CompletionHint = {
+  head: string;
+  args: string[];
+  // Index into `args` of the argument under the caret, or -1 while the command name is typed.
+  active: number;
+};
+
+export type CompletionResult = {
+  // Range of the buffer that accepting an item replaces.
+  from: number;
+  to: number;
+  items: CompletionItem[];
+  hint: CompletionHint | null;
+};
+
+export const MAX_COMPLETIONS = 8;
+
+// Subsequence match: every query character must appear in order. Prefixes and runs score higher, and
+// shorter candidates win ties.
+export const fuzzyScore = (query: string, candidate: string): number | null => {
+  const needle = query.toLowerCase();
+  const haystack = candidate.toLowerCase();
+  if (!needle) {
+    return 0;
+  }
+  if (haystack.startsWith(needle)) {
+    return 1000 - haystack.length;
+  }
+  let score = 0;
+  let position = -1;
+  let run = 0;
+  for (const character of needle) {
+    const next = haystack.indexOf(character, position + 1);
+    if (next === -1) {
+      return null;
+    }
+    run = next === position + 1 ? run + 1 : 0;
+    score += 10 + run * 5 - (next - position - 1);
+    position = next;
+  }
+  return score - haystack.length;
+};
+
+const rank = <T>(query: string, entries: T[], key: (entry: T) => string) =>
+  entries
+    .map((entry) => ({ entry, score: fuzzyScore(query, key(entry)) }))
+    .filter((ranked): ranked is { entry: T; score: number } => ranked.score !== null)
+    .sort((left, right) => right.score - left.score)
+    .slice(0, MAX_COMPLETIONS)
+    .map((ranked) => ranked.entry);
+
+const describe = (definition: CommandDefinition<CommandAction>) =>
+  definition.help ?? definition.catalog?.description;
+
+const hintFor = (definition: CommandDefinition<CommandAction>, invokedAs: string, active: number): CompletionHint => ({
+  head: definition.head ?? `/${[invokedAs, ...definition.name.split(' ').slice(1)].join(' ')}`,
+  args: definition.args.map((arg) => arg.usage),
+  active
+});
+
+const completeCommandName = (query: string, from: number, to: number): CompletionResult => {
+  const names = commandDefinitions.flatMap((definition) =>
+    [definition.name, ...(definition.aliases ?? [])].map((name) => ({ name, definition }))
+  );
+  const items = rank(query, names, (entry) => entry.name).map(({ name, definition }) => ({
+    label: formatUsage({ ...definition, head: `/${name}` }),
+    insert: `/${name}${definition.args.length > 0 ? ' ' : ''}`,
+    detail: describe(definition)
+  }));
+  const exact = names.find((entry) => entry.name.toLowerCase() === query.toLowerCase());
+  return { from, to, items, hint: exact ? hintFor(exact.definition, exact.name, -1) : null };
+};
+
+export const completeCommandLine = (
+  value: string,
+  caret: number,
+  context: CompletionContext = {}
+): CompletionResult | null => {
+  const lineStart = value.lastIndexOf('\n', caret - 1) + 1;
+  const line = value.slice(lineStart, caret);
+  if (!line.startsWith('/')) {
+    return null;
+  }
+
+  const body = line.slice(1);
+  const endsWithSpace = /\s$/u.test(body);
+  const tokens = body.split(/\s+/u).filter(Boolean);
+  const partial = endsWithSpace ? '' : tokens[tokens.length - 1] ?? '';
+  const complete = endsWithSpace ? tokens : tokens.slice(0, -1);
+  const partialFrom = caret - partial.length;
+
+  if (complete.length === 0) {
+    return completeCommandName(partial, lineStart, caret);
+  }
+
+  const invocation = findInvocation(complete);
+  const subcommands = subcommandsOf(complete[0].toLowerCase());
+  if (subcommands.length > 0 && (!invocation || invocation.consumed === 1) && complete.length === 1) {
+    // "/rss r" – offer the subcommands of the word already typed.
+    const items = rank(partial, [...subcommands], (definition) => definition.name.split(' ')[1]).map(
+      (definition) => ({
+        label: formatUsage(definition),
+        insert: `${definition.name.split(' ')[1]}${definition.args.length > 0 ? ' ' : ''}`,
+        detail: describe(definition)
+      })
+    );
+    if (items.length > 0) {
+      return { from: partialFrom, to: caret, items, hint: null };
+    }
+  }
+
+  if (!invocation) {
+    return null;
+  }
+
+  const { definition, consumed, invokedAs } = invocation;
+  let index = complete.length - consumed;
+  // Once a rest-of-line argument starts, everything after it belongs to that argument.
+  const restIndex = definition.args.findIndex((arg) => arg.rest);
+  if (restIndex !== -1 && index > restIndex) {
+    index = restIndex;
+  }
+  if (index >= definition.args.length) {
+    return { from: caret, to: caret, items: [], hint: hintFor(definition, invokedAs, -1) };
+  }
+
+  const arg = definition.args[index];
+  const typingRest = arg.rest && complete.length - consumed > index;
+  const candidates: CompletionCandidate[] = typingRest
+    ? []
+    : arg.choices
+      ? arg.choices.map((choiceValue) => ({ value: choiceValue }))
+      : arg.source
+        ? [...(context[arg.source] ?? [])]
+        : [];
+  const followedByMore = index < definition.args.length - 1;
+  const items = rank(partial, candidates, (candidate) => candidate.value).map((candidate) => ({
+    label: candidate.value,
+    insert: `${candidate.value}${followedByMore ? ' ' : ''}`,
+    detail: candidate.detail
+  }));
+  return { from: partialFrom, to: caret, items, hint: hintFor(definition, invokedAs, index) };
+};
@@ -0,0 +1,179 @@
+// Lines sent from the entry buffer, kept per BBS target so recall and reverse search only offer what was
+// typed on that server. Targets are the identity keys the terminal derives from protocol, host and port.
+
+export const COMMAND_HISTORY_STORAGE_KEY = 'chatter-terminal-history';
+export const DEFAULT_HISTORY_LIMIT = 200;
+export const MAX_HISTORY_LIMIT = 5000;
+
+// Commands whose arguments are credentials never enter the history.
+const SECRET_COMMAND_PATTERN = /^\/(?:login|register|passwd|password|pass|identify|auth)(?:\s|$)/iu;
+
+export const isSecretLine = (line: string) => SECRET_COMMAND_PATTERN.test(line.trim());
+
+export const clampHistoryLimit = (value: number) =>
+  Number.isFinite(value) ? Math.min(MAX_HISTORY_LIMIT, Math.max(0, Math.floor(value))) : DEFAULT_HISTORY_LIMIT;
+
+export type HistoryStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export type CommandHistoryOptions = {
+  storage?: HistoryStorage | null;
+  limit?: number;
+  key?: string;
+};
+
+export type CommandHistory = {
+  readonly limit: number;
+  entries: (target: string) => readonly string[];
+  // Returns false when the line was not stored: blank, a credential, or history is switched off.
+  record: (target: string, line: string) => boolean;
+  // Forgets one target, or every target when none is given.
+  clear: (target?: string) => void;
+  setLimit: (limit: number) => void;
+};
+
+const readStoredHistory = (storage: HistoryStorage | null, key: string): Map<string, string[]> => {
+  const result = new Map<string, string[]>();
+  if (!storage) {
+    return result;
+  }
+
+  try {
+    const raw = storage.getItem(key);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+    if (!parsed || typeof parsed !== 'object') {
+      return result;
+    }
+    for (const [target, lines] of Object.entries(parsed)) {
+      if (Array.isArray(lines)) {
+        result.set(target, lines.filter((line): line is string => typeof line === 'string'));
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read command history', error);
+  }
+  return result;
+};
+
+export const createCommandHistory = (options: CommandHistoryOptions = {}): CommandHistory => {
+  const storage = options.storage ?? null;
+  const key = options.key ?? COMMAND_HISTORY_STORAGE_KEY;
+  let limit = clampHistoryLimit(options.limit ?? DEFAULT_HISTORY_LIMIT);
+  const histories = readStoredHistory(storage, key);
+
+  const persist = () => {
+    if (!storage) {
+      return;
+    }
+    try {
+      const populated = Array.from(histories).filter(([, lines]) => lines.length > 0);
+      if (populated.length === 0) {
+        storage.removeItem(key);
+      } else {
+        storage.setItem(key, JSON.stringify(Object.fromEntries(populated)));
+      }
+    } catch (error) {
+      console.warn('Failed to persist command history', error);
+    }
+  };
+
+  const trim = () => {
+    for (const [target, lines] of histories) {
+      if (lines.length > limit) {
+        histories.set(target, lines.slice(lines.length - limit));
+      }
+    }
+  };
+
+  trim();
+
+  return {
+    get limit() {
+      return limit;
+    },
+    entries: (target) => histories.get(target) ?? [],
+    record: (target, line) => {
+      if (limit === 0 || !line.trim() || isSecretLine(line)) {
+        return false;
+      }
+      // Repeats move to the end instead of piling up, so recall walks distinct lines.
+      const lines = (histories.get(target) ?? []).filter((entry) => entry !== line);
+      lines.push(line);
+      histories.set(target, lines.length > limit ? lines.slice(lines.length - limit) : lines);
+      persist();
+      return true;
+    },
+    clear: (target) => {
+      if (target === undefined) {
+        histories.clear();
+      } else {
+        histories.delete(target);
+      }
+      persist();
+    },
+    setLimit: (next) => {
+      limit = clampHistoryLimit(next);
+      trim();
+      persist();
+    }
+  };
+};
+
+export type HistoryCursor = {
+  // Steps to an older entry. The first step remembers `draft` so stepping back past the newest entry
+  // restores what was being typed.
+  older: (draft: string) => string | null;
+  newer: () => string | null;
+  reset: () => void;
+};
+
+export const createHistoryCursor = (entries: () => readonly string[]): HistoryCursor => {
+  // 0 is the draft; n is the nth most recent entry.
+  let depth = 0;
+  let draft = '';
+
+  return {
+    older: (current) => {
+      const lines = entries();
+      if (depth >= lines.length) {
+        return null;
+      }
+      if (depth === 0) {
+        draft = current;
+      }
+      depth += 1;
+      return lines[lines.length - depth];
+    },
+    newer: () => {
+      if (depth === 0) {
+        return null;
+      }
+      depth -= 1;
+      const lines = entries();
+      return depth === 0 ? draft : lines[lines.length - depth] ?? draft;
+    },
+    reset: () => {
+      depth = 0;
+      draft = '';
+    }
+  };
+};
+
+export type HistoryMatch = {
+  index: number;
+  line: string;
+};
+
+// The most recent entry before `before` that contains `query`, ignoring case.
+export const searchHistory = (
+  entries: readonly string[],
+  query: string,
+  before = entries.length
+): HistoryMatch | null => {
+  const needle = query.toLowerCase();
+  for (let index = Math.min(before, entries.length) - 1; index >= 0; index -= 1) {
+    if (entries[index].toLowerCase().includes(needle)) {
+      return { index, line: entries[index] };
+    }
+  }
+  return null;
+};
@@ -27,6 +27,7 @@ export type ChatterRuntimeConfig = {
   bbsPortDefault?: string;
   bbsHostPlaceholder?: string;
   webServiceDomain?: string;
+  connectTickets?: 'required';
 };
 
 export const resolveChatterRuntimeConfig = (): ChatterRuntimeConfig => {
@@ -86,5 +87,10 @@ export const resolveChatterRuntimeConfig = (): ChatterRuntimeConfig => {
     config.webServiceDomain = serviceDomain;
   }
 
+  const { value: connectTickets } = readEnvValue('CHATTER_CONNECT_TICKETS');
+  if (connectTickets && !['0', 'false', 'no', 'off'].includes(connectTickets.toLowerCase())) {
+    config.connectTickets = 'required';
+  }
+
   return config;
 };
@@ -0,0 +1,79 @@
+import { escapeRegExp } from './outputSearch.js';
+
+// Highlight rules mark output lines worth noticing: the user's own nickname and any words or /regexes/ they add.
+// Rules are stored as the text the user typed, one per entry, and compiled here.
+
+export const MAX_HIGHLIGHT_RULES = 50;
+
+export type HighlightRule = {
+  source: string;
+  pattern: RegExp;
+};
+
+export type ParsedHighlightRules = {
+  rules: HighlightRule[];
+  errors: string[];
+};
+
+export type Highlighter = (line: string) => boolean;
+
+const REGEX_RULE_PATTERN = /^\/(.+)\/(i?)$/u;
+
+// Plain words match whole words only, so "al" does not light up every "also".
+export const wordPattern = (word: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(word)}(?![\\p{L}\\p{N}_])`, 'iu');
+
+export const parseHighlightRules = (entries: readonly string[]): ParsedHighlightRules => {
+  const rules: HighlightRule[] = [];
+  const errors: string[] = [];
+  for (const entry of entries) {
+    const source = entry.trim();
+    if (!source) {
+      continue;
+    }
+    if (rules.length >= MAX_HIGHLIGHT_RULES) {
+      errors.push(`Only the first ${MAX_HIGHLIGHT_RULES} highlight rules are used.`);
+      break;
+    }
+    const regex = source.match(REGEX_RULE_PATTERN);
+    if (!regex) {
+      rules.push({ source, pattern: wordPattern(source) });
+      continue;
+    }
+    try {
+      rules.push({ source, pattern: new RegExp(regex[1], regex[2] ? 'iu' : 'u') });
+    } catch (error) {
+      errors.push(`${source}: ${error instanceof Error ? error.message : 'invalid regular expression'}`);
+    }
+  }
+  return { rules, errors };
+};
+
+// A chat line the user wrote themselves, as "[12:00] name: text", "<name> text" or "name ↳ #4: text".
+export const isOwnLine = (line: string, nickname: string) => {
+  if (!nickname) {
+    return false;
+  }
+  const name = escapeRegExp(nickname);
+  const author = new RegExp(`^(?:\\[[^\\]]*\\]\\s*)*(?:<${name}>|${name}(?::|\\s+(?:↳|\\(re)))`, 'iu');
+  return author.test(line.trimStart());
+};
+
+// Null when there is nothing to match, so callers can skip reading lines at all.
+export const createHighlighter = (options: {
+  nickname: string;
+  highlightNickname: boolean;
+  rules: readonly HighlightRule[];
+}): Highlighter | null => {
+  const nickname = options.nickname.trim();
+  const patterns = options.rules.map((rule) => rule.pattern);
+  if (options.highlightNickname && nickname) {
+    patterns.unshift(wordPattern(nickname));
+  }
+  if (patterns.length === 0) {
+    return null;
+  }
+  return (line) => !isOwnLine(line, nickname) && patterns.some((pattern) => pattern.test(line));
+};
+
+export const formatUnreadTitle = (title: string, unread: number) => (unread > 0 ? `(${unread}) ${title}` : title);
@@ -0,0 +1,75 @@
+// URL handling for terminal output: plain URLs found in the text, OSC 8 hyperlinks sent by the host, and the
+// checks every link passes before the browser is allowed to open it.
+
+export const LINK_SCHEMES: readonly string[] = ['https:', 'http:', 'mailto:'];
+
+export type UrlMatch = {
+  start: number;
+  end: number;
+  url: string;
+};
+
+// Control characters end a URL too, so one coloured with SGR stops at the next escape sequence.
+const URL_PATTERN = /https?:\/\/[^\s<>"'`\u0000-\u001f\u007f]+/giu;
+const OSC_8_PATTERN = /\u001b\]8;[^;\u0007\u001b]*;([^\u0007\u001b]*)(?:\u0007|\u001b\\)/gu;
+const TRAILING_PUNCTUATION = /[.,;:!?'"*]+$/u;
+const BRACKET_PAIRS: Record<string, string> = { ')': '(', ']': '[', '}': '{', '>': '<' };
+
+const count = (value: string, char: string) => value.split(char).length - 1;
+
+// Sentence punctuation and unbalanced closing brackets after a URL belong to the surrounding text:
+// "(see https://example.com/a_(b))." keeps the inner parentheses but not the outer one or the period.
+const trimUrl = (candidate: string) => {
+  let url = candidate;
+  for (;;) {
+    const withoutPunctuation = url.replace(TRAILING_PUNCTUATION, '');
+    const last = withoutPunctuation.slice(-1);
+    const opening = BRACKET_PAIRS[last];
+    if (opening && count(withoutPunctuation, last) > count(withoutPunctuation, opening)) {
+      url = withoutPunctuation.slice(0, -1);
+    } else {
+      return withoutPunctuation;
+    }
+  }
+};
+
+export const findUrls = (text: string): UrlMatch[] => {
+  const matches: UrlMatch[] = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = trimUrl(match[0]);
+    const start = match.index ?? 0;
+    if (parseSafeUrl(url)) {
+      matches.push({ start, end: start + url.length, url });
+    }
+  }
+  return matches;
+};
+
+// Null unless the value is an absolute URL whose scheme is on the allow-list.
+export const parseSafeUrl = (value: string): URL | null => {
+  try {
+    const url = new URL(value.trim());
+    return LINK_SCHEMES.includes(url.protocol) ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+// Anything but HTTPS travels in the clear or leaves the browser, so opening it asks first.
+export const needsLinkConfirmation = (url: URL) => url.protocol !== 'https:';
+
+// The link that appears last in raw terminal output, whether an OSC 8 target or a plain URL.
+export const lastLinkIn = (output: string): string | null => {
+  let latest: { index: number; url: string } | null = null;
+  for (const match of output.matchAll(OSC_8_PATTERN)) {
+    const url = parseSafeUrl(match[1]);
+    if (url && (!latest || (match.index ?? 0) >= latest.index)) {
+      latest = { index: match.index ?? 0, url: url.href };
+    }
+  }
+  const plain = findUrls(output).pop();
+  if (plain && (!latest || plain.start > latest.index)) {
+    return plain.url;
+  }
+  return latest?.url ?? null;
+};
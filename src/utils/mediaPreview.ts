@@ -0,0 +1,83 @@
+import type { AttachmentKind } from '../state/types.js';
+import { parseSafeUrl } from './links.js';
+
+// Previews are fetched from whatever host the sender linked, so the terminal caps what it will pull in.
+export const MAX_PREVIEW_BYTES = 10 * 1024 * 1024;
+export const MAX_PREVIEW_CARDS = 20;
+
+const EXTENSION_KINDS: Record<string, AttachmentKind> = {
+  apng: 'image',
+  avif: 'image',
+  gif: 'image',
+  jpeg: 'image',
+  jpg: 'image',
+  png: 'image',
+  svg: 'image',
+  webp: 'image',
+  m4v: 'video',
+  mov: 'video',
+  mp4: 'video',
+  ogv: 'video',
+  webm: 'video',
+  flac: 'audio',
+  m4a: 'audio',
+  mp3: 'audio',
+  oga: 'audio',
+  ogg: 'audio',
+  opus: 'audio',
+  wav: 'audio'
+};
+
+// Only web URLs are previewed; mailto: and the like have nothing to show.
+export const parsePreviewUrl = (value: string): URL | null => {
+  const url = parseSafeUrl(value);
+  return url && (url.protocol === 'https:' || url.protocol === 'http:') ? url : null;
+};
+
+// The kind implied by the file extension, or null when the path does not name a media file.
+export const attachmentKindFromUrl = (value: string): AttachmentKind | null => {
+  const url = parsePreviewUrl(value);
+  const extension = url?.pathname.match(/\.([a-z0-9]+)$/iu)?.[1].toLowerCase();
+  return extension ? EXTENSION_KINDS[extension] ?? null : null;
+};
+
+export type PreviewAction = 'load' | 'too-large' | 'ask';
+
+// What a card does once its HEAD request is answered. The size cap only holds when the host exposes
+// Content-Length, which most cross-origin hosts do not, so media of unknown size loads on a click, never on its own.
+export const previewAction = (size: number | null, requested: boolean): PreviewAction => {
+  if (size !== null && size > MAX_PREVIEW_BYTES) {
+    return 'too-large';
+  }
+  return size === null && !requested ? 'ask' : 'load';
+};
+
+export const attachmentFileName = (value: string) => {
+  const url = parsePreviewUrl(value);
+  if (!url) {
+    return value;
+  }
+  const segment = url.pathname.split('/').filter(Boolean).pop();
+  if (!segment) {
+    return url.host;
+  }
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export const formatByteSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+};
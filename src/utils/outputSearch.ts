@@ -0,0 +1,63 @@
+// Find-in-output over the terminal's lines, shared by the xterm.js buffer and the DOM renderer. Each renderer
+// supplies its lines as plain text and maps the matched offsets back onto what it drew.
+
+export const MAX_SEARCH_MATCHES = 1000;
+
+export type OutputSearchOptions = {
+  caseSensitive: boolean;
+  regex: boolean;
+};
+
+export type OutputSearchMatch = {
+  line: number;
+  start: number;
+  end: number;
+};
+
+export type CompiledSearch = { ok: true; pattern: RegExp } | { ok: false; error: string };
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/gu, '\\$&');
+
+export const compileSearch = (query: string, options: OutputSearchOptions): CompiledSearch => {
+  if (!query) {
+    return { ok: false, error: 'Type something to find.' };
+  }
+  const flags = options.caseSensitive ? 'gu' : 'giu';
+  try {
+    return { ok: true, pattern: new RegExp(options.regex ? query : escapeRegExp(query), flags) };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Invalid regular expression.' };
+  }
+};
+
+// Matches in reading order, stopping at `limit`. Empty matches (a regex like `a*`) are skipped.
+export const findOutputMatches = (
+  lines: readonly string[],
+  pattern: RegExp,
+  limit = MAX_SEARCH_MATCHES
+): OutputSearchMatch[] => {
+  const matches: OutputSearchMatch[] = [];
+  const global = pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+  for (let line = 0; line < lines.length && matches.length < limit; line += 1) {
+    for (const match of lines[line].matchAll(global)) {
+      if (match[0].length === 0) {
+        continue;
+      }
+      const start = match.index ?? 0;
+      matches.push({ line, start, end: start + match[0].length });
+      if (matches.length >= limit) {
+        break;
+      }
+    }
+  }
+  return matches;
+};
+
+// Index of the first match at or after `line`, wrapping to the start; used to begin near what is on screen.
+export const nearestMatch = (matches: readonly OutputSearchMatch[], line: number) => {
+  if (matches.length === 0) {
+    return -1;
+  }
+  const index = matches.findIndex((match) => match.line >= line);
+  return index === -1 ? 0 : index;
+};
@@ -0,0 +1,1144 @@
+// src/utils/screenBuffer.ts
+
+// A VT100/xterm-style screen model for the DOM renderer the terminal falls back to when xterm.js cannot be
+// loaded. It keeps a grid of styled cells, the cursor, scroll margins, the alternate screen and a capped
+// scrollback; turning lines into elements is left to the renderer.
+// Reference: https://invisible-island.net/xterm/ctlseqs/ctlseqs.html
+
+// A palette index (0-255), a '#rrggbb' colour, or null for the default.
+export type CellColor = number | string | null;
+
+export interface CellStyle {
+  readonly fg: CellColor;
+  readonly bg: CellColor;
+  readonly bold: boolean;
+  readonly dim: boolean;
+  readonly italic: boolean;
+  readonly underline: boolean;
+  readonly blink: boolean;
+  readonly inverse: boolean;
+  readonly hidden: boolean;
+  readonly strikethrough: boolean;
+  // Target of the OSC 8 hyperlink the cell was written under, exactly as the host sent it.
+  readonly link: string | null;
+}
+
+export const DEFAULT_CELL_STYLE: CellStyle = Object.freeze({
+  fg: null,
+  bg: null,
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  blink: false,
+  inverse: false,
+  hidden: false,
+  strikethrough: false,
+  link: null
+});
+
+export interface Cell {
+  readonly char: string;
+  readonly style: CellStyle;
+}
+
+export interface ScreenLine {
+  readonly id: number;
+  // Bumped on every change, so a renderer can skip lines it has already drawn.
+  readonly revision: number;
+  // May be shorter than the screen width; missing cells are blank.
+  readonly cells: readonly Cell[];
+}
+
+export type ScreenRun = {
+  text: string;
+  style: CellStyle;
+};
+
+export type ScreenCursor = {
+  row: number;
+  col: number;
+  visible: boolean;
+};
+
+export type ScreenBufferOptions = {
+  cols: number;
+  rows: number;
+  scrollback?: number;
+  // Answers to device status and attribute queries, which the caller sends back to the host.
+  onReply?: (data: string) => void;
+};
+
+export type ScreenBuffer = {
+  readonly cols: number;
+  readonly rows: number;
+  readonly cursor: ScreenCursor;
+  readonly alternate: boolean;
+  write: (data: string) => void;
+  resize: (cols: number, rows: number) => void;
+  // Drops the scrollback and blanks the screen, keeping modes and attributes.
+  clear: () => void;
+  reset: () => void;
+  // Scrollback followed by the screen rows. The alternate screen has no scrollback.
+  lines: () => readonly ScreenLine[];
+  screenLines: () => readonly ScreenLine[];
+};
+
+export const DEFAULT_SCROLLBACK = 1000;
+
+const MAX_SEQUENCE_LENGTH = 256;
+const MAX_STRING_LENGTH = 4096;
+const TAB_WIDTH = 8;
+
+// DEC Special Graphics, selected with ESC ( 0, maps these to line-drawing characters.
+const DEC_SPECIAL_GRAPHICS: Record<string, string> = {
+  '`': '◆',
+  a: '▒',
+  b: '␉',
+  c: '␌',
+  d: '␍',
+  e: '␊',
+  f: '°',
+  g: '±',
+  h: '␤',
+  i: '␋',
+  j: '┘',
+  k: '┐',
+  l: '┌',
+  m: '└',
+  n: '┼',
+  o: '⎺',
+  p: '⎻',
+  q: '─',
+  r: '⎼',
+  s: '⎽',
+  t: '├',
+  u: '┤',
+  v: '┴',
+  w: '┬',
+  x: '│',
+  y: '≤',
+  z: '≥',
+  '{': 'π',
+  '|': '≠',
+  '}': '£',
+  '~': '·'
+};
+
+type MutableLine = {
+  id: number;
+  revision: number;
+  cells: Cell[];
+};
+
+type SavedCursor = {
+  row: number;
+  col: number;
+  style: CellStyle;
+  wrapPending: boolean;
+  originMode: boolean;
+  charsets: [boolean, boolean];
+  activeCharset: 0 | 1;
+};
+
+type ParserState = 'ground' | 'escape' | 'csi' | 'string';
+
+const sameStyle = (left: CellStyle, right: CellStyle) =>
+  left === right ||
+  (left.fg === right.fg &&
+    left.bg === right.bg &&
+    left.bold === right.bold &&
+    left.dim === right.dim &&
+    left.italic === right.italic &&
+    left.underline === right.underline &&
+    left.blink === right.blink &&
+    left.inverse === right.inverse &&
+    left.hidden === right.hidden &&
+    left.strikethrough === right.strikethrough &&
+    left.link === right.link);
+
+// East Asian wide and fullwidth characters, including Hangul syllables, take two columns.
+const WIDE_RANGES: readonly [number, number][] = [
+  [0x1100, 0x115f],
+  [0x231a, 0x231b],
+  [0x2329, 0x232a],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xa960, 0xa97f],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe30, 0xfe4f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x1f300, 0x1f64f],
+  [0x1f900, 0x1f9ff],
+  [0x20000, 0x3fffd]
+];
+
+// Combining marks, zero-width joiners and variation selectors attach to the previous cell.
+const ZERO_WIDTH_RANGES: readonly [number, number][] = [
+  [0x0300, 0x036f],
+  [0x1160, 0x11ff],
+  [0x200b, 0x200f],
+  [0x20d0, 0x20ff],
+  [0xfe00, 0xfe0f],
+  [0xfe20, 0xfe2f]
+];
+
+const inRanges = (code: number, ranges: readonly [number, number][]) =>
+  ranges.some(([start, end]) => code >= start && code <= end);
+
+export const charWidth = (char: string): 0 | 1 | 2 => {
+  const code = char.codePointAt(0) ?? 0;
+  if (inRanges(code, ZERO_WIDTH_RANGES)) {
+    return 0;
+  }
+  return inRanges(code, WIDE_RANGES) ? 2 : 1;
+};
+
+// The right half of a wide character; it carries no text of its own.
+const WIDE_CONTINUATION = '';
+
+const isBlank = (cell: Cell) => cell.char === ' ' && sameStyle(cell.style, DEFAULT_CELL_STYLE);
+
+// Adjacent cells with the same style merged into runs. Trailing default blanks are dropped.
+export const lineRuns = (line: ScreenLine): ScreenRun[] => {
+  let end = line.cells.length;
+  while (end > 0 && isBlank(line.cells[end - 1])) {
+    end -= 1;
+  }
+  const runs: ScreenRun[] = [];
+  for (let index = 0; index < end; index += 1) {
+    const cell = line.cells[index];
+    const previous = runs[runs.length - 1];
+    if (previous && sameStyle(previous.style, cell.style)) {
+      previous.text += cell.char;
+    } else {
+      runs.push({ text: cell.char, style: cell.style });
+    }
+  }
+  return runs;
+};
+
+export const lineText = (line: ScreenLine) => line.cells.map((cell) => cell.char).join('').trimEnd();
+
+// 38;5;n and 38;2;r;g;b, in either the semicolon or the colon form. Returns the colour and how many
+// extra parameters it used.
+const readExtendedColor = (params: string[], index: number): [CellColor | undefined, number] => {
+  const head = params[index];
+  const parts = head.includes(':') ? head.split(':').slice(1) : params.slice(index + 1);
+  const used = head.includes(':') ? 0 : undefined;
+  const mode = Number(parts[0]);
+  if (mode === 5) {
+    const colour = Number(parts[1]);
+    const valid = Number.isInteger(colour) && colour >= 0 && colour <= 255;
+    return [valid ? colour : undefined, used ?? 2];
+  }
+  if (mode === 2) {
+    // The colon form may carry a colour-space id before the components: 38:2::r:g:b.
+    const components = head.includes(':') && parts.length >= 5 ? parts.slice(2, 5) : parts.slice(1, 4);
+    const [r, g, b] = components.map(Number);
+    const valid = [r, g, b].every((value) => Number.isInteger(value) && value >= 0 && value <= 255);
+    const hex = valid
+      ? `#${[r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('')}`
+      : undefined;
+    return [hex, used ?? 4];
+  }
+  return [undefined, used ?? 1];
+};
+
+export const applySgr = (current: CellStyle, params: string[]): CellStyle => {
+  let style: { -readonly [K in keyof CellStyle]: CellStyle[K] } = { ...current };
+  const list = params.length === 0 ? ['0'] : params;
+  for (let index = 0; index < list.length; index += 1) {
+    const code = Number(list[index].split(':')[0] || '0');
+    if (code === 0) {
+      // A hyperlink is not a graphic rendition; only OSC 8 ends it.
+      style = { ...DEFAULT_CELL_STYLE, link: current.link };
+    } else if (code === 1) {
+      style.bold = true;
+    } else if (code === 2) {
+      style.dim = true;
+    } else if (code === 3) {
+      style.italic = true;
+    } else if (code === 4 || code === 21) {
+      style.underline = !list[index].endsWith(':0');
+    } else if (code === 5 || code === 6) {
+      style.blink = true;
+    } else if (code === 7) {
+      style.inverse = true;
+    } else if (code === 8) {
+      style.hidden = true;
+    } else if (code === 9) {
+      style.strikethrough = true;
+    } else if (code === 22) {
+      style.bold = false;
+      style.dim = false;
+    } else if (code === 23) {
+      style.italic = false;
+    } else if (code === 24) {
+      style.underline = false;
+    } else if (code === 25) {
+      style.blink = false;
+    } else if (code === 27) {
+      style.inverse = false;
+    } else if (code === 28) {
+      style.hidden = false;
+    } else if (code === 29) {
+      style.strikethrough = false;
+    } else if (code >= 30 && code <= 37) {
+      style.fg = code - 30;
+    } else if (code === 38 || code === 48) {
+      const [colour, used] = readExtendedColor(list, index);
+      index += used;
+      if (colour !== undefined) {
+        style[code === 38 ? 'fg' : 'bg'] = colour;
+      }
+    } else if (code === 39) {
+      style.fg = null;
+    } else if (code >= 40 && code <= 47) {
+      style.bg = code - 40;
+    } else if (code === 49) {
+      style.bg = null;
+    } else if (code >= 90 && code <= 97) {
+      style.fg = code - 90 + 8;
+    } else if (code >= 100 && code <= 107) {
+      style.bg = code - 100 + 8;
+    }
+  }
+  return sameStyle(style, current) ? current : sameStyle(style, DEFAULT_CELL_STYLE) ? DEFAULT_CELL_STYLE : style;
+};
+
+export const createScreenBuffer = (options: ScreenBufferOptions): ScreenBuffer => {
+  const scrollbackLimit = Math.max(0, options.scrollback ?? DEFAULT_SCROLLBACK);
+  let cols = Math.max(1, Math.floor(options.cols));
+  let rows = Math.max(1, Math.floor(options.rows));
+  let nextLineId = 1;
+
+  // Erased cells keep the current background colour but no other attributes.
+  const blankStyle = (style: CellStyle): CellStyle =>
+    style.bg === null ? DEFAULT_CELL_STYLE : { ...DEFAULT_CELL_STYLE, bg: style.bg };
+
+  const createLine = (style: CellStyle = DEFAULT_CELL_STYLE): MutableLine => ({
+    id: nextLineId++,
+    revision: 0,
+    // Lines scrolled in under a coloured background keep that colour across the full width.
+    cells: style.bg === null ? [] : Array.from({ length: cols }, () => ({ char: ' ', style: blankStyle(style) }))
+  });
+
+  const createScreen = () => Array.from({ length: rows }, () => createLine());
+
+  let mainScreen: MutableLine[] = createScreen();
+  let altScreen: MutableLine[] = createScreen();
+  let scrollback: MutableLine[] = [];
+  let alternate = false;
+  let screen = mainScreen;
+
+  let row = 0;
+  let col = 0;
+  let style: CellStyle = DEFAULT_CELL_STYLE;
+  let wrapPending = false;
+  let autowrap = true;
+  let insertMode = false;
+  let newlineMode = false;
+  let originMode = false;
+  let cursorVisible = true;
+  let scrollTop = 0;
+  let scrollBottom = rows - 1;
+  let tabStops = new Set<number>();
+  // G0 and G1: true when DEC Special Graphics is designated. SO/SI switch between them.
+  let charsets: [boolean, boolean] = [false, false];
+  let activeCharset: 0 | 1 = 0;
+  let lastPrinted = '';
+  let savedMain: SavedCursor | null = null;
+  let savedAlt: SavedCursor | null = null;
+
+  let state: ParserState = 'ground';
+  let sequence = '';
+  let stringTerminatorPending = false;
+  let stringIntroducer = '';
+  let pendingCharsetSlot: 0 | 1 | null = null;
+
+  const resetTabStops = () => {
+    tabStops = new Set(Array.from({ length: Math.ceil(cols / TAB_WIDTH) }, (_, index) => index * TAB_WIDTH));
+  };
+  resetTabStops();
+
+  const touch = (line: MutableLine) => {
+    line.revision += 1;
+  };
+
+  const currentLine = () => screen[row];
+
+  const setCell = (line: MutableLine, index: number, cell: Cell) => {
+    while (line.cells.length < index) {
+      line.cells.push({ char: ' ', style: DEFAULT_CELL_STYLE });
+    }
+    line.cells[index] = cell;
+  };
+
+  // Blanks [from, to) of a line with the current background.
+  const eraseCells = (line: MutableLine, from: number, to: number) => {
+    const blank = blankStyle(style);
+    const end = Math.min(to, cols);
+    if (blank === DEFAULT_CELL_STYLE && end >= line.cells.length) {
+      line.cells.length = Math.min(line.cells.length, from);
+    } else {
+      for (let index = from; index < end; index += 1) {
+        setCell(line, index, { char: ' ', style: blank });
+      }
+    }
+    touch(line);
+  };
+
+  const pushScrollback = (line: MutableLine) => {
+    if (scrollbackLimit === 0) {
+      return;
+    }
+    scrollback.push(line);
+    if (scrollback.length > scrollbackLimit) {
+      scrollback.splice(0, scrollback.length - scrollbackLimit);
+    }
+  };
+
+  const scrollUp = (count: number) => {
+    const amount = Math.min(count, scrollBottom - scrollTop + 1);
+    for (let step = 0; step < amount; step += 1) {
+      const [removed] = screen.splice(scrollTop, 1);
+      if (!alternate && scrollTop === 0) {
+        pushScrollback(removed);
+      }
+      screen.splice(scrollBottom, 0, createLine(style));
+    }
+  };
+
+  const scrollDown = (count: number) => {
+    const amount = Math.min(count, scrollBottom - scrollTop + 1);
+    for (let step = 0; step < amount; step += 1) {
+      screen.splice(scrollBottom, 1);
+      screen.splice(scrollTop, 0, createLine(style));
+    }
+  };
+
+  const lineFeed = () => {
+    wrapPending = false;
+    if (row === scrollBottom) {
+      scrollUp(1);
+    } else if (row < rows - 1) {
+      row += 1;
+    }
+    if (newlineMode) {
+      col = 0;
+    }
+  };
+
+  const reverseIndex = () => {
+    wrapPending = false;
+    if (row === scrollTop) {
+      scrollDown(1);
+    } else if (row > 0) {
+      row -= 1;
+    }
+  };
+
+  const clampColumn = (value: number) => Math.max(0, Math.min(cols - 1, value));
+
+  const moveTo = (targetRow: number, targetCol: number) => {
+    const top = originMode ? scrollTop : 0;
+    const bottom = originMode ? scrollBottom : rows - 1;
+    row = Math.max(top, Math.min(bottom, targetRow + top));
+    col = clampColumn(targetCol);
+    wrapPending = false;
+  };
+
+  // Overwriting either half of a wide character blanks the other half.
+  const clearWideNeighbours = (line: MutableLine, index: number, width: number) => {
+    if (line.cells[index]?.char === WIDE_CONTINUATION && index > 0) {
+      setCell(line, index - 1, { char: ' ', style: line.cells[index - 1].style });
+    }
+    const after = index + width;
+    if (line.cells[after]?.char === WIDE_CONTINUATION) {
+      setCell(line, after, { char: ' ', style: line.cells[after].style });
+    }
+  };
+
+  const print = (input: string) => {
+    const char = charsets[activeCharset] ? DEC_SPECIAL_GRAPHICS[input] ?? input : input;
+    const width = charWidth(char);
+    if (width === 0) {
+      const line = currentLine();
+      let target = wrapPending ? col : col - 1;
+      if (line.cells[target]?.char === WIDE_CONTINUATION) {
+        target -= 1;
+      }
+      const previous = line.cells[target];
+      if (previous) {
+        line.cells[target] = { char: previous.char + char, style: previous.style };
+        touch(line);
+      }
+      return;
+    }
+    if (wrapPending && autowrap) {
+      col = 0;
+      lineFeed();
+    }
+    if (width === 2 && col === cols - 1 && cols > 1) {
+      // A wide character never straddles the margin.
+      if (!autowrap) {
+        return;
+      }
+      eraseCells(currentLine(), col, cols);
+      col = 0;
+      lineFeed();
+    }
+    const line = currentLine();
+    if (insertMode && col < line.cells.length) {
+      line.cells.splice(col, 0, ...Array.from({ length: width }, () => ({ char: ' ', style: DEFAULT_CELL_STYLE })));
+      line.cells.length = Math.min(line.cells.length, cols);
+    }
+    clearWideNeighbours(line, col, width);
+    setCell(line, col, { char, style });
+    if (width === 2 && cols > 1) {
+      setCell(line, col + 1, { char: WIDE_CONTINUATION, style });
+    }
+    touch(line);
+    lastPrinted = char;
+    const next = col + (cols > 1 ? width : 1);
+    if (next >= cols) {
+      wrapPending = autowrap;
+      col = cols - 1;
+    } else {
+      col = next;
+    }
+  };
+
+  const saveCursor = () => {
+    const saved: SavedCursor = {
+      row,
+      col,
+      style,
+      wrapPending,
+      originMode,
+      charsets: [...charsets] as [boolean, boolean],
+      activeCharset
+    };
+    if (alternate) {
+      savedAlt = saved;
+    } else {
+      savedMain = saved;
+    }
+  };
+
+  const restoreCursor = () => {
+    const saved = alternate ? savedAlt : savedMain;
+    if (!saved) {
+      row = 0;
+      col = 0;
+      style = DEFAULT_CELL_STYLE;
+      wrapPending = false;
+      return;
+    }
+    row = Math.min(saved.row, rows - 1);
+    col = clampColumn(saved.col);
+    style = saved.style;
+    wrapPending = saved.wrapPending;
+    originMode = saved.originMode;
+    charsets = [...saved.charsets] as [boolean, boolean];
+    activeCharset = saved.activeCharset;
+  };
+
+  const eraseScreen = (lines: MutableLine[]) => {
+    for (const line of lines) {
+      eraseCells(line, 0, cols);
+    }
+  };
+
+  const switchScreen = (useAlternate: boolean, clearAlternate: boolean) => {
+    if (useAlternate === alternate) {
+      return;
+    }
+    alternate = useAlternate;
+    screen = alternate ? altScreen : mainScreen;
+    if (alternate && clearAlternate) {
+      altScreen = createScreen();
+      screen = altScreen;
+    }
+    for (const line of screen) {
+      touch(line);
+    }
+  };
+
+  const setMode = (params: number[], isPrivate: boolean, enabled: boolean) => {
+    for (const mode of params) {
+      if (!isPrivate) {
+        if (mode === 4) {
+          insertMode = enabled;
+        } else if (mode === 20) {
+          newlineMode = enabled;
+        }
+        continue;
+      }
+      if (mode === 6) {
+        originMode = enabled;
+        moveTo(0, 0);
+      } else if (mode === 7) {
+        autowrap = enabled;
+      } else if (mode === 25) {
+        cursorVisible = enabled;
+      } else if (mode === 47) {
+        switchScreen(enabled, false);
+      } else if (mode === 1047) {
+        if (!enabled && alternate) {
+          eraseScreen(altScreen);
+        }
+        switchScreen(enabled, false);
+      } else if (mode === 1048) {
+        if (enabled) {
+          saveCursor();
+        } else {
+          restoreCursor();
+        }
+      } else if (mode === 1049) {
+        if (enabled) {
+          saveCursor();
+          switchScreen(true, true);
+        } else {
+          switchScreen(false, false);
+          restoreCursor();
+        }
+      }
+    }
+  };
+
+  const softReset = () => {
+    style = DEFAULT_CELL_STYLE;
+    wrapPending = false;
+    autowrap = true;
+    insertMode = false;
+    newlineMode = false;
+    originMode = false;
+    cursorVisible = true;
+    scrollTop = 0;
+    scrollBottom = rows - 1;
+    charsets = [false, false];
+    activeCharset = 0;
+  };
+
+  const reply = (data: string) => {
+    options.onReply?.(data);
+  };
+
+  const tab = (direction: 1 | -1) => {
+    let next = col + direction;
+    while (next > 0 && next < cols - 1 && !tabStops.has(next)) {
+      next += direction;
+    }
+    col = clampColumn(next);
+    wrapPending = false;
+  };
+
+  const runCsi = (body: string) => {
+    const final = body[body.length - 1];
+    const prefix = /^[?>=!<]/u.test(body) ? body[0] : '';
+    const intermediates = body.slice(prefix.length, -1).replace(/[0-9;:]/gu, '');
+    const paramText = body.slice(prefix.length, body.length - 1 - intermediates.length);
+    const rawParams = paramText ? paramText.split(';') : [];
+    const numbers = rawParams.map((param) => Number.parseInt(param, 10));
+    const param = (index: number, fallback: number) => {
+      const value = numbers[index];
+      return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+    const count = param(0, 1);
+    const line = currentLine();
+
+    if (intermediates) {
+      if (intermediates === '!' && final === 'p') {
+        softReset();
+      }
+      // Cursor shape (SP q) and the rest have no effect on the cell grid.
+      return;
+    }
+
+    switch (final) {
+      case '@': {
+        const blank = { char: ' ', style: blankStyle(style) };
+        if (col < line.cells.length) {
+          line.cells.splice(col, 0, ...Array.from({ length: count }, () => blank));
+          line.cells.length = Math.min(line.cells.length, cols);
+          touch(line);
+        }
+        break;
+      }
+      case 'A':
+        row = Math.max(row >= scrollTop ? scrollTop : 0, row - count);
+        wrapPending = false;
+        break;
+      case 'B':
+      case 'e':
+        row = Math.min(row <= scrollBottom ? scrollBottom : rows - 1, row + count);
+        wrapPending = false;
+        break;
+      case 'C':
+      case 'a':
+        col = clampColumn(col + count);
+        wrapPending = false;
+        break;
+      case 'D':
+        col = clampColumn(col - count);
+        wrapPending = false;
+        break;
+      case 'E':
+        row = Math.min(row <= scrollBottom ? scrollBottom : rows - 1, row + count);
+        col = 0;
+        wrapPending = false;
+        break;
+      case 'F':
+        row = Math.max(row >= scrollTop ? scrollTop : 0, row - count);
+        col = 0;
+        wrapPending = false;
+        break;
+      case 'G':
+      case '`':
+        col = clampColumn(count - 1);
+        wrapPending = false;
+        break;
+      case 'H':
+      case 'f':
+        moveTo(param(0, 1) - 1, param(1, 1) - 1);
+        break;
+      case 'd':
+        moveTo(count - 1, col);
+        break;
+      case 'I':
+        for (let step = 0; step < count; step += 1) {
+          tab(1);
+        }
+        break;
+      case 'Z':
+        for (let step = 0; step < count; step += 1) {
+          tab(-1);
+        }
+        break;
+      case 'J': {
+        const mode = numbers[0] || 0;
+        if (mode === 0) {
+          eraseCells(line, col, cols);
+          screen.slice(row + 1).forEach((below) => eraseCells(below, 0, cols));
+        } else if (mode === 1) {
+          screen.slice(0, row).forEach((above) => eraseCells(above, 0, cols));
+          eraseCells(line, 0, col + 1);
+        } else if (mode === 2) {
+          eraseScreen(screen);
+        } else if (mode === 3 && !alternate) {
+          scrollback = [];
+        }
+        break;
+      }
+      case 'K': {
+        const mode = numbers[0] || 0;
+        if (mode === 0) {
+          eraseCells(line, col, cols);
+        } else if (mode === 1) {
+          eraseCells(line, 0, col + 1);
+        } else if (mode === 2) {
+          eraseCells(line, 0, cols);
+        }
+        break;
+      }
+      case 'L':
+      case 'M':
+        if (row >= scrollTop && row <= scrollBottom) {
+          const top = scrollTop;
+          scrollTop = row;
+          if (final === 'L') {
+            scrollDown(count);
+          } else {
+            // Deleted lines never reach the scrollback.
+            const amount = Math.min(count, scrollBottom - row + 1);
+            screen.splice(row, amount);
+            screen.splice(scrollBottom - amount + 1, 0, ...Array.from({ length: amount }, () => createLine(style)));
+          }
+          scrollTop = top;
+          col = 0;
+          wrapPending = false;
+        }
+        break;
+      case 'P':
+        if (col < line.cells.length) {
+          line.cells.splice(col, count);
+          touch(line);
+        }
+        break;
+      case 'X':
+        eraseCells(line, col, col + count);
+        break;
+      case 'S':
+        if (!prefix) {
+          scrollUp(count);
+        }
+        break;
+      case 'T':
+        if (!prefix && rawParams.length <= 1) {
+          scrollDown(count);
+        }
+        break;
+      case 'b':
+        if (lastPrinted) {
+          for (let step = 0; step < Math.min(count, cols * rows); step += 1) {
+            print(lastPrinted);
+          }
+        }
+        break;
+      case 'c':
+        if (prefix === '>') {
+          reply('\u001b[>0;10;1c');
+        } else if (!prefix) {
+          reply('\u001b[?1;2c');
+        }
+        break;
+      case 'n':
+        if (numbers[0] === 5) {
+          reply('\u001b[0n');
+        } else if (numbers[0] === 6) {
+          const reportedRow = originMode ? row - scrollTop : row;
+          reply(`\u001b[${reportedRow + 1};${col + 1}R`);
+        }
+        break;
+      case 'g':
+        if ((numbers[0] || 0) === 0) {
+          tabStops.delete(col);
+        } else if (numbers[0] === 3) {
+          tabStops.clear();
+        }
+        break;
+      case 'h':
+      case 'l':
+        setMode(
+          numbers.filter((value) => Number.isFinite(value)),
+          prefix === '?',
+          final === 'h'
+        );
+        break;
+      case 'm':
+        if (!prefix) {
+          style = applySgr(style, rawParams);
+        }
+        break;
+      case 'r':
+        if (!prefix) {
+          const top = param(0, 1) - 1;
+          const bottom = Math.min(param(1, rows), rows) - 1;
+          if (top < bottom) {
+            scrollTop = top;
+            scrollBottom = bottom;
+            moveTo(0, 0);
+          }
+        }
+        break;
+      case 's':
+        if (!prefix) {
+          saveCursor();
+        }
+        break;
+      case 'u':
+        if (!prefix) {
+          restoreCursor();
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
+  const fullReset = () => {
+    mainScreen = createScreen();
+    altScreen = createScreen();
+    screen = mainScreen;
+    scrollback = [];
+    alternate = false;
+    row = 0;
+    col = 0;
+    lastPrinted = '';
+    savedMain = null;
+    savedAlt = null;
+    softReset();
+    resetTabStops();
+    state = 'ground';
+    sequence = '';
+  };
+
+  const runEscape = (char: string) => {
+    state = 'ground';
+    if (pendingCharsetSlot !== null) {
+      charsets[pendingCharsetSlot] = char === '0';
+      pendingCharsetSlot = null;
+      return;
+    }
+    if (sequence === '#') {
+      sequence = '';
+      if (char === '8') {
+        // DECALN: fill the screen with E, used by alignment tests.
+        for (const line of screen) {
+          line.cells = Array.from({ length: cols }, () => ({ char: 'E', style: DEFAULT_CELL_STYLE }));
+          touch(line);
+        }
+      }
+      return;
+    }
+    switch (char) {
+      case '[':
+        state = 'csi';
+        sequence = '';
+        break;
+      case ']':
+      case 'P':
+      case 'X':
+      case '^':
+      case '_':
+        // OSC, DCS, SOS, PM and APC strings are read to their terminator. Only OSC 8 is acted on.
+        state = 'string';
+        sequence = '';
+        stringTerminatorPending = false;
+        stringIntroducer = char;
+        break;
+      case '(':
+      case ')':
+        state = 'escape';
+        pendingCharsetSlot = char === '(' ? 0 : 1;
+        break;
+      case '*':
+      case '+':
+      case '-':
+      case '.':
+      case '/':
+        // G2/G3 designations are accepted and ignored.
+        state = 'escape';
+        pendingCharsetSlot = null;
+        sequence = 'skip';
+        break;
+      case '#':
+        state = 'escape';
+        sequence = '#';
+        break;
+      case '7':
+        saveCursor();
+        break;
+      case '8':
+        restoreCursor();
+        break;
+      case 'D':
+        lineFeed();
+        break;
+      case 'E':
+        col = 0;
+        lineFeed();
+        break;
+      case 'M':
+        reverseIndex();
+        break;
+      case 'H':
+        tabStops.add(col);
+        break;
+      case 'c':
+        fullReset();
+        break;
+      default:
+        break;
+    }
+  };
+
+  // OSC 8 ; params ; uri opens a hyperlink and an empty uri closes it.
+  const finishString = () => {
+    const data = sequence.endsWith('\u001b') ? sequence.slice(0, -1) : sequence;
+    if (stringIntroducer !== ']' || !data.startsWith('8;')) {
+      return;
+    }
+    const uri = data.slice(data.indexOf(';', 2) + 1);
+    const link = data.indexOf(';', 2) === -1 || uri === '' ? null : uri;
+    if (link !== style.link) {
+      style = { ...style, link };
+      if (sameStyle(style, DEFAULT_CELL_STYLE)) {
+        style = DEFAULT_CELL_STYLE;
+      }
+    }
+  };
+
+  const execute = (char: string) => {
+    switch (char) {
+      case '\n':
+      case '\u000b':
+      case '\u000c':
+        lineFeed();
+        break;
+      case '\r':
+        col = 0;
+        wrapPending = false;
+        break;
+      case '\b':
+        col = Math.max(0, Math.min(col, cols - 1) - (wrapPending ? 0 : 1));
+        wrapPending = false;
+        break;
+      case '\t':
+        tab(1);
+        break;
+      case '\u000e':
+        activeCharset = 1;
+        break;
+      case '\u000f':
+        activeCharset = 0;
+        break;
+      default:
+        // BEL and the remaining C0 controls have nothing to draw.
+        break;
+    }
+  };
+
+  const write = (data: string) => {
+    for (const char of data) {
+      const code = char.codePointAt(0) ?? 0;
+
+      if (state === 'string') {
+        if (char === '\u0007' || (stringTerminatorPending && char === '\\')) {
+          state = 'ground';
+          finishString();
+        } else if (stringTerminatorPending) {
+          // ESC followed by anything but \ ends the string and starts a new sequence.
+          finishString();
+          state = 'escape';
+          sequence = '';
+          pendingCharsetSlot = null;
+          runEscape(char);
+        } else {
+          stringTerminatorPending = char === '\u001b';
+          if (sequence.length < MAX_STRING_LENGTH) {
+            sequence += char;
+          }
+        }
+        continue;
+      }
+
+      if (char === '\u001b') {
+        state = 'escape';
+        sequence = '';
+        pendingCharsetSlot = null;
+        continue;
+      }
+      if (code === 0x18 || code === 0x1a) {
+        // CAN and SUB abort a sequence in progress.
+        state = 'ground';
+        continue;
+      }
+
+      if (state === 'escape') {
+        if (sequence === 'skip') {
+          sequence = '';
+          state = 'ground';
+          continue;
+        }
+        runEscape(char);
+        continue;
+      }
+
+      if (state === 'csi') {
+        if (code < 0x20) {
+          execute(char);
+          continue;
+        }
+        sequence += char;
+        if (code >= 0x40 && code <= 0x7e) {
+          state = 'ground';
+          runCsi(sequence);
+          sequence = '';
+        } else if (sequence.length > MAX_SEQUENCE_LENGTH) {
+          state = 'ground';
+          sequence = '';
+        }
+        continue;
+      }
+
+      if (code < 0x20 || code === 0x7f) {
+        execute(char);
+        continue;
+      }
+      print(char);
+    }
+  };
+
+  const resize = (nextCols: number, nextRows: number) => {
+    const targetCols = Math.max(1, Math.floor(nextCols));
+    const targetRows = Math.max(1, Math.floor(nextRows));
+    if (targetCols !== cols) {
+      cols = targetCols;
+      for (const line of [...scrollback, ...mainScreen, ...altScreen]) {
+        if (line.cells.length > cols) {
+          line.cells.length = cols;
+          touch(line);
+        }
+      }
+      resetTabStops();
+    }
+    if (targetRows !== rows) {
+      const fit = (lines: MutableLine[], keepsHistory: boolean, cursorRow: number) => {
+        let adjustedRow = cursorRow;
+        while (lines.length > targetRows) {
+          // Drop blank rows below the cursor first, then push the top rows into the scrollback.
+          const last = lines[lines.length - 1];
+          if (lines.length - 1 > adjustedRow && last.cells.every(isBlank)) {
+            lines.pop();
+            continue;
+          }
+          const [removed] = lines.splice(0, 1);
+          if (keepsHistory) {
+            pushScrollback(removed);
+          }
+          adjustedRow -= 1;
+        }
+        while (lines.length < targetRows) {
+          lines.push(createLine());
+        }
+        return Math.max(0, adjustedRow);
+      };
+      const mainRow = fit(mainScreen, true, alternate ? savedMain?.row ?? 0 : row);
+      const altRow = fit(altScreen, false, alternate ? row : 0);
+      rows = targetRows;
+      row = Math.min(alternate ? altRow : mainRow, rows - 1);
+      if (alternate && savedMain) {
+        savedMain.row = Math.min(mainRow, rows - 1);
+      }
+    }
+    scrollTop = 0;
+    scrollBottom = rows - 1;
+    col = clampColumn(col);
+    wrapPending = false;
+  };
+
+  return {
+    get cols() {
+      return cols;
+    },
+    get rows() {
+      return rows;
+    },
+    get cursor() {
+      return { row, col, visible: cursorVisible };
+    },
+    get alternate() {
+      return alternate;
+    },
+    write,
+    resize,
+    clear: () => {
+      scrollback = [];
+      eraseScreen(screen);
+      row = 0;
+      col = 0;
+      wrapPending = false;
+    },
+    reset: fullReset,
+    lines: () => (alternate ? screen : [...scrollback, ...screen]),
+    screenLines: () => screen
+  };
+};
@@ -0,0 +1,496 @@
+import { applySgr, charWidth, DEFAULT_CELL_STYLE, DEFAULT_SCROLLBACK } from './screenBuffer.js';
+import type { CellColor, CellStyle, ScreenRun } from './screenBuffer.js';
+
+// Terminal output kept beyond what the live renderer holds. Completed output lines wait in a model of the
+// live view, sized in rows like the renderer's scrollback, and are stored per BBS target with their arrival
+// time and colours only once they scroll out of it, so history survives both the scrollback cap and a page
+// reload. Archiving is opt-in. Backends only store and page lines; line splitting, batching, eviction and
+// retention live here.
+
+export const DEFAULT_ARCHIVE_DAYS = 0;
+export const ARCHIVE_DAY_CHOICES: readonly number[] = [0, 1, 7, 30, 90];
+export const MAX_ARCHIVED_LINES_PER_TARGET = 100_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PENDING_LINE = 4096;
+const DEFAULT_LIVE_ROWS = DEFAULT_SCROLLBACK + 24;
+const DEFAULT_LIVE_COLS = 80;
+
+export type ArchivedLine = {
+  target: string;
+  at: number;
+  // Visible text with only SGR sequences left in, prefixed with the attributes active when the line began.
+  text: string;
+};
+
+export interface ArchiveBackend {
+  append(lines: readonly ArchivedLine[]): Promise<void>;
+  count(target: string): Promise<number>;
+  // `limit` lines of `target` starting `offset` lines after its oldest, oldest first.
+  read(target: string, offset: number, limit: number): Promise<ArchivedLine[]>;
+  deleteBefore(cutoff: number): Promise<void>;
+  // Drops the oldest lines of `target` until at most `keep` remain.
+  trim(target: string, keep: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const SGR_PATTERN = /\u001b\[([0-9;:]*)m/gu;
+const ESCAPE_PATTERN =
+  /\u001b(?:\[[0-9;:?<=>]*[ -\/]*[@-~]|\][^\u0007\u001b]*(?:\u0007|\u001b\\)|[PX^_][^\u001b]*\u001b\\|[()*+][0-9A-Za-z]|[=>78DEHMc])/gu;
+const CONTROL_PATTERN = /[\u0000-\u0008\u000b-\u001a\u001c-\u001f\u007f]/gu;
+
+const colorParams = (color: CellColor, layer: 'fg' | 'bg'): string[] => {
+  const base = layer === 'fg' ? 30 : 40;
+  if (color === null) {
+    return [];
+  }
+  if (typeof color === 'string') {
+    const hex = color.slice(1);
+    return [`${base + 8}`, '2', ...[0, 2, 4].map((at) => `${Number.parseInt(hex.slice(at, at + 2), 16)}`)];
+  }
+  if (color < 8) {
+    return [`${base + color}`];
+  }
+  if (color < 16) {
+    return [`${base + 60 + color - 8}`];
+  }
+  return [`${base + 8}`, '5', `${color}`];
+};
+
+// The SGR sequence that recreates `style` from a reset, or '' for the default style.
+export const styleToSgr = (style: CellStyle): string => {
+  const params = [
+    style.bold ? '1' : '',
+    style.dim ? '2' : '',
+    style.italic ? '3' : '',
+    style.underline ? '4' : '',
+    style.blink ? '5' : '',
+    style.inverse ? '7' : '',
+    style.hidden ? '8' : '',
+    style.strikethrough ? '9' : '',
+    ...colorParams(style.fg, 'fg'),
+    ...colorParams(style.bg, 'bg')
+  ].filter(Boolean);
+  return params.length > 0 ? `\u001b[${params.join(';')}m` : '';
+};
+
+const sgrParams = (sequence: string) => sequence.slice(2, -1).split(';');
+
+// Keeps SGR sequences and printable text; drops every other escape and control character.
+const normaliseSegment = (segment: string) =>
+  segment
+    .replace(ESCAPE_PATTERN, (sequence) => (sequence.endsWith('m') && sequence.startsWith('\u001b[') ? sequence : ''))
+    .replace(CONTROL_PATTERN, '');
+
+const advanceStyle = (style: CellStyle, segment: string) => {
+  let next = style;
+  for (const match of segment.matchAll(SGR_PATTERN)) {
+    next = applySgr(next, sgrParams(match[0]));
+  }
+  return next;
+};
+
+export type LineCollector = {
+  // Complete lines in `chunk`, ready to archive. A trailing partial line waits for the next chunk.
+  push: (chunk: string) => string[];
+  flush: () => string[];
+};
+
+export const createLineCollector = (): LineCollector => {
+  let pending = '';
+  let style: CellStyle = DEFAULT_CELL_STYLE;
+
+  const finishLine = (raw: string) => {
+    // A bare carriage return redraws the line, so only its last non-empty version is kept.
+    let visible = '';
+    let visibleStyle = style;
+    for (const segment of raw.split('\r').map(normaliseSegment)) {
+      if (segment.replace(SGR_PATTERN, '').length > 0) {
+        visible = segment;
+        visibleStyle = style;
+      }
+      style = advanceStyle(style, segment);
+    }
+    return visible ? `${styleToSgr(visibleStyle)}${visible}` : '';
+  };
+
+  return {
+    push: (chunk) => {
+      pending += chunk;
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+      if (pending.length > MAX_PENDING_LINE) {
+        pending = pending.slice(-MAX_PENDING_LINE);
+      }
+      return lines.map(finishLine);
+    },
+    flush: () => {
+      const line = pending ? finishLine(pending) : null;
+      pending = '';
+      return line === null ? [] : [line];
+    }
+  };
+};
+
+// Splits an archived line back into styled runs for rendering.
+export const parseArchivedLine = (text: string): ScreenRun[] => {
+  const runs: ScreenRun[] = [];
+  let style: CellStyle = DEFAULT_CELL_STYLE;
+  let position = 0;
+  const pushText = (value: string) => {
+    if (!value) {
+      return;
+    }
+    const previous = runs[runs.length - 1];
+    if (previous && previous.style === style) {
+      previous.text += value;
+    } else {
+      runs.push({ text: value, style });
+    }
+  };
+  for (const match of text.matchAll(SGR_PATTERN)) {
+    pushText(text.slice(position, match.index));
+    style = applySgr(style, sgrParams(match[0]));
+    position = (match.index ?? 0) + match[0].length;
+  }
+  pushText(text.slice(position));
+  return runs;
+};
+
+// Screen rows `text` takes up once wrapped at `cols` columns.
+export const archivedLineRows = (text: string, cols: number) => {
+  let width = 0;
+  for (const char of text.replace(SGR_PATTERN, '')) {
+    width += charWidth(char);
+  }
+  return Math.max(1, Math.ceil(width / Math.max(1, cols)));
+};
+
+export const clampArchiveDays = (value: number) =>
+  Number.isFinite(value) ? Math.min(365, Math.max(0, Math.floor(value))) : DEFAULT_ARCHIVE_DAYS;
+
+export type ScrollbackArchiveOptions = {
+  backend: ArchiveBackend;
+  // 0, the default, turns archiving off and empties the archive.
+  retentionDays?: number;
+  maxLinesPerTarget?: number;
+  now?: () => number;
+  flushDelayMs?: number;
+  // Called once evicted lines are stored, with the targets they belong to.
+  onArchived?: (targets: ReadonlySet<string>) => void;
+};
+
+export type ScrollbackArchive = {
+  readonly retentionDays: number;
+  // Sizes the live view: lines are archived once they no longer fit in `rows` rows of `cols` columns.
+  setLiveView: (rows: number, cols: number) => void;
+  record: (target: string, chunk: string) => void;
+  // Completes each target's trailing partial line; it stays in the live view until evicted.
+  flush: () => Promise<void>;
+  // Archives everything still in the live view, for when the renderer is cleared or the page goes away.
+  evictLive: () => Promise<void>;
+  count: (target: string) => Promise<number>;
+  read: (target: string, offset: number, limit: number) => Promise<ArchivedLine[]>;
+  setRetentionDays: (days: number) => Promise<void>;
+  applyRetention: () => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+export const createScrollbackArchive = (options: ScrollbackArchiveOptions): ScrollbackArchive => {
+  const { backend } = options;
+  const now = options.now ?? (() => Date.now());
+  const maxLines = options.maxLinesPerTarget ?? MAX_ARCHIVED_LINES_PER_TARGET;
+  const flushDelayMs = options.flushDelayMs ?? 1000;
+  let retentionDays = clampArchiveDays(options.retentionDays ?? DEFAULT_ARCHIVE_DAYS);
+  const collectors = new Map<string, LineCollector>();
+  // Lines still in the live view, oldest first, with the rows each one takes up there.
+  let live: { line: ArchivedLine; rows: number }[] = [];
+  let liveRows = 0;
+  let liveCapacity = DEFAULT_LIVE_ROWS;
+  let liveCols = DEFAULT_LIVE_COLS;
+  let queued: ArchivedLine[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const write = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const batch = queued;
+    queued = [];
+    if (batch.length > 0) {
+      writing = writing
+        .then(() => backend.append(batch))
+        .then(() => options.onArchived?.(new Set(batch.map((line) => line.target))))
+        .catch((error) => console.warn('Failed to archive scrollback', error));
+    }
+    return writing;
+  };
+
+  const scheduleWrite = () => {
+    if (queued.length > 0 && timer === null) {
+      timer = setTimeout(() => void write(), flushDelayMs);
+    }
+  };
+
+  const evict = () => {
+    let evicted = 0;
+    while (evicted < live.length && liveRows > liveCapacity) {
+      liveRows -= live[evicted].rows;
+      queued.push(live[evicted].line);
+      evicted += 1;
+    }
+    if (evicted > 0) {
+      live = live.slice(evicted);
+      scheduleWrite();
+    }
+  };
+
+  const enterLive = (target: string, at: number, lines: readonly string[]) => {
+    for (const text of lines) {
+      const rows = archivedLineRows(text, liveCols);
+      live.push({ line: { target, at, text }, rows });
+      liveRows += rows;
+    }
+    evict();
+  };
+
+  const applyRetention = async () => {
+    await write();
+    try {
+      if (retentionDays === 0) {
+        await backend.clear();
+        return;
+      }
+      await backend.deleteBefore(now() - retentionDays * DAY_MS);
+      for (const target of collectors.keys()) {
+        await backend.trim(target, maxLines);
+      }
+    } catch (error) {
+      console.warn('Failed to prune the scrollback archive', error);
+    }
+  };
+
+  return {
+    get retentionDays() {
+      return retentionDays;
+    },
+    setLiveView: (rows, cols) => {
+      liveCapacity = Math.max(0, Math.floor(rows));
+      liveCols = Math.max(1, Math.floor(cols));
+      evict();
+    },
+    record: (target, chunk) => {
+      if (retentionDays === 0 || !target) {
+        return;
+      }
+      let collector = collectors.get(target);
+      if (!collector) {
+        collector = createLineCollector();
+        collectors.set(target, collector);
+      }
+      enterLive(target, now(), collector.push(chunk));
+    },
+    flush: () => {
+      const at = now();
+      for (const [target, collector] of collectors) {
+        enterLive(target, at, collector.flush());
+      }
+      return write();
+    },
+    evictLive: () => {
+      queued.push(...live.map((entry) => entry.line));
+      live = [];
+      liveRows = 0;
+      return write();
+    },
+    count: async (target) => {
+      await write();
+      return backend.count(target);
+    },
+    read: async (target, offset, limit) => {
+      await write();
+      return backend.read(target, offset, limit);
+    },
+    setRetentionDays: async (days) => {
+      retentionDays = clampArchiveDays(days);
+      if (retentionDays === 0) {
+        queued = [];
+        live = [];
+        liveRows = 0;
+        collectors.clear();
+      }
+      await applyRetention();
+    },
+    applyRetention,
+    clear: async () => {
+      queued = [];
+      await writing;
+      await backend.clear();
+    }
+  };
+};
+
+export const createMemoryArchiveBackend = (): ArchiveBackend & { readonly lines: ArchivedLine[] } => {
+  const lines: ArchivedLine[] = [];
+  const remove = (predicate: (line: ArchivedLine) => boolean) => {
+    for (let index = lines.length - 1; index >= 0; index -= 1) {
+      if (predicate(lines[index])) {
+        lines.splice(index, 1);
+      }
+    }
+  };
+  return {
+    lines,
+    append: async (batch) => {
+      lines.push(...batch);
+    },
+    count: async (target) => lines.filter((line) => line.target === target).length,
+    read: async (target, offset, limit) =>
+      lines.filter((line) => line.target === target).slice(offset, offset + limit),
+    deleteBefore: async (cutoff) => remove((line) => line.at < cutoff),
+    trim: async (target, keep) => {
+      const excess = lines.filter((line) => line.target === target).length - keep;
+      let removed = 0;
+      for (let index = 0; index < lines.length && removed < excess; ) {
+        if (lines[index].target === target) {
+          lines.splice(index, 1);
+          removed += 1;
+        } else {
+          index += 1;
+        }
+      }
+    },
+    clear: async () => {
+      lines.length = 0;
+    }
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Lines live in one store keyed by an auto-increment sequence, so insertion order is preserved across
+// targets. The by-target index pages one target in that order; the by-time index serves retention.
+export const createIndexedDbArchiveBackend = (
+  databaseName = 'chatter-scrollback',
+  factory: IDBFactory = indexedDB
+): ArchiveBackend => {
+  const storeName = 'lines';
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(storeName, { keyPath: 'seq', autoIncrement: true });
+        store.createIndex('target', ['target', 'seq']);
+        store.createIndex('at', 'at');
+      };
+      database = requestToPromise(request);
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const targetRange = (target: string) => IDBKeyRange.bound([target, -Infinity], [target, Infinity]);
+
+  // Walks a cursor, letting `visit` decide whether to continue; resolves when the transaction completes.
+  const walk = async (
+    mode: IDBTransactionMode,
+    openCursor: (store: IDBObjectStore) => IDBRequest<IDBCursorWithValue | null>,
+    visit: (cursor: IDBCursorWithValue) => boolean
+  ) => {
+    const db = await open();
+    const transaction = db.transaction(storeName, mode);
+    const request = openCursor(transaction.objectStore(storeName));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && visit(cursor)) {
+        cursor.continue();
+      }
+    };
+    await transactionDone(transaction);
+  };
+
+  return {
+    append: async (lines) => {
+      const db = await open();
+      const transaction = db.transaction(storeName, 'readwrite');
+      const store = transaction.objectStore(storeName);
+      for (const line of lines) {
+        store.add({ ...line });
+      }
+      await transactionDone(transaction);
+    },
+    count: async (target) => {
+      const db = await open();
+      return requestToPromise(db.transaction(storeName).objectStore(storeName).index('target').count(targetRange(target)));
+    },
+    read: async (target, offset, limit) => {
+      const lines: ArchivedLine[] = [];
+      let skipped = offset === 0;
+      await walk(
+        'readonly',
+        (store) => store.index('target').openCursor(targetRange(target)),
+        (cursor) => {
+          if (!skipped) {
+            skipped = true;
+            cursor.advance(offset);
+            return false;
+          }
+          const { target: lineTarget, at, text } = cursor.value as ArchivedLine;
+          lines.push({ target: lineTarget, at, text });
+          return lines.length < limit;
+        }
+      );
+      return lines;
+    },
+    deleteBefore: async (cutoff) => {
+      await walk(
+        'readwrite',
+        (store) => store.index('at').openCursor(IDBKeyRange.upperBound(cutoff, true)),
+        (cursor) => {
+          cursor.delete();
+          return true;
+        }
+      );
+    },
+    trim: async (target, keep) => {
+      const db = await open();
+      const total = await requestToPromise(
+        db.transaction(storeName).objectStore(storeName).index('target').count(targetRange(target))
+      );
+      let excess = total - keep;
+      if (excess <= 0) {
+        return;
+      }
+      await walk(
+        'readwrite',
+        (store) => store.index('target').openCursor(targetRange(target)),
+        (cursor) => {
+          cursor.delete();
+          excess -= 1;
+          return excess > 0;
+        }
+      );
+    },
+    clear: async () => {
+      const db = await open();
+      await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+    }
+  };
+};
@@ -0,0 +1,105 @@
+// src/utils/sessionRecording.ts
+
+// Timestamped capture of a terminal session that exports to asciicast v2 or a plain UTF-8 transcript.
+// Format reference: https://docs.asciinema.org/manual/asciicast/v2/
+export const ASCIICAST_VERSION = 2;
+
+export type SessionRecordingEventType = 'o' | 'i' | 'r';
+
+// [seconds since the recording started, event type, data]
+export type SessionRecordingEvent = [number, SessionRecordingEventType, string];
+
+export type SessionRecorderOptions = {
+  cols: number;
+  rows: number;
+  now?: () => number;
+};
+
+export type SessionRecorder = {
+  readonly events: readonly SessionRecordingEvent[];
+  readonly startedAt: number;
+  recordOutput: (data: string) => void;
+  recordInput: (data: string) => void;
+  recordResize: (cols: number, rows: number) => void;
+  toAsciicast: (title?: string) => string;
+  toTranscript: () => string;
+  clear: () => void;
+};
+
+const ESCAPE_SEQUENCE_PATTERN =
+  /\u001b\[[0-9;?]*[ -\/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[()][0-9A-Za-z]|\u001b[@-Z\\-_]/gu;
+// Everything below 0x20 except TAB and LF, plus DEL.
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u0008\u000b-\u001f\u007f]/gu;
+
+// Reduces raw terminal output to readable text: escape sequences and stray control characters are dropped.
+export const renderTranscriptText = (output: string): string =>
+  output
+    .replace(ESCAPE_SEQUENCE_PATTERN, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(CONTROL_CHARACTER_PATTERN, '');
+
+export const createSessionRecorder = (options: SessionRecorderOptions): SessionRecorder => {
+  const now = options.now ?? (() => Date.now());
+  let events: SessionRecordingEvent[] = [];
+  let startedAt = now();
+  // The header describes the grid at the first event; later changes become "r" events.
+  let headerSize = { cols: options.cols, rows: options.rows };
+  let currentSize = headerSize;
+
+  const push = (type: SessionRecordingEventType, data: string) => {
+    if (!data) {
+      return;
+    }
+    const elapsed = Math.max(0, now() - startedAt) / 1000;
+    events.push([Math.round(elapsed * 1e6) / 1e6, type, data]);
+  };
+
+  return {
+    get events() {
+      return events;
+    },
+    get startedAt() {
+      return startedAt;
+    },
+    recordOutput: (data) => push('o', data),
+    recordInput: (data) => push('i', data),
+    recordResize: (cols, rows) => {
+      if (cols === currentSize.cols && rows === currentSize.rows) {
+        return;
+      }
+      currentSize = { cols, rows };
+      if (events.length === 0) {
+        headerSize = currentSize;
+        return;
+      }
+      push('r', `${cols}x${rows}`);
+    },
+    toAsciicast: (title) => {
+      const header: Record<string, unknown> = {
+        version: ASCIICAST_VERSION,
+        width: headerSize.cols,
+        height: headerSize.rows,
+        timestamp: Math.floor(startedAt / 1000),
+        env: { TERM: 'xterm-256color' }
+      };
+      if (title) {
+        header.title = title;
+      }
+      const lines = [JSON.stringify(header), ...events.map((event) => JSON.stringify(event))];
+      return `${lines.join('\n')}\n`;
+    },
+    toTranscript: () =>
+      renderTranscriptText(
+        events
+          .filter(([, type]) => type === 'o')
+          .map(([, , data]) => data)
+          .join('')
+      ),
+    clear: () => {
+      events = [];
+      startedAt = now();
+      headerSize = currentSize;
+    }
+  };
+};
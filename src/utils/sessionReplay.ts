@@ -0,0 +1,340 @@
+// src/utils/sessionReplay.ts
+
+import { ASCIICAST_VERSION, renderTranscriptText } from './sessionRecording.js';
+import type { SessionRecordingEvent } from './sessionRecording.js';
+
+// Playback of recordings made by sessionRecording.ts (or any asciicast v2 file, or a plain transcript).
+export type ReplayRecording = {
+  cols: number;
+  rows: number;
+  title: string | null;
+  events: SessionRecordingEvent[];
+  duration: number;
+};
+
+export type ReplayParseResult = { ok: true; recording: ReplayRecording } | { ok: false; error: string };
+
+// Plain transcripts carry no timing; lines are spaced evenly so seeking and search still have something to land on.
+const TRANSCRIPT_LINE_INTERVAL_SECONDS = 0.05;
+
+const isEvent = (value: unknown): value is SessionRecordingEvent =>
+  Array.isArray(value) &&
+  value.length >= 3 &&
+  typeof value[0] === 'number' &&
+  Number.isFinite(value[0]) &&
+  (value[1] === 'o' || value[1] === 'i' || value[1] === 'r') &&
+  typeof value[2] === 'string';
+
+const parseAsciicast = (lines: string[]): ReplayParseResult => {
+  let header: Record<string, unknown>;
+  try {
+    header = JSON.parse(lines[0]) as Record<string, unknown>;
+  } catch {
+    return { ok: false, error: 'The asciicast header is not valid JSON.' };
+  }
+
+  if (header.version !== ASCIICAST_VERSION) {
+    return { ok: false, error: `Only asciicast v${ASCIICAST_VERSION} files are supported.` };
+  }
+
+  const events: SessionRecordingEvent[] = [];
+  for (let index = 1; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (!line) {
+      continue;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      return { ok: false, error: `Line ${index + 1} is not a valid asciicast event.` };
+    }
+    // Input events are kept for the record but never played back.
+    if (isEvent(parsed) && parsed[1] !== 'i') {
+      events.push([Math.max(0, parsed[0]), parsed[1], parsed[2]]);
+    }
+  }
+  events.sort((left, right) => left[0] - right[0]);
+
+  const cols = typeof header.width === 'number' && header.width > 0 ? Math.floor(header.width) : 80;
+  const rows = typeof header.height === 'number' && header.height > 0 ? Math.floor(header.height) : 24;
+  return {
+    ok: true,
+    recording: {
+      cols,
+      rows,
+      title: typeof header.title === 'string' ? header.title : null,
+      events,
+      duration: events.length > 0 ? events[events.length - 1][0] : 0
+    }
+  };
+};
+
+const parseTranscript = (text: string): ReplayRecording => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const events = lines.map(
+    (line, index): SessionRecordingEvent => [
+      Math.round(index * TRANSCRIPT_LINE_INTERVAL_SECONDS * 1000) / 1000,
+      'o',
+      `${line}\r\n`
+    ]
+  );
+  return {
+    cols: 80,
+    rows: 24,
+    title: null,
+    events,
+    duration: events.length > 0 ? events[events.length - 1][0] : 0
+  };
+};
+
+export const parseRecording = (text: string): ReplayParseResult => {
+  const lines = text.split('\n');
+  const firstLine = lines[0]?.trim() ?? '';
+  if (firstLine.startsWith('{') && firstLine.includes('"version"')) {
+    return parseAsciicast(lines);
+  }
+  if (!text.trim()) {
+    return { ok: false, error: 'The file is empty.' };
+  }
+  return { ok: true, recording: parseTranscript(text) };
+};
+
+export type ReplayScheduler = {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => number;
+  clearTimeout: (handle: number) => void;
+};
+
+export type ReplayControllerOptions = {
+  recording: ReplayRecording;
+  // Receives terminal output exactly as it was recorded.
+  write: (data: string) => void;
+  // Clears the screen before a backwards seek re-renders from the start.
+  reset: () => void;
+  resize?: (cols: number, rows: number) => void;
+  onProgress?: (position: number, playing: boolean) => void;
+  scheduler?: ReplayScheduler;
+};
+
+export type ReplayController = {
+  readonly playing: boolean;
+  readonly speed: number;
+  readonly duration: number;
+  position: () => number;
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  setSpeed: (speed: number) => void;
+  // Seconds of the first match of `query` after `from`, wrapping around to the start; null when nothing matches.
+  find: (query: string, from?: number) => number | null;
+  dispose: () => void;
+};
+
+// Keeps the progress display moving during long gaps between events.
+const MAX_TICK_MS = 250;
+
+const defaultScheduler: ReplayScheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+  clearTimeout: (handle) => window.clearTimeout(handle)
+};
+
+export const createReplayController = (options: ReplayControllerOptions): ReplayController => {
+  const { recording, write, reset } = options;
+  const scheduler = options.scheduler ?? defaultScheduler;
+  const { events } = recording;
+
+  let nextIndex = 0;
+  let playing = false;
+  let speed = 1;
+  let anchorPosition = 0;
+  let anchorTime = 0;
+  let timer: number | null = null;
+
+  // Rendered (escape-free) text of every output event, concatenated, with each event's start offset.
+  let searchText: string | null = null;
+  let searchOffsets: number[] = [];
+
+  const buildSearchIndex = () => {
+    if (searchText !== null) {
+      return searchText;
+    }
+    const parts: string[] = [];
+    let length = 0;
+    searchOffsets = events.map(([, type, data]) => {
+      const start = length;
+      if (type === 'o') {
+        const rendered = renderTranscriptText(data).toLowerCase();
+        parts.push(rendered);
+        length += rendered.length;
+      }
+      return start;
+    });
+    searchText = parts.join('');
+    return searchText;
+  };
+
+  const currentPosition = () => {
+    if (!playing) {
+      return anchorPosition;
+    }
+    const elapsed = ((scheduler.now() - anchorTime) / 1000) * speed;
+    return Math.min(recording.duration, anchorPosition + elapsed);
+  };
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      scheduler.clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const applyEventsUntil = (position: number) => {
+    let pending = '';
+    while (nextIndex < events.length && events[nextIndex][0] <= position) {
+      const [, type, data] = events[nextIndex];
+      if (type === 'o') {
+        pending += data;
+      } else if (type === 'r') {
+        if (pending) {
+          write(pending);
+          pending = '';
+        }
+        const match = data.match(/^(\d+)x(\d+)$/u);
+        if (match) {
+          options.resize?.(Number(match[1]), Number(match[2]));
+        }
+      }
+      nextIndex += 1;
+    }
+    if (pending) {
+      write(pending);
+    }
+  };
+
+  const tick = () => {
+    timer = null;
+    const position = currentPosition();
+    applyEventsUntil(position);
+
+    if (nextIndex >= events.length) {
+      playing = false;
+      anchorPosition = recording.duration;
+      options.onProgress?.(anchorPosition, false);
+      return;
+    }
+
+    options.onProgress?.(position, true);
+    const untilNext = ((events[nextIndex][0] - position) / speed) * 1000;
+    timer = scheduler.setTimeout(tick, Math.max(0, Math.min(MAX_TICK_MS, untilNext)));
+  };
+
+  const reanchor = (position: number) => {
+    anchorPosition = position;
+    anchorTime = scheduler.now();
+  };
+
+  const controller: ReplayController = {
+    get playing() {
+      return playing;
+    },
+    get speed() {
+      return speed;
+    },
+    get duration() {
+      return recording.duration;
+    },
+    position: currentPosition,
+    play: () => {
+      if (playing) {
+        return;
+      }
+      if (nextIndex >= events.length) {
+        controller.seek(0);
+      }
+      reanchor(anchorPosition);
+      playing = true;
+      tick();
+    },
+    pause: () => {
+      if (!playing) {
+        return;
+      }
+      const position = currentPosition();
+      clearTimer();
+      applyEventsUntil(position);
+      playing = false;
+      anchorPosition = position;
+      options.onProgress?.(position, false);
+    },
+    seek: (seconds) => {
+      const target = Math.max(0, Math.min(recording.duration, Number.isFinite(seconds) ? seconds : 0));
+      clearTimer();
+      if (target < currentPosition() || nextIndex === 0) {
+        reset();
+        nextIndex = 0;
+        options.resize?.(recording.cols, recording.rows);
+      }
+      applyEventsUntil(target);
+      reanchor(target);
+      if (playing) {
+        tick();
+      } else {
+        options.onProgress?.(target, false);
+      }
+    },
+    setSpeed: (value) => {
+      if (!Number.isFinite(value) || value <= 0) {
+        return;
+      }
+      const position = currentPosition();
+      speed = value;
+      reanchor(position);
+      if (playing) {
+        clearTimer();
+        tick();
+      }
+    },
+    find: (query, from = currentPosition()) => {
+      const needle = query.trim().toLowerCase();
+      if (!needle) {
+        return null;
+      }
+      const haystack = buildSearchIndex();
+      // Start searching after everything already on screen at `from`.
+      let startIndex = events.findIndex(([time]) => time > from);
+      if (startIndex === -1) {
+        startIndex = events.length;
+      }
+      const startOffset = startIndex < events.length ? searchOffsets[startIndex] : haystack.length;
+      let matchAt = haystack.indexOf(needle, startOffset);
+      if (matchAt === -1) {
+        matchAt = haystack.indexOf(needle);
+      }
+      if (matchAt === -1) {
+        return null;
+      }
+      // Land on the event that completes the match so all of it is on screen.
+      const matchEnd = matchAt + needle.length;
+      let eventIndex = 0;
+      for (let index = 0; index < events.length; index += 1) {
+        if (searchOffsets[index] < matchEnd) {
+          eventIndex = index;
+        } else {
+          break;
+        }
+      }
+      return events[eventIndex][0];
+    },
+    dispose: () => {
+      clearTimer();
+      playing = false;
+    }
+  };
+
+  return controller;
+};
@@ -0,0 +1,83 @@
+// src/utils/terminalControl.ts
+
+// Text frames on the /terminal WebSocket carry these JSON envelopes; binary frames stay raw terminal data.
+// The server keeps a mirror of these definitions in src/server.ts because it ships as a single file.
+export const TERMINAL_CONTROL_VERSION = 1;
+
+export type TerminalStatusState = 'dialling' | 'connected';
+
+export type TerminalControlMessage =
+  | { type: 'status'; state: TerminalStatusState; message: string }
+  | { type: 'error'; code: string; message: string }
+  | { type: 'notice'; message: string }
+  | { type: 'resize'; cols: number; rows: number }
+  | { type: 'latency'; id: number; sentAt: number; serverTime?: number }
+  | {
+      type: 'session-info';
+      protocol: 'telnet' | 'ssh';
+      host: string;
+      port: number;
+      cols: number;
+      rows: number;
+      startedAt: string;
+      resumeToken: string;
+      resumed: boolean;
+      outputOffset: number;
+    };
+
+export type TerminalControlEnvelope = TerminalControlMessage & { v: number };
+
+export const encodeControlMessage = (message: TerminalControlMessage): string =>
+  JSON.stringify({ v: TERMINAL_CONTROL_VERSION, ...message });
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const parseControlMessage = (text: string): TerminalControlEnvelope | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  const record = parsed as Record<string, unknown>;
+  if (record.v !== TERMINAL_CONTROL_VERSION || typeof record.type !== 'string') {
+    return null;
+  }
+
+  switch (record.type) {
+    case 'status':
+      return typeof record.state === 'string' && typeof record.message === 'string'
+        ? (record as TerminalControlEnvelope)
+        : null;
+    case 'error':
+      return typeof record.code === 'string' && typeof record.message === 'string'
+        ? (record as TerminalControlEnvelope)
+        : null;
+    case 'notice':
+      return typeof record.message === 'string' ? (record as TerminalControlEnvelope) : null;
+    case 'resize':
+      return isFiniteNumber(record.cols) && isFiniteNumber(record.rows)
+        ? (record as TerminalControlEnvelope)
+        : null;
+    case 'latency':
+      return isFiniteNumber(record.id) && isFiniteNumber(record.sentAt)
+        ? (record as TerminalControlEnvelope)
+        : null;
+    case 'session-info':
+      return typeof record.protocol === 'string' &&
+        typeof record.host === 'string' &&
+        isFiniteNumber(record.port) &&
+        typeof record.resumeToken === 'string' &&
+        isFiniteNumber(record.outputOffset)
+        ? (record as TerminalControlEnvelope)
+        : null;
+    default:
+      return null;
+  }
+};
@@ -26,4 +26,16 @@ describe('ChatStore messaging helpers', () => {
     assert.equal(result.ok, true);
     assert.equal(store.getMessageById('m-1002'), undefined);
   });
+
+  it('addAttachment lists each shared link once and keeps the newest', () => {
+    const store = createStore();
+    for (let index = 0; index < 30; index += 1) {
+      store.addAttachment('audio', `https://x.test/${index}.mp3`, undefined, String(index));
+    }
+    store.addAttachment('audio', 'https://x.test/29.mp3', undefined, '29');
+    const audio = store.snapshot().mediaLibrary.audio;
+    assert.equal(audio.length, 20);
+    assert.equal(audio[0].url, 'https://x.test/29.mp3');
+    assert.equal(audio[1].url, 'https://x.test/28.mp3');
+  });
 });
@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ChatStore } from '../src/state/chatStore.js';
+import { applyChatStreamEvents, createChatStreamFeed, createChatStreamParser } from '../src/state/chatStreamParser.js';
+import { seedState } from '../src/state/seed.js';
+
+const fixedNow = () => new Date(2024, 4, 1, 9, 30, 0);
+
+describe('chat stream parser', () => {
+  it('parses message lines split across chunks', () => {
+    const parser = createChatStreamParser({ now: fixedNow });
+    assert.deepEqual(parser.push('#12] [12:00:01] \u001b[1;32malice\u001b[0m: hel'), []);
+    const events = parser.push('lo there\r\n[12:00:05] #13] bob ↳ #12: hi alice\r\n');
+    assert.equal(events.length, 2);
+    assert.deepEqual(events[0], {
+      type: 'message',
+      id: '12',
+      author: 'alice',
+      body: 'hello there',
+      postedAt: new Date(2024, 4, 1, 12, 0, 1).toISOString()
+    });
+    assert.equal(events[1].type === 'message' && events[1].replyTo, '12');
+  });
+
+  it('ignores command replies that only look like "name: text"', () => {
+    const parser = createChatStreamParser({ now: fixedNow });
+    assert.deepEqual(parser.push('Status set to: away\r\nalice: (no status)\r\n'), []);
+  });
+
+  it('recognises notices, rosters and reactions', () => {
+    const parser = createChatStreamParser({ now: fixedNow });
+    const events = parser.push(
+      [
+        '* carol has joined the chat',
+        '* bob reacted love to #12',
+        '* carol is now known as caz',
+        'Connected: alice, bob, caz',
+        '* bob has left the chat',
+        ''
+      ].join('\r\n')
+    );
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['join', 'reaction', 'rename', 'roster', 'leave']
+    );
+    assert.deepEqual(events[3], { type: 'roster', users: ['alice', 'bob', 'caz'] });
+  });
+
+  it('collects poll results until the block ends', () => {
+    const parser = createChatStreamParser({ now: fixedNow });
+    assert.deepEqual(parser.push('Poll lunch: Where should we eat?\r\n  1) Noodles - 3 votes\r\n'), []);
+    const events = parser.push('  2. Tacos (1 vote)\r\n#20] [12:01] alice: noodles it is\r\n');
+    assert.deepEqual(events[0], {
+      type: 'poll',
+      label: 'lunch',
+      question: 'Where should we eat?',
+      options: [
+        { label: 'Noodles', votes: 3 },
+        { label: 'Tacos', votes: 1 }
+      ]
+    });
+    assert.equal(events[1].type, 'message');
+  });
+
+  it('follows media messages and share notices with attachment events', () => {
+    const parser = createChatStreamParser({ now: fixedNow });
+    const events = parser.push(
+      [
+        '#30] [12:02] alice: [image] https://x.test/cat.png a cat',
+        '#31] [12:03] bob: https://x.test/song.mp3',
+        '#32] [12:04] bob: see https://x.test/clip.mp4',
+        '* carol shared a file: https://x.test/notes.pdf (meeting notes)',
+        '#33] [12:05] dave: [video] javascript:alert(1)',
+        ''
+      ].join('\r\n')
+    );
+    assert.deepEqual(
+      events.filter((event) => event.type === 'attachment'),
+      [
+        { type: 'attachment', kind: 'image', url: 'https://x.test/cat.png', author: 'alice', caption: 'a cat', messageId: '30' },
+        { type: 'attachment', kind: 'audio', url: 'https://x.test/song.mp3', author: 'bob', messageId: '31' },
+        { type: 'attachment', kind: 'file', url: 'https://x.test/notes.pdf', author: 'carol', caption: 'meeting notes' }
+      ]
+    );
+
+    const store = new ChatStore(seedState);
+    applyChatStreamEvents(store, events);
+    const images = store.snapshot().mediaLibrary.image.length;
+    assert.equal(store.snapshot().mediaLibrary.image[0]?.url, 'https://x.test/cat.png');
+    assert.equal(store.snapshot().mediaLibrary.image[0]?.messageId, '30');
+
+    // A replay of the same output does not list the media again.
+    applyChatStreamEvents(store, events);
+    assert.equal(store.snapshot().mediaLibrary.image.length, images);
+  });
+
+  it('dispatches events into the store in a single update', () => {
+    const store = new ChatStore(seedState);
+    store.clearRoom();
+    let updates = 0;
+    store.subscribe(() => {
+      updates += 1;
+    });
+    const parser = createChatStreamParser({ now: fixedNow });
+    applyChatStreamEvents(
+      store,
+      parser.push(
+        [
+          'Connected: alice, bob',
+          '#1] [12:00] alice: first',
+          '#2] [12:01] bob ↳ #1: second',
+          '* bob reacted good to #1',
+          '* carol has joined the chat',
+          '* bob is now known as robert',
+          'Poll lunch: Where?',
+          '  1) Noodles - 2 votes',
+          '  2) Tacos - 0 votes',
+          ''
+        ].join('\r\n')
+      )
+    );
+    applyChatStreamEvents(store, parser.flush());
+    assert.equal(updates, 2);
+
+    const state = store.snapshot();
+    assert.deepEqual(state.connectedUsers, ['alice', 'robert', 'carol']);
+    assert.deepEqual(
+      state.messages.map((message) => `${message.id}:${message.author}:${message.replyTo ?? ''}`),
+      ['1:alice:', '2:robert:1']
+    );
+    assert.equal(state.messages[0].reactions.good, 1);
+    assert.equal(state.profiles.robert?.username, 'robert');
+    assert.deepEqual(
+      state.polls.lunch.options.map((option) => option.votes),
+      [2, 0]
+    );
+  });
+});
+
+describe('chat stream feed', () => {
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  it('skips output the store has already seen when it is replayed', () => {
+    const store = new ChatStore(seedState);
+    store.clearRoom();
+    const output = encode('#1] [12:00] alice: first\r\n* bob reacted good to #1\r\n#2] [12:01] bo');
+    const feed = createChatStreamFeed(createChatStreamParser({ now: fixedNow }));
+    applyChatStreamEvents(store, feed.push(output, 0));
+    assert.equal(feed.lineOffset(), output.lastIndexOf(0x0a) + 1);
+
+    // A reloaded page starts a new feed from the stored offset and gets the whole buffer again.
+    const reloaded = createChatStreamFeed(createChatStreamParser({ now: fixedNow }), feed.lineOffset());
+    const replay = new Uint8Array([...output, ...encode('b: second\r\n')]);
+    applyChatStreamEvents(store, reloaded.push(replay.subarray(0, 10), 0));
+    applyChatStreamEvents(store, reloaded.push(replay.subarray(10), 10));
+
+    const state = store.snapshot();
+    assert.deepEqual(
+      state.messages.map((message) => `${message.id}:${message.author}:${message.body}`),
+      ['1:alice:first', '2:bob:second']
+    );
+    assert.equal(state.messages[0].reactions.good, 1);
+  });
+
+  it('continues a reconnect at the exact byte and restarts after a gap', () => {
+    const feed = createChatStreamFeed(createChatStreamParser({ now: fixedNow }));
+    const line = encode('#1] [12:00] alice: hé\r\n');
+    // The connection drops in the middle of "é".
+    const cut = line.length - 3;
+    assert.deepEqual(feed.push(line.subarray(0, cut), 0), []);
+    const events = feed.push(line.subarray(cut - 4), cut - 4);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type === 'message' && events[0].body, 'hé');
+
+    // The bytes up to offset 100 fell out of the replay buffer, so the half line before them is dropped.
+    assert.deepEqual(feed.push(encode('* carol has'), line.length), []);
+    assert.deepEqual(feed.push(encode('* dave has joined the chat\r\n'), 100), [{ type: 'join', user: 'dave' }]);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { completeCommandLine, fuzzyScore, MAX_COMPLETIONS } from '../src/utils/commandCompletion.js';
+
+const complete = (value: string, context = {}) => completeCommandLine(value, value.length, context);
+
+describe('slash command completion', () => {
+  it('ranks command names with a fuzzy match', () => {
+    const result = complete('/vs');
+    assert.equal(result?.items[0]?.insert, '/vote-single ');
+    assert.equal(result?.from, 0);
+    assert.equal(fuzzyScore('xyz', 'nick'), null);
+    assert.ok((fuzzyScore('ni', 'nick') ?? 0) > (fuzzyScore('nk', 'nick') ?? 0));
+    assert.equal(complete('/')?.items.length, MAX_COMPLETIONS);
+    assert.equal(complete('hello /nick'), null);
+  });
+
+  it('offers subcommands after the base word', () => {
+    const result = complete('/rss r');
+    assert.deepEqual(
+      result?.items.map((item) => item.insert),
+      ['read ']
+    );
+    assert.equal(result?.from, '/rss '.length);
+  });
+
+  it('fills arguments from the live context and shows the usage hint', () => {
+    const context = {
+      users: [{ value: 'alice' }, { value: 'bob' }],
+      messages: [{ value: '42', detail: 'alice: hi' }]
+    };
+    const pm = complete('/pm al', context);
+    assert.deepEqual(pm?.items, [{ label: 'alice', insert: 'alice ', detail: undefined }]);
+    assert.deepEqual(pm?.hint, { head: '/pm', args: ['<username>', '<message>'], active: 0 });
+
+    const reply = complete('/reply ', context);
+    assert.equal(reply?.items[0]?.detail, 'alice: hi');
+
+    const message = complete('/pm alice hello th', context);
+    assert.deepEqual(message?.items, []);
+    assert.equal(message?.hint?.active, 1);
+
+    const palette = complete('/palette m', { palettes: [{ value: 'moe' }, { value: 'default' }] });
+    assert.equal(palette?.items[0]?.insert, 'moe');
+  });
+
+  it('offers choice values and names the alias in the hint', () => {
+    assert.deepEqual(
+      complete('/translate-scope ')?.items.map((item) => item.label),
+      ['chat', 'chat-nohistory', 'all']
+    );
+    assert.equal(complete('/love ')?.hint?.head, '/love');
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  COMMAND_HISTORY_STORAGE_KEY,
+  createCommandHistory,
+  createHistoryCursor,
+  isSecretLine,
+  searchHistory
+} from '../src/utils/commandHistory.js';
+
+const createStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: (key: string) => {
+      values.delete(key);
+    }
+  };
+};
+
+describe('command history', () => {
+  it('keeps lines per target, skips credentials and survives a reload', () => {
+    const storage = createStorage();
+    const history = createCommandHistory({ storage });
+    assert.equal(history.record('telnet://a:23', '/nick alice'), true);
+    assert.equal(history.record('telnet://a:23', 'hello'), true);
+    assert.equal(history.record('telnet://a:23', '/nick alice'), true);
+    assert.equal(history.record('telnet://a:23', '/login alice hunter2'), false);
+    assert.equal(history.record('telnet://a:23', '   '), false);
+    assert.equal(history.record('ssh://b:22', '/users'), true);
+
+    const reloaded = createCommandHistory({ storage });
+    assert.deepEqual(reloaded.entries('telnet://a:23'), ['hello', '/nick alice']);
+    assert.deepEqual(reloaded.entries('ssh://b:22'), ['/users']);
+    assert.equal(isSecretLine('/PASSWORD new'), true);
+    assert.equal(isSecretLine('/passport'), false);
+  });
+
+  it('caps and clears the stored lines', () => {
+    const storage = createStorage();
+    const history = createCommandHistory({ storage, limit: 2 });
+    for (const line of ['one', 'two', 'three']) {
+      history.record('t', line);
+    }
+    assert.deepEqual(history.entries('t'), ['two', 'three']);
+    history.setLimit(0);
+    assert.deepEqual(history.entries('t'), []);
+    assert.equal(history.record('t', 'four'), false);
+    history.setLimit(10);
+    history.record('t', 'five');
+    history.clear();
+    assert.equal(storage.values.has(COMMAND_HISTORY_STORAGE_KEY), false);
+  });
+
+  it('walks back through entries and restores the draft', () => {
+    const entries = ['first', 'second'];
+    const cursor = createHistoryCursor(() => entries);
+    assert.equal(cursor.newer(), null);
+    assert.equal(cursor.older('draft'), 'second');
+    assert.equal(cursor.older('second'), 'first');
+    assert.equal(cursor.older('first'), null);
+    assert.equal(cursor.newer(), 'second');
+    assert.equal(cursor.newer(), 'draft');
+  });
+
+  it('searches backwards from the previous match', () => {
+    const entries = ['/pm bob hi', '/palette moe', '/pm alice yo'];
+    const latest = searchHistory(entries, 'PM');
+    assert.deepEqual(latest, { index: 2, line: '/pm alice yo' });
+    assert.deepEqual(searchHistory(entries, 'pm', latest?.index), { index: 0, line: '/pm bob hi' });
+    assert.equal(searchHistory(entries, 'pm', 0), null);
+  });
+});
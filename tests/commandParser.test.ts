@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { basicCommands } from '../src/data/basicCommands.js';
+import { commandGroups } from '../src/data/commandCatalog.js';
+import { commandDefinitions } from '../src/data/commandDefinitions.js';
+import { applyChatStreamEvents, createChatStreamParser } from '../src/state/chatStreamParser.js';
+import { ChatStore } from '../src/state/chatStore.js';
+import { formatUsage } from '../src/state/commandGrammar.js';
+import { applySentCommand, parseCommand, runCommand } from '../src/state/commandParser.js';
+import { seedState } from '../src/state/seed.js';
+
+const actionOf = (line: string) => {
+  const parsed = parseCommand(line);
+  assert.equal(parsed.ok, true, parsed.ok ? '' : parsed.error);
+  return parsed.ok ? parsed.action : null;
+};
+
+const errorOf = (line: string) => {
+  const parsed = parseCommand(line);
+  assert.equal(parsed.ok, false);
+  return parsed.ok ? null : parsed;
+};
+
+describe('slash command parser', () => {
+  it('turns poll and range commands into typed actions', () => {
+    assert.deepEqual(actionOf('/vote-single lunch Pizza?|yes|no'), {
+      type: 'create-poll',
+      label: 'lunch',
+      question: 'Pizza?',
+      options: ['yes', 'no'],
+      multiple: false
+    });
+    assert.deepEqual(actionOf('/delete-msg 10-12'), { type: 'delete-messages', ids: ['10', '11', '12'] });
+    assert.deepEqual(actionOf('/LOVE 42'), { type: 'react', reaction: 'love', messageId: '42' });
+    assert.deepEqual(actionOf('/3'), { type: 'quick-vote', index: 2 });
+    assert.deepEqual(actionOf('/rss read tech'), { type: 'rss-read', tag: 'tech' });
+    assert.deepEqual(actionOf('/vote @close lunch'), { type: 'remote', command: 'vote @close' });
+  });
+
+  it('reports precise errors with the usage line', () => {
+    assert.equal(
+      errorOf('/vote-single lunch Pizza?')?.error,
+      'Separate at least two options with |, e.g. Pizza?|yes|no. Usage: /vote-single <label> <question>|<option...>'
+    );
+    assert.equal(errorOf('/delete-msg 20-10')?.error, 'id range starts after it ends. Usage: /delete-msg <id|start-end>');
+    assert.match(errorOf('/chat-spacing 9')?.error ?? '', /from 0 to 5/u);
+    assert.match(errorOf('/birthday 2024-02-30')?.error ?? '', /YYYY-MM-DD/u);
+    assert.match(errorOf('/nick')?.error ?? '', /^Missing <name>\./u);
+    assert.match(errorOf('/users now')?.error ?? '', /^Unexpected "now"\./u);
+    assert.match(errorOf('/rss')?.error ?? '', /needs a subcommand/u);
+    assert.equal(errorOf('/bbs frobnicate')?.known, true);
+    assert.equal(errorOf('/teleport home')?.known, false);
+  });
+
+  it('dispatches actions to the store', () => {
+    const store = new ChatStore(seedState);
+    assert.equal(runCommand(store, '/vote lunch Where?|noodles|tacos').ok, true);
+    assert.equal(runCommand(store, '/elect lunch Tacos').ok, true);
+    assert.deepEqual(
+      store.snapshot().polls.lunch.options.map((option) => option.votes),
+      [0, 1]
+    );
+    assert.equal(runCommand(store, '/translate-scope all').ok, true);
+    assert.equal(store.snapshot().translation.scope, 'all');
+    assert.equal(runCommand(store, '/systemcolor #111;#eee;bold').ok, true);
+    assert.equal(store.snapshot().systemPalette.bold, true);
+    assert.equal(runCommand(store, '/delete-msg m-1002').ok, true);
+    assert.equal(store.getMessageById('m-1002'), undefined);
+    assert.equal(runCommand(store, '/image ftp://example.com/cat.png').ok, false);
+  });
+
+  it('mirrors sent lines into the store without repeating what the BBS echoes', () => {
+    const store = new ChatStore(seedState);
+    assert.equal(applySentCommand(store, 'hello everyone'), null);
+    assert.equal(applySentCommand(store, '/no-such-command'), null);
+    assert.equal(applySentCommand(store, '/block spammer')?.ok, true);
+    assert.ok(store.snapshot().blockedTargets.includes('spammer'));
+
+    const parser = createChatStreamParser();
+    applyChatStreamEvents(store, parser.push('#7] [12:00] alice: lunch?\r\n'));
+    assert.equal(applySentCommand(store, '/good 7'), null);
+    const username = store.snapshot().currentUser.username;
+    applyChatStreamEvents(store, parser.push(`* ${username} reacted good to #7\r\n`));
+    assert.equal(store.getMessageById('7')?.reactions.good, 1);
+  });
+
+  it('generates the catalog and help list from the definitions', () => {
+    const catalogued = new Set(commandGroups.flatMap((group) => group.commands.map((entry) => entry.command)));
+    for (const definition of commandDefinitions.filter((entry) => entry.catalog)) {
+      assert.ok(catalogued.has(formatUsage(definition)), `${definition.name} missing from the catalog`);
+    }
+    for (const entry of basicCommands) {
+      assert.ok(catalogued.has(entry), `${entry} is not in the catalog`);
+    }
+    const vote = commandDefinitions.find((entry) => entry.name === 'good');
+    assert.equal(vote && formatUsage(vote, false), 'good|sad|cool|angry|checked|love|wtf <id>');
+  });
+});
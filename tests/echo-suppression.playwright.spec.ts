@@ -1,168 +1,137 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, type Page } from '@playwright/test';
 
 /**
  * Echo Suppression Test
- * 
- * This test verifies that user input from the entry field does NOT appear on screen.
- * The remote server (chat.korokorok.com:2222) handles all processing, and we should
- * suppress any echo of the user's typed input from being displayed in the terminal output.
- * 
+ *
+ * This test verifies that the echo of user input from the entry field does NOT appear on screen.
+ * The BBS echoes every typed character back (TELNET WILL ECHO), and we should suppress that echo
+ * before it reaches the terminal output. Chat lines the BBS renders for the message itself
+ * ("#1] [12:00:00] nick: hello") are not echoes and may appear.
+ *
  * Requirements:
- * - Target server: chat.korokorok.com
- * - Protocol: SSH
- * - Port: 2222
+ * - Target server: the mock Chatter BBS (src/dev/mockBbs.ts), started by playwright.config.ts on 127.0.0.1:2323
+ * - Protocol: TELNET
  * - Test input: "hello"
- * - Expected: "hello" should NOT appear in the terminal output area
+ * - Expected: no output line consisting of just "hello"
  */
 
+const echoedLines = (content: string, input: string) =>
+  content
+    .split('\n')
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line === input.trim().toLowerCase());
+
+const joinMockBbs = async (page: Page, nickname: string) => {
+  const connectButton = page.locator('button[data-terminal-connect]').first();
+  await connectButton.click();
+
+  // The bridge reports "connected" once it reaches the BBS; the terminal answers "Type N" itself.
+  await page.waitForSelector('[data-terminal-status][data-state="connected"]', {
+    timeout: 15000
+  });
+
+  const terminalOutput = page.locator('[data-terminal-output]');
+  await expect(terminalOutput).toContainText('Enter ID (nickname required)', { timeout: 10000 });
+
+  const entryBuffer = page.locator('textarea[data-terminal-entry-buffer]');
+  await entryBuffer.focus();
+  await entryBuffer.fill(nickname);
+  await entryBuffer.press('Enter');
+  await expect(terminalOutput).toContainText('Are you sure with a name', { timeout: 10000 });
+  await entryBuffer.fill('y');
+  await entryBuffer.press('Enter');
+  await expect(terminalOutput).toContainText('has joined the chat', { timeout: 10000 });
+};
+
 test.describe('Terminal Echo Suppression', () => {
   test.beforeEach(async ({ page }) => {
-    // Navigate to the local application server (started automatically by Playwright config)
-    // Note: The SSH server (chat.korokorok.com:2222) must be running externally
+    // Navigate to the local application server (started automatically by Playwright config together with the mock BBS)
     await page.goto('http://localhost:8081');
-    
+
     // Wait for the page to be fully loaded
     await page.waitForLoadState('networkidle');
   });
 
   test('should NOT display user input "hello" in terminal output', async ({ page }) => {
-    // Step 1: Configure connection settings
-    // Find and fill the host input
-    const hostInput = page.locator('input[data-terminal-host]');
-    await hostInput.fill('chat.korokorok.com');
-    
-    // Find and fill the port input
-    const portInput = page.locator('input[data-terminal-port]');
-    await portInput.fill('2222');
-    
-    // Select SSH protocol
-    const protocolSelect = page.locator('select[data-terminal-protocol]');
-    await protocolSelect.selectOption('ssh');
-    
-    // Apply settings
-    const applyButton = page.locator('button:has-text("Apply")').first();
-    await applyButton.click();
-    
-    // Wait a bit for settings to apply
-    await page.waitForTimeout(500);
-    
-    // Step 2: Enter username
-    const usernameInput = page.locator('input[data-terminal-username]');
-    await usernameInput.fill('testuser');
-    
-    // Step 3: Connect to the server
-    const connectButton = page.locator('button[data-terminal-connect]').first();
-    await connectButton.click();
-    
-    // Wait for connection to establish (with timeout)
-    await page.waitForSelector('[data-terminal-status][data-state="connected"]', { 
-      timeout: 15000 
-    });
-    
+    // Step 1: Join the mock BBS
+    await joinMockBbs(page, 'testuser');
+
     // Wait additional time for the terminal to fully initialize
-    await page.waitForTimeout(2000);
-    
-    // Step 4: Get the terminal output area before typing
+    await page.waitForTimeout(1000);
+
+    // Step 2: Get the terminal output area before typing
     const terminalOutput = page.locator('[data-terminal-output]');
-    const outputBeforeTyping = await terminalOutput.textContent() || '';
-    
-    // Step 5: Type "hello" in the entry buffer
+    const outputBeforeTyping = await terminalOutput.innerText();
+
+    // Step 3: Type "hello" in the entry buffer
     const entryBuffer = page.locator('textarea[data-terminal-entry-buffer]');
     await entryBuffer.focus();
     await entryBuffer.fill('hello');
-    
-    // Step 6: Press Enter to send the input
+
+    // Step 4: Press Enter to send the input
     await entryBuffer.press('Enter');
-    
-    // Wait a bit for any potential echo to appear
-    await page.waitForTimeout(1000);
-    
-    // Step 7: Get the terminal output after typing
-    const outputAfterTyping = await terminalOutput.textContent() || '';
-    
-    // Step 8: Verify that "hello" does NOT appear in the terminal output
-    // We check if the new content (difference) contains "hello"
+
+    // Wait for the BBS to post the message
+    await expect(terminalOutput).toContainText('testuser: hello', { timeout: 10000 });
+
+    // Step 5: Get the terminal output after typing
+    const outputAfterTyping = await terminalOutput.innerText();
+
+    // Step 6: Verify that the echo of "hello" does NOT appear in the terminal output
     const newContent = outputAfterTyping.substring(outputBeforeTyping.length);
-    
-    // The test FAILS if "hello" appears in the output
-    const containsHello = newContent.toLowerCase().includes('hello');
-    
-    if (containsHello) {
-      console.error('FAILURE: User input "hello" appeared in terminal output');
+
+    if (echoedLines(newContent, 'hello').length > 0) {
+      console.error('FAILURE: The echo of user input "hello" appeared in terminal output');
       console.error('New content:', newContent);
-      
+
       // Take a screenshot for debugging
       await page.screenshot({ path: '/tmp/echo-suppression-failure.png' });
-      
+
       throw new Error(
-        'Echo suppression FAILED: User input "hello" should NOT appear in terminal output, ' +
+        'Echo suppression FAILED: the echo of user input "hello" should NOT appear in terminal output, ' +
         'but it was found in the displayed content. This means the entry field echo is not being suppressed.'
       );
     }
-    
-    console.log('SUCCESS: User input "hello" was NOT displayed in terminal output');
+
+    console.log('SUCCESS: The echo of user input "hello" was NOT displayed in terminal output');
     console.log('Echo suppression is working correctly');
-    
+
     // Disconnect
     const disconnectButton = page.locator('button[data-terminal-disconnect]').first();
     await disconnectButton.click();
   });
 
   test('should suppress multiple user inputs', async ({ page }) => {
-    // Configure and connect (similar to previous test)
-    const hostInput = page.locator('input[data-terminal-host]');
-    await hostInput.fill('chat.korokorok.com');
-    
-    const portInput = page.locator('input[data-terminal-port]');
-    await portInput.fill('2222');
-    
-    const protocolSelect = page.locator('select[data-terminal-protocol]');
-    await protocolSelect.selectOption('ssh');
-    
-    const applyButton = page.locator('button:has-text("Apply")').first();
-    await applyButton.click();
-    await page.waitForTimeout(500);
-    
-    const usernameInput = page.locator('input[data-terminal-username]');
-    await usernameInput.fill('testuser2');
-    
-    const connectButton = page.locator('button[data-terminal-connect]').first();
-    await connectButton.click();
-    
-    await page.waitForSelector('[data-terminal-status][data-state="connected"]', { 
-      timeout: 15000 
-    });
-    await page.waitForTimeout(2000);
-    
+    await joinMockBbs(page, 'testuser2');
+    await page.waitForTimeout(1000);
+
     const terminalOutput = page.locator('[data-terminal-output]');
     const entryBuffer = page.locator('textarea[data-terminal-entry-buffer]');
-    
+
     const testInputs = ['test1', 'test2', 'hello world', '/help'];
-    
+
     for (const input of testInputs) {
-      const outputBefore = await terminalOutput.textContent() || '';
-      
+      const outputBefore = await terminalOutput.innerText();
+
       await entryBuffer.focus();
       await entryBuffer.fill(input);
       await entryBuffer.press('Enter');
       await page.waitForTimeout(800);
-      
-      const outputAfter = await terminalOutput.textContent() || '';
+
+      const outputAfter = await terminalOutput.innerText();
       const newContent = outputAfter.substring(outputBefore.length);
-      
-      const containsInput = newContent.toLowerCase().includes(input.toLowerCase());
-      
-      if (containsInput) {
-        await page.screenshot({ path: `/tmp/echo-suppression-failure-${input}.png` });
+
+      if (echoedLines(newContent, input).length > 0) {
+        await page.screenshot({ path: `/tmp/echo-suppression-failure-${input.replace(/\W/g, '_')}.png` });
         throw new Error(
           `Echo suppression FAILED for input "${input}": ` +
-          'User input should NOT appear in terminal output'
+          'the echo of user input should NOT appear in terminal output'
         );
       }
     }
-    
+
     console.log('SUCCESS: All user inputs were properly suppressed');
-    
+
     // Disconnect
     const disconnectButton = page.locator('button[data-terminal-disconnect]').first();
     await disconnectButton.click();
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  createHighlighter,
+  formatUnreadTitle,
+  isOwnLine,
+  parseHighlightRules
+} from '../src/utils/highlightRules.js';
+
+describe('highlight rules', () => {
+  it('parses words and regexes and reports invalid ones', () => {
+    const { rules, errors } = parseHighlightRules(['deploy', ' ', '/build (failed|broke)/i', '/(/']);
+    assert.deepEqual(
+      rules.map((rule) => rule.source),
+      ['deploy', '/build (failed|broke)/i']
+    );
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^\/\(\/: /u);
+    assert.equal(rules[0].pattern.test('Deploy done'), true);
+    assert.equal(rules[0].pattern.test('redeployed'), false);
+    assert.equal(rules[1].pattern.test('BUILD FAILED'), true);
+  });
+
+  it('matches the nickname as a word and skips lines the user wrote', () => {
+    const highlighter = createHighlighter({
+      nickname: 'ada',
+      highlightNickname: true,
+      rules: parseHighlightRules(['/\\burgent\\b/']).rules
+    });
+    assert.ok(highlighter);
+    assert.equal(highlighter('[12:01] bob: ping @Ada?'), true);
+    assert.equal(highlighter('bob: nevada is hot'), false);
+    assert.equal(highlighter('bob: this is urgent'), true);
+    assert.equal(highlighter('bob: this is URGENT'), false);
+    assert.equal(highlighter('[#7] ada: hi ada'), false);
+    assert.equal(isOwnLine('<ada> hello', 'ada'), true);
+    assert.equal(isOwnLine('ada ↳ #3: sure', 'ada'), true);
+    assert.equal(isOwnLine('adam: hello', 'ada'), false);
+  });
+
+  it('has nothing to match without a nickname or rules', () => {
+    assert.equal(createHighlighter({ nickname: 'ada', highlightNickname: false, rules: [] }), null);
+    assert.equal(createHighlighter({ nickname: '', highlightNickname: true, rules: [] }), null);
+  });
+
+  it('prefixes the page title with the unread count', () => {
+    assert.equal(formatUnreadTitle('Chatter', 0), 'Chatter');
+    assert.equal(formatUnreadTitle('Chatter', 3), '(3) Chatter');
+  });
+});
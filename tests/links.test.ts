@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findUrls, lastLinkIn, needsLinkConfirmation, parseSafeUrl } from '../src/utils/links.js';
+
+describe('terminal links', () => {
+  it('finds URLs without the punctuation around them', () => {
+    const text = 'see (https://example.com/a_(b)), or http://x.test/img.png. and ftp://no';
+    assert.deepEqual(
+      findUrls(text).map((match) => match.url),
+      ['https://example.com/a_(b)', 'http://x.test/img.png']
+    );
+    const [first] = findUrls(text);
+    assert.equal(text.slice(first.start, first.end), first.url);
+    assert.deepEqual(findUrls('\u001b[34mhttps://a.test/x\u001b[0m').map((match) => match.url), ['https://a.test/x']);
+  });
+
+  it('allows only known schemes and confirms anything but HTTPS', () => {
+    assert.equal(parseSafeUrl('javascript:alert(1)'), null);
+    assert.equal(parseSafeUrl('data:text/html,hi'), null);
+    assert.equal(parseSafeUrl('not a url'), null);
+    assert.equal(needsLinkConfirmation(parseSafeUrl('https://a.test') as URL), false);
+    assert.equal(needsLinkConfirmation(parseSafeUrl('http://a.test') as URL), true);
+    assert.equal(needsLinkConfirmation(parseSafeUrl('mailto:bob@a.test') as URL), true);
+  });
+
+  it('picks the latest OSC 8 or plain link from raw output', () => {
+    const osc = '\u001b]8;id=1;https://docs.test/page\u0007docs\u001b]8;;\u0007';
+    assert.equal(lastLinkIn(`old https://a.test/1 then ${osc}`), 'https://docs.test/page');
+    assert.equal(lastLinkIn(`${osc} now https://a.test/2`), 'https://a.test/2');
+    assert.equal(lastLinkIn('\u001b]8;;javascript:alert(1)\u001b\\x\u001b]8;;\u001b\\'), null);
+  });
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  attachmentFileName,
+  attachmentKindFromUrl,
+  formatByteSize,
+  MAX_PREVIEW_BYTES,
+  parsePreviewUrl,
+  previewAction
+} from '../src/utils/mediaPreview.js';
+
+describe('media previews', () => {
+  it('infers the kind from the file extension of web URLs', () => {
+    assert.equal(attachmentKindFromUrl('https://x.test/cat.PNG?size=large'), 'image');
+    assert.equal(attachmentKindFromUrl('http://x.test/clip.webm'), 'video');
+    assert.equal(attachmentKindFromUrl('https://x.test/song.mp3#t=10'), 'audio');
+    assert.equal(attachmentKindFromUrl('https://x.test/notes.pdf'), null);
+    assert.equal(attachmentKindFromUrl('mailto:cat.png@x.test'), null);
+    assert.equal(parsePreviewUrl('javascript:alert(1)//.png'), null);
+  });
+
+  it('names files and sizes for the preview card', () => {
+    assert.equal(attachmentFileName('https://x.test/a/My%20Notes.pdf'), 'My Notes.pdf');
+    assert.equal(attachmentFileName('https://x.test/'), 'x.test');
+    assert.equal(formatByteSize(512), '512 B');
+    assert.equal(formatByteSize(1536), '1.5 KB');
+    assert.equal(formatByteSize(25 * 1024 * 1024), '25 MB');
+  });
+
+  it('loads media of unknown size only when asked to', () => {
+    assert.equal(previewAction(1024, false), 'load');
+    assert.equal(previewAction(MAX_PREVIEW_BYTES + 1, true), 'too-large');
+    assert.equal(previewAction(null, false), 'ask');
+    assert.equal(previewAction(null, true), 'load');
+  });
+});
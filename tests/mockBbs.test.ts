@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import { connect } from 'node:net';
+import type { Socket } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { createMockBbs, MOCK_BBS_PROMPTS } from '../src/dev/mockBbs.js';
+
+const IAC = 255;
+
+type TelnetClient = {
+  socket: Socket;
+  // Text received so far with TELNET commands removed.
+  text: () => string;
+  waitFor: (needle: string, timeoutMs?: number) => Promise<void>;
+  send: (data: string | number[]) => void;
+};
+
+const openClient = (port: number): Promise<TelnetClient> =>
+  new Promise((resolve, reject) => {
+    const socket = connect({ host: '127.0.0.1', port });
+    let received = '';
+    const waiters = new Set<() => void>();
+
+    socket.on('data', (chunk: Buffer) => {
+      const bytes: number[] = [];
+      for (let index = 0; index < chunk.length; index += 1) {
+        if (chunk[index] === IAC) {
+          // Skip the whole negotiation or subnegotiation; the mock never sends escaped 0xFF data.
+          if (chunk[index + 1] === 250) {
+            while (index < chunk.length && !(chunk[index] === IAC && chunk[index + 1] === 240)) {
+              index += 1;
+            }
+            index += 1;
+          } else {
+            index += 2;
+          }
+          continue;
+        }
+        bytes.push(chunk[index]);
+      }
+      received += Buffer.from(bytes).toString('utf8');
+      for (const waiter of waiters) {
+        waiter();
+      }
+    });
+
+    const client: TelnetClient = {
+      socket,
+      text: () => received,
+      waitFor: (needle, timeoutMs = 2000) =>
+        new Promise<void>((resolveWait, rejectWait) => {
+          const check = () => {
+            if (received.includes(needle)) {
+              clearTimeout(timer);
+              waiters.delete(check);
+              resolveWait();
+            }
+          };
+          const timer = setTimeout(() => {
+            waiters.delete(check);
+            rejectWait(new Error(`Timed out waiting for ${JSON.stringify(needle)}; got ${JSON.stringify(received)}`));
+          }, timeoutMs);
+          waiters.add(check);
+          check();
+        }),
+      send: (data) => {
+        socket.write(typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(data));
+      }
+    };
+
+    socket.on('connect', () => resolve(client));
+    socket.on('error', reject);
+  });
+
+const login = async (client: TelnetClient, nickname: string) => {
+  await client.waitFor('Type N');
+  client.send('Y\r\n');
+  await client.waitFor(MOCK_BBS_PROMPTS.nickname);
+  client.send(`${nickname}\r\n`);
+  await client.waitFor(MOCK_BBS_PROMPTS.confirm(nickname));
+  client.send('y\r\n');
+  await client.waitFor(MOCK_BBS_PROMPTS.joined(nickname));
+};
+
+describe('mock Chatter BBS', () => {
+  const bbs = createMockBbs({
+    reservedNicknames: ['admin'],
+    rules: [{ match: /^ping$/u, reply: 'pong' }]
+  });
+  let port = 0;
+  const clients: TelnetClient[] = [];
+
+  const open = async () => {
+    const client = await openClient(port);
+    clients.push(client);
+    return client;
+  };
+
+  before(async () => {
+    port = await bbs.listen();
+  });
+
+  after(async () => {
+    for (const client of clients) {
+      client.socket.destroy();
+    }
+    await bbs.close();
+  });
+
+  it('walks through the Chatter login prompts', async () => {
+    const client = await open();
+    await client.waitFor(MOCK_BBS_PROMPTS.introMarker);
+    await login(client, 'alice');
+    assert.equal(bbs.sessions.find((session) => session.nickname === 'alice')?.stage, 'chat');
+  });
+
+  it('records NAWS and TTYPE answers', async () => {
+    const client = await open();
+    await client.waitFor('Type N');
+    client.send([IAC, 250, 31, 0, 120, 0, 40, IAC, 240]);
+    client.send([IAC, 250, 24, 0, ...Buffer.from('xterm-256color'), IAC, 240]);
+    client.send('Y\r\n');
+    await client.waitFor(MOCK_BBS_PROMPTS.nickname);
+    const session = bbs.sessions[bbs.sessions.length - 1];
+    assert.deepEqual(session.windowSize, { cols: 120, rows: 40 });
+    assert.equal(session.terminalType, 'xterm-256color');
+  });
+
+  it('rejects nicknames that are already in use and closes the connection', async () => {
+    const client = await open();
+    await client.waitFor('Type N');
+    client.send('Y\r\n');
+    await client.waitFor(MOCK_BBS_PROMPTS.nickname);
+    const closed = new Promise<void>((resolve) => client.socket.on('close', () => resolve()));
+    client.send('admin\r\n');
+    await client.waitFor('already in use');
+    await closed;
+  });
+
+  it('echoes typed characters and broadcasts chat lines', async () => {
+    const bob = await open();
+    await login(bob, 'bob');
+    const alice = clients[0];
+    bob.send('hello there\r\n');
+    await bob.waitFor('hello there\r\n');
+    await alice.waitFor('bob: hello there');
+    bbs.say('carol', 'hi all');
+    await alice.waitFor('carol: hi all');
+    await bob.waitFor('carol: hi all');
+  });
+
+  it('numbers messages for replies and reactions', async () => {
+    const [alice, , , bob] = clients;
+    bbs.say('carol', 'anyone around?');
+    await alice.waitFor('] carol: anyone around?');
+    const id = alice.text().match(/#(\d+)\] \[[\d:]+\] carol: anyone around\?/u)?.[1];
+    assert.ok(id);
+    bob.send(`/reply ${id} I am\r\n`);
+    await alice.waitFor(`bob ↳ #${id}: I am`);
+    bob.send(`/love ${id}\r\n`);
+    await alice.waitFor(`* bob reacted love to #${id}`);
+  });
+
+  it('answers catalog slash commands and scripted rules', async () => {
+    const alice = clients[0];
+    alice.send('/connected\r\n');
+    await alice.waitFor('Connected: alice, bob');
+    alice.send('/retro off\r\n');
+    await alice.waitFor('Retro mode disabled.');
+    alice.send('/help\r\n');
+    await alice.waitFor('/nick <name>');
+    alice.send('ping\r\n');
+    await alice.waitFor('pong');
+    alice.send('/nope\r\n');
+    await alice.waitFor('Unknown command: /nope');
+  });
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compileSearch, findOutputMatches, nearestMatch } from '../src/utils/outputSearch.js';
+
+const search = (lines: string[], query: string, options = { caseSensitive: false, regex: false }) => {
+  const compiled = compileSearch(query, options);
+  assert.ok(compiled.ok);
+  return findOutputMatches(lines, compiled.pattern);
+};
+
+describe('output search', () => {
+  it('matches plain text literally and ignores case unless asked', () => {
+    const lines = ['#12] alice: see a.b', '#13] Alice: a+b?'];
+    assert.deepEqual(search(lines, 'alice'), [
+      { line: 0, start: 5, end: 10 },
+      { line: 1, start: 5, end: 10 }
+    ]);
+    assert.deepEqual(search(lines, 'alice', { caseSensitive: true, regex: false }), [{ line: 0, start: 5, end: 10 }]);
+    assert.deepEqual(search(lines, 'a+b?'), [{ line: 1, start: 12, end: 16 }]);
+  });
+
+  it('supports regular expressions and reports invalid ones', () => {
+    const lines = ['#12] hi', 'x', '#130] yo #7'];
+    assert.deepEqual(
+      search(lines, '#\\d+', { caseSensitive: false, regex: true }).map((match) => `${match.line}:${match.start}`),
+      ['0:0', '2:0', '2:9']
+    );
+    assert.deepEqual(search(lines, 'z*', { caseSensitive: false, regex: true }), []);
+    const invalid = compileSearch('(', { caseSensitive: false, regex: true });
+    assert.equal(invalid.ok, false);
+    assert.equal(compileSearch('', { caseSensitive: false, regex: false }).ok, false);
+  });
+
+  it('caps the matches and finds the one nearest a line', () => {
+    const compiled = compileSearch('a', { caseSensitive: false, regex: false });
+    assert.ok(compiled.ok);
+    const matches = findOutputMatches(['aaa', 'aa'], compiled.pattern, 4);
+    assert.equal(matches.length, 4);
+    assert.equal(nearestMatch(matches, 1), 3);
+    assert.equal(nearestMatch(matches, 5), 0);
+    assert.equal(nearestMatch([], 0), -1);
+  });
+});
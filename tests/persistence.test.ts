@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ChatStore } from '../src/state/chatStore.js';
+import {
+  CHAT_STATE_STORAGE_KEY,
+  createChatStatePersistence,
+  createMemoryAdapter,
+  migrateChatState
+} from '../src/state/persistence.js';
+import { seedState } from '../src/state/seed.js';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('chat state persistence', () => {
+  it('debounces writes triggered by store updates', async () => {
+    const adapter = createMemoryAdapter();
+    let writes = 0;
+    const write = adapter.write;
+    adapter.write = async (key, value) => {
+      writes += 1;
+      await write(key, value);
+    };
+    const persistence = createChatStatePersistence({ adapter, defaults: seedState, debounceMs: 10 });
+    const store = new ChatStore(seedState, persistence);
+    await persistence.load();
+
+    store.updateAsciiArt('(o_o)');
+    store.setPalette('amber');
+    store.updateTranslation({ targetLang: 'ko' });
+    assert.equal(writes, 0);
+    await wait(30);
+    assert.equal(writes, 1);
+
+    const stored = JSON.parse(adapter.entries.get(CHAT_STATE_STORAGE_KEY) ?? '{}');
+    assert.equal(stored.version, 1);
+    assert.equal(stored.state.asciiArtDraft, '(o_o)');
+    assert.equal('connectedUsers' in stored.state, false);
+  });
+
+  it('restores saved state on top of the defaults', async () => {
+    const adapter = createMemoryAdapter();
+    const first = createChatStatePersistence({ adapter, defaults: seedState, debounceMs: 10 });
+    const store = new ChatStore(seedState, first);
+    await first.load();
+    store.createPoll('lunch', 'Where?', ['Noodles', 'Tacos'], false);
+    store.quickVote('lunch', 1);
+    store.setSystemPalette({ foreground: '#00ff00' });
+    await first.flush();
+
+    const second = createChatStatePersistence({ adapter, defaults: seedState });
+    const restored = await second.load();
+    assert.ok(restored);
+    assert.equal(restored.polls.lunch.options[1].votes, 1);
+    assert.equal(restored.systemPalette.foreground, '#00ff00');
+    assert.equal(restored.systemPalette.background, seedState.systemPalette.background);
+    assert.deepEqual(restored.connectedUsers, seedState.connectedUsers);
+
+    const reloaded = new ChatStore(seedState, second);
+    reloaded.hydrate(restored);
+    assert.equal(reloaded.snapshot().polls.lunch.question, 'Where?');
+  });
+
+  it('holds saves until the saved state is loaded and keeps changes made meanwhile', async () => {
+    const adapter = createMemoryAdapter();
+    const earlier = createChatStatePersistence({ adapter, defaults: seedState });
+    const previous = new ChatStore(seedState, earlier);
+    await earlier.load();
+    previous.updateAsciiArt('(saved)');
+    previous.createPoll('lunch', 'Where?', ['Noodles', 'Tacos'], false);
+    await earlier.flush();
+    const stored = adapter.entries.get(CHAT_STATE_STORAGE_KEY);
+
+    const persistence = createChatStatePersistence({ adapter, defaults: seedState, debounceMs: 10 });
+    const store = new ChatStore(seedState, persistence);
+    store.setPalette('amber');
+    store.createPoll('tea', 'Milk?', ['Yes', 'No'], false);
+    await wait(30);
+    await persistence.flush();
+    assert.equal(adapter.entries.get(CHAT_STATE_STORAGE_KEY), stored);
+
+    const saved = await persistence.load();
+    assert.ok(saved);
+    store.hydrate(saved);
+    const merged = store.snapshot();
+    assert.equal(merged.asciiArtDraft, '(saved)');
+    assert.equal(merged.palette, 'amber');
+    assert.deepEqual(Object.keys(merged.polls).sort(), ['lunch', 'tea']);
+
+    await wait(30);
+    const written = JSON.parse(adapter.entries.get(CHAT_STATE_STORAGE_KEY) ?? '{}');
+    assert.equal(written.state.asciiArtDraft, '(saved)');
+    assert.equal(written.state.palette, 'amber');
+  });
+
+  it('runs pending migrations in order and skips newer versions', () => {
+    const stored = { version: 1, savedAt: '', state: { palette: 'green', colour: '#fff' } };
+    const migrated = migrateChatState(stored, seedState, 3, [
+      {
+        version: 3,
+        migrate: (state) => ({ ...state, palette: `${String(state.palette)}-v3` })
+      },
+      {
+        version: 2,
+        migrate: ({ colour, ...state }) => ({ ...state, handleColor: colour })
+      }
+    ]);
+    assert.equal(migrated?.palette, 'green-v3');
+    assert.equal(migrated?.handleColor, '#fff');
+
+    assert.equal(migrateChatState({ ...stored, version: 4 }, seedState, 3, []), null);
+    assert.equal(migrateChatState('nonsense', seedState), null);
+  });
+
+  it('ignores unreadable stored data', async () => {
+    const adapter = createMemoryAdapter({ [CHAT_STATE_STORAGE_KEY]: '{not json' });
+    const persistence = createChatStatePersistence({ adapter, defaults: seedState });
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      assert.equal(await persistence.load(), null);
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
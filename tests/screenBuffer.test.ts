@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applySgr, createScreenBuffer, DEFAULT_CELL_STYLE, lineRuns, lineText } from '../src/utils/screenBuffer.js';
+import type { ScreenBuffer } from '../src/utils/screenBuffer.js';
+
+const screenText = (screen: ScreenBuffer) => screen.screenLines().map(lineText);
+
+describe('screen buffer', () => {
+  it('moves the cursor, erases and wraps like a VT100', () => {
+    const screen = createScreenBuffer({ cols: 10, rows: 4 });
+    screen.write('hello\r\nworld');
+    screen.write('\u001b[1;3HX\u001b[2;1H\u001b[K\u001b[3;9Habcd');
+    assert.deepEqual(screenText(screen), ['heXlo', '', '        ab', 'cd']);
+    assert.deepEqual(screen.cursor, { row: 3, col: 2, visible: true });
+
+    screen.write('\u001b[2J\u001b[H\u001b[?25l12345\u001b[3D\u001b[1P\u001b[2@');
+    assert.deepEqual(screenText(screen), ['12  45', '', '', '']);
+    assert.equal(screen.cursor.visible, false);
+  });
+
+  it('keeps styles, 24-bit colours and DEC line drawing', () => {
+    const screen = createScreenBuffer({ cols: 20, rows: 2 });
+    screen.write('\u001b[1;3;4;7;38;2;255;128;0;48;5;21mhot\u001b[0m \u001b[38:2::1:2:3mrgb\u001b[m');
+    screen.write('\r\n\u001b(0lqk\u001b(B!');
+    const [first, second] = screen.screenLines();
+    const [hot, space, rgb] = lineRuns(first);
+    assert.deepEqual(hot.style, {
+      ...DEFAULT_CELL_STYLE,
+      fg: '#ff8000',
+      bg: 21,
+      bold: true,
+      italic: true,
+      underline: true,
+      inverse: true
+    });
+    assert.equal(space.style, DEFAULT_CELL_STYLE);
+    assert.equal(rgb.style.fg, '#010203');
+    assert.equal(lineText(second), '┌─┐!');
+    assert.equal(applySgr(DEFAULT_CELL_STYLE, ['31', '0']), DEFAULT_CELL_STYLE);
+    assert.equal(applySgr(DEFAULT_CELL_STYLE, ['94']).fg, 12);
+  });
+
+  it('scrolls inside margins and into the scrollback', () => {
+    const screen = createScreenBuffer({ cols: 10, rows: 3, scrollback: 2 });
+    screen.write('a\r\nb\r\nc\r\nd\r\ne\r\nf');
+    assert.deepEqual(screen.lines().map(lineText), ['b', 'c', 'd', 'e', 'f']);
+
+    screen.write('\u001b[2J\u001b[H1\r\n2\r\n3\u001b[2;3r\u001b[3;1H\n4');
+    assert.deepEqual(screenText(screen), ['1', '3', '4']);
+    screen.write('\u001b[2;1H\u001bMtop');
+    assert.deepEqual(screenText(screen), ['1', 'top', '3']);
+  });
+
+  it('switches to the alternate screen and back', () => {
+    const screen = createScreenBuffer({ cols: 10, rows: 2 });
+    screen.write('shell\u001b[?1049h\u001b[Hgame');
+    assert.equal(screen.alternate, true);
+    assert.deepEqual(screenText(screen), ['game', '']);
+    screen.write('\u001b[?1049l!');
+    assert.deepEqual(screenText(screen), ['shell!', '']);
+  });
+
+  it('puts wide characters in two cells and answers cursor reports', () => {
+    const replies: string[] = [];
+    const screen = createScreenBuffer({ cols: 5, rows: 2, onReply: (data) => replies.push(data) });
+    screen.write('안녕a\u001b[6n');
+    assert.equal(lineText(screen.screenLines()[0]), '안녕a');
+    assert.deepEqual(replies, ['\u001b[1;5R']);
+    screen.write('한');
+    assert.deepEqual(screenText(screen), ['안녕a', '한']);
+    screen.write('\u001b]0;title\u0007\u001b[1;2Hx');
+    assert.equal(lineText(screen.screenLines()[0]), ' x녕a');
+  });
+
+  it('attaches OSC 8 hyperlinks to the cells written under them', () => {
+    const screen = createScreenBuffer({ cols: 20, rows: 1 });
+    screen.write('go \u001b]8;;https://a.test/\u001b\\\u001b[1mhere\u001b[0m!\u001b]8;;\u0007 x');
+    const runs = lineRuns(screen.screenLines()[0]);
+    assert.deepEqual(
+      runs.map((run) => [run.text, run.style.link, run.style.bold]),
+      [
+        ['go ', null, false],
+        ['here', 'https://a.test/', true],
+        ['!', 'https://a.test/', false],
+        [' x', null, false]
+      ]
+    );
+    assert.equal(runs[3].style, DEFAULT_CELL_STYLE);
+  });
+});
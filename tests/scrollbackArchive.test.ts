@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  archivedLineRows,
+  createLineCollector,
+  createMemoryArchiveBackend,
+  createScrollbackArchive,
+  parseArchivedLine,
+  styleToSgr
+} from '../src/utils/scrollbackArchive.js';
+import { applySgr, DEFAULT_CELL_STYLE } from '../src/utils/screenBuffer.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('scrollback archive', () => {
+  it('splits output into lines that keep colours across line breaks', () => {
+    const collector = createLineCollector();
+    assert.deepEqual(collector.push('\u001b[1;31mred\r\nstill '), ['\u001b[1;31mred']);
+    assert.deepEqual(collector.push('red\u001b[0m\r\n\u001b[2Kprogress 10%\rprogress 99%\r\n'), [
+      '\u001b[1;31mstill red\u001b[0m',
+      'progress 99%'
+    ]);
+    assert.deepEqual(collector.push('\u001b]0;title\u0007tail'), []);
+    assert.deepEqual(collector.flush(), ['tail']);
+  });
+
+  it('round-trips styles through SGR', () => {
+    const style = applySgr(DEFAULT_CELL_STYLE, ['3', '4', '38', '2', '1', '2', '3', '48', '5', '200', '95']);
+    assert.deepEqual(applySgr(DEFAULT_CELL_STYLE, styleToSgr(style).slice(2, -1).split(';')), style);
+    assert.equal(styleToSgr(DEFAULT_CELL_STYLE), '');
+
+    const runs = parseArchivedLine('\u001b[32mok\u001b[0m plain');
+    assert.deepEqual(
+      runs.map((run) => [run.text, run.style.fg]),
+      [
+        ['ok', 2],
+        [' plain', null]
+      ]
+    );
+  });
+
+  it('pages lines per target and applies the retention policy', async () => {
+    let now = 10 * DAY_MS;
+    const backend = createMemoryArchiveBackend();
+    const archive = createScrollbackArchive({ backend, retentionDays: 7, maxLinesPerTarget: 3, now: () => now });
+    // With no live view every line is evicted as soon as it completes.
+    archive.setLiveView(0, 80);
+    archive.record('a', 'one\ntwo\n');
+    now += 8 * DAY_MS;
+    archive.record('a', 'three\nfour\nfive\n');
+    archive.record('b', 'other\n');
+    assert.equal(await archive.count('a'), 5);
+    assert.deepEqual(
+      (await archive.read('a', 1, 2)).map((line) => line.text),
+      ['two', 'three']
+    );
+
+    await archive.applyRetention();
+    assert.deepEqual(
+      (await archive.read('a', 0, 10)).map((line) => line.text),
+      ['three', 'four', 'five']
+    );
+
+    archive.record('a', 'six\n');
+    await archive.applyRetention();
+    assert.deepEqual(
+      (await archive.read('a', 0, 10)).map((line) => line.text),
+      ['four', 'five', 'six']
+    );
+
+    await archive.setRetentionDays(0);
+    archive.record('a', 'ignored\n');
+    assert.equal(await archive.count('a'), 0);
+    assert.equal(backend.lines.length, 0);
+  });
+
+  it('archives lines only once they scroll out of the live view', async () => {
+    const backend = createMemoryArchiveBackend();
+    const archived: string[] = [];
+    const archive = createScrollbackArchive({
+      backend,
+      retentionDays: 1,
+      onArchived: (targets) => archived.push(...targets)
+    });
+    archive.setLiveView(3, 10);
+    assert.equal(archivedLineRows('\u001b[31m0123456789\u001b[0mx', 10), 2);
+    assert.equal(archivedLineRows('', 10), 1);
+
+    archive.record('a', 'one\ntwo\n');
+    assert.equal(await archive.count('a'), 0);
+
+    // Twenty-five columns wrap onto three rows, which pushes both earlier lines out.
+    archive.record('a', `${'x'.repeat(25)}\nprompt> `);
+    assert.deepEqual(
+      (await archive.read('a', 0, 10)).map((line) => line.text),
+      ['one', 'two']
+    );
+    assert.deepEqual(archived, ['a']);
+
+    // The partial line joins the view once flushed, pushing the wrapped line out in turn.
+    await archive.flush();
+    assert.equal(await archive.count('a'), 3);
+    archive.setLiveView(0, 10);
+    archive.setLiveView(3, 10);
+    archive.record('a', 'later\n');
+    assert.equal(await archive.count('a'), 4);
+    await archive.evictLive();
+    assert.deepEqual(
+      (await archive.read('a', 2, 10)).map((line) => line.text),
+      ['x'.repeat(25), 'prompt> ', 'later']
+    );
+  });
+
+  it('stays off until a retention period is chosen', async () => {
+    const backend = createMemoryArchiveBackend();
+    const archive = createScrollbackArchive({ backend });
+    archive.setLiveView(0, 80);
+    archive.record('a', 'not kept\n');
+    await archive.evictLive();
+    assert.equal(archive.retentionDays, 0);
+    assert.equal(backend.lines.length, 0);
+  });
+});
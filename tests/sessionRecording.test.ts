@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createSessionRecorder, renderTranscriptText } from '../src/utils/sessionRecording.js';
+
+const createClock = (start: number) => {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms;
+    }
+  };
+};
+
+describe('session recorder', () => {
+  it('exports asciicast v2 with a header and relative timestamps', () => {
+    const clock = createClock(1_700_000_000_000);
+    const recorder = createSessionRecorder({ cols: 80, rows: 24, now: clock.now });
+    clock.advance(250);
+    recorder.recordOutput('hello\r\n');
+    clock.advance(1000);
+    recorder.recordInput('/who\r');
+    recorder.recordResize(100, 30);
+
+    const [header, ...lines] = recorder.toAsciicast('chatter.pw').trimEnd().split('\n');
+    assert.deepEqual(JSON.parse(header), {
+      version: 2,
+      width: 80,
+      height: 24,
+      timestamp: 1_700_000_000,
+      env: { TERM: 'xterm-256color' },
+      title: 'chatter.pw'
+    });
+    assert.deepEqual(lines.map((line) => JSON.parse(line)), [
+      [0.25, 'o', 'hello\r\n'],
+      [1.25, 'i', '/who\r'],
+      [1.25, 'r', '100x30']
+    ]);
+  });
+
+  it('uses a resize before the first event as the header size', () => {
+    const recorder = createSessionRecorder({ cols: 80, rows: 24 });
+    recorder.recordResize(132, 43);
+    const header = JSON.parse(recorder.toAsciicast().split('\n')[0]);
+    assert.equal(header.width, 132);
+    assert.equal(header.height, 43);
+    assert.equal(recorder.events.length, 0);
+  });
+
+  it('renders transcripts from output only, without escape sequences', () => {
+    const recorder = createSessionRecorder({ cols: 80, rows: 24 });
+    recorder.recordOutput('\u001b[1;32malice\u001b[0m: hi\r\n');
+    recorder.recordInput('secret\r');
+    recorder.recordOutput('\u001b]8;;https://chatter.pw\u0007link\u001b]8;;\u0007\r\n');
+    assert.equal(recorder.toTranscript(), 'alice: hi\nlink\n');
+  });
+
+  it('clear drops events and restarts the clock', () => {
+    const clock = createClock(0);
+    const recorder = createSessionRecorder({ cols: 80, rows: 24, now: clock.now });
+    recorder.recordOutput('old');
+    clock.advance(5000);
+    recorder.clear();
+    recorder.recordOutput('new');
+    assert.deepEqual(recorder.events, [[0, 'o', 'new']]);
+  });
+
+  it('strips control characters but keeps tabs', () => {
+    assert.equal(renderTranscriptText('a\tb\u0007c\u0008'), 'a\tbc');
+  });
+});
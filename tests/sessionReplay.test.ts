@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createReplayController, parseRecording } from '../src/utils/sessionReplay.js';
+import type { ReplayRecording, ReplayScheduler } from '../src/utils/sessionReplay.js';
+
+const CAST = [
+  JSON.stringify({ version: 2, width: 100, height: 30, title: 'chatter.pw' }),
+  JSON.stringify([0.5, 'o', 'alice: hi\r\n']),
+  JSON.stringify([1, 'i', '/who\r']),
+  JSON.stringify([2, 'r', '120x40']),
+  JSON.stringify([3, 'o', '\u001b[1mbob\u001b[0m: hello\r\n'])
+].join('\n');
+
+const createFakeScheduler = () => {
+  let now = 0;
+  let nextHandle = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+  const scheduler: ReplayScheduler = {
+    now: () => now,
+    setTimeout: (callback, delay) => {
+      const handle = nextHandle++;
+      timers.set(handle, { at: now + delay, callback });
+      return handle;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle);
+    }
+  };
+  const advance = (ms: number) => {
+    const until = now + ms;
+    for (;;) {
+      const due = [...timers.entries()]
+        .filter(([, timer]) => timer.at <= until)
+        .sort((left, right) => left[1].at - right[1].at)[0];
+      if (!due) {
+        break;
+      }
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = until;
+  };
+  return { scheduler, advance };
+};
+
+const load = (text: string): ReplayRecording => {
+  const result = parseRecording(text);
+  assert.equal(result.ok, true);
+  return (result as { ok: true; recording: ReplayRecording }).recording;
+};
+
+const createHarness = (recording: ReplayRecording) => {
+  const clock = createFakeScheduler();
+  const output: string[] = [];
+  const sizes: string[] = [];
+  let resets = 0;
+  const controller = createReplayController({
+    recording,
+    write: (data) => output.push(data),
+    reset: () => {
+      resets += 1;
+      output.length = 0;
+    },
+    resize: (cols, rows) => sizes.push(`${cols}x${rows}`),
+    scheduler: clock.scheduler
+  });
+  return { controller, clock, output, sizes, resets: () => resets };
+};
+
+describe('parseRecording', () => {
+  it('reads asciicast v2 and drops input events', () => {
+    const recording = load(CAST);
+    assert.equal(recording.cols, 100);
+    assert.equal(recording.rows, 30);
+    assert.equal(recording.title, 'chatter.pw');
+    assert.deepEqual(
+      recording.events.map(([time, type]) => `${time}${type}`),
+      ['0.5o', '2r', '3o']
+    );
+    assert.equal(recording.duration, 3);
+  });
+
+  it('rejects other asciicast versions', () => {
+    const result = parseRecording('{"version": 1, "width": 80}\n');
+    assert.equal(result.ok, false);
+  });
+
+  it('treats anything else as a transcript with one event per line', () => {
+    const recording = load('first\nsecond\n');
+    assert.deepEqual(recording.events, [
+      [0, 'o', 'first\r\n'],
+      [0.05, 'o', 'second\r\n']
+    ]);
+  });
+});
+
+describe('replay controller', () => {
+  it('plays events on schedule and honours the speed', () => {
+    const { controller, clock, output, sizes } = createHarness(load(CAST));
+    controller.play();
+    clock.advance(400);
+    assert.deepEqual(output, []);
+    clock.advance(200);
+    assert.deepEqual(output, ['alice: hi\r\n']);
+
+    controller.setSpeed(2);
+    clock.advance(700);
+    assert.deepEqual(sizes, ['120x40']);
+    assert.equal(output.length, 1);
+    clock.advance(500);
+    assert.equal(output.length, 2);
+    assert.equal(controller.playing, false);
+    assert.equal(controller.position(), 3);
+  });
+
+  it('pauses and resumes from the same position', () => {
+    const { controller, clock, output } = createHarness(load(CAST));
+    controller.play();
+    clock.advance(1000);
+    controller.pause();
+    clock.advance(10_000);
+    assert.equal(output.length, 1);
+    assert.equal(controller.position(), 1);
+    controller.play();
+    clock.advance(2000);
+    assert.equal(output.length, 2);
+  });
+
+  it('seeks backwards by resetting and re-rendering', () => {
+    const { controller, output, resets } = createHarness(load(CAST));
+    controller.seek(3);
+    assert.equal(output.length, 2);
+    const before = resets();
+    controller.seek(1);
+    assert.equal(resets(), before + 1);
+    assert.deepEqual(output, ['alice: hi\r\n']);
+  });
+
+  it('finds text across escape sequences and wraps around', () => {
+    const { controller } = createHarness(load(CAST));
+    assert.equal(controller.find('BOB: hello'), 3);
+    controller.seek(3);
+    assert.equal(controller.find('alice'), 0.5);
+    assert.equal(controller.find('nobody'), null);
+  });
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+// The server module only listens when CHATTER_LISTEN allows it, so set that before loading it.
+process.env.CHATTER_LISTEN = 'off';
+const { createTelnetNegotiator, escapeTelnetData } = await import('../src/server.js');
+
+const IAC = 0xff;
+const DONT = 0xfe;
+const DO = 0xfd;
+const WONT = 0xfc;
+const WILL = 0xfb;
+const SB = 0xfa;
+const SE = 0xf0;
+const NOP = 0xf1;
+const ECHO = 1;
+const BINARY = 0;
+const TTYPE = 24;
+const NAWS = 31;
+const CHARSET = 42;
+
+const createHarness = (windowSize = { cols: 80, rows: 24 }) => {
+  const sent: number[][] = [];
+  const negotiator = createTelnetNegotiator((data: Buffer) => {
+    sent.push(Array.from(data));
+  }, windowSize);
+  const receive = (...bytes: number[]) => negotiator.receive(Buffer.from(bytes)).toString('latin1');
+  return { negotiator, sent, receive };
+};
+
+const bytesOf = (text: string) => Array.from(Buffer.from(text, 'latin1'));
+
+describe('telnet negotiator', () => {
+  it('passes data through and strips commands', () => {
+    const { receive, sent } = createHarness();
+    assert.equal(receive(...bytesOf('hi'), IAC, NOP, ...bytesOf(' there')), 'hi there');
+    assert.deepEqual(sent, []);
+  });
+
+  it('unescapes IAC IAC in data and escapes it on the way out', () => {
+    const { receive, negotiator } = createHarness();
+    assert.deepEqual(Array.from(Buffer.from(receive(0x41, IAC, IAC, 0x42), 'latin1')), [0x41, IAC, 0x42]);
+    assert.deepEqual(Array.from(negotiator.encode(Buffer.from([0x41, IAC, 0x42]))), [0x41, IAC, IAC, 0x42]);
+    const plain = Buffer.from('plain');
+    assert.equal(escapeTelnetData(plain), plain);
+  });
+
+  it('accepts the options it supports and refuses the rest, once each', () => {
+    const { receive, sent } = createHarness();
+    receive(IAC, WILL, ECHO, IAC, WILL, ECHO, IAC, WILL, 99, IAC, DO, 99);
+    assert.deepEqual(sent, [
+      [IAC, DO, ECHO],
+      [IAC, DONT, 99],
+      [IAC, WONT, 99]
+    ]);
+
+    sent.length = 0;
+    receive(IAC, WONT, ECHO, IAC, WONT, ECHO);
+    assert.deepEqual(sent, [[IAC, DONT, ECHO]]);
+  });
+
+  it('reports the window size over NAWS and again on resize', () => {
+    const { receive, sent, negotiator } = createHarness({ cols: 300, rows: 24 });
+    receive(IAC, DO, NAWS);
+    assert.deepEqual(sent, [
+      [IAC, WILL, NAWS],
+      [IAC, SB, NAWS, 0x01, 0x2c, 0x00, 24, IAC, SE]
+    ]);
+
+    sent.length = 0;
+    negotiator.resize({ cols: 300, rows: 24 });
+    assert.deepEqual(sent, []);
+    // 255 columns must be doubled inside the subnegotiation.
+    negotiator.resize({ cols: 255, rows: 50 });
+    assert.deepEqual(sent, [[IAC, SB, NAWS, 0x00, IAC, IAC, 0x00, 50, IAC, SE]]);
+  });
+
+  it('answers TTYPE SEND with the terminal type', () => {
+    const { receive, sent } = createHarness();
+    receive(IAC, DO, TTYPE, IAC, SB, TTYPE, 1, IAC, SE);
+    assert.deepEqual(sent, [
+      [IAC, WILL, TTYPE],
+      [IAC, SB, TTYPE, 0, ...bytesOf('xterm-256color'), IAC, SE]
+    ]);
+  });
+
+  it('accepts UTF-8 from a CHARSET request and rejects other charsets', () => {
+    const { receive, sent } = createHarness();
+    receive(IAC, SB, CHARSET, 1, ...bytesOf(';ISO-8859-1;UTF-8'), IAC, SE);
+    receive(IAC, SB, CHARSET, 1, ...bytesOf(' KOI8-R'), IAC, SE);
+    assert.deepEqual(sent, [
+      [IAC, SB, CHARSET, 2, ...bytesOf('UTF-8'), IAC, SE],
+      [IAC, SB, CHARSET, 3, IAC, SE]
+    ]);
+  });
+
+  it('keeps its place when sequences are split across chunks', () => {
+    const { receive, sent } = createHarness();
+    assert.equal(receive(0x61, IAC), 'a');
+    assert.equal(receive(DO), '');
+    assert.equal(receive(TTYPE, IAC, SB, TTYPE), '');
+    assert.equal(receive(1, IAC), '');
+    assert.equal(receive(SE, 0x62, IAC), 'b');
+    assert.equal(receive(IAC, 0x63), 'ÿc');
+    assert.deepEqual(sent, [
+      [IAC, WILL, TTYPE],
+      [IAC, SB, TTYPE, 0, ...bytesOf('xterm-256color'), IAC, SE]
+    ]);
+  });
+
+  it('drops a malformed subnegotiation and resumes on the stray command', () => {
+    const { receive, sent } = createHarness();
+    assert.equal(receive(IAC, SB, TTYPE, 1, IAC, WILL, ECHO, 0x7a), 'z');
+    assert.deepEqual(sent, [[IAC, DO, ECHO]]);
+  });
+
+  it('drops the NUL after a bare CR unless binary mode is on', () => {
+    const { receive } = createHarness();
+    assert.equal(receive(0x0d, 0x00, 0x61), '\ra');
+    receive(IAC, WILL, BINARY);
+    assert.equal(receive(0x0d, 0x00), '\r\u0000');
+  });
+
+  it('sends IAC NOP as the keep-alive', () => {
+    const { negotiator, sent } = createHarness();
+    negotiator.nop();
+    assert.deepEqual(sent, [[IAC, NOP]]);
+  });
+});
@@ -0,0 +1,619 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import type { ChildProcessWithoutNullStreams } from 'node:child_process';
+import { connect, createServer } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createMockBbs, MOCK_BBS_PROMPTS } from '../src/dev/mockBbs.js';
+import { encodeControlMessage, parseControlMessage } from '../src/utils/terminalControl.js';
+import type { TerminalControlEnvelope } from '../src/utils/terminalControl.js';
+
+// End-to-end run of dist/server.js against the mock BBS.
+const serverEntry = fileURLToPath(new URL('../server.js', import.meta.url));
+
+const findFreePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      probe.close(() => resolve(port));
+    });
+  });
+
+// Runs dist/server.js on a free port with the given environment and resolves once it is listening.
+const startServer = async (env: Record<string, string>) => {
+  const httpPort = await findFreePort();
+  const child = spawn(process.execPath, [serverEntry], {
+    env: { ...process.env, HOST: '127.0.0.1', PORT: String(httpPort), ...env }
+  });
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('server did not start')), 10_000);
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('available at')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  });
+  return { child, httpPort };
+};
+
+// Sends a bare upgrade request and returns the response head, leaving the socket open only on success.
+const requestUpgrade = (port: number, headers: Record<string, string> = {}, path = '/terminal') =>
+  new Promise<{ head: string; close: () => void }>((resolve, reject) => {
+    const socket = connect({ host: '127.0.0.1', port });
+    let received = '';
+    socket.on('error', reject);
+    socket.on('data', (chunk: Buffer) => {
+      received += chunk.toString('latin1');
+      const end = received.indexOf('\r\n\r\n');
+      if (end !== -1) {
+        resolve({ head: received.slice(0, end), close: () => socket.destroy() });
+      }
+    });
+    const extra = Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`);
+    socket.write(
+      `GET ${path} HTTP/1.1\r\nHost: 127.0.0.1\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+        `Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n${extra.join('')}\r\n`
+    );
+  });
+
+type BridgeClient = {
+  socket: { send: (data: string | Uint8Array) => void; close: (code: number) => void };
+  output: () => string;
+  controls: TerminalControlEnvelope[];
+  waitFor: (predicate: () => boolean, timeoutMs?: number) => Promise<void>;
+  send: (text: string) => void;
+  closed: Promise<number>;
+};
+
+const encodeClientFrame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header =
+    length < 126 ? Buffer.alloc(2) : length < 65_536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = 0x80 | length;
+  } else if (length < 65_536) {
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 0x80 | 127;
+    header.writeUInt32BE(Math.floor(length / 2 ** 32), 2);
+    header.writeUInt32BE(length >>> 0, 6);
+  }
+  const mask = randomBytes(4);
+  const masked = Buffer.alloc(length);
+  for (let index = 0; index < length; index += 1) {
+    masked[index] = payload[index] ^ mask[index % 4];
+  }
+  return Buffer.concat([header, mask, masked]);
+};
+
+// A small RFC 6455 client over a raw socket, so the suite runs on Node releases without a global WebSocket. It
+// offers no extensions, so the server never compresses or needs anything beyond plain frames.
+const openBridge = (url: string): Promise<BridgeClient> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const tcp = connect({ host: target.hostname, port: Number(target.port) });
+    const decoder = new TextDecoder();
+    let output = '';
+    const controls: TerminalControlEnvelope[] = [];
+    const waiters = new Set<() => void>();
+    let resolveClosed: (code: number) => void = () => {};
+    let buffer = Buffer.alloc(0);
+    let handshakeDone = false;
+    let closeSent = false;
+    let fragments: { opcode: number; chunks: Buffer[] } | null = null;
+
+    const sendFrame = (opcode: number, payload: Buffer) => {
+      if (!closeSent) {
+        tcp.write(encodeClientFrame(opcode, payload));
+      }
+    };
+
+    const handleMessage = (opcode: number, payload: Buffer) => {
+      if (opcode === 0x1) {
+        const message = parseControlMessage(payload.toString('utf8'));
+        if (message) {
+          controls.push(message);
+        }
+      } else {
+        output += decoder.decode(payload, { stream: true });
+      }
+      for (const waiter of waiters) {
+        waiter();
+      }
+    };
+
+    const handleFrame = (fin: boolean, opcode: number, payload: Buffer) => {
+      if (opcode === 0x8) {
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+        sendFrame(0x8, payload.subarray(0, 2));
+        closeSent = true;
+        tcp.end();
+        resolveClosed(code);
+        return;
+      }
+      if (opcode === 0x9) {
+        sendFrame(0xa, payload);
+        return;
+      }
+      if (opcode === 0xa) {
+        return;
+      }
+      if (opcode !== 0x0) {
+        fragments = { opcode, chunks: [] };
+      }
+      if (!fragments) {
+        return;
+      }
+      fragments.chunks.push(payload);
+      if (fin) {
+        const message = fragments;
+        fragments = null;
+        handleMessage(message.opcode, Buffer.concat(message.chunks));
+      }
+    };
+
+    const readFrames = () => {
+      while (buffer.length >= 2) {
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+          if (buffer.length < 4) {
+            return;
+          }
+          length = buffer.readUInt16BE(2);
+          offset = 4;
+        } else if (length === 127) {
+          if (buffer.length < 10) {
+            return;
+          }
+          length = buffer.readUInt32BE(2) * 2 ** 32 + buffer.readUInt32BE(6);
+          offset = 10;
+        }
+        if (buffer.length < offset + length) {
+          return;
+        }
+        const fin = (buffer[0] & 0x80) !== 0;
+        const opcode = buffer[0] & 0x0f;
+        const payload = buffer.subarray(offset, offset + length);
+        buffer = buffer.subarray(offset + length);
+        handleFrame(fin, opcode, payload);
+      }
+    };
+
+    const client: BridgeClient = {
+      socket: {
+        send: (data) => sendFrame(typeof data === 'string' ? 0x1 : 0x2, Buffer.from(data)),
+        close: (code) => {
+          const payload = Buffer.alloc(2);
+          payload.writeUInt16BE(code, 0);
+          sendFrame(0x8, payload);
+          closeSent = true;
+        }
+      },
+      output: () => output,
+      controls,
+      waitFor: (predicate, timeoutMs = 3000) =>
+        new Promise<void>((resolveWait, rejectWait) => {
+          const check = () => {
+            if (predicate()) {
+              clearTimeout(timer);
+              clearInterval(poll);
+              waiters.delete(check);
+              resolveWait();
+            }
+          };
+          const timer = setTimeout(() => {
+            clearInterval(poll);
+            waiters.delete(check);
+            rejectWait(new Error(`Timed out; output so far: ${JSON.stringify(output)}`));
+          }, timeoutMs);
+          // Some predicates look at the mock BBS rather than the socket, so poll as well.
+          const poll = setInterval(check, 20);
+          waiters.add(check);
+          check();
+        }),
+      send: (text) => sendFrame(0x2, Buffer.from(text, 'utf8')),
+      closed: new Promise<number>((resolveClose) => {
+        resolveClosed = resolveClose;
+      })
+    };
+
+    tcp.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (!handshakeDone) {
+        const end = buffer.toString('latin1').indexOf('\r\n\r\n');
+        if (end === -1) {
+          return;
+        }
+        const head = buffer.subarray(0, end).toString('latin1');
+        buffer = buffer.subarray(end + 4);
+        if (!/^HTTP\/1\.1 101 /u.test(head)) {
+          tcp.destroy();
+          reject(new Error(`Unable to open ${url}: ${head.split('\r\n')[0]}`));
+          return;
+        }
+        handshakeDone = true;
+        resolve(client);
+      }
+      readFrames();
+    });
+    tcp.on('close', () => resolveClosed(1006));
+    tcp.on('error', (error: Error) => {
+      if (!handshakeDone) {
+        reject(error);
+      }
+    });
+    tcp.write(
+      `GET ${target.pathname}${target.search} HTTP/1.1\r\nHost: ${target.host}\r\nUpgrade: websocket\r\n` +
+        `Connection: Upgrade\r\nSec-WebSocket-Key: ${randomBytes(16).toString('base64')}\r\n` +
+        'Sec-WebSocket-Version: 13\r\n\r\n'
+    );
+  });
+
+describe('terminal bridge against the mock BBS', () => {
+  const bbs = createMockBbs();
+  let server: ChildProcessWithoutNullStreams | null = null;
+  let httpPort = 0;
+  let baseUrl = '';
+  let httpUrl = '';
+
+  before(async () => {
+    const bbsPort = await bbs.listen();
+    const started = await startServer({
+      CHATTER_BBS_HOST: '127.0.0.1',
+      CHATTER_BBS_PORT: String(bbsPort),
+      CHATTER_BBS_PROTOCOL: 'telnet',
+      CHATTER_METRICS_TOKEN: 'scrape-secret',
+      CHATTER_ADMIN_TOKEN: 'admin-secret'
+    });
+    server = started.child;
+    httpPort = started.httpPort;
+    baseUrl = `ws://127.0.0.1:${httpPort}/terminal`;
+    httpUrl = `http://127.0.0.1:${httpPort}`;
+  });
+
+  after(async () => {
+    server?.kill();
+    await bbs.close();
+  });
+
+  it('logs in through the bridge and forwards the window size', async () => {
+    const client = await openBridge(`${baseUrl}?cols=100&rows=30`);
+    await client.waitFor(() => client.output().includes('Type N'));
+    assert.ok(client.controls.some((message) => message.type === 'status' && message.state === 'connected'));
+    const info = client.controls.find((message) => message.type === 'session-info');
+    assert.equal(info?.type === 'session-info' && info.port > 0, true);
+
+    const session = bbs.sessions[bbs.sessions.length - 1];
+    await client.waitFor(() => session.windowSize?.cols === 100);
+    assert.equal(session.terminalType, 'xterm-256color');
+
+    client.socket.send(encodeControlMessage({ type: 'resize', cols: 132, rows: 43 }));
+    await client.waitFor(() => session.windowSize?.cols === 132 && session.windowSize.rows === 43);
+
+    client.send('Y\r\n');
+    await client.waitFor(() => client.output().includes(MOCK_BBS_PROMPTS.nickname));
+    client.send('tester\r\n');
+    await client.waitFor(() => client.output().includes(MOCK_BBS_PROMPTS.confirm('tester')));
+    client.send('y\r\n');
+    await client.waitFor(() => client.output().includes(MOCK_BBS_PROMPTS.joined('tester')));
+
+    client.send('/exit\r\n');
+    await client.waitFor(() => client.output().includes('Goodbye!'));
+    client.socket.close(1000);
+    assert.equal(await client.closed, 1000);
+  });
+
+  it('resumes a dropped session and replays missed output', async () => {
+    const first = await openBridge(baseUrl);
+    await first.waitFor(() => first.controls.some((message) => message.type === 'session-info'));
+    const info = first.controls.find((message) => message.type === 'session-info');
+    assert.ok(info && info.type === 'session-info');
+    await first.waitFor(() => first.output().includes('Type N'));
+    const seen = new TextEncoder().encode(first.output()).length;
+    first.socket.close(3000);
+    await first.closed;
+
+    bbs.sessions[bbs.sessions.length - 1].send('while you were away\r\n');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const second = await openBridge(`${baseUrl}?resume=${info.resumeToken}&offset=${seen}`);
+    await second.waitFor(() => second.output().includes('while you were away'));
+    const resumed = second.controls.find((message) => message.type === 'session-info');
+    assert.equal(resumed?.type === 'session-info' && resumed.resumed, true);
+    assert.equal(second.output().includes('Type N'), false);
+    second.socket.close(1000);
+    await second.closed;
+  });
+
+  it('answers health probes and exposes bridge metrics', async () => {
+    const health = await fetch(`${httpUrl}/healthz`);
+    assert.equal(health.status, 200);
+    assert.equal(await health.text(), 'ok\n');
+
+    const readiness = await fetch(`${httpUrl}/readyz`);
+    const report = (await readiness.json()) as { status: string; checks: Record<string, boolean> };
+    assert.equal(report.checks.listening, true);
+    assert.equal(report.checks.bbsTarget, true);
+    assert.equal(readiness.status, report.status === 'ready' ? 200 : 503);
+
+    const open = await openBridge(baseUrl);
+    await open.waitFor(() => open.output().includes('Type N'));
+
+    assert.equal((await fetch(`${httpUrl}/metrics`)).status, 401);
+    const metrics = await fetch(`${httpUrl}/metrics`, { headers: { Authorization: 'Bearer scrape-secret' } });
+    assert.equal(metrics.status, 200);
+    assert.match(metrics.headers.get('content-type') ?? '', /^text\/plain; version=0\.0\.4/u);
+    const text = await metrics.text();
+    assert.match(text, /^chatter_websocket_sessions 1$/mu);
+    assert.match(text, /^chatter_bridges\{protocol="telnet"\} 1$/mu);
+    assert.match(text, /^chatter_bridge_bytes_total\{direction="out"\} [1-9]\d*$/mu);
+    assert.match(text, /^chatter_session_duration_seconds_count\{protocol="telnet"\} [1-9]\d*$/mu);
+
+    open.socket.close(1000);
+    await open.closed;
+  });
+
+  it('lists, notifies and terminates sessions through the admin API', async () => {
+    const admin = (path: string, init: RequestInit = {}) =>
+      fetch(`${httpUrl}/admin/sessions${path}`, {
+        ...init,
+        headers: { Authorization: 'Bearer admin-secret', 'Content-Type': 'application/json' }
+      });
+
+    assert.equal((await fetch(`${httpUrl}/admin/sessions`)).status, 401);
+
+    const client = await openBridge(`${baseUrl}?username=operator-test`);
+    await client.waitFor(() => client.output().includes('Type N'));
+
+    const listed = (await (await admin('')).json()) as { sessions: { id: string; username: string | null }[] };
+    const entry = listed.sessions.find((session) => session.username === 'operator-test');
+    assert.ok(entry);
+
+    const details = (await (await admin(`/${entry.id}`)).json()) as Record<string, unknown>;
+    assert.equal(details.protocol, 'telnet');
+    assert.equal(details.bridgeOpen, true);
+    assert.equal(typeof details.bytesOut, 'number');
+    assert.equal('resumeToken' in details, false);
+
+    const notice = await admin(`/${entry.id}/notice`, {
+      method: 'POST',
+      body: JSON.stringify({ message: 'Maintenance in five minutes' })
+    });
+    assert.equal(notice.status, 200);
+    await client.waitFor(() =>
+      client.controls.some((message) => message.type === 'notice' && message.message === 'Maintenance in five minutes')
+    );
+
+    const oversized = await admin(`/${entry.id}/notice`, {
+      method: 'POST',
+      body: JSON.stringify({ message: 'x'.repeat(20_000) })
+    });
+    assert.equal(oversized.status, 413);
+    assert.deepEqual(await oversized.json(), { error: 'body-too-large' });
+
+    const badCode = await admin(`/${entry.id}/terminate`, { method: 'POST', body: JSON.stringify({ code: 1006 }) });
+    assert.equal(badCode.status, 400);
+    const terminated = await admin(`/${entry.id}/terminate`, {
+      method: 'POST',
+      body: JSON.stringify({ code: 4001, reason: 'Kicked' })
+    });
+    assert.equal(terminated.status, 200);
+    assert.equal(await client.closed, 4001);
+    assert.equal((await admin(`/${entry.id}`)).status, 404);
+  });
+
+  it('lists parked sessions and lets the admin API end them', async () => {
+    const admin = (path: string, init: RequestInit = {}) =>
+      fetch(`${httpUrl}/admin/sessions${path}`, {
+        ...init,
+        headers: { Authorization: 'Bearer admin-secret', 'Content-Type': 'application/json' }
+      });
+    type Listed = { sessions: { id: string; state: string; username: string | null }[] };
+    const findEntry = async () =>
+      ((await (await admin('')).json()) as Listed).sessions.find((session) => session.username === 'parked-test');
+
+    // Dropping the socket without a close frame parks the session for a resume.
+    const upgrade = await requestUpgrade(httpPort, {}, '/terminal?username=parked-test');
+    assert.match(upgrade.head, /^HTTP\/1\.1 101 /u);
+    assert.equal((await findEntry())?.state, 'attached');
+    upgrade.close();
+
+    let entry = await findEntry();
+    for (let attempt = 0; entry?.state !== 'parked' && attempt < 50; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      entry = await findEntry();
+    }
+    assert.equal(entry?.state, 'parked');
+
+    const notice = await admin(`/${entry.id}/notice`, { method: 'POST', body: JSON.stringify({ message: 'Hello' }) });
+    assert.deepEqual(await notice.json(), { delivered: false, queued: true });
+
+    const terminated = await admin(`/${entry.id}/terminate`, { method: 'POST', body: '{}' });
+    assert.equal(terminated.status, 200);
+    assert.equal(await findEntry(), undefined);
+  });
+});
+
+describe('terminal upgrade limits', () => {
+  const bbs = createMockBbs();
+  let server: ChildProcessWithoutNullStreams | null = null;
+  let httpPort = 0;
+
+  before(async () => {
+    const bbsPort = await bbs.listen();
+    const started = await startServer({
+      CHATTER_BBS_HOST: '127.0.0.1',
+      CHATTER_BBS_PORT: String(bbsPort),
+      CHATTER_BBS_PROTOCOL: 'telnet',
+      CHATTER_MAX_SESSIONS_PER_IP: '1',
+      CHATTER_UPGRADE_BURST: '3',
+      CHATTER_UPGRADES_PER_MINUTE: '1',
+      CHATTER_TRUSTED_PROXIES: '127.0.0.1'
+    });
+    server = started.child;
+    httpPort = started.httpPort;
+  });
+
+  after(async () => {
+    server?.kill();
+    await bbs.close();
+  });
+
+  it('caps sessions per address and the upgrade rate, trusting X-Forwarded-For from proxies', async () => {
+    const first = await requestUpgrade(httpPort);
+    assert.match(first.head, /^HTTP\/1\.1 101 /u);
+
+    const second = await requestUpgrade(httpPort);
+    assert.match(second.head, /^HTTP\/1\.1 429 Too many sessions from this address/u);
+
+    const proxied = await requestUpgrade(httpPort, { 'X-Forwarded-For': '203.0.113.9, 127.0.0.1' });
+    assert.match(proxied.head, /^HTTP\/1\.1 101 /u);
+
+    const third = await requestUpgrade(httpPort);
+    assert.match(third.head, /^HTTP\/1\.1 429 Too many sessions/u);
+    const limited = await requestUpgrade(httpPort);
+    assert.match(limited.head, /^HTTP\/1\.1 429 Too many connection attempts/u);
+    assert.match(limited.head, /\r\nRetry-After: \d+/u);
+
+    first.close();
+    proxied.close();
+  });
+});
+
+describe('terminal origin checks and connect tickets', () => {
+  const bbs = createMockBbs();
+  let server: ChildProcessWithoutNullStreams | null = null;
+  let httpPort = 0;
+
+  before(async () => {
+    const bbsPort = await bbs.listen();
+    const started = await startServer({
+      CHATTER_BBS_HOST: '127.0.0.1',
+      CHATTER_BBS_PORT: String(bbsPort),
+      CHATTER_BBS_PROTOCOL: 'telnet',
+      CHATTER_ALLOWED_ORIGINS: 'https://chat.example, https://app.example',
+      CHATTER_CONNECT_TICKETS: 'on'
+    });
+    server = started.child;
+    httpPort = started.httpPort;
+  });
+
+  after(async () => {
+    server?.kill();
+    await bbs.close();
+  });
+
+  const fetchTicket = (origin: string) =>
+    fetch(`http://127.0.0.1:${httpPort}/terminal/ticket`, { method: 'POST', headers: { Origin: origin } });
+
+  it('rejects foreign origins and upgrades without a ticket', async () => {
+    const foreign = await requestUpgrade(httpPort, { Origin: 'https://evil.example' });
+    assert.match(foreign.head, /^HTTP\/1\.1 403 Origin not allowed/u);
+
+    const missing = await requestUpgrade(httpPort, { Origin: 'https://chat.example' });
+    assert.match(missing.head, /^HTTP\/1\.1 403 Connect ticket required/u);
+
+    assert.equal((await fetchTicket('https://evil.example')).status, 403);
+  });
+
+  it('accepts a ticket once, from the origin it was issued to', async () => {
+    const response = await fetchTicket('https://chat.example');
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('access-control-allow-origin'), 'https://chat.example');
+    const { ticket, expiresAt } = (await response.json()) as { ticket: string; expiresAt: number };
+    assert.ok(expiresAt > Date.now());
+    const path = `/terminal?ticket=${encodeURIComponent(ticket)}`;
+
+    const otherOrigin = await requestUpgrade(httpPort, { Origin: 'https://app.example' }, path);
+    assert.match(otherOrigin.head, /^HTTP\/1\.1 403 Invalid or expired connect ticket/u);
+
+    const accepted = await requestUpgrade(httpPort, { Origin: 'https://chat.example' }, path);
+    assert.match(accepted.head, /^HTTP\/1\.1 101 /u);
+
+    const replayed = await requestUpgrade(httpPort, { Origin: 'https://chat.example' }, path);
+    assert.match(replayed.head, /^HTTP\/1\.1 403 Invalid or expired connect ticket/u);
+    accepted.close();
+  });
+});
+
+describe('terminal target policy', () => {
+  const bbs = createMockBbs();
+  let server: ChildProcessWithoutNullStreams | null = null;
+  let httpPort = 0;
+  let bbsPort = 0;
+
+  before(async () => {
+    bbsPort = await bbs.listen();
+    const started = await startServer({
+      CHATTER_BBS_HOST: '127.0.0.1',
+      CHATTER_BBS_PORT: String(bbsPort),
+      CHATTER_BBS_PROTOCOL: 'telnet',
+      CHATTER_UPGRADE_BURST: '50',
+      CHATTER_TARGET_DENYLIST: '*.blocked.example, *:25, 198.51.100.7',
+      CHATTER_TARGET_ALLOWLIST: '*.example:23, localhost:23, 127.0.0.1:1024-65535, 198.51.*:23, 203.0.113.5:23'
+    });
+    server = started.child;
+    httpPort = started.httpPort;
+  });
+
+  after(async () => {
+    server?.kill();
+    await bbs.close();
+  });
+
+  const upgradeTo = (host: string, port: number) =>
+    requestUpgrade(httpPort, {}, `/terminal?host=${encodeURIComponent(host)}&port=${port}`);
+
+  it('applies the operator lists to overridden hosts and ports', async () => {
+    assert.match((await upgradeTo('bbs.blocked.example', 23)).head, /^HTTP\/1\.1 400 Target not permitted/u);
+    assert.match((await upgradeTo('bbs.other.test', 23)).head, /^HTTP\/1\.1 400 Target not permitted/u);
+    assert.match((await upgradeTo('bbs.example', 2323)).head, /^HTTP\/1\.1 400 Target not permitted/u);
+    assert.match((await upgradeTo('127.0.0.1', 25)).head, /^HTTP\/1\.1 400 Target not permitted/u);
+  });
+
+  it('applies the operator lists to each resolved address as well as the name', async () => {
+    // The resolver expands these short forms without DNS: 198.51.25607 is 198.51.100.7 and 203.0.28933 is 203.0.113.5.
+    assert.match((await upgradeTo('198.51.25607', 23)).head, /^HTTP\/1\.1 400 Target not permitted/u);
+    assert.match((await upgradeTo('203.0.28934', 23)).head, /^HTTP\/1\.1 400 Target not permitted/u);
+    const allowed = await upgradeTo('203.0.28933', 23);
+    assert.match(allowed.head, /^HTTP\/1\.1 101 /u);
+    allowed.close();
+  });
+
+  it('treats the configured host sent back by the client as no override', async () => {
+    // 127.0.0.1 would be refused as an override, but it is the configured target.
+    for (const host of ['127.0.0.1', ' 127.0.0.1 ']) {
+      const configured = await upgradeTo(host, bbsPort);
+      assert.match(configured.head, /^HTTP\/1\.1 101 /u, host);
+      configured.close();
+    }
+    // Other spellings of the same address are still overrides.
+    assert.match((await upgradeTo('127.1', bbsPort)).head, /^HTTP\/1\.1 400 /u);
+    assert.match((await upgradeTo('[::ffff:127.0.0.1]', bbsPort)).head, /^HTTP\/1\.1 400 Host override not permitted/u);
+  });
+
+  it('refuses names that resolve to internal addresses, and internal literals', async () => {
+    // The trailing dot gets past the literal localhost check; the lookup still lands on loopback.
+    assert.match((await upgradeTo('localhost.', 23)).head, /^HTTP\/1\.1 400 Host override not permitted/u);
+    assert.match((await upgradeTo('[::ffff:7f00:1]', 23)).head, /^HTTP\/1\.1 400 Host override not permitted/u);
+    for (const host of [
+      '224.0.0.1',
+      '[0::1]',
+      '[0:0:0:0:0:0:0:1]',
+      '[::0:1]',
+      '[::ffff:127.0.0.1]',
+      '[64:ff9b::7f00:1]',
+      '[2002:7f00:1::1]'
+    ]) {
+      assert.match((await upgradeTo(host, 23)).head, /^HTTP\/1\.1 400 Host override not permitted/u, host);
+    }
+  });
+});
@@ -0,0 +1,266 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { constants as zlibConstants, deflateRawSync, inflateRawSync } from 'node:zlib';
+import type { Socket } from 'node:net';
+import type { TerminalClientContext } from '../src/server.js';
+
+// The server module only listens when CHATTER_LISTEN allows it, so set that before loading it.
+process.env.CHATTER_LISTEN = 'off';
+const { createDataFrame, createTerminalSession, negotiatePerMessageDeflate, processIncomingFrames } = await import(
+  '../src/server.js'
+);
+
+const DEFLATE_TRAILER = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+
+// A masked client frame, as a browser would send it.
+const clientFrame = (opcode: number, payload: Buffer, options: { fin?: boolean; rsv1?: boolean } = {}) => {
+  const { fin = true, rsv1 = false } = options;
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : 4);
+  header[0] = (fin ? 0x80 : 0) | (rsv1 ? 0x40 : 0) | opcode;
+  if (length < 126) {
+    header[1] = 0x80 | length;
+  } else {
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(length, 2);
+  }
+  const mask = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+  const masked = Buffer.alloc(length);
+  for (let index = 0; index < length; index += 1) {
+    masked[index] = payload[index] ^ mask[index % 4];
+  }
+  return Buffer.concat([header, mask, masked]);
+};
+
+type ServerFrame = { opcode: number; compressed: boolean; payload: Buffer };
+
+// Server frames are never masked or fragmented.
+const parseServerFrames = (data: Buffer): ServerFrame[] => {
+  const frames: ServerFrame[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    let length = data[offset + 1] & 0x7f;
+    let start = offset + 2;
+    if (length === 126) {
+      length = data.readUInt16BE(offset + 2);
+      start += 2;
+    } else if (length === 127) {
+      length = data.readUInt32BE(offset + 6);
+      start += 8;
+    }
+    frames.push({
+      opcode: data[offset] & 0x0f,
+      compressed: (data[offset] & 0x40) !== 0,
+      payload: data.subarray(start, start + length)
+    });
+    offset = start + length;
+  }
+  return frames;
+};
+
+type HarnessSession = TerminalClientContext['session'];
+
+const createHarness = (options: { deflate?: boolean; maxMessageBytes?: number; session?: HarnessSession } = {}) => {
+  const written: Buffer[] = [];
+  let paused = false;
+  const socket = {
+    write: (data: Buffer) => {
+      written.push(Buffer.from(data));
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+    },
+    end: () => undefined,
+    destroy: () => undefined
+  } as unknown as Socket;
+  const session =
+    options.session ??
+    createTerminalSession(
+      { host: 'bbs.example', port: 23, protocol: 'telnet' },
+      { cols: 80, rows: 24 },
+      '192.0.2.1',
+      null
+    );
+  const toBbs: Buffer[] = [];
+  session.bridge = {
+    protocol: 'telnet',
+    write: (data: Buffer) => {
+      toBbs.push(Buffer.from(data));
+    },
+    dispose: () => undefined
+  };
+  const context: TerminalClientContext = {
+    remoteAddress: '192.0.2.1',
+    connectedAt: new Date().toISOString(),
+    socket,
+    buffer: Buffer.alloc(0),
+    maxMessageBytes: options.maxMessageBytes ?? 1024,
+    deflate: options.deflate ? { serverMaxWindowBits: 15 } : null,
+    fragments: null,
+    closed: false,
+    sentClose: false,
+    session
+  };
+  session.client = context;
+
+  return {
+    context,
+    feed: (...chunks: Buffer[]) => {
+      for (const chunk of chunks) {
+        context.buffer = Buffer.concat([context.buffer, chunk]);
+        processIncomingFrames(context);
+      }
+    },
+    toBbs: () => Buffer.concat(toBbs).toString('utf8'),
+    paused: () => paused,
+    replies: () => parseServerFrames(Buffer.concat(written)),
+    closeCode: () => {
+      const close = parseServerFrames(Buffer.concat(written)).find((frame) => frame.opcode === 0x8);
+      return close ? close.payload.readUInt16BE(0) : null;
+    }
+  };
+};
+
+const compress = (text: string) => {
+  const deflated = deflateRawSync(Buffer.from(text), { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+  return deflated.subarray(0, deflated.length - DEFLATE_TRAILER.length);
+};
+
+describe('websocket frame reader', () => {
+  it('reassembles fragmented messages, answering pings that arrive between fragments', () => {
+    const harness = createHarness();
+    harness.feed(
+      clientFrame(0x2, Buffer.from('hel'), { fin: false }),
+      clientFrame(0x9, Buffer.from('probe')),
+      clientFrame(0x0, Buffer.from('lo '), { fin: false }),
+      clientFrame(0xa, Buffer.alloc(0)),
+      clientFrame(0x0, Buffer.from('world'))
+    );
+    assert.equal(harness.toBbs(), 'hello world');
+    const pong = harness.replies().find((frame) => frame.opcode === 0xa);
+    assert.equal(pong?.payload.toString(), 'probe');
+    assert.equal(harness.closeCode(), null);
+  });
+
+  it('waits for frames split across socket reads', () => {
+    const harness = createHarness();
+    const frame = clientFrame(0x2, Buffer.from('x'.repeat(200)));
+    for (let index = 0; index < frame.length; index += 7) {
+      harness.feed(frame.subarray(index, index + 7));
+    }
+    assert.equal(harness.toBbs(), 'x'.repeat(200));
+  });
+
+  it('routes fragmented text frames to the control handler rather than the BBS', () => {
+    const harness = createHarness();
+    const envelope = Buffer.from(JSON.stringify({ v: 1, type: 'latency', id: 7, sentAt: 1 }));
+    harness.feed(
+      clientFrame(0x1, envelope.subarray(0, 10), { fin: false }),
+      clientFrame(0x0, envelope.subarray(10))
+    );
+    assert.equal(harness.toBbs(), '');
+    const reply = harness.replies().find((frame) => frame.opcode === 0x1);
+    assert.equal(JSON.parse(reply?.payload.toString() ?? '{}').id, 7);
+  });
+
+  it('rejects protocol violations with 1002', () => {
+    const unmasked = createHarness();
+    unmasked.feed(Buffer.from([0x82, 0x01, 0x41]));
+    assert.equal(unmasked.closeCode(), 1002);
+
+    const continuation = createHarness();
+    continuation.feed(clientFrame(0x0, Buffer.from('stray')));
+    assert.equal(continuation.closeCode(), 1002);
+
+    const interleaved = createHarness();
+    interleaved.feed(clientFrame(0x2, Buffer.from('a'), { fin: false }), clientFrame(0x2, Buffer.from('b')));
+    assert.equal(interleaved.closeCode(), 1002);
+
+    const compressedWithoutDeflate = createHarness();
+    compressedWithoutDeflate.feed(clientFrame(0x2, compress('hi'), { rsv1: true }));
+    assert.equal(compressedWithoutDeflate.closeCode(), 1002);
+  });
+
+  it('closes with 1009 when a message outgrows the limit', () => {
+    const single = createHarness({ maxMessageBytes: 16 });
+    single.feed(clientFrame(0x2, Buffer.alloc(17)));
+    assert.equal(single.closeCode(), 1009);
+
+    const fragmented = createHarness({ maxMessageBytes: 16 });
+    fragmented.feed(clientFrame(0x2, Buffer.alloc(10), { fin: false }), clientFrame(0x0, Buffer.alloc(10)));
+    assert.equal(fragmented.closeCode(), 1009);
+    assert.equal(fragmented.toBbs(), '');
+
+    // A small compressed frame can still inflate past the limit.
+    const inflated = createHarness({ deflate: true, maxMessageBytes: 64 });
+    inflated.feed(clientFrame(0x2, compress('a'.repeat(1000)), { rsv1: true }));
+    assert.equal(inflated.closeCode(), 1009);
+  });
+
+  it('holds input over the allowance until the session bucket refills, across reconnects', async () => {
+    process.env.CHATTER_INPUT_BYTES_PER_SECOND = '100';
+    try {
+      const harness = createHarness();
+      harness.feed(clientFrame(0x2, Buffer.from('a'.repeat(80))), clientFrame(0x2, Buffer.from('b'.repeat(40))));
+      assert.equal(harness.toBbs(), 'a'.repeat(80));
+      assert.equal(harness.paused(), true);
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      assert.equal(harness.toBbs(), `${'a'.repeat(80)}${'b'.repeat(40)}`);
+      assert.equal(harness.paused(), false);
+
+      // A new socket for the same session does not start with a fresh allowance.
+      const resumed = createHarness({ session: harness.context.session });
+      resumed.feed(clientFrame(0x2, Buffer.from('c'.repeat(80))));
+      assert.equal(resumed.toBbs(), '');
+      assert.equal(resumed.paused(), true);
+      resumed.context.closed = true;
+    } finally {
+      delete process.env.CHATTER_INPUT_BYTES_PER_SECOND;
+    }
+  });
+});
+
+describe('permessage-deflate', () => {
+  it('inflates compressed client messages, fragmented or not', () => {
+    const harness = createHarness({ deflate: true });
+    harness.feed(clientFrame(0x2, compress('compressed input')));
+    harness.feed(clientFrame(0x2, compress('compressed input'), { rsv1: true }));
+    const payload = compress(' and more');
+    harness.feed(
+      clientFrame(0x2, payload.subarray(0, 3), { fin: false, rsv1: true }),
+      clientFrame(0x0, payload.subarray(3))
+    );
+    assert.equal(harness.closeCode(), null);
+    // The first frame had no RSV1, so its bytes went through untouched.
+    assert.ok(harness.toBbs().endsWith('compressed input and more'));
+  });
+
+  it('compresses outgoing frames only when it pays off', () => {
+    const { context } = createHarness({ deflate: true });
+    const large = Buffer.from('output line\r\n'.repeat(20));
+    const [frame] = parseServerFrames(createDataFrame(context, large, 0x2));
+    assert.equal(frame.compressed, true);
+    const inflated = inflateRawSync(Buffer.concat([frame.payload, DEFLATE_TRAILER]), {
+      finishFlush: zlibConstants.Z_SYNC_FLUSH
+    });
+    assert.equal(inflated.toString(), large.toString());
+
+    const [small] = parseServerFrames(createDataFrame(context, Buffer.from('ok'), 0x2));
+    assert.equal(small.compressed, false);
+  });
+
+  it('negotiates only offers it can honour', () => {
+    assert.equal(negotiatePerMessageDeflate(undefined), null);
+    assert.equal(negotiatePerMessageDeflate('permessage-deflate; unknown_param'), null);
+    assert.equal(negotiatePerMessageDeflate('permessage-deflate; server_max_window_bits=8'), null);
+
+    const accepted = negotiatePerMessageDeflate(
+      'permessage-deflate; server_max_window_bits=8, permessage-deflate; client_max_window_bits; server_max_window_bits=10'
+    );
+    assert.equal(accepted?.settings.serverMaxWindowBits, 10);
+    assert.match(accepted?.response ?? '', /^permessage-deflate; server_no_context_takeover; client_no_context_takeover/u);
+  });
+});
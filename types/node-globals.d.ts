@@ -14,6 +14,9 @@ declare module 'node:http' {
     url?: string;
     method?: string;
     headers?: Record<string, string | string[] | undefined>;
+    socket: import('node:net').Socket;
+    on(event: string, listener: (...args: any[]) => void): this;
+    destroy(): void;
   }
 
   export interface ServerResponse {
@@ -28,6 +31,7 @@ declare module 'node:http' {
   export interface Server {
     listen(port: number, hostname: string, listener?: () => void): void;
     on(event: 'upgrade', listener: (req: IncomingMessage, socket: any, head: Buffer) => void): void;
+    on(event: 'close', listener: () => void): void;
   }
 
   export function createServer(listener: RequestListener): Server;
@@ -39,7 +43,15 @@ declare module 'node:fs' {
     pipe(destination: any): any;
   }
 
+  export interface WriteStream {
+    on(event: string, listener: (...args: any[]) => void): this;
+    write(chunk: string | Buffer): boolean;
+    end(): void;
+  }
+
   export function createReadStream(path: string): ReadStream;
+  export function createWriteStream(path: string, options?: { flags?: string; mode?: number }): WriteStream;
+  export function mkdirSync(path: string, options?: { recursive?: boolean; mode?: number }): string | undefined;
 }
 
 declare module 'node:fs/promises' {
@@ -63,22 +75,42 @@ declare module 'node:url' {
 
 declare module 'node:crypto' {
   export function createHash(algorithm: string): any;
+  export function createHmac(algorithm: string, key: string): any;
+  export function randomBytes(size: number): Buffer;
+}
+
+declare module 'node:zlib' {
+  export const constants: Record<string, number>;
+  export function deflateRawSync(buffer: Buffer, options?: any): Buffer;
+  export function inflateRawSync(buffer: Buffer, options?: any): Buffer;
 }
 
 declare module 'node:net' {
   export interface Socket {
+    readonly remoteAddress?: string;
+    readonly destroyed: boolean;
     on(event: string, listener: (...args: any[]) => void): this;
     write(data: any): void;
     end(): void;
     destroy(): void;
     setNoDelay(noDelay: boolean): void;
     setKeepAlive(enable?: boolean, initialDelay?: number): void;
+    pause(): this;
+    resume(): this;
   }
   export function connect(options: any, callback?: () => void): Socket;
   export function isIP(input: string): number;
   export { Socket as Socket };
 }
 
+declare module 'node:dns/promises' {
+  export interface LookupAddress {
+    address: string;
+    family: number;
+  }
+  export function lookup(hostname: string, options: { all: true; verbatim?: boolean }): Promise<LookupAddress[]>;
+}
+
 declare module 'node:child_process' {
   export interface ChildProcessWithoutNullStreams {
     stdin: any;
@@ -93,6 +125,7 @@ declare module 'node:child_process' {
 declare const process: {
   env: Record<string, string | undefined>;
   argv: string[];
+  execPath: string;
   exitCode?: number;
 };
 
@@ -7,6 +7,7 @@ interface ChatterRuntimeConfig {
   bbsHostPlaceholder?: string;
   bbsHostDefault?: string;
   webServiceDomain?: string;
+  connectTickets?: 'required';
 }
 
 declare global {